@@ -0,0 +1,349 @@
+import { readFileSync } from "node:fs";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestContext,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  collectionGroup,
+  deleteDoc,
+  doc,
+  documentId,
+  endAt,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+  startAt,
+  Timestamp,
+  updateDoc,
+  type DocumentData,
+  type Firestore,
+} from "firebase/firestore";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION } from "@/domain/dataArchive";
+import { importUserData } from "@/lib/dataExport";
+import type { DataArchive } from "@/types/dataArchive";
+
+/*
+ * firestore.rules 검사. Firestore 에뮬레이터에서만 돈다 (npm run test:rules).
+ * alice가 주인, bob은 다른 사용자.
+ */
+
+const OWNER = "alice";
+const OTHER = "bob";
+
+let env: RulesTestEnvironment;
+
+const dbOf = (context: RulesTestContext) => context.firestore() as unknown as Firestore;
+const asOwner = () => dbOf(env.authenticatedContext(OWNER));
+const asOther = () => dbOf(env.authenticatedContext(OTHER));
+const asGuest = () => dbOf(env.unauthenticatedContext());
+
+/** 규칙을 끄고 미리 넣어 둔다 */
+const seed = (path: string, data: DocumentData) =>
+  env.withSecurityRulesDisabled((context) => setDoc(doc(dbOf(context), path), data));
+
+beforeAll(async () => {
+  env = await initializeTestEnvironment({
+    projectId: "demo-to-day",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+afterAll(async () => {
+  await env.cleanup();
+});
+
+beforeEach(async () => {
+  await env.clearFirestore();
+});
+
+/** users/{uid} 아래 컬렉션마다 규칙을 통과하는 문서 하나 */
+const OWNER_DOCS: Array<{ name: string; path: string; data: DocumentData }> = [
+  { name: "users", path: "", data: {} },
+  { name: "settings", path: "settings/main", data: { timeZone: "Asia/Seoul", carryOverMaxHops: 3 } },
+  { name: "days", path: "days/2025-03-01", data: { content: "" } },
+  { name: "todos", path: "days/2025-03-01/todos/t1", data: { text: "단어 외우기", done: false } },
+  { name: "designPlans", path: "designPlans/p1", data: { title: "영어" } },
+  { name: "yearGoals", path: "yearGoals/p1", data: { designPlanId: "p1", yearGoal: "토익 900" } },
+  { name: "goalTracks", path: "goalTracks/g1", data: { designPlanId: "p1", title: "단어" } },
+  {
+    name: "goalTrackEvents",
+    path: "goalTrackEvents/g1_t1_2025-03-01",
+    data: { goalTrackId: "g1", todoId: "t1", dateKey: "2025-03-01" },
+  },
+  {
+    name: "goalTrackWeeklyReviews",
+    path: "goalTrackWeeklyReviews/g1_2025-02-24",
+    data: { goalTrackId: "g1", weekStartKey: "2025-02-24", status: "STEADY" },
+  },
+  {
+    name: "recurrences",
+    path: "recurrences/r1",
+    data: {
+      text: "운동",
+      rule: { kind: "daily" },
+      startDateKey: "2025-03-01",
+      endDateKey: null,
+      skippedDateKeys: [],
+    },
+  },
+  { name: "records", path: "records/rec1", data: { content: "오늘 기록", goalTrackId: null } },
+  {
+    name: "protectSessions",
+    path: "protectSessions/2025-03-01_w1",
+    data: { dateKey: "2025-03-01", windowId: "w1", start: "20:00", end: "22:00" },
+  },
+  {
+    name: "protectBypasses",
+    path: "protectBypasses/b1",
+    data: { sessionId: null, dateKey: "2025-03-01", appId: "yt", appLabel: "YouTube", minutes: 10 },
+  },
+  {
+    name: "effectLogs",
+    path: "effectLogs/2025-03-01_t1",
+    data: { todoId: "t1", dateKey: "2025-03-01", effects: [], goalTrackId: null },
+  },
+  {
+    name: "routineRuns",
+    path: "routineRuns/rt1_2025-03-01",
+    data: { routineId: "rt1", dateKey: "2025-03-01", completed: false },
+  },
+  { name: "events", path: "events/e1", data: { title: "약속", dateKey: "2025-03-01", time: "" } },
+  { name: "pushTokens", path: "pushTokens/tok1", data: { token: "tok1" } },
+];
+
+const userPath = (uid: string, path: string) => (path ? `users/${uid}/${path}` : `users/${uid}`);
+
+describe.each(OWNER_DOCS)("users/{uid}/$name", ({ path, data }) => {
+  const ownerPath = userPath(OWNER, path);
+
+  it("본인은 쓰고 읽고 지운다", async () => {
+    const db = asOwner();
+    await assertSucceeds(setDoc(doc(db, ownerPath), data));
+    await assertSucceeds(getDoc(doc(db, ownerPath)));
+    await assertSucceeds(deleteDoc(doc(db, ownerPath)));
+  });
+
+  it("다른 사용자는 읽지도 쓰지도 못한다", async () => {
+    await seed(ownerPath, data);
+    const db = asOther();
+    await assertFails(getDoc(doc(db, ownerPath)));
+    await assertFails(setDoc(doc(db, ownerPath), data));
+    await assertFails(deleteDoc(doc(db, ownerPath)));
+  });
+
+  it("로그인하지 않으면 읽지도 쓰지도 못한다", async () => {
+    await seed(ownerPath, data);
+    const db = asGuest();
+    await assertFails(getDoc(doc(db, ownerPath)));
+    await assertFails(setDoc(doc(db, ownerPath), data));
+  });
+});
+
+describe("필드 검사", () => {
+  it("settings: hop 수는 MAX_CARRY_OVER_HOPS(10)까지", async () => {
+    const ref = doc(asOwner(), userPath(OWNER, "settings/main"));
+    await assertSucceeds(setDoc(ref, { carryOverMaxHops: 10 }));
+    await assertFails(setDoc(ref, { carryOverMaxHops: 11 }));
+  });
+
+  it("settings: main 문서만", async () => {
+    await assertFails(setDoc(doc(asOwner(), userPath(OWNER, "settings/other")), {}));
+  });
+
+  it("days: dateKey 모양이 아니면 막는다", async () => {
+    await assertFails(setDoc(doc(asOwner(), userPath(OWNER, "days/today")), {}));
+  });
+
+  it("effectLogs: 문서 id는 dateKey_todoId", async () => {
+    await assertFails(
+      setDoc(doc(asOwner(), userPath(OWNER, "effectLogs/wrong")), {
+        todoId: "t1",
+        dateKey: "2025-03-01",
+        effects: [],
+        goalTrackId: null,
+      })
+    );
+  });
+
+  it("pushTokens: 문서 id와 token이 같아야 한다", async () => {
+    await assertFails(
+      setDoc(doc(asOwner(), userPath(OWNER, "pushTokens/tok1")), { token: "tok2" })
+    );
+  });
+});
+
+describe("todoInterventions (추가만)", () => {
+  const path = userPath(OWNER, "days/2025-03-01/todoInterventions/i1");
+  const data = { todoId: "t1", reasonType: "HARD_TO_START", kind: "REASON_SELECTED" };
+
+  it("본인은 추가하고 읽는다. 고치거나 지우지는 못한다", async () => {
+    const db = asOwner();
+    await assertSucceeds(setDoc(doc(db, path), data));
+    await assertSucceeds(getDoc(doc(db, path)));
+    await assertFails(updateDoc(doc(db, path), { kind: "COMPLETED_CONFIRMED" }));
+    await assertFails(deleteDoc(doc(db, path)));
+  });
+
+  it("다른 사용자는 읽지도 쓰지도 못한다", async () => {
+    await seed(path, data);
+    await assertFails(getDoc(doc(asOther(), path)));
+    await assertFails(setDoc(doc(asOther(), userPath(OWNER, "days/2025-03-01/todoInterventions/i2")), data));
+  });
+});
+
+describe.each([
+  { name: "notificationLogs", path: "notificationLogs/l1", data: { status: "sent" } },
+  { name: "aiUsage", path: "aiUsage/2025-03-01", data: { count: 1 } },
+])("users/{uid}/$name (서버만 쓴다)", ({ path, data }) => {
+  const ownerPath = userPath(OWNER, path);
+
+  it("본인은 읽기만 한다", async () => {
+    await seed(ownerPath, data);
+    const db = asOwner();
+    await assertSucceeds(getDoc(doc(db, ownerPath)));
+    await assertFails(setDoc(doc(db, ownerPath), data));
+    await assertFails(updateDoc(doc(db, ownerPath), data));
+    await assertFails(deleteDoc(doc(db, ownerPath)));
+  });
+
+  it("없는 문서도 만들 수 없다", async () => {
+    await assertFails(setDoc(doc(asOwner(), ownerPath), data));
+  });
+
+  it("다른 사용자는 읽지 못한다", async () => {
+    await seed(ownerPath, data);
+    await assertFails(getDoc(doc(asOther(), ownerPath)));
+  });
+});
+
+describe("notificationJobs", () => {
+  const job = (userId: string) => ({
+    userId,
+    type: "todoDue",
+    dedupeKey: "2025-03-01_t1_before",
+    fireAt: Timestamp.fromDate(new Date("2025-03-01T08:50:00Z")),
+    recurrence: null,
+    payload: { title: "투두 마감", body: "", link: "/", data: {} },
+  });
+  const jobPath = `notificationJobs/${OWNER}_todoDue_2025-03-01_t1_before`;
+
+  it("본인 예약은 {uid}_{type}_{dedupeKey} id로만 만든다", async () => {
+    const db = asOwner();
+    await assertSucceeds(setDoc(doc(db, jobPath), job(OWNER)));
+    await assertSucceeds(getDoc(doc(db, jobPath)));
+    await assertFails(setDoc(doc(db, "notificationJobs/custom"), job(OWNER)));
+    await assertSucceeds(deleteDoc(doc(db, jobPath)));
+  });
+
+  it("스케줄러가 모르는 종류는 만들 수 없다", async () => {
+    await assertFails(
+      setDoc(doc(asOwner(), `notificationJobs/${OWNER}_routine_rt1`), {
+        ...job(OWNER),
+        type: "routine",
+        dedupeKey: "rt1",
+      })
+    );
+  });
+
+  it("다른 사용자 이름으로 만들거나 남의 예약을 읽지 못한다", async () => {
+    await assertFails(setDoc(doc(asOther(), jobPath), job(OWNER)));
+    await seed(jobPath, job(OWNER));
+    await assertFails(getDoc(doc(asOther(), jobPath)));
+    await assertFails(deleteDoc(doc(asOther(), jobPath)));
+  });
+});
+
+describe("컬렉션 그룹 (match /{path=**}/todos/{todoId})", () => {
+  /** dataExport·effectLogs 백필과 같은 모양: 문서 경로 users/{uid} 범위 */
+  const userScoped = (db: Firestore, name: string, uid: string) =>
+    query(
+      collectionGroup(db, name),
+      orderBy(documentId()),
+      startAt(`users/${uid}`),
+      endAt(`users/${uid}\uf8ff`)
+    );
+
+  beforeEach(async () => {
+    await seed(userPath(OWNER, "days/2025-03-01/todos/t1"), { text: "alice", done: false });
+    await seed(userPath(OTHER, "days/2025-03-01/todos/t2"), { text: "bob", done: false });
+  });
+
+  it("본인 경로 범위의 todos는 읽는다", async () => {
+    await assertSucceeds(getDocs(userScoped(asOwner(), "todos", OWNER)));
+  });
+
+  it("다른 사용자 경로 범위는 막는다", async () => {
+    await assertFails(getDocs(userScoped(asOwner(), "todos", OTHER)));
+  });
+
+  it("범위 없이 모든 사용자의 todos를 읽지 못한다", async () => {
+    await assertFails(getDocs(collectionGroup(asOwner(), "todos")));
+    await assertFails(getDocs(collectionGroup(asGuest(), "todos")));
+  });
+
+  it("todoInterventions도 같은 규칙", async () => {
+    await assertSucceeds(getDocs(userScoped(asOwner(), "todoInterventions", OWNER)));
+    await assertFails(getDocs(userScoped(asOwner(), "todoInterventions", OTHER)));
+  });
+});
+
+describe("데이터 가져오기 (importUserData)", () => {
+  const archive = (sourceUserId: string): DataArchive => ({
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: "2025-03-02T00:00:00.000Z",
+    sourceUserId,
+    settings: null,
+    days: [
+      {
+        dateKey: "2025-03-01",
+        log: null,
+        todos: [{ id: "t1", data: { text: "단어 외우기", done: false } }],
+        todoInterventions: [
+          {
+            id: "i1",
+            data: { todoId: "t1", reasonType: "HARD_TO_START", kind: "REASON_SELECTED" },
+          },
+        ],
+      },
+    ],
+    designPlans: [],
+    yearGoals: [],
+    goalTracks: [],
+    goalTrackEvents: [],
+    goalTrackWeeklyReviews: [],
+    recurrences: [],
+    records: [],
+    events: [],
+  });
+
+  const countInterventions = async () =>
+    (
+      await getDocs(
+        query(
+          collectionGroup(asOwner(), "todoInterventions"),
+          orderBy(documentId()),
+          startAt(`users/${OWNER}`),
+          endAt(`users/${OWNER}\uf8ff`)
+        )
+      )
+    ).size;
+
+  it("다른 계정 파일을 두 번 가져와도 실패하지 않고 중복도 없다", async () => {
+    await assertSucceeds(importUserData(asOwner(), OWNER, archive(OTHER)));
+    await assertSucceeds(importUserData(asOwner(), OWNER, archive(OTHER)));
+    expect(await countInterventions()).toBe(1);
+  });
+
+  it("같은 계정으로 되돌려도 이미 있는 개입 기록 때문에 막히지 않는다", async () => {
+    await assertSucceeds(importUserData(asOwner(), OWNER, archive(OWNER)));
+    await assertSucceeds(importUserData(asOwner(), OWNER, archive(OWNER)));
+    expect(await countInterventions()).toBe(1);
+  });
+});
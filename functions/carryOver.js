@@ -0,0 +1,77 @@
+/*
+ * 미완료 투두 이월 규칙.
+ * Cloud Functions(carryOverTodos)와 앱(src/domain/carryOver.ts에서 다시 내보냄)이 같은 파일을 쓴다.
+ * firestore.rules의 carryOverMaxHops 상한도 MAX_CARRY_OVER_HOPS와 맞춘다.
+ */
+
+const { addDaysToDateKey, toDateKey, toTimeHHMM, zonedTimeToDate } = require("./dateKey");
+
+/** @type {Array<"move" | "copy" | "off">} */
+const CARRY_OVER_MODES = ["move", "copy", "off"];
+/** @type {"move" | "copy" | "off"} */
+const DEFAULT_CARRY_OVER_MODE = "move";
+/** 이 횟수만큼 넘어간 투두는 더 옮기지 않고 결정 대기로 남긴다 */
+const DEFAULT_CARRY_OVER_MAX_HOPS = 3;
+/** 설정할 수 있는 최대 hop 수 */
+const MAX_CARRY_OVER_HOPS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 투두 하나에 대한 이월 판단.
+ * 반복 투두는 규칙이 매일 새로 만들므로 이월하지 않는다.
+ * @param {{ done: boolean, recurrenceId?: string | null, carryOverCount?: number, carryOverStale?: boolean, carriedToDateKey?: string | null }} todo
+ * @param {number} maxHops
+ * @returns {"carry" | "stale" | "skip"}
+ */
+const decideCarryOver = (todo, maxHops) => {
+  if (todo.done || todo.recurrenceId || todo.carryOverStale) return "skip";
+  if (todo.carriedToDateKey) return "skip";
+  if ((todo.carryOverCount ?? 0) >= maxHops) return "stale";
+  return "carry";
+};
+
+/**
+ * @param {unknown} value
+ * @returns {value is "move" | "copy" | "off"}
+ */
+const isCarryOverMode = (value) =>
+  CARRY_OVER_MODES.includes(/** @type {"move" | "copy" | "off"} */ (value));
+
+/**
+ * Firestore 값 → 1~MAX_CARRY_OVER_HOPS 사이 hop 수
+ * @param {unknown} value
+ * @returns {number}
+ */
+const normalizeCarryOverMaxHops = (value) =>
+  typeof value === "number" && value >= 1 && value <= MAX_CARRY_OVER_HOPS
+    ? Math.floor(value)
+    : DEFAULT_CARRY_OVER_MAX_HOPS;
+
+/**
+ * 이월한 투두의 마감을 옮긴 날수만큼 민다. 사용자 시간대의 벽시계 시각은 그대로 둔다
+ * @param {Date} dueAt
+ * @param {string} fromKey
+ * @param {string} toKey
+ * @param {string} timeZone
+ * @returns {Date}
+ */
+const shiftDueAt = (dueAt, fromKey, toKey, timeZone) => {
+  const days = Math.round((Date.parse(toKey) - Date.parse(fromKey)) / DAY_MS);
+  return zonedTimeToDate(
+    addDaysToDateKey(toDateKey(dueAt, timeZone), days),
+    toTimeHHMM(dueAt, timeZone),
+    timeZone
+  );
+};
+
+module.exports = {
+  CARRY_OVER_MODES,
+  DEFAULT_CARRY_OVER_MODE,
+  DEFAULT_CARRY_OVER_MAX_HOPS,
+  MAX_CARRY_OVER_HOPS,
+  decideCarryOver,
+  isCarryOverMode,
+  normalizeCarryOverMaxHops,
+  shiftDueAt,
+};
@@ -0,0 +1,240 @@
+/*
+ * 시간대 기준 dateKey 계산 (Intl 기반).
+ * Cloud Functions와 앱(src/lib/dateKey.ts에서 다시 내보냄)이 같은 파일을 쓴다.
+ * 배포는 functions 폴더만 올라가므로 이 파일은 functions 안에 두고 의존성 없이 유지한다.
+ */
+
+const DEFAULT_TIME_ZONE = "Asia/Seoul";
+/** 하루가 시작되는 시각 (이 시각 전까지는 전날로 본다) */
+const DEFAULT_DAY_STARTS_AT = "00:00";
+/** 하루 시작은 정오 전까지만 허용한다 */
+const MAX_DAY_START_MINUTES = 12 * 60;
+
+const pad = (value) => String(value).padStart(2, "0");
+
+/** @type {Map<string, Intl.DateTimeFormat>} */
+const formatterCache = new Map();
+
+/**
+ * @param {string} timeZone
+ * @returns {Intl.DateTimeFormat}
+ */
+const getFormatter = (timeZone) => {
+  const cached = formatterCache.get(timeZone);
+  if (cached) return cached;
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  formatterCache.set(timeZone, formatter);
+  return formatter;
+};
+
+/**
+ * IANA 시간대 이름인지 (Intl이 받아 주는지) 확인
+ * @param {unknown} timeZone
+ * @returns {timeZone is string}
+ */
+const isValidTimeZone = (timeZone) => {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 잘못된 값이면 기본 시간대
+ * @param {unknown} timeZone
+ * @returns {string}
+ */
+const resolveTimeZone = (timeZone) =>
+  isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE;
+
+/**
+ * 기기 시간대. 알 수 없으면 기본 시간대
+ * @returns {string}
+ */
+const getDeviceTimeZone = () => {
+  try {
+    return resolveTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+};
+
+/**
+ * 시간대 기준 연·월·일·시·분
+ * @param {Date} date
+ * @param {string} timeZone
+ * @returns {{ year: number, month: number, day: number, hour: number, minute: number }}
+ */
+const getZonedParts = (date, timeZone) => {
+  /** @type {Record<string, number>} */
+  const values = {};
+  for (const part of getFormatter(resolveTimeZone(timeZone)).formatToParts(date)) {
+    if (part.type !== "literal") values[part.type] = Number(part.value);
+  }
+  return {
+    year: values.year ?? 0,
+    month: values.month ?? 1,
+    day: values.day ?? 1,
+    hour: (values.hour ?? 0) % 24,
+    minute: values.minute ?? 0,
+  };
+};
+
+/**
+ * 시간대 기준 dateKey (YYYY-MM-DD)
+ * @param {Date} date
+ * @param {string} timeZone
+ * @returns {string}
+ */
+const toDateKey = (date, timeZone) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * 시간대 기준 시각 (HH:MM)
+ * @param {Date} date
+ * @param {string} timeZone
+ * @returns {string}
+ */
+const toTimeHHMM = (date, timeZone) => {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return `${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * "HH:MM" 하루 시작 시각 → 분. 형식이 틀리거나 범위를 벗어나면 0 (자정)
+ * @param {unknown} dayStartsAt
+ * @returns {number}
+ */
+const parseDayStartMinutes = (dayStartsAt) => {
+  if (typeof dayStartsAt !== "string") return 0;
+  const match = /^([01][0-9]|2[0-3]):([0-5][0-9])$/.exec(dayStartsAt);
+  if (!match) return 0;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes < MAX_DAY_START_MINUTES ? minutes : 0;
+};
+
+/**
+ * 하루 시작 시각을 반영한 dateKey. 예) 03:00 시작이면 01:00은 전날
+ * @param {Date} date
+ * @param {string} timeZone
+ * @param {unknown} dayStartsAt
+ * @returns {string}
+ */
+const toDayKey = (date, timeZone, dayStartsAt) => {
+  const key = toDateKey(date, timeZone);
+  const startMinutes = parseDayStartMinutes(dayStartsAt);
+  if (startMinutes === 0) return key;
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return hour * 60 + minute < startMinutes ? addDaysToDateKey(key, -1) : key;
+};
+
+/**
+ * dateKey → 그 날짜의 UTC 자정. 날짜 계산은 시간대와 무관하게 이 값으로만 한다
+ * @param {string} dateKey
+ * @returns {Date}
+ */
+const dateKeyToUTCDate = (dateKey) => {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+/**
+ * dateKey에 N일 더하기 (시간대·서머타임 영향 없음)
+ * @param {string} dateKey
+ * @param {number} days
+ * @returns {string}
+ */
+const addDaysToDateKey = (dateKey, days) => {
+  const date = dateKeyToUTCDate(dateKey);
+  date.setUTCDate(date.getUTCDate() + days);
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+/**
+ * dateKey의 요일. 0=일 … 6=토
+ * @param {string} dateKey
+ * @returns {number}
+ */
+const getWeekdayFromDateKey = (dateKey) => dateKeyToUTCDate(dateKey).getUTCDay();
+
+/**
+ * dateKey가 속한 주의 월요일 dateKey
+ * @param {string} dateKey
+ * @returns {string}
+ */
+const getWeekStartKeyFromDateKey = (dateKey) => {
+  const weekday = getWeekdayFromDateKey(dateKey);
+  return addDaysToDateKey(dateKey, weekday === 0 ? -6 : 1 - weekday);
+};
+
+/**
+ * 시간대의 벽시계 시각 → 실제 시각. 서머타임으로 건너뛴 시각이면 건너뛴 만큼 뒤
+ * @param {string} dateKey
+ * @param {string} timeHHMM
+ * @param {string} timeZone
+ * @returns {Date}
+ */
+const zonedTimeToDate = (dateKey, timeHHMM, timeZone) => {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const [hh, mm] = timeHHMM.split(":").map(Number);
+  const wallMillis = Date.UTC(y, m - 1, d, hh, mm);
+  const shownMillis = (millis) => {
+    const shown = getZonedParts(new Date(millis), timeZone);
+    return Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute);
+  };
+  // 오프셋만큼 두 번 보정한다. 그래도 모자라면(없는 시각) 앞으로 민다
+  let guess = wallMillis;
+  for (let i = 0; i < 2; i += 1) guess += wallMillis - shownMillis(guess);
+  const shortBy = wallMillis - shownMillis(guess);
+  return new Date(shortBy > 0 ? guess + shortBy : guess);
+};
+
+/**
+ * 반복 알림의 after 다음 시각. weekdays(0=일 … 6=토)가 비어 있으면 매일
+ * @param {{ time: string, timeZone: string, weekdays?: number[] }} recurrence
+ * @param {Date} after
+ * @returns {Date | null}
+ */
+const getNextRecurrenceFireAt = (recurrence, after) => {
+  const timeZone = resolveTimeZone(recurrence.timeZone);
+  const weekdays = Array.isArray(recurrence.weekdays) ? recurrence.weekdays : [];
+  const startKey = toDateKey(after, timeZone);
+  for (let i = 0; i <= 7; i += 1) {
+    const dateKey = addDaysToDateKey(startKey, i);
+    if (weekdays.length > 0 && !weekdays.includes(getWeekdayFromDateKey(dateKey))) continue;
+    const fireAt = zonedTimeToDate(dateKey, recurrence.time, timeZone);
+    if (fireAt.getTime() > after.getTime()) return fireAt;
+  }
+  return null;
+};
+
+module.exports = {
+  DEFAULT_TIME_ZONE,
+  DEFAULT_DAY_STARTS_AT,
+  parseDayStartMinutes,
+  toDayKey,
+  isValidTimeZone,
+  resolveTimeZone,
+  getDeviceTimeZone,
+  getZonedParts,
+  toDateKey,
+  toTimeHHMM,
+  addDaysToDateKey,
+  getWeekdayFromDateKey,
+  getWeekStartKeyFromDateKey,
+  zonedTimeToDate,
+  getNextRecurrenceFireAt,
+};
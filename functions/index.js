@@ -1,38 +1,38 @@
 const admin = require("firebase-admin");
 const { onSchedule } = require("firebase-functions/v2/scheduler");
 const { logger } = require("firebase-functions");
+const {
+  DEFAULT_TIME_ZONE,
+  addDaysToDateKey,
+  getNextRecurrenceFireAt,
+  getWeekStartKeyFromDateKey,
+  isValidTimeZone,
+  resolveTimeZone,
+  toDayKey,
+} = require("./dateKey");
+const {
+  DEFAULT_CARRY_OVER_MODE,
+  decideCarryOver,
+  isCarryOverMode,
+  normalizeCarryOverMaxHops,
+  shiftDueAt,
+} = require("./carryOver");
+const {
+  TODO_REMINDER_KINDS,
+  buildDueReminderSlots,
+  buildTodoDueDedupeKey,
+  buildTodoDuePayload,
+  normalizeDueReminderLeadMinutes,
+} = require("./todoReminder");
 
 admin.initializeApp();
 
 const db = admin.firestore();
-const TIME_ZONE = process.env.TO_DAY_TIME_ZONE || "Asia/Seoul";
+// 설정에 timeZone이 없는 (예전) 사용자의 기준 시간대
+const TIME_ZONE = resolveTimeZone(process.env.TO_DAY_TIME_ZONE || DEFAULT_TIME_ZONE);
 
-const getDateKey = (date) => {
-  const formatter = new Intl.DateTimeFormat("en-CA", {
-    timeZone: TIME_ZONE,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  });
-  const parts = formatter.formatToParts(date);
-  const year = parts.find((part) => part.type === "year")?.value ?? "0000";
-  const month = parts.find((part) => part.type === "month")?.value ?? "00";
-  const day = parts.find((part) => part.type === "day")?.value ?? "00";
-  return `${year}-${month}-${day}`;
-};
-
-const getTimeHHMM = (date) => {
-  const formatter = new Intl.DateTimeFormat("en-GB", {
-    timeZone: TIME_ZONE,
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  });
-  const parts = formatter.formatToParts(date);
-  const hour = parts.find((part) => part.type === "hour")?.value ?? "00";
-  const minute = parts.find((part) => part.type === "minute")?.value ?? "00";
-  return `${hour}:${minute}`;
-};
+const getUserTimeZone = (settingsData) =>
+  isValidTimeZone(settingsData?.timeZone) ? settingsData.timeZone : TIME_ZONE;
 
 const shouldDeleteToken = (error) => {
   const code = error?.errorInfo?.code || error?.code;
@@ -42,111 +42,430 @@ const shouldDeleteToken = (error) => {
   );
 };
 
-exports.sendWakeNotifications = onSchedule(
+/** 사용자의 모든 기기로 보내고, 만료된 토큰은 지운다. 토큰이 없으면 null */
+const sendToUserDevices = async (userId, message) => {
+  const tokensSnapshot = await db
+    .collection("users")
+    .doc(userId)
+    .collection("pushTokens")
+    .get();
+
+  const tokens = tokensSnapshot.docs
+    .map((tokenDoc) => tokenDoc.data()?.token)
+    .filter(Boolean);
+  if (tokens.length === 0) return null;
+
+  const response = await admin.messaging().sendEachForMulticast({ tokens, ...message });
+
+  const deletes = response.responses.map((item, index) => {
+    if (!item.success && shouldDeleteToken(item.error)) {
+      const tokenDoc = tokensSnapshot.docs[index];
+      return tokenDoc.ref.delete();
+    }
+    return null;
+  });
+
+  await Promise.all(deletes.filter(Boolean));
+  return response;
+};
+
+const toMillis = (value) =>
+  value && typeof value.toMillis === "function" ? value.toMillis() : null;
+
+/** 투두 상태를 다시 보고 보낼 알림 본문을 정한다. 보내지 않을 예약이면 null */
+const buildTodoReminderBody = (job, todo, now) => {
+  if (!todo || todo.done) return null;
+  // 복사 이월된 원본. 알림은 옮겨 간 날의 투두가 보낸다
+  if (todo.carriedToDateKey) return null;
+  const { kind, dueAt } = job.payload?.data ?? {};
+  const dueAtMillis = toMillis(todo.dueAt);
+  // 마감이 바뀌었으면 예전 예약은 버린다
+  if (dueAtMillis === null || dueAtMillis !== Date.parse(dueAt)) return null;
+  const snoozedUntil = toMillis(todo.dueSnoozedUntil);
+  if (kind === "snooze") {
+    // 여러 번 미뤘으면 마지막 미루기만 보낸다
+    if (snoozedUntil !== toMillis(job.fireAt)) return null;
+    return `다시 알려드려요: ${todo.text}`;
+  }
+  if (snoozedUntil !== null && snoozedUntil > now.getTime()) return null;
+  if (kind === "before") {
+    const minutes = Math.max(1, Math.round((dueAtMillis - now.getTime()) / 60000));
+    return `${minutes}분 뒤 마감이에요: ${todo.text}`;
+  }
+  return `마감 시간이 지났어요: ${todo.text}`;
+};
+
+const skip = (reason) => ({ skip: reason });
+
+/** 최근 7일(오늘 포함) 중 이 목표를 실행한 날 수. src/domain/execution.ts calcLast7Days와 같은 기준 */
+const countExecutedDaysLast7 = async (userRef, goalTrackId, todayKey) => {
+  const snapshot = await userRef
+    .collection("goalTrackEvents")
+    .where("goalTrackId", "==", goalTrackId)
+    .where("dateKey", ">=", addDaysToDateKey(todayKey, -6))
+    .where("dateKey", "<=", todayKey)
+    .get();
+  return new Set(snapshot.docs.map((eventDoc) => eventDoc.data()?.dateKey)).size;
+};
+
+/** 보호 시간이 꺼졌거나 구간(data.windowId)이 설정에서 지워졌으면 건너뛴다 */
+const checkProtectWindow = (job, settings) => {
+  if (!settings.protectEnabled) return skip("protectDisabled");
+  const windowId = job.payload?.data?.windowId;
+  if (Array.isArray(settings.protectWindows)
+    && !settings.protectWindows.some((item) => item?.id === windowId)) {
+    return skip("protectWindowRemoved");
+  }
+  return {};
+};
+
+/**
+ * 종류별 보내기 직전 확인 (src/types/notificationJob.ts NOTIFICATION_JOB_TYPES).
+ * payload를 덮어쓸 값({ title, body, data }) 또는 건너뛸 이유({ skip })를 돌려준다.
+ * 없는 종류는 payload를 그대로 보낸다.
+ */
+const notificationJobChecks = {
+  wake: async (job, settings, now) => {
+    if (settings.wakeEnabled === false) return skip("wakeDisabled");
+    // 하루 시작(dayStartsAt) 전의 알림은 전날 것으로 본다
+    return {
+      data: { dateKey: toDayKey(now, getUserTimeZone(settings), settings.dayStartsAt) },
+    };
+  },
+  protectStart: async (job, settings) => checkProtectWindow(job, settings),
+  protectEnd: async (job, settings) => checkProtectWindow(job, settings),
+  weeklyReview: async (job, settings, now) => {
+    if (settings.weeklyReviewReminderEnabled === false) return skip("weeklyReviewDisabled");
+    const goalTrackId = job.payload?.data?.goalTrackId;
+    if (!goalTrackId) return skip("invalidPayload");
+    const userRef = db.collection("users").doc(job.userId);
+    const todayKey = toDayKey(now, getUserTimeZone(settings), settings.dayStartsAt);
+    const weekStartKey = getWeekStartKeyFromDateKey(todayKey);
+    // 문서 id는 src/domain/weeklyReview.ts buildReviewId와 같은 형식
+    const [trackSnap, reviewSnap] = await Promise.all([
+      userRef.collection("goalTracks").doc(goalTrackId).get(),
+      userRef.collection("goalTrackWeeklyReviews").doc(`${goalTrackId}_${weekStartKey}`).get(),
+    ]);
+    if (!trackSnap.exists) return skip("goalTrackDeleted");
+    if (reviewSnap.exists) return skip("reviewDone");
+    const title = trackSnap.data()?.title ?? "";
+    const executedDays = await countExecutedDaysLast7(userRef, goalTrackId, todayKey);
+    return {
+      body: `'${title}' 최근 7일 중 ${executedDays}일 실행했어요. 이번 주 평가를 남겨 보세요.`,
+      data: { weekStartKey },
+    };
+  },
+  todoDue: async (job, settings, now) => {
+    if (settings.dueRemindersEnabled === false) return skip("dueRemindersDisabled");
+    const { dateKey, todoId } = job.payload?.data ?? {};
+    if (!dateKey || !todoId) return skip("invalidPayload");
+    const todoSnap = await db
+      .collection("users")
+      .doc(job.userId)
+      .collection("days")
+      .doc(dateKey)
+      .collection("todos")
+      .doc(todoId)
+      .get();
+    const body = buildTodoReminderBody(job, todoSnap.data(), now);
+    return body ? { body } : skip("todoChanged");
+  },
+};
+
+// 서버가 밀렸을 때 한참 지난 알림은 보내지 않는다
+const NOTIFICATION_LATE_LIMIT_MS = 30 * 60 * 1000;
+const NOTIFICATION_BATCH_LIMIT = 500;
+
+/** 예약을 가져간다. 반복 예약은 다음 시각으로 옮기고 한 번짜리는 지운다. 이미 누가 가져갔으면 null */
+const claimNotificationJob = (jobRef, now) =>
+  db.runTransaction(async (transaction) => {
+    const jobSnap = await transaction.get(jobRef);
+    if (!jobSnap.exists) return null;
+    const job = jobSnap.data();
+    const fireAtMillis = toMillis(job.fireAt);
+    if (fireAtMillis === null || fireAtMillis > now.getTime()) return null;
+    const nextFireAt = job.recurrence ? getNextRecurrenceFireAt(job.recurrence, now) : null;
+    if (nextFireAt) {
+      transaction.update(jobRef, {
+        fireAt: nextFireAt,
+        lastFiredAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    } else {
+      transaction.delete(jobRef);
+    }
+    return job;
+  });
+
+const writeNotificationLog = (jobId, job, result) =>
+  db
+    .collection("users")
+    .doc(job.userId)
+    .collection("notificationLogs")
+    .add({
+      jobId,
+      type: job.type,
+      status: result.status,
+      reason: result.reason ?? null,
+      successCount: result.successCount ?? 0,
+      failureCount: result.failureCount ?? 0,
+      scheduledFor: job.fireAt,
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+const deliverNotificationJob = async (job, settings, now) => {
+  if (now.getTime() - toMillis(job.fireAt) > NOTIFICATION_LATE_LIMIT_MS) {
+    return { status: "skipped", reason: "late" };
+  }
+  const check = notificationJobChecks[job.type];
+  const override = check ? await check(job, settings, now) : {};
+  if (override.skip) return { status: "skipped", reason: override.skip };
+
+  const payload = job.payload ?? {};
+  const link = payload.link || null;
+  const response = await sendToUserDevices(job.userId, {
+    notification: {
+      title: override.title ?? payload.title ?? "",
+      body: override.body ?? payload.body ?? "",
+    },
+    data: {
+      ...(payload.data ?? {}),
+      ...(override.data ?? {}),
+      type: job.type,
+      ...(link ? { link } : {}),
+    },
+    ...(link ? { webpush: { fcmOptions: { link } } } : {}),
+  });
+  if (!response) return { status: "noTokens" };
+  return {
+    status: response.successCount > 0 ? "sent" : "failed",
+    successCount: response.successCount,
+    failureCount: response.failureCount,
+  };
+};
+
+exports.sendNotificationJobs = onSchedule(
   {
     schedule: "every 1 minutes",
     timeZone: TIME_ZONE,
   },
   async () => {
     const now = new Date();
-    const nowTime = getTimeHHMM(now);
-    const todayKey = getDateKey(now);
-
-    const indexSnapshot = await db
-      .collection("wakeTimeIndex")
-      .doc(nowTime)
-      .collection("users")
+    const snapshot = await db
+      .collection("notificationJobs")
+      .where("fireAt", "<=", now)
+      .orderBy("fireAt")
+      .limit(NOTIFICATION_BATCH_LIMIT)
       .get();
+    if (snapshot.empty) return;
 
-    if (indexSnapshot.empty) {
-      logger.info("No wake index users for this minute.");
-      return;
+    // 같은 사용자의 예약이 여러 개면 설정은 한 번만 읽는다
+    const settingsByUser = new Map();
+    const getSettings = (userId) => {
+      if (!settingsByUser.has(userId)) {
+        settingsByUser.set(
+          userId,
+          db
+            .collection("users")
+            .doc(userId)
+            .collection("settings")
+            .doc("main")
+            .get()
+            .then((settingsSnap) => settingsSnap.data() || {})
+        );
+      }
+      return settingsByUser.get(userId);
+    };
+
+    const tasks = snapshot.docs.map(async (jobDoc) => {
+      try {
+        const job = await claimNotificationJob(jobDoc.ref, now);
+        if (!job?.userId) return;
+        let result;
+        try {
+          result = await deliverNotificationJob(job, await getSettings(job.userId), now);
+        } catch (error) {
+          logger.error(`Notification job failed: ${jobDoc.id}`, error);
+          result = { status: "failed", reason: String(error?.message ?? error) };
+        }
+        await writeNotificationLog(jobDoc.id, job, result);
+      } catch (error) {
+        logger.error(`Notification job claim failed: ${jobDoc.id}`, error);
+      }
+    });
+
+    await Promise.all(tasks);
+  }
+);
+
+const getCarryOverOptions = (data) => ({
+  mode: isCarryOverMode(data.carryOverMode) ? data.carryOverMode : DEFAULT_CARRY_OVER_MODE,
+  maxHops: normalizeCarryOverMaxHops(data.carryOverMaxHops),
+  timeZone: getUserTimeZone(data),
+  dueRemindersEnabled: data.dueRemindersEnabled !== false,
+  dueLeadMinutes: normalizeDueReminderLeadMinutes(data.dueReminderLeadMinutes),
+});
+
+const todoDueJobRef = (userId, dateKey, todoId, kind) =>
+  db
+    .collection("notificationJobs")
+    .doc(`${userId}_todoDue_${buildTodoDueDedupeKey(dateKey, todoId, kind)}`);
+
+// Firestore batch는 500개까지라 나눠서 커밋한다 (src/lib/dataExport.ts BATCH_LIMIT과 같은 값)
+const CARRY_OVER_BATCH_LIMIT = 450;
+
+/**
+ * 투두별 쓰기 묶음을 CARRY_OVER_BATCH_LIMIT 단위 batch로 차례로 커밋한다.
+ * 한 투두의 쓰기는 같은 batch에 넣어서, 중간에 실패해도 반만 옮겨진 투두가 없다.
+ * @param {Array<Array<(batch: admin.firestore.WriteBatch) => void>>} groups
+ */
+const commitWriteGroups = async (groups) => {
+  let batch = db.batch();
+  let size = 0;
+  for (const group of groups) {
+    if (size > 0 && size + group.length > CARRY_OVER_BATCH_LIMIT) {
+      await batch.commit();
+      batch = db.batch();
+      size = 0;
     }
+    for (const write of group) write(batch);
+    size += group.length;
+  }
+  if (size > 0) await batch.commit();
+};
 
-    const tasks = indexSnapshot.docs.map(async (indexDoc) => {
-      const userId = indexDoc.id;
-      if (!userId) return;
-
-      const settingsRef = db
-        .collection("users")
-        .doc(userId)
-        .collection("settings")
-        .doc("main");
-      const settingsSnap = await settingsRef.get();
-      const data = settingsSnap.data() || {};
-      const wakeTimes = Array.isArray(data.wakeTimes)
-        ? data.wakeTimes
-            .map((item) => {
-              if (typeof item === "string") return item;
-              if (typeof item?.time === "string") {
-                const enabled =
-                  typeof item?.enabled === "boolean" ? item.enabled : true;
-                return enabled ? item.time : null;
-              }
-              return null;
+// src/lib/carryOver.ts carryOverPendingTodos와 같은 규칙 (같은 todoId로 이월)
+// 마감은 옮긴 날로 밀고, 전날 날짜로 잡힌 마감 알림 예약은 지운 뒤 새 날짜로 다시 만든다
+const carryOverUserTodos = async (userRef, fromDateKey, toDateKey, options) => {
+  const fromSnapshot = await userRef
+    .collection("days")
+    .doc(fromDateKey)
+    .collection("todos")
+    .where("done", "==", false)
+    .get();
+  if (fromSnapshot.empty) return 0;
+
+  const now = new Date();
+  let carried = 0;
+  /** @type {Array<Array<(batch: admin.firestore.WriteBatch) => void>>} */
+  const groups = [];
+  for (const todoDoc of fromSnapshot.docs) {
+    const data = todoDoc.data() || {};
+    const hops = typeof data.carryOverCount === "number" ? data.carryOverCount : 0;
+    const decision = decideCarryOver(
+      {
+        done: Boolean(data.done),
+        recurrenceId: data.recurrenceId,
+        carryOverCount: hops,
+        carryOverStale: Boolean(data.carryOverStale),
+        carriedToDateKey: data.carriedToDateKey,
+      },
+      options.maxHops
+    );
+    if (decision === "skip") continue;
+    if (decision === "stale") {
+      groups.push([(batch) => batch.update(todoDoc.ref, { carryOverStale: true })]);
+      continue;
+    }
+    /** @type {Array<(batch: admin.firestore.WriteBatch) => void>} */
+    const writes = [];
+    const targetRef = userRef
+      .collection("days")
+      .doc(toDateKey)
+      .collection("todos")
+      .doc(todoDoc.id);
+    const targetSnap = await targetRef.get();
+    if (!targetSnap.exists) {
+      const dueAt = data.dueAt instanceof admin.firestore.Timestamp
+        ? shiftDueAt(data.dueAt.toDate(), fromDateKey, toDateKey, options.timeZone)
+        : null;
+      writes.push((batch) =>
+        batch.set(targetRef, {
+          ...data,
+          dueAt,
+          dueSnoozedUntil: null,
+          carriedFromDateKey: fromDateKey,
+          carryOverCount: hops + 1,
+          carriedAt: admin.firestore.FieldValue.serverTimestamp(),
+        })
+      );
+      // src/domain/notificationJob.ts buildTodoDueJobs와 같은 예약
+      if (dueAt && options.dueRemindersEnabled) {
+        for (const slot of buildDueReminderSlots(dueAt, options.dueLeadMinutes, now)) {
+          writes.push((batch) =>
+            batch.set(todoDueJobRef(userRef.id, toDateKey, todoDoc.id, slot.kind), {
+              userId: userRef.id,
+              type: "todoDue",
+              dedupeKey: buildTodoDueDedupeKey(toDateKey, todoDoc.id, slot.kind),
+              fireAt: slot.sendAt,
+              recurrence: null,
+              payload: buildTodoDuePayload(toDateKey, todoDoc.id, slot.kind, dueAt),
+              updatedAt: admin.firestore.FieldValue.serverTimestamp(),
             })
-            .filter(Boolean)
-        : [];
-      const legacyWakeTime =
-        typeof data.wakeTime === "string" ? data.wakeTime : null;
-      if (wakeTimes.length === 0 && legacyWakeTime) {
-        wakeTimes.push(legacyWakeTime);
-      }
-      const wakeEnabled =
-        typeof data.wakeEnabled === "boolean" ? data.wakeEnabled : true;
-      if (!wakeEnabled) return;
-      if (!wakeTimes.includes(nowTime)) return;
-      const wakeKey = `${todayKey}-${nowTime}`;
-      if (data.lastWakeNotifiedKey === wakeKey) return;
-
-      const tokensSnapshot = await db
-        .collection("users")
-        .doc(userId)
-        .collection("pushTokens")
-        .get();
-
-      const tokens = tokensSnapshot.docs
-        .map((tokenDoc) => tokenDoc.data()?.token)
-        .filter(Boolean);
-
-      if (tokens.length > 0) {
-        const response = await admin.messaging().sendEachForMulticast({
-          tokens,
-          notification: {
-            title: "기상 알림",
-            body: `설정한 기상 시간(${nowTime})이에요.`,
-          },
-          data: {
-            type: "wake",
-            wakeTime: nowTime,
-            dateKey: todayKey,
-          },
-        });
-
-        const deletes = response.responses.map((item, index) => {
-          if (!item.success && shouldDeleteToken(item.error)) {
-            const tokenDoc = tokensSnapshot.docs[index];
-            return tokenDoc.ref.delete();
-          }
-          return null;
-        });
-
-        await Promise.all(deletes.filter(Boolean));
-        logger.info(`Wake notification sent: ${userId}`, {
-          success: response.successCount,
-          failure: response.failureCount,
-        });
+          );
+        }
       }
-
-      await settingsRef.set(
-        {
-          lastWakeNotifiedKey: wakeKey,
-          wakeNotifiedAt: admin.firestore.FieldValue.serverTimestamp(),
-        },
-        { merge: true }
+      carried += 1;
+    }
+    if (options.mode === "move") {
+      writes.push((batch) => batch.delete(todoDoc.ref));
+    } else {
+      writes.push((batch) => batch.update(todoDoc.ref, { carriedToDateKey: toDateKey }));
+    }
+    for (const kind of TODO_REMINDER_KINDS) {
+      writes.push((batch) =>
+        batch.delete(todoDueJobRef(userRef.id, fromDateKey, todoDoc.id, kind))
       );
-    });
+    }
+    groups.push(writes);
+  }
+  await commitWriteGroups(groups);
+  return carried;
+};
 
-    await Promise.all(tasks);
+// 사용자마다 시간대·하루 시작이 달라서 매시간 돌면서, 그 사용자의 날짜가 바뀐 뒤 처음 한 번만 이월한다
+exports.carryOverTodos = onSchedule(
+  {
+    schedule: "5 * * * *",
+    timeZone: TIME_ZONE,
+  },
+  async () => {
+    const now = new Date();
+    const userRefs = await db.collection("users").listDocuments();
+
+    for (const userRef of userRefs) {
+      try {
+        const settingsRef = userRef.collection("settings").doc("main");
+        const settingsData = (await settingsRef.get()).data() || {};
+        const todayKey = toDayKey(
+          now,
+          getUserTimeZone(settingsData),
+          settingsData.dayStartsAt
+        );
+        // 시간대를 서쪽으로 옮겨 날짜가 되돌아간 경우에도 같은 날을 두 번 이월하지 않는다
+        if (
+          typeof settingsData.lastCarryOverDateKey === "string" &&
+          settingsData.lastCarryOverDateKey >= todayKey
+        ) {
+          continue;
+        }
+        const yesterdayKey = addDaysToDateKey(todayKey, -1);
+        const options = getCarryOverOptions(settingsData);
+        if (options.mode !== "off") {
+          const carried = await carryOverUserTodos(
+            userRef,
+            yesterdayKey,
+            todayKey,
+            options
+          );
+          if (carried > 0) {
+            logger.info(`Carried over todos: ${userRef.id}`, { carried });
+          }
+        }
+        // 마지막 batch까지 커밋한 뒤에만 남긴다. 이월이 실패하면 다음 시간에 다시 시도한다
+        await settingsRef.set({ lastCarryOverDateKey: todayKey }, { merge: true });
+      } catch (error) {
+        logger.error(`Carry-over failed: ${userRef.id}`, error);
+      }
+    }
   }
 );
@@ -0,0 +1,89 @@
+/*
+ * 투두 마감 알림(todoDue) 예약 형식.
+ * Cloud Functions와 앱(src/domain/todoReminder.ts, notificationJob.ts에서 다시 씀)이 같은 파일을 쓴다.
+ * 배포는 functions 폴더만 올라가므로 이 파일은 functions 안에 두고 의존성 없이 유지한다.
+ */
+
+/** 마감 몇 분 전에 알릴지 기본값 */
+const DEFAULT_DUE_REMINDER_LEAD_MINUTES = 10;
+/** 마감 뒤 이만큼 지나도 안 끝났으면 "지났어요" 알림 */
+const OVERDUE_NOTICE_DELAY_MINUTES = 5;
+/** @type {Array<"before" | "overdue" | "snooze">} */
+const TODO_REMINDER_KINDS = ["before", "overdue", "snooze"];
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * 마감 하나에 대해 보낼 알림 시각들. 이미 지난 시각은 뺀다.
+ * 분 단위 버킷에 넣으므로 초는 버린다.
+ * @param {Date} dueAt
+ * @param {number} leadMinutes
+ * @param {Date} [now]
+ * @returns {Array<{ kind: "before" | "overdue", sendAt: Date }>}
+ */
+const buildDueReminderSlots = (dueAt, leadMinutes, now = new Date()) => {
+  const floorToMinute = (millis) => new Date(Math.floor(millis / MINUTE_MS) * MINUTE_MS);
+  /** @type {Array<{ kind: "before" | "overdue", sendAt: Date }>} */
+  const slots = [
+    { kind: "before", sendAt: floorToMinute(dueAt.getTime() - leadMinutes * MINUTE_MS) },
+    {
+      kind: "overdue",
+      sendAt: floorToMinute(dueAt.getTime() + OVERDUE_NOTICE_DELAY_MINUTES * MINUTE_MS),
+    },
+  ];
+  return slots.filter((slot) => slot.sendAt.getTime() > now.getTime());
+};
+
+/**
+ * 알림 클릭 시 열 주소
+ * @param {string} dateKey
+ * @param {string} todoId
+ * @returns {string}
+ */
+const buildTodoDeepLink = (dateKey, todoId) =>
+  `/?tab=todos&date=${encodeURIComponent(dateKey)}&todo=${encodeURIComponent(todoId)}`;
+
+/**
+ * 예약 문서의 dedupeKey. 투두·종류마다 하나
+ * @param {string} dateKey
+ * @param {string} todoId
+ * @param {"before" | "overdue" | "snooze"} kind
+ * @returns {string}
+ */
+const buildTodoDueDedupeKey = (dateKey, todoId, kind) => `${dateKey}_${todoId}_${kind}`;
+
+/**
+ * 예약 payload. 본문은 스케줄러가 보낼 때 투두를 다시 읽어서 채운다
+ * @param {string} dateKey
+ * @param {string} todoId
+ * @param {"before" | "overdue" | "snooze"} kind
+ * @param {Date} dueAt
+ * @returns {{ title: string, body: string, link: string, data: Record<string, string> }}
+ */
+const buildTodoDuePayload = (dateKey, todoId, kind, dueAt) => ({
+  title: "투두 마감",
+  body: "",
+  link: buildTodoDeepLink(dateKey, todoId),
+  data: { dateKey, todoId, kind, dueAt: dueAt.toISOString() },
+});
+
+/**
+ * 저장된 알림 선행 시간 정규화 (1 ~ 1440분)
+ * @param {unknown} value
+ * @returns {number}
+ */
+const normalizeDueReminderLeadMinutes = (value) =>
+  typeof value === "number" && value >= 1 && value <= 24 * 60
+    ? Math.floor(value)
+    : DEFAULT_DUE_REMINDER_LEAD_MINUTES;
+
+module.exports = {
+  DEFAULT_DUE_REMINDER_LEAD_MINUTES,
+  OVERDUE_NOTICE_DELAY_MINUTES,
+  TODO_REMINDER_KINDS,
+  buildDueReminderSlots,
+  buildTodoDeepLink,
+  buildTodoDueDedupeKey,
+  buildTodoDuePayload,
+  normalizeDueReminderLeadMinutes,
+};
@@ -17,7 +17,14 @@ const initFirebase = (config) => {
       payload?.notification?.body ||
       payload?.data?.body ||
       "기상 알림이 도착했어요.";
-    self.registration.showNotification(title, { body });
+    const data = payload?.data || {};
+    self.registration.showNotification(title, {
+      body,
+      data,
+      tag: data.type === "todoDue" ? `todo-${data.todoId}` : undefined,
+      // src/domain/todoReminder.ts DEFAULT_SNOOZE_MINUTES
+      actions: data.type === "todoDue" ? [{ action: "snooze", title: "10분 뒤 다시" }] : [],
+    });
   });
   firebaseInitialized = true;
 };
@@ -28,7 +35,97 @@ self.addEventListener("message", (event) => {
   }
 });
 
+// 투두 알림은 그 투두로 바로 연다. "미루기"는 앱이 열린 뒤 주소의 snooze 값으로 처리한다
+const getNotificationLink = (notification, action) => {
+  const data = notification?.data || {};
+  const link = data.link || data.FCM_MSG?.data?.link || "/";
+  return action === "snooze" && link !== "/" ? `${link}&snooze=10` : link;
+};
+
 self.addEventListener("notificationclick", (event) => {
   event.notification.close();
-  event.waitUntil(self.clients.openWindow("/"));
+  const url = getNotificationLink(event.notification, event.action);
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((item) => new URL(item.url).origin === self.location.origin);
+      if (client && "navigate" in client) {
+        return client.navigate(url).then((navigated) => (navigated || client).focus());
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
+// 앱 셸 캐시: 연결이 약한 아침에도 화면은 바로 뜨도록.
+// 페이지는 네트워크 우선(실패하면 캐시), 빌드 정적 파일과 아이콘은 캐시 우선.
+// Firestore 데이터는 SDK의 IndexedDB 캐시가 맡으므로 여기서 다루지 않는다.
+const APP_SHELL_CACHE = "to-day-app-shell-v2";
+const APP_SHELL_URLS = ["/", "/manifest.webmanifest", "/icon-192-v2.png", "/icon-512-v2.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(APP_SHELL_CACHE)
+      .then((cache) => cache.addAll(APP_SHELL_URLS))
+      .catch(() => undefined)
+  );
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("to-day-app-shell-") && key !== APP_SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const isStaticAsset = (url) =>
+  url.pathname.startsWith("/_next/static/") || /\.(png|svg|ico|webmanifest)$/.test(url.pathname);
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          // 오프라인 셸은 "/" 페이지의 정상 응답만 (쿼리는 탭·딥링크라 같은 페이지, 오류 페이지는 넣지 않는다)
+          if (response.ok && url.pathname === "/") {
+            const copy = response.clone();
+            caches.open(APP_SHELL_CACHE).then((cache) => cache.put("/", copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match("/").then((cached) => cached || Response.error()))
+    );
+    return;
+  }
+
+  if (isStaticAsset(url)) {
+    event.respondWith(
+      caches.match(request).then(
+        (cached) =>
+          cached ||
+          fetch(request).then((response) => {
+            if (response.ok) {
+              const copy = response.clone();
+              caches.open(APP_SHELL_CACHE).then((cache) => cache.put(request, copy));
+            }
+            return response;
+          })
+      )
+    );
+  }
 });
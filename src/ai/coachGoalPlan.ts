@@ -1,11 +1,8 @@
 import "server-only";
+import { callLlmJson, s, type LlmResult } from "@/ai/llm";
+import type { GoalCoachMode, GoalCoachResult } from "@/types/goal";
 
-export type GoalCoachMode = "SPECIFY" | "REALITY_CHECK" | "BREAK_DOWN";
-
-export type GoalCoachResult = {
-  questions: string[];
-  suggestion: string;
-};
+export type { GoalCoachMode, GoalCoachResult };
 
 const SYSTEM_PROMPT =
   "너는 목표 설계를 돕는 코치다.\n" +
@@ -48,20 +45,10 @@ const buildUserPrompt = (args: {
 }`;
 };
 
-const parseResult = (raw: string): GoalCoachResult | null => {
-  const parsed = JSON.parse(raw) as Partial<GoalCoachResult>;
-  const questions = Array.isArray(parsed.questions)
-    ? parsed.questions
-        .filter((item): item is string => typeof item === "string")
-        .map((item) => item.trim())
-        .filter(Boolean)
-        .slice(0, 3)
-    : [];
-  const suggestion =
-    typeof parsed.suggestion === "string" ? parsed.suggestion.trim() : "";
-  if (questions.length === 0 || !suggestion) return null;
-  return { questions, suggestion };
-};
+const resultSchema = s.object({
+  questions: s.array(s.string(), { min: 1, max: 3 }),
+  suggestion: s.string(),
+});
 
 export async function coachGoalPlan(args: {
   mode: GoalCoachMode;
@@ -71,36 +58,16 @@ export async function coachGoalPlan(args: {
   weakestArea: string;
   note: string;
   threeMonthGoal: string;
-}): Promise<GoalCoachResult | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0.5,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: buildUserPrompt(args) },
-        ],
-      }),
-    });
-    if (!response.ok) return null;
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) return null;
-    return parseResult(content);
-  } catch {
-    return null;
-  }
+}): Promise<LlmResult<GoalCoachResult>> {
+  return callLlmJson({
+    task: "goal-coach",
+    system: SYSTEM_PROMPT,
+    user: buildUserPrompt(args),
+    temperature: 0.5,
+    schema: resultSchema,
+    mock: () => ({
+      questions: [`"${args.threeMonthGoal}"를 이룬 날은 무엇으로 알 수 있나요?`],
+      suggestion: `${args.mode}: ${args.threeMonthGoal}`,
+    }),
+  });
 }
-
@@ -1,4 +1,5 @@
 import "server-only";
+import { callLlmJson, s, type LlmResult } from "@/ai/llm";
 
 export type WeeklyActionPlanResult = {
   rationale: string;
@@ -45,20 +46,10 @@ ${args.seedTodos.map((todo, index) => `${index + 1}. ${todo}`).join("\n")}
 }`;
 };
 
-const parseResult = (raw: string): WeeklyActionPlanResult | null => {
-  const parsed = JSON.parse(raw) as Partial<WeeklyActionPlanResult>;
-  const rationale =
-    typeof parsed.rationale === "string" ? parsed.rationale.trim() : "";
-  const todos = Array.isArray(parsed.todos)
-    ? parsed.todos
-        .filter((todo): todo is string => typeof todo === "string")
-        .map((todo) => todo.trim())
-        .filter(Boolean)
-        .slice(0, 7)
-    : [];
-  if (!rationale || todos.length === 0) return null;
-  return { rationale, todos };
-};
+const resultSchema = s.object({
+  rationale: s.string(),
+  todos: s.array(s.string(), { min: 1, max: 7 }),
+});
 
 export async function generateWeeklyActionPlan(args: {
   deadlineDate: string;
@@ -67,36 +58,16 @@ export async function generateWeeklyActionPlan(args: {
   weeklyState: string;
   constraints: string;
   seedTodos: string[];
-}): Promise<WeeklyActionPlanResult | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0.5,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: buildUserPrompt(args) },
-        ],
-      }),
-    });
-    if (!response.ok) return null;
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) return null;
-    return parseResult(content);
-  } catch {
-    return null;
-  }
+}): Promise<LlmResult<WeeklyActionPlanResult>> {
+  return callLlmJson({
+    task: "weekly-action-plan",
+    system: SYSTEM_PROMPT,
+    user: buildUserPrompt(args),
+    temperature: 0.5,
+    schema: resultSchema,
+    mock: () => ({
+      rationale: `${args.weeklyState}에 맞춰 초안을 그대로 정리했어요.`,
+      todos: args.seedTodos.slice(0, 7),
+    }),
+  });
 }
-
@@ -0,0 +1,190 @@
+import "server-only";
+import { FieldValue } from "firebase-admin/firestore";
+import { NextResponse } from "next/server";
+import { aiErrorResponse } from "@/ai/llm";
+import { getAdminAuth, getAdminDb } from "@/lib/firebaseAdmin";
+
+const DEFAULT_DAILY_QUOTA = 50;
+const DEFAULT_BURST_LIMIT = 5;
+const BURST_WINDOW_MS = 60 * 1000;
+const TIME_ZONE = process.env.TO_DAY_TIME_ZONE || "Asia/Seoul";
+
+export type AiRouteName =
+  | "goal-coach"
+  | "polish-todo"
+  | "rewrite-todo"
+  | "todo-block"
+  | "refine-weekly-rule"
+  | "weekly-action-plan"
+  | "weekly-review-coach";
+
+type AiGuardResult =
+  | { ok: true; uid: string; refund: () => Promise<void> }
+  | { ok: false; response: ReturnType<typeof aiErrorResponse> };
+
+/** uid → 최근 요청 시각. 인스턴스 메모리라 짧은 연타만 막는다 (하루 한도는 Firestore) */
+const recentRequests = new Map<string, number[]>();
+
+const readLimitEnv = (key: string, fallback: number): number => {
+  const value = Number(process.env[key]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+const getUsageTime = (date: Date) => {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  }).formatToParts(date);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value ?? "00";
+  const secondsOfDay =
+    (Number(get("hour")) % 24) * 3600 + Number(get("minute")) * 60 + Number(get("second"));
+  return {
+    dateKey: `${get("year")}-${get("month")}-${get("day")}`,
+    secondsUntilTomorrow: 24 * 3600 - secondsOfDay,
+  };
+};
+
+const readBearerToken = (request: Request): string | null => {
+  const header = request.headers.get("authorization") ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : null;
+};
+
+/** 1분 안에 burstLimit회 넘게 부르면 남은 대기 초, 아니면 null */
+const checkBurst = (uid: string, now: number): number | null => {
+  const limit = readLimitEnv("AI_BURST_LIMIT", DEFAULT_BURST_LIMIT);
+  const recent = (recentRequests.get(uid) ?? []).filter((t) => now - t < BURST_WINDOW_MS);
+  if (recent.length >= limit) {
+    recentRequests.set(uid, recent);
+    return Math.max(1, Math.ceil((recent[0] + BURST_WINDOW_MS - now) / 1000));
+  }
+  recent.push(now);
+  recentRequests.set(uid, recent);
+  return null;
+};
+
+/** 하루 한도 안이면 사용량을 1 올리고 true */
+const consumeDailyQuota = async (
+  uid: string,
+  route: AiRouteName,
+  dateKey: string
+): Promise<boolean> => {
+  const quota = readLimitEnv("AI_DAILY_QUOTA", DEFAULT_DAILY_QUOTA);
+  const db = getAdminDb();
+  const ref = db.collection("users").doc(uid).collection("aiUsage").doc(dateKey);
+  return db.runTransaction(async (tx) => {
+    const snapshot = await tx.get(ref);
+    const total = snapshot.exists ? Number(snapshot.get("total")) || 0 : 0;
+    if (total >= quota) return false;
+    tx.set(
+      ref,
+      {
+        dateKey,
+        total: FieldValue.increment(1),
+        routes: { [route]: FieldValue.increment(1) },
+        updatedAt: FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    return true;
+  });
+};
+
+/** 올린 사용량 1회 되돌리기 */
+const refundDailyQuota = async (uid: string, route: AiRouteName, dateKey: string) => {
+  const ref = getAdminDb().collection("users").doc(uid).collection("aiUsage").doc(dateKey);
+  await ref.set(
+    {
+      total: FieldValue.increment(-1),
+      routes: { [route]: FieldValue.increment(-1) },
+      updatedAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+};
+
+/** 한도를 돌려줄 응답: 잘못된 입력(400)과 서버·모델 오류(5xx) */
+const isRefundableStatus = (status: number) => status === 400 || status >= 500;
+
+/**
+ * /api/ai/* 공통 관문.
+ * Firebase ID 토큰 확인 → 연타 제한 → 하루 한도 확인 및 사용량 기록 순서.
+ * 라우트는 withAiGuard로 감싸서 쓴다 (실패 응답이면 사용량을 되돌린다).
+ */
+export async function guardAiRequest(
+  request: Request,
+  route: AiRouteName
+): Promise<AiGuardResult> {
+  const token = readBearerToken(request);
+  if (!token) {
+    return { ok: false, response: aiErrorResponse("UNAUTHORIZED", "로그인이 필요해요.") };
+  }
+  let uid: string;
+  try {
+    uid = (await getAdminAuth().verifyIdToken(token)).uid;
+  } catch {
+    return {
+      ok: false,
+      response: aiErrorResponse("UNAUTHORIZED", "로그인 정보가 만료됐어요."),
+    };
+  }
+
+  const now = new Date();
+  const burstRetryAfter = checkBurst(uid, now.getTime());
+  if (burstRetryAfter !== null) {
+    return {
+      ok: false,
+      response: aiErrorResponse(
+        "TOO_MANY_REQUESTS",
+        "요청이 너무 잦아요. 잠시 후 다시 시도해 주세요.",
+        burstRetryAfter
+      ),
+    };
+  }
+
+  const { dateKey, secondsUntilTomorrow } = getUsageTime(now);
+  if (!(await consumeDailyQuota(uid, route, dateKey))) {
+    return {
+      ok: false,
+      response: aiErrorResponse(
+        "QUOTA_EXCEEDED",
+        "오늘 AI 사용 한도를 모두 썼어요. 내일 다시 이용해 주세요.",
+        secondsUntilTomorrow
+      ),
+    };
+  }
+  return { ok: true, uid, refund: () => refundDailyQuota(uid, route, dateKey) };
+}
+
+/**
+ * /api/ai/* POST 핸들러. 관문을 통과한 요청만 handler로 넘기고,
+ * handler가 400·5xx로 끝나면(던진 오류 포함) 올린 사용량을 되돌린다.
+ */
+export const withAiGuard =
+  (route: AiRouteName, handler: (request: Request) => Promise<Response>) =>
+  async (request: Request): Promise<Response> => {
+    try {
+      const guard = await guardAiRequest(request, route);
+      if (!guard.ok) return guard.response;
+      let response: Response;
+      try {
+        response = await handler(request);
+      } catch {
+        response = NextResponse.json({ result: null }, { status: 500 });
+      }
+      if (isRefundableStatus(response.status)) {
+        await guard.refund().catch(() => {
+          // 되돌리기 실패는 응답에 영향을 주지 않는다 (사용량이 1 더 남을 뿐)
+        });
+      }
+      return response;
+    } catch {
+      return NextResponse.json({ result: null }, { status: 500 });
+    }
+  };
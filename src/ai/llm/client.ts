@@ -0,0 +1,97 @@
+import "server-only";
+import { createOpenAiProvider } from "./providers/openai";
+import { mockProvider } from "./providers/mock";
+import { LlmError, type LlmJsonRequest, type LlmProvider, type LlmResult } from "./types";
+
+const DEFAULT_MODEL = "gpt-4o-mini";
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 400;
+
+const readNumberEnv = (key: string, fallback: number): number => {
+  const value = Number(process.env[key]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+/**
+ * 환경 변수로 프로바이더 선택.
+ * LLM_PROVIDER=openai(기본) | local | mock
+ * local은 LLM_BASE_URL의 OpenAI 호환 엔드포인트를 쓴다.
+ */
+export const getLlmProvider = (): LlmProvider | null => {
+  const providerName = process.env.LLM_PROVIDER ?? "openai";
+  const model = process.env.LLM_MODEL || DEFAULT_MODEL;
+  if (providerName === "mock") return mockProvider;
+  if (providerName === "local") {
+    const baseUrl = process.env.LLM_BASE_URL;
+    if (!baseUrl) return null;
+    return createOpenAiProvider({
+      name: "local",
+      baseUrl,
+      model,
+      apiKey: process.env.LLM_API_KEY,
+    });
+  }
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) return null;
+  return createOpenAiProvider({
+    name: "openai",
+    baseUrl: process.env.LLM_BASE_URL || "https://api.openai.com/v1",
+    model,
+    apiKey,
+  });
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toLlmError = (error: unknown): LlmError =>
+  error instanceof LlmError ? error : new LlmError("NETWORK_ERROR", String(error), true);
+
+/** 프롬프트를 보내 JSON 응답을 스키마로 검증. 재시도 가능한 실패는 지수 백오프로 다시 시도 */
+export async function callLlmJson<T>(request: LlmJsonRequest<T>): Promise<LlmResult<T>> {
+  const provider = getLlmProvider();
+  if (!provider) {
+    return { ok: false, reason: "NOT_CONFIGURED", message: "LLM 프로바이더 설정 없음" };
+  }
+  const timeoutMs = request.timeoutMs ?? readNumberEnv("LLM_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+  const maxRetries = readNumberEnv("LLM_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+
+  let lastError: LlmError | null = null;
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    if (attempt > 0) {
+      await sleep(BACKOFF_BASE_MS * 2 ** (attempt - 1) + Math.random() * 100);
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const content = await provider.complete(request, controller.signal);
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        return { ok: false, reason: "INVALID_JSON", message: `${request.task}: JSON 아님` };
+      }
+      const data = request.schema.parse(parsed);
+      if (data === null) {
+        return {
+          ok: false,
+          reason: "SCHEMA_MISMATCH",
+          message: `${request.task}: 응답 형식 불일치`,
+        };
+      }
+      return { ok: true, data };
+    } catch (error) {
+      lastError = controller.signal.aborted
+        ? new LlmError("TIMEOUT", `${request.task}: ${timeoutMs}ms 초과`, true)
+        : toLlmError(error);
+      if (!lastError.retryable) break;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+  return {
+    ok: false,
+    reason: lastError?.reason ?? "NETWORK_ERROR",
+    message: lastError?.message,
+  };
+}
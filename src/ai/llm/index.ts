@@ -0,0 +1,4 @@
+export { callLlmJson, getLlmProvider } from "./client";
+export { aiErrorResponse, toAiRouteResponse } from "./route";
+export { s, type Infer, type JsonSchema } from "./schema";
+export { LlmError, type LlmErrorReason, type LlmProvider, type LlmResult } from "./types";
@@ -0,0 +1,13 @@
+import "server-only";
+import { LlmError, type LlmProvider } from "../types";
+
+/** 네트워크 없이 각 모듈의 mock() 결과를 그대로 돌려주는 결정적 프로바이더 */
+export const mockProvider: LlmProvider = {
+  name: "mock",
+  complete: async (request) => {
+    if (!request.mock) {
+      throw new LlmError("NOT_CONFIGURED", `mock 응답 없음: ${request.task}`);
+    }
+    return JSON.stringify(request.mock());
+  },
+};
@@ -0,0 +1,56 @@
+import "server-only";
+import { LlmError, type LlmProvider } from "../types";
+
+/**
+ * OpenAI chat/completions 프로바이더.
+ * baseUrl을 바꾸면 OpenAI 호환 로컬 엔드포인트(Ollama, LM Studio 등)에도 쓴다.
+ */
+export const createOpenAiProvider = (options: {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}): LlmProvider => ({
+  name: options.name,
+  complete: async (request, signal) => {
+    let response: Response;
+    try {
+      response = await fetch(`${options.baseUrl.replace(/\/$/, "")}/chat/completions`, {
+        method: "POST",
+        signal,
+        headers: {
+          "Content-Type": "application/json",
+          ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: options.model,
+          temperature: request.temperature,
+          response_format: { type: "json_object" },
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.user },
+          ],
+        }),
+      });
+    } catch (error) {
+      if (signal.aborted) throw new LlmError("TIMEOUT", "요청 시간 초과", true);
+      throw new LlmError("NETWORK_ERROR", String(error), true);
+    }
+    if (response.status === 429) {
+      throw new LlmError("RATE_LIMITED", "프로바이더 요청 한도 초과", true);
+    }
+    if (!response.ok) {
+      throw new LlmError(
+        "HTTP_ERROR",
+        `HTTP ${response.status}`,
+        response.status >= 500
+      );
+    }
+    const data = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string } }>;
+    };
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) throw new LlmError("EMPTY_RESPONSE", "빈 응답");
+    return content;
+  },
+});
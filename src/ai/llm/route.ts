@@ -0,0 +1,41 @@
+import "server-only";
+import { NextResponse } from "next/server";
+import type { AiErrorReason, AiRouteResponse } from "@/types/aiApi";
+import type { LlmResult } from "./types";
+
+const STATUS_BY_REASON: Record<AiErrorReason, number> = {
+  INVALID_INPUT: 400,
+  UNAUTHORIZED: 401,
+  QUOTA_EXCEEDED: 429,
+  TOO_MANY_REQUESTS: 429,
+  NOT_CONFIGURED: 503,
+  TIMEOUT: 504,
+  RATE_LIMITED: 503,
+  HTTP_ERROR: 502,
+  NETWORK_ERROR: 502,
+  EMPTY_RESPONSE: 502,
+  INVALID_JSON: 502,
+  SCHEMA_MISMATCH: 502,
+};
+
+/** LlmResult → /api/ai/* 응답 */
+export const toAiRouteResponse = <T>(result: LlmResult<T>) => {
+  if (result.ok) {
+    return NextResponse.json<AiRouteResponse<T>>({ result: result.data });
+  }
+  return aiErrorResponse(result.reason, result.message);
+};
+
+/** 실패 응답 { result: null, error: { reason } }. retryAfterSec이 있으면 Retry-After 헤더도 붙인다 */
+export const aiErrorResponse = (
+  reason: AiErrorReason,
+  message?: string,
+  retryAfterSec?: number
+) =>
+  NextResponse.json<AiRouteResponse<never>>(
+    { result: null, error: { reason, message, retryAfterSec } },
+    {
+      status: STATUS_BY_REASON[reason],
+      headers: retryAfterSec ? { "Retry-After": String(retryAfterSec) } : undefined,
+    }
+  );
@@ -0,0 +1,51 @@
+/**
+ * LLM 응답 검증용 최소 스키마.
+ * parse는 값을 정리(trim, slice)해서 돌려주고, 맞지 않으면 null.
+ */
+export type JsonSchema<T> = {
+  parse: (value: unknown) => T | null;
+};
+
+export type Infer<S> = S extends JsonSchema<infer T> ? T : never;
+
+/** 공백 제거 후 비어 있지 않은 문자열 */
+const string = (): JsonSchema<string> => ({
+  parse: (value) => {
+    if (typeof value !== "string") return null;
+    const trimmed = value.trim();
+    return trimmed ? trimmed : null;
+  },
+});
+
+/** 유효한 항목만 남기고 max개로 자른 배열. min개 미만이면 실패 */
+const array = <T>(
+  item: JsonSchema<T>,
+  options: { min?: number; max?: number } = {}
+): JsonSchema<T[]> => ({
+  parse: (value) => {
+    if (!Array.isArray(value)) return null;
+    const parsed = value
+      .map((v) => item.parse(v))
+      .filter((v): v is T => v !== null)
+      .slice(0, options.max ?? Infinity);
+    return parsed.length >= (options.min ?? 0) ? parsed : null;
+  },
+});
+
+const object = <Shape extends Record<string, JsonSchema<unknown>>>(
+  shape: Shape
+): JsonSchema<{ [K in keyof Shape]: Infer<Shape[K]> }> => ({
+  parse: (value) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+    const record = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      const parsed = shape[key].parse(record[key]);
+      if (parsed === null) return null;
+      result[key] = parsed;
+    }
+    return result as { [K in keyof Shape]: Infer<Shape[K]> };
+  },
+});
+
+export const s = { string, array, object };
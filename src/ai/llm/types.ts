@@ -0,0 +1,45 @@
+import type { AiErrorReason } from "@/types/aiApi";
+import type { JsonSchema } from "./schema";
+
+export type LlmErrorReason = AiErrorReason;
+
+export type LlmResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; reason: LlmErrorReason; message?: string };
+
+export type LlmCompletionRequest = {
+  /** 로그/목 응답 구분용 이름. 예) "goal-coach" */
+  task: string;
+  system: string;
+  user: string;
+  temperature: number;
+};
+
+/** 프로바이더는 JSON 문자열을 돌려주거나 LlmError를 던진다 */
+export type LlmProvider = {
+  name: string;
+  complete: (
+    request: LlmCompletionRequest & { mock?: () => unknown },
+    signal: AbortSignal
+  ) => Promise<string>;
+};
+
+export type LlmJsonRequest<T> = LlmCompletionRequest & {
+  schema: JsonSchema<T>;
+  /** mock 프로바이더가 돌려줄 결정적 응답 */
+  mock: () => T;
+  timeoutMs?: number;
+};
+
+export class LlmError extends Error {
+  readonly reason: LlmErrorReason;
+  /** 재시도해 볼 만한 실패인지 (타임아웃, 네트워크, 429, 5xx) */
+  readonly retryable: boolean;
+
+  constructor(reason: LlmErrorReason, message: string, retryable = false) {
+    super(message);
+    this.name = "LlmError";
+    this.reason = reason;
+    this.retryable = retryable;
+  }
+}
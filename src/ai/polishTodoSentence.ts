@@ -1,4 +1,5 @@
 import "server-only";
+import { callLlmJson, s, type LlmResult } from "@/ai/llm";
 
 export type PolishTodoResult = {
   polishedTodo: string;
@@ -24,46 +25,19 @@ JSON 형식:
 }`;
 };
 
-const parseResult = (raw: string): PolishTodoResult | null => {
-  const parsed = JSON.parse(raw) as Partial<PolishTodoResult>;
-  const polishedTodo =
-    typeof parsed.polishedTodo === "string" ? parsed.polishedTodo.trim() : "";
-  if (!polishedTodo) return null;
-  return { polishedTodo };
-};
+const resultSchema = s.object({
+  polishedTodo: s.string(),
+});
 
 export async function polishTodoSentence(
   rawTodo: string
-): Promise<PolishTodoResult | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0.4,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: buildUserPrompt(rawTodo) },
-        ],
-      }),
-    });
-    if (!response.ok) return null;
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) return null;
-    return parseResult(content);
-  } catch {
-    return null;
-  }
+): Promise<LlmResult<PolishTodoResult>> {
+  return callLlmJson({
+    task: "polish-todo",
+    system: SYSTEM_PROMPT,
+    user: buildUserPrompt(rawTodo),
+    temperature: 0.4,
+    schema: resultSchema,
+    mock: () => ({ polishedTodo: rawTodo }),
+  });
 }
-
@@ -1,4 +1,5 @@
 import "server-only";
+import { callLlmJson, s, type LlmResult } from "@/ai/llm";
 import { MissedReasonType } from "@/types/missed-reason";
 import {
   type StrategyType,
@@ -31,13 +32,18 @@ export type RefineWeeklyRuleResult = {
   rationale: string;
 };
 
+const resultSchema = s.object({
+  refinedText: s.string(),
+  rationale: s.string(),
+});
+
 /** 선택 전략을 종합하여 1개의 실행 문장 생성 (실행 확률 + 성과 동시 고려) */
 export async function refineWeeklyRule(
   input: RefineWeeklyRuleInput
-): Promise<RefineWeeklyRuleResult | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-  if (input.selectedStrategies.length === 0) return null;
+): Promise<LlmResult<RefineWeeklyRuleResult>> {
+  if (input.selectedStrategies.length === 0) {
+    return { ok: false, reason: "INVALID_INPUT", message: "선택 전략 없음" };
+  }
 
   const statusLabel = STATUS_LABELS[input.status];
   const blockLabel = input.blockReason
@@ -68,39 +74,15 @@ ${input.recentExecution ? `최근 7일 실행 ${input.recentExecution.executedDa
 
 위를 바탕으로 refinedText와 rationale을 JSON으로만 답하라.`;
 
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0.3,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-      }),
-    });
-    if (!response.ok) return null;
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) return null;
-
-    const parsed = JSON.parse(content) as Partial<RefineWeeklyRuleResult>;
-    const refinedText =
-      typeof parsed.refinedText === "string" ? parsed.refinedText.trim() : "";
-    const rationale =
-      typeof parsed.rationale === "string" ? parsed.rationale.trim() : "";
-    if (!refinedText || !rationale) return null;
-
-    return { refinedText, rationale };
-  } catch {
-    return null;
-  }
+  return callLlmJson({
+    task: "refine-weekly-rule",
+    system: systemPrompt,
+    user: userPrompt,
+    temperature: 0.3,
+    schema: resultSchema,
+    mock: () => ({
+      refinedText: input.draftRule || input.goalTrackTitle,
+      rationale: `${strategyLabels} 전략을 반영했어요.`,
+    }),
+  });
 }
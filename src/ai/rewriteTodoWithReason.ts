@@ -1,4 +1,5 @@
 import "server-only";
+import { callLlmJson, s, type LlmResult } from "@/ai/llm";
 
 type ReasonType = "HARD_TO_START" | "NOT_ENOUGH_TIME";
 
@@ -54,67 +55,35 @@ const buildUserPrompt = (args: {
 }`;
 };
 
-const parseResult = (raw: string) => {
-  const parsed = JSON.parse(raw) as {
-    conditionMessage?: unknown;
-    rewrittenTodo?: unknown;
-  };
-  const conditionMessage =
-    typeof parsed.conditionMessage === "string"
-      ? parsed.conditionMessage.trim()
-      : "";
-  const rewrittenTodo =
-    typeof parsed.rewrittenTodo === "string" ? parsed.rewrittenTodo.trim() : "";
-  if (!conditionMessage || !rewrittenTodo) return null;
-  return { conditionMessage, rewrittenTodo };
-};
+const resultSchema = s.object({
+  conditionMessage: s.string(),
+  rewrittenTodo: s.string(),
+});
 
 export async function rewriteTodoWithReason(
   originalTodoText: string,
   reasonType: ReasonType,
   contextQuestions?: string[]
-): Promise<{
-  conditionMessage: string;
-  rewrittenTodo: string;
-} | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0.7,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          {
-            role: "user",
-            content: buildUserPrompt({
-              originalTodoText,
-              reasonType,
-              contextQuestions,
-            }),
-          },
-        ],
-      }),
-    });
-
-    if (!response.ok) {
-      return null;
-    }
-
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) return null;
-    return parseResult(content);
-  } catch {
-    return null;
-  }
+): Promise<
+  LlmResult<{
+    conditionMessage: string;
+    rewrittenTodo: string;
+  }>
+> {
+  return callLlmJson({
+    task: "rewrite-todo",
+    system: SYSTEM_PROMPT,
+    user: buildUserPrompt({
+      originalTodoText,
+      reasonType,
+      contextQuestions,
+    }),
+    temperature: 0.7,
+    schema: resultSchema,
+    mock: () => ({
+      conditionMessage:
+        reasonType === "HARD_TO_START" ? "첫 행동만 남겼어요." : "핵심만 남겼어요.",
+      rewrittenTodo: `${originalTodoText} (5분만)`,
+    }),
+  });
 }
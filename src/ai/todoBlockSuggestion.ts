@@ -1,14 +1,17 @@
 import "server-only";
+import { callLlmJson, s, type LlmResult } from "@/ai/llm";
 import type { BlockType, TodoBlockSuggestion } from "@/types/todoBlock";
 
+const resultSchema = s.object({
+  question: s.string(),
+  rewrittenTodo: s.string(),
+});
+
 export async function todoBlockSuggestion(
   blockType: BlockType,
   originalTodo: string,
   situation?: string
-): Promise<TodoBlockSuggestion | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-
+): Promise<LlmResult<TodoBlockSuggestion>> {
   const blockLabels: Record<BlockType, string> = {
     START_FRICTION: "시작이 어려움(마찰)",
     SCOPE_TOO_BIG: "너무 큼(범위 큼)",
@@ -27,39 +30,15 @@ ${situation ? `상황: ${situation}` : ""}
 
 위 내용을 바탕으로 question 1개와 rewrittenTodo 1개를 JSON으로만 답하라.`;
 
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0.4,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-      }),
-    });
-    if (!response.ok) return null;
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) return null;
-
-    const parsed = JSON.parse(content) as Partial<TodoBlockSuggestion>;
-    const question =
-      typeof parsed.question === "string" ? parsed.question.trim() : "";
-    const rewrittenTodo =
-      typeof parsed.rewrittenTodo === "string" ? parsed.rewrittenTodo.trim() : "";
-    if (!question || !rewrittenTodo) return null;
-
-    return { question, rewrittenTodo };
-  } catch {
-    return null;
-  }
+  return callLlmJson({
+    task: "todo-block",
+    system: systemPrompt,
+    user: userPrompt,
+    temperature: 0.4,
+    schema: resultSchema,
+    mock: () => ({
+      question: `${blockLabels[blockType]} — 가장 먼저 손댈 한 가지는 무엇인가요?`,
+      rewrittenTodo: `${originalTodo} 중 첫 단계만 하기`,
+    }),
+  });
 }
@@ -1,4 +1,5 @@
 import "server-only";
+import { callLlmJson, s, type LlmResult } from "@/ai/llm";
 
 export type WeeklyReviewCoachInput = {
   rhythm: "steady" | "sporadic" | "stopped";
@@ -26,53 +27,31 @@ const SYSTEM_PROMPT =
   "coachSummary는 사용자 입력을 요약·반영하고, 다음 주 방향을 한 줄로 제안한다.\n" +
   "coachQuestion은 사용자가 스스로 생각하도록 유도하는 질문 1개만.";
 
+const resultSchema = s.object({
+  coachSummary: s.string(),
+  coachQuestion: s.string(),
+});
+
 export async function weeklyReviewCoach(
   input: WeeklyReviewCoachInput
-): Promise<WeeklyReviewCoachResult | null> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) return null;
-
-  try {
-    const rhythmLabel = RHYTHM_LABELS[input.rhythm] ?? input.rhythm;
-    const userPrompt = `리듬: ${rhythmLabel}
+): Promise<LlmResult<WeeklyReviewCoachResult>> {
+  const rhythmLabel = RHYTHM_LABELS[input.rhythm] ?? input.rhythm;
+  const userPrompt = `리듬: ${rhythmLabel}
 흔들린 순간: ${input.wobbleMoment}
 다음 주 바꿀 행동: ${input.nextWeekOneChange}
 ${input.nextWeekKeepOne ? `유지할 행동: ${input.nextWeekKeepOne}` : ""}
 
 위 내용을 바탕으로 coachSummary(1~2문장)와 coachQuestion(질문 1개)를 JSON으로만 답하라.`;
 
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        temperature: 0.4,
-        response_format: { type: "json_object" },
-        messages: [
-          { role: "system", content: SYSTEM_PROMPT },
-          { role: "user", content: userPrompt },
-        ],
-      }),
-    });
-    if (!response.ok) return null;
-    const data = (await response.json()) as {
-      choices?: Array<{ message?: { content?: string } }>;
-    };
-    const content = data.choices?.[0]?.message?.content;
-    if (!content) return null;
-
-    const parsed = JSON.parse(content) as Partial<WeeklyReviewCoachResult>;
-    const coachSummary =
-      typeof parsed.coachSummary === "string" ? parsed.coachSummary.trim() : "";
-    const coachQuestion =
-      typeof parsed.coachQuestion === "string" ? parsed.coachQuestion.trim() : "";
-    if (!coachSummary || !coachQuestion) return null;
-
-    return { coachSummary, coachQuestion };
-  } catch {
-    return null;
-  }
+  return callLlmJson({
+    task: "weekly-review-coach",
+    system: SYSTEM_PROMPT,
+    user: userPrompt,
+    temperature: 0.4,
+    schema: resultSchema,
+    mock: () => ({
+      coachSummary: `이번 주는 ${rhythmLabel}. 다음 주에는 "${input.nextWeekOneChange}"부터 해 봐요.`,
+      coachQuestion: "그 행동을 언제 시작할 건가요?",
+    }),
+  });
 }
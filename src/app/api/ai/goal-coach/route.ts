@@ -1,55 +1,52 @@
-import { NextResponse } from "next/server";
+import { aiErrorResponse, toAiRouteResponse } from "@/ai/llm";
+import { withAiGuard } from "@/ai/guard";
 import { coachGoalPlan, type GoalCoachMode } from "@/ai/coachGoalPlan";
 
 const isGoalCoachMode = (value: unknown): value is GoalCoachMode => {
   return value === "SPECIFY" || value === "REALITY_CHECK" || value === "BREAK_DOWN";
 };
 
-export async function POST(request: Request) {
-  try {
-    const body = (await request.json()) as {
-      mode?: unknown;
-      yearGoal?: unknown;
-      currentStatus?: unknown;
-      dailyAvailableTime?: unknown;
-      weakestArea?: unknown;
-      note?: unknown;
-      threeMonthGoal?: unknown;
-    };
+export const POST = withAiGuard("goal-coach", async (request) => {
+  const body = (await request.json()) as {
+    mode?: unknown;
+    yearGoal?: unknown;
+    currentStatus?: unknown;
+    dailyAvailableTime?: unknown;
+    weakestArea?: unknown;
+    note?: unknown;
+    threeMonthGoal?: unknown;
+  };
 
-    if (!isGoalCoachMode(body.mode)) {
-      return NextResponse.json({ result: null }, { status: 400 });
-    }
-
-    const yearGoal = typeof body.yearGoal === "string" ? body.yearGoal.trim() : "";
-    const currentStatus =
-      typeof body.currentStatus === "string" ? body.currentStatus.trim() : "";
-    const dailyAvailableTime =
-      typeof body.dailyAvailableTime === "string"
-        ? body.dailyAvailableTime.trim()
-        : "";
-    const weakestArea =
-      typeof body.weakestArea === "string" ? body.weakestArea.trim() : "";
-    const note = typeof body.note === "string" ? body.note.trim() : "";
-    const threeMonthGoal =
-      typeof body.threeMonthGoal === "string" ? body.threeMonthGoal.trim() : "";
+  if (!isGoalCoachMode(body.mode)) {
+    return aiErrorResponse("INVALID_INPUT");
+  }
 
-    if (!yearGoal || !threeMonthGoal) {
-      return NextResponse.json({ result: null }, { status: 400 });
-    }
+  const yearGoal = typeof body.yearGoal === "string" ? body.yearGoal.trim() : "";
+  const currentStatus =
+    typeof body.currentStatus === "string" ? body.currentStatus.trim() : "";
+  const dailyAvailableTime =
+    typeof body.dailyAvailableTime === "string"
+      ? body.dailyAvailableTime.trim()
+      : "";
+  const weakestArea =
+    typeof body.weakestArea === "string" ? body.weakestArea.trim() : "";
+  const note = typeof body.note === "string" ? body.note.trim() : "";
+  const threeMonthGoal =
+    typeof body.threeMonthGoal === "string" ? body.threeMonthGoal.trim() : "";
 
-    const result = await coachGoalPlan({
-      mode: body.mode,
-      yearGoal,
-      currentStatus,
-      dailyAvailableTime,
-      weakestArea,
-      note,
-      threeMonthGoal,
-    });
-    return NextResponse.json({ result });
-  } catch {
-    return NextResponse.json({ result: null }, { status: 500 });
+  if (!yearGoal || !threeMonthGoal) {
+    return aiErrorResponse("INVALID_INPUT");
   }
-}
+
+  const result = await coachGoalPlan({
+    mode: body.mode,
+    yearGoal,
+    currentStatus,
+    dailyAvailableTime,
+    weakestArea,
+    note,
+    threeMonthGoal,
+  });
+  return toAiRouteResponse(result);
+});
 
@@ -1,20 +1,17 @@
-import { NextResponse } from "next/server";
+import { aiErrorResponse, toAiRouteResponse } from "@/ai/llm";
+import { withAiGuard } from "@/ai/guard";
 import { polishTodoSentence } from "@/ai/polishTodoSentence";
 
-export async function POST(request: Request) {
-  try {
-    const body = (await request.json()) as {
-      rawTodo?: unknown;
-    };
-    const rawTodo = typeof body.rawTodo === "string" ? body.rawTodo.trim() : "";
-    if (!rawTodo) {
-      return NextResponse.json({ result: null }, { status: 400 });
-    }
-
-    const result = await polishTodoSentence(rawTodo);
-    return NextResponse.json({ result });
-  } catch {
-    return NextResponse.json({ result: null }, { status: 500 });
+export const POST = withAiGuard("polish-todo", async (request) => {
+  const body = (await request.json()) as {
+    rawTodo?: unknown;
+  };
+  const rawTodo = typeof body.rawTodo === "string" ? body.rawTodo.trim() : "";
+  if (!rawTodo) {
+    return aiErrorResponse("INVALID_INPUT");
   }
-}
+
+  const result = await polishTodoSentence(rawTodo);
+  return toAiRouteResponse(result);
+});
 
@@ -1,4 +1,5 @@
-import { NextResponse } from "next/server";
+import { aiErrorResponse, toAiRouteResponse } from "@/ai/llm";
+import { withAiGuard } from "@/ai/guard";
 import { todoBlockSuggestion } from "@/ai/todoBlockSuggestion";
 
 const isBlockType = (
@@ -6,32 +7,28 @@ const isBlockType = (
 ): v is "START_FRICTION" | "SCOPE_TOO_BIG" | "STRUCTURE_CONFUSION" =>
   v === "START_FRICTION" || v === "SCOPE_TOO_BIG" || v === "STRUCTURE_CONFUSION";
 
-export async function POST(request: Request) {
-  try {
-    const body = (await request.json()) as {
-      blockType?: unknown;
-      originalTodo?: unknown;
-      situation?: unknown;
-    };
-    if (!isBlockType(body.blockType)) {
-      return NextResponse.json({ result: null }, { status: 400 });
-    }
-    const originalTodo =
-      typeof body.originalTodo === "string" ? body.originalTodo.trim() : "";
-    const situation =
-      typeof body.situation === "string" ? body.situation.trim() : undefined;
-
-    if (!originalTodo) {
-      return NextResponse.json({ result: null }, { status: 400 });
-    }
+export const POST = withAiGuard("todo-block", async (request) => {
+  const body = (await request.json()) as {
+    blockType?: unknown;
+    originalTodo?: unknown;
+    situation?: unknown;
+  };
+  if (!isBlockType(body.blockType)) {
+    return aiErrorResponse("INVALID_INPUT");
+  }
+  const originalTodo =
+    typeof body.originalTodo === "string" ? body.originalTodo.trim() : "";
+  const situation =
+    typeof body.situation === "string" ? body.situation.trim() : undefined;
 
-    const result = await todoBlockSuggestion(
-      body.blockType,
-      originalTodo,
-      situation
-    );
-    return NextResponse.json({ result });
-  } catch {
-    return NextResponse.json({ result: null }, { status: 500 });
+  if (!originalTodo) {
+    return aiErrorResponse("INVALID_INPUT");
   }
-}
+
+  const result = await todoBlockSuggestion(
+    body.blockType,
+    originalTodo,
+    situation
+  );
+  return toAiRouteResponse(result);
+});
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useMemo, useReducer, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import {
   GoogleAuthProvider,
   onAuthStateChanged,
@@ -9,23 +9,7 @@ import {
   signOut,
   type User,
 } from "firebase/auth";
-import {
-  addDoc,
-  collection,
-  deleteDoc,
-  doc,
-  getDoc,
-  getDocs,
-  limit,
-  onSnapshot,
-  orderBy,
-  query,
-  where,
-  serverTimestamp,
-  setDoc,
-  updateDoc,
-  writeBatch,
-} from "firebase/firestore";
+import { getDocs, query, where, serverTimestamp, writeBatch } from "firebase/firestore";
 import { auth, db, firebaseConfigMissingKeys } from "@/lib/firebase";
 import {
   firebaseMessagingMissingKeys,
@@ -45,17 +29,14 @@ import {
 } from "@/lib/date";
 import { getIconForRoutine } from "@/lib/routine-icons";
 import { Effect, EffectType } from "@/types/effect";
+import { applyEffectByUserType, effectStateFromLogs } from "@/store/effectReducer";
+import { EFFECT_LOOKBACK_DAYS } from "@/domain/effectStats";
 import {
-  applyEffectByUserType,
-  effectReducer,
-  initialEffectState,
-} from "@/store/effectReducer";
+  backfillEffectLogs,
+  removeEffectLog,
+  saveEffectLog,
+} from "@/lib/repositories/effectLogs";
 import { MissedReasonType } from "@/types/missed-reason";
-import type { RecordItem } from "@/types/record";
-import type { DesignPlan } from "@/types/designPlan";
-import type { GoalTrack } from "@/types/goalTrack";
-import type { GoalTrackEvent } from "@/types/goalTrackEvent";
-import type { GoalTrackWeeklyReview } from "@/types/goalTrackWeeklyReview";
 import {
   buildEventId,
   calcLast7Days,
@@ -63,12 +44,12 @@ import {
   getExecutedDayCount,
   recentEvents,
 } from "@/domain/execution";
-import { buildReviewId } from "@/domain/weeklyReview";
 import { buildWeeklyCoach } from "@/domain/weeklyCoach";
 import {
+  addDaysToDateKey,
   getLastNDateKeys,
-  getNextWeekDateKeyByWeekdayKST,
-  getWeekStartKeyKST,
+  getNextWeekDateKeyByWeekday,
+  getWeekStartKey,
   getWeekStartKeysForLastNWeeks,
 } from "@/domain/date";
 import { calcRhythmImpact, fallbackSuggestion } from "@/domain/todoBlock";
@@ -76,60 +57,230 @@ import type { BlockType } from "@/types/todoBlock";
 import {
   deleteGoalTrackEventsByGoalTrackId,
   deleteGoalTrackEventsByTodoId,
-} from "@/lib/goalTrackEvents";
+  recordGoalTrackEvent,
+  removeGoalTrackEvent,
+} from "@/lib/repositories/goalTrackEvents";
 import { WeeklyReviewCard } from "@/components/design/WeeklyReviewCard";
+import { GoalTrendPanel } from "@/components/design/GoalTrendPanel";
+import { GoalMetricPanel } from "@/components/design/GoalMetricPanel";
+import { ReviewHistoryPanel } from "@/components/design/ReviewHistoryPanel";
+import { buildReviewHistory, getReviewHistoryBounds } from "@/domain/reviewHistory";
+import type { GoalMetric } from "@/types/goalMetric";
+import { buildGoalTrend, getGoalTrendBounds } from "@/domain/goalTrend";
+import type { GoalTrendRange } from "@/types/goalTrend";
 import { InlineGoalLinkEditor } from "@/components/todo/InlineGoalLinkEditor";
 import { TodoBlockPanel } from "@/components/todo/TodoBlockPanel";
+import { RecurrenceRulePicker } from "@/components/todo/RecurrenceRulePicker";
+import { RecurringTodoEditor } from "@/components/todo/RecurringTodoEditor";
+import type { RecurrenceEditScope, RecurrenceRule } from "@/types/recurrence";
+import { describeRecurrenceRule } from "@/domain/recurrence";
+import {
+  createRecurrence,
+  endRecurrenceFromDate,
+  materializeRecurringTodos,
+  skipRecurringTodo,
+  updateRecurrenceFromDate,
+} from "@/lib/repositories/recurrences";
+import {
+  addTodo,
+  deleteTodo,
+  hasDuplicateTodo,
+  hasTodoWithText,
+  logTodoIntervention,
+  todosCollectionRef,
+  updateTodo,
+} from "@/lib/repositories/todos";
+import {
+  CARRY_OVER_LOOKBACK_DAYS,
+  CARRY_OVER_MODE_LABELS,
+  CARRY_OVER_MODES,
+  DEFAULT_CARRY_OVER_MAX_HOPS,
+  DEFAULT_CARRY_OVER_MODE,
+  isCarryOverMode,
+  MAX_CARRY_OVER_HOPS,
+  normalizeCarryOverMaxHops,
+  type CarryOverMode,
+} from "@/domain/carryOver";
+import { carryOverPendingTodos, restoreStaleTodo } from "@/lib/carryOver";
+import {
+  DEFAULT_DUE_REMINDER_LEAD_MINUTES,
+  DEFAULT_SNOOZE_MINUTES,
+  DUE_REMINDER_LEAD_OPTIONS,
+  normalizeDueReminderLeadMinutes,
+  parseTodoDeepLink,
+} from "@/domain/todoReminder";
+import {
+  DEFAULT_PROTECT_WINDOW_ID,
+  buildProtectBypass,
+  buildProtectSession,
+  buildProtectSessionId,
+  calcOverrunMinutes,
+  endsInProtectTime,
+  findProtectWindows,
+  formatProtectWindow,
+  normalizeDistractionApps,
+  normalizeProtectWindows,
+  summarizeProtectBypasses,
+} from "@/domain/protect";
+import type { ProtectWindowOccurrence } from "@/domain/protect";
+import {
+  DEFAULT_WEEKLY_REVIEW_REMINDER_TIME,
+  parseWeeklyReviewDeepLink,
+} from "@/domain/weeklyReview";
+import {
+  scheduleTodoDueReminders,
+  snoozeTodoReminder,
+} from "@/lib/repositories/todoReminders";
+import {
+  createProtectBypassId,
+  endProtectBypass,
+  markProtectBypassOverrun,
+  startProtectBypass,
+} from "@/lib/repositories/protectSessions";
+import {
+  buildRoutineRun,
+  buildRoutineRunId,
+  computeRoutineStats,
+  finishRoutineRunTask,
+  readLegacyCompletionHistory,
+  ROUTINE_RUN_LOOKBACK_DAYS,
+} from "@/domain/routineRun";
+import { importLegacyRoutineHistory, saveRoutineRun } from "@/lib/repositories/routineRuns";
+import {
+  formatRoutinePlace,
+  getLocationRoutines,
+  normalizeRoutinePlace,
+} from "@/domain/routinePlace";
+import type { GoalCoachMode, GoalCoachResult, YearGoal } from "@/types/goal";
+import {
+  fetchExecutedDateKeys,
+  saveYearGoal,
+  updateYearGoalProgress,
+  yearGoalDocRef,
+  type YearGoalDraft,
+} from "@/lib/repositories/yearGoals";
+import {
+  calcYearGoalProgress,
+  getExecutedDateKeys,
+  getYearGoalExecutionWindow,
+} from "@/domain/goalProgress";
+import { YearGoalEditor } from "@/components/design/YearGoalEditor";
+import { WeeklyActionPlanPanel } from "@/components/design/WeeklyActionPlanPanel";
+import {
+  calcWeeklyActionPlanAchievedRate,
+  commitWeeklyActionPlan,
+  getPlanDateKey,
+  saveWeeklyActionPlanAchievedRate,
+} from "@/lib/weeklyActionPlan";
+import { getAiLimitMessage, postAiRoute } from "@/lib/aiClient";
+import type { AiRouteError } from "@/types/aiApi";
+import {
+  USER_TYPES,
+  type DistractionApp,
+  type ProtectWindow,
+  type RoutineCollection,
+  type RoutineItem,
+  type RoutineTask,
+  type RoutinePlace,
+  type RoutineTriggerType,
+  type Settings,
+  type UserType,
+  type WakeAlarm,
+  type WakeRoutineBase,
+} from "@/types/settings";
+import type { TodoItem } from "@/types/todo";
+import type { DayLog } from "@/types/dayLog";
+import type { CalendarEvent } from "@/types/calendarEvent";
+import { saveSettings, subscribeSettings } from "@/lib/repositories/settings";
+import { replaceNotificationJobs } from "@/lib/repositories/notificationJobs";
+import {
+  buildSettingsJobs,
+  getJobsSignature,
+  SETTINGS_JOB_TYPES,
+} from "@/domain/notificationJob";
+import {
+  daysCollectionRef,
+  markDayLogReviewed,
+  saveDayLog,
+} from "@/lib/repositories/dayLogs";
+import {
+  addDesignPlan,
+  designPlanDocRef,
+  renameDesignPlan,
+} from "@/lib/repositories/designPlans";
+import {
+  addGoalTrack,
+  deleteGoalTrack,
+  goalTrackDocRef,
+  renameGoalTrack,
+  updateGoalTrackMetric,
+  updateGoalTracksReviewWeekday,
+} from "@/lib/repositories/goalTracks";
+import {
+  fetchWeeklyReviewData,
+  saveWeeklyReview,
+  updateWeeklyReview,
+} from "@/lib/repositories/weeklyReviews";
+import { addRecord } from "@/lib/repositories/records";
+import { addCalendarEvent, deleteCalendarEvent } from "@/lib/repositories/calendarEvents";
+import { savePushToken } from "@/lib/repositories/pushTokens";
+import { flushQueuedWakeRoutine, syncWakeRoutine } from "@/lib/wakeRoutineSync";
+import { registerAppShellWorker } from "@/lib/serviceWorker";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import { useNearbyRoutines } from "@/hooks/useNearbyRoutines";
+import { exportUserData, importUserData } from "@/lib/dataExport";
+import type { DataArchive } from "@/types/dataArchive";
+import type { TodoDeepLink } from "@/types/todoReminder";
+import type { ProtectBypassInput } from "@/types/protectSession";
+import type { RoutineRun, RoutineTaskOutcome } from "@/types/routineRun";
+import { DataBackupPanel } from "@/components/backup/DataBackupPanel";
+import { DayClockSetting } from "@/components/settings/DayClockSetting";
+import { UserTypeQuestionnaire } from "@/components/settings/UserTypeQuestionnaire";
+import { USER_TYPE_PROFILES, orderPendingTodos } from "@/domain/userType";
+import { ProtectWindowsEditor } from "@/components/settings/ProtectWindowsEditor";
+import { RoutineHistoryPanel } from "@/components/routine/RoutineHistoryPanel";
+import { RoutineRunner } from "@/components/routine/RoutineRunner";
+import { RoutinePlaceEditor } from "@/components/routine/RoutinePlaceEditor";
+import { EffectDashboard } from "@/components/effect/EffectDashboard";
+import {
+  getActiveDayStartsAt,
+  getActiveTimeZone,
+  getDeviceTimeZone,
+  getCalendarDateKey,
+  getMinutesOfDay,
+  getTodayKey,
+  normalizeDayStartsAt,
+  resolveTimeZone,
+  setActiveDayStartsAt,
+  setActiveTimeZone,
+} from "@/lib/dateKey";
+import {
+  useCalendarEvents,
+  useDayLog,
+  useDesignPlans,
+  useGoalTracks,
+  useMonthRecords,
+  useProtectBypasses,
+  useRecentGoalTrackEvents,
+  useRecurrences,
+  useRoutineRuns,
+  useEffectLogs,
+  useGoalTrackRangeData,
+  useGoalTrackReviews,
+  useGoalTrackTodosInRange,
+  useTodos,
+  useTodosByDateKey,
+  useWeeklyReviews,
+  useYearGoals,
+} from "@/hooks/useUserData";
 
-const USER_TYPES = ["neutral"] as const;
-type UserType = (typeof USER_TYPES)[number];
 const DEFAULT_USER_TYPE: UserType = "neutral";
 const isUserType = (value: unknown): value is UserType =>
   USER_TYPES.includes(value as UserType);
 
-type Settings = {
-  userType: UserType;
-  wakeTime: string;
-  wakeEnabled?: boolean;
-  wakeConsent?: boolean;
-  wakeTimes?: WakeAlarm[];
-  protectEnabled: boolean;
-  protectStart: string;
-  protectEnd: string;
-  distractionApps?: DistractionApp[];
-  wakeRoutine?: RoutineCollection | RoutineItem[];
-};
-
-type DayLog = {
-  did: string;
-  learned: string;
-  reviewedAt?: unknown | null;
-};
-
-type TodoItem = {
-  id: string;
-  text: string;
-  done: boolean;
-  effects?: Effect[];
-  createdAt?: unknown;
-  completedAt?: unknown;
-  dueAt?: unknown;
-  missedReasonType?: MissedReasonType | null;
-  goalId?: string | null;
-  goalTrackId?: string | null;
-};
-
 const getTodoGoalTrackId = (todo: TodoItem): string | null =>
   todo.goalTrackId ?? null;
 
-type CalendarEvent = {
-  id: string;
-  title: string;
-  dateKey: string;
-  time: string;
-  createdAt?: unknown;
-};
-
 type TabKey =
   | "home"
   | "wake"
@@ -139,43 +290,13 @@ type TabKey =
   | "calendar"
   | "todos";
 
-type DistractionApp = {
-  id: string;
-  label: string;
-  minutes: number;
-};
-
-type RoutineType = "morning" | "night" | "custom";
-type RoutineTriggerType = "alarm" | "manual" | "location";
-
-type RoutineTask = {
-  id: string;
-  title: string;
-  completed: boolean;
-};
-
-type RoutineItem = {
-  id: string;
-  title: string;
-  type: RoutineType;
-  triggerType?: RoutineTriggerType;
-  tasks: RoutineTask[];
-  streak: number;
-  totalCompletedDays: number;
-  monthlySuccessRate: number;
-  lastCompletedDate: string;
-  completionHistory?: string[];
-};
-
-type RoutineCollection = {
-  routines: RoutineItem[];
-};
+const EMPTY_DAY_LOG: DayLog = { did: "", learned: "" };
 
-type WakeAlarm = {
-  id: string;
-  time: string;
-  enabled: boolean;
-};
+const DEFAULT_DISTRACTION_APPS: DistractionApp[] = [
+  { id: "insta", label: "인스타그램", minutes: 5 },
+  { id: "youtube", label: "유튜브", minutes: 5 },
+  { id: "kakao", label: "카카오톡", minutes: 5 },
+];
 
 const defaultSettings: Settings = {
   userType: DEFAULT_USER_TYPE,
@@ -187,40 +308,19 @@ const defaultSettings: Settings = {
   protectStart: "07:00",
   protectEnd: "12:00",
   wakeRoutine: { routines: [] },
-  distractionApps: [
-    { id: "insta", label: "인스타그램", minutes: 5 },
-    { id: "youtube", label: "유튜브", minutes: 5 },
-    { id: "kakao", label: "카카오톡", minutes: 5 },
+  distractionApps: DEFAULT_DISTRACTION_APPS,
+  protectWindows: [
+    {
+      id: DEFAULT_PROTECT_WINDOW_ID,
+      label: "",
+      weekdays: [],
+      start: "07:00",
+      end: "12:00",
+      distractionApps: DEFAULT_DISTRACTION_APPS,
+    },
   ],
-};
-
-const ROUTINE_STREAK_GRACE_DAYS = 2;
-
-const parseDateKeyToDate = (value: string) => {
-  const [year, month, day] = value.split("-").map((part) => Number(part));
-  if (!year || !month || !day) return null;
-  return new Date(year, month - 1, day);
-};
-
-const diffDaysBetweenDateKeys = (from: string, to: string) => {
-  const fromDate = parseDateKeyToDate(from);
-  const toDate = parseDateKeyToDate(to);
-  if (!fromDate || !toDate) return null;
-  const MS_PER_DAY = 24 * 60 * 60 * 1000;
-  return Math.floor((toDate.getTime() - fromDate.getTime()) / MS_PER_DAY);
-};
-
-const calculateMonthlySuccessRate = (
-  completionHistory: string[],
-  todayDateKey: string
-) => {
-  const todayDate = parseDateKeyToDate(todayDateKey) ?? new Date();
-  const monthPrefix = getMonthKey(todayDate);
-  const elapsedDays = Math.max(1, todayDate.getDate());
-  const uniqueSuccessDays = new Set(
-    completionHistory.filter((dayKey) => dayKey.startsWith(monthPrefix))
-  );
-  return Math.round((uniqueSuccessDays.size / elapsedDays) * 100);
+  carryOverMode: DEFAULT_CARRY_OVER_MODE,
+  carryOverMaxHops: DEFAULT_CARRY_OVER_MAX_HOPS,
 };
 
 const makeDefaultRoutine = (
@@ -232,18 +332,13 @@ const makeDefaultRoutine = (
   type: "morning",
   triggerType: "alarm",
   tasks,
-  streak: 0,
-  totalCompletedDays: 0,
-  monthlySuccessRate: 0,
-  lastCompletedDate: "",
-  completionHistory: [],
 });
 
 const normalizeRoutineTask = (task: unknown, index: number): RoutineTask | null => {
   if (typeof task === "string") {
     const title = task.trim();
     if (!title) return null;
-    return { id: `${Date.now()}-task-${index}`, title, completed: false };
+    return { id: `${Date.now()}-task-${index}`, title };
   }
   if (!task || typeof task !== "object") return null;
   const candidate = task as Partial<RoutineTask> & { text?: string };
@@ -260,15 +355,13 @@ const normalizeRoutineTask = (task: unknown, index: number): RoutineTask | null
         ? candidate.id
         : `${Date.now()}-task-${index}`,
     title,
-    completed: Boolean(candidate.completed),
+    ...(typeof candidate.targetSeconds === "number" && candidate.targetSeconds > 0
+      ? { targetSeconds: Math.round(candidate.targetSeconds) }
+      : {}),
   };
 };
 
-const normalizeRoutineItem = (
-  routine: unknown,
-  index: number,
-  todayDateKey: string
-): RoutineItem | null => {
+const normalizeRoutineItem = (routine: unknown, index: number): RoutineItem | null => {
   if (!routine || typeof routine !== "object") return null;
   const candidate = routine as Partial<RoutineItem> & {
     text?: string;
@@ -285,11 +378,7 @@ const normalizeRoutineItem = (
         .map((task, taskIndex) => normalizeRoutineTask(task, taskIndex))
         .filter((task): task is RoutineTask => Boolean(task))
     : [];
-  const completionHistory = Array.isArray(candidate.completionHistory)
-    ? candidate.completionHistory.filter(
-        (item): item is string => typeof item === "string" && item.length > 0
-      )
-    : [];
+  const place = normalizeRoutinePlace(candidate.place);
   return {
     id:
       typeof candidate.id === "string" && candidate.id
@@ -307,18 +396,8 @@ const normalizeRoutineItem = (
         ? candidate.triggerType
         : "alarm",
     tasks,
-    streak:
-      typeof candidate.streak === "number" && candidate.streak >= 0
-        ? candidate.streak
-        : 0,
-    totalCompletedDays:
-      typeof candidate.totalCompletedDays === "number" && candidate.totalCompletedDays >= 0
-        ? candidate.totalCompletedDays
-        : completionHistory.length,
-    monthlySuccessRate: calculateMonthlySuccessRate(completionHistory, todayDateKey),
-    lastCompletedDate:
-      typeof candidate.lastCompletedDate === "string" ? candidate.lastCompletedDate : "",
-    completionHistory,
+    ...(place ? { place } : {}),
+    ...(candidate.arrivalReminder === true ? { arrivalReminder: true } : {}),
   };
 };
 
@@ -339,7 +418,7 @@ const getRoutineDisplayTitle = (title: string, fallbackIndex: number) => {
   return trimmed.length > 0 ? trimmed : `루틴 ${fallbackIndex + 1}`;
 };
 
-const normalizeWakeRoutine = (raw: unknown, todayDateKey: string): RoutineItem[] => {
+const normalizeWakeRoutine = (raw: unknown): RoutineItem[] => {
   const source = extractRoutineArray(raw);
   if (source.length === 0) {
     return [];
@@ -360,7 +439,7 @@ const normalizeWakeRoutine = (raw: unknown, todayDateKey: string): RoutineItem[]
     return [makeDefaultRoutine("morning-default", tasks)];
   }
   return source
-    .map((item, index) => normalizeRoutineItem(item, index, todayDateKey))
+    .map((item, index) => normalizeRoutineItem(item, index))
     .filter((item): item is RoutineItem => Boolean(item));
 };
 
@@ -411,6 +490,10 @@ const EFFECT_OPTIONS: Array<{
   },
 ];
 
+const EFFECT_LABELS = Object.fromEntries(
+  EFFECT_OPTIONS.map((option) => [option.type, option.label])
+) as Record<EffectType, string>;
+
 const EFFECT_INTENSITIES = [1, 2, 3] as const;
 const INTENSITY_LABELS: Record<Effect["intensity"], string> = {
   1: "약",
@@ -471,23 +554,6 @@ const pickStableQuestions = (
   return indices.slice(0, Math.min(count, pool.length)).map((i) => pool[i]);
 };
 
-const normalizeMissedReasonType = (value: unknown): MissedReasonType | null => {
-  // supports old stored values
-  if (value === "FORGOT") return MissedReasonType.COMPLETED_BUT_NOT_CHECKED;
-  if (value === "HARD_TO_START") return MissedReasonType.HARD_TO_START;
-  if (value === "TIME_MISMATCH") return MissedReasonType.NOT_ENOUGH_TIME;
-  if (value === "JUST_SKIP") return MissedReasonType.WANT_TO_REST;
-  if (
-    value === MissedReasonType.COMPLETED_BUT_NOT_CHECKED ||
-    value === MissedReasonType.HARD_TO_START ||
-    value === MissedReasonType.NOT_ENOUGH_TIME ||
-    value === MissedReasonType.WANT_TO_REST
-  ) {
-    return value as MissedReasonType;
-  }
-  return null;
-};
-
 const toMillis = (value: unknown): number | null => {
   if (!value) return null;
   if (typeof value === "number") return value;
@@ -518,29 +584,16 @@ const getWakeTimes = (alarms: WakeAlarm[] | undefined) =>
 const getUniqueWakeTimes = (alarms: WakeAlarm[] | undefined) =>
   Array.from(new Set(getWakeTimes(alarms)));
 
-const normalizeWakeTimes = (alarms: WakeAlarm[] | undefined) => {
-  const seen = new Set<string>();
-  return (Array.isArray(alarms) ? alarms : [])
-    .map((alarm) => ({
-      id: alarm?.id ?? `${Date.now()}`,
-      time: typeof alarm?.time === "string" ? alarm.time.trim() : "",
-      enabled: typeof alarm?.enabled === "boolean" ? alarm.enabled : true,
-    }))
-    .filter((alarm) => alarm.time)
-    .filter((alarm) => {
-      if (seen.has(alarm.time)) return false;
-      seen.add(alarm.time);
-      return true;
-    });
-};
-
 type HomeLogic = {
   greetingText: string;
   todayEvents: CalendarEvent[];
 };
 
 type TodoLogic = {
+  /** 남은 투두 (사용자 유형 순서) */
   pendingTodos: TodoItem[];
+  /** 목록에 보여 줄 순서: 남은 투두 → 완료한 투두 */
+  orderedTodos: TodoItem[];
   todoCompletedCount: number;
   completionRate: number;
 };
@@ -551,11 +604,14 @@ type LogLogic = {
 };
 
 type ProtectLogic = {
-  protectStartMinutes: number;
-  protectEndMinutes: number;
   protectActive: boolean;
-  protectRemainingMinutes: number | null;
+  /** 지금 열려 있는 구간 */
+  activeWindow: ProtectWindowOccurrence | null;
+  /** 다음에 열릴 구간 (일주일 안) */
+  nextWindow: ProtectWindowOccurrence | null;
   protectDetailText: string;
+  /** 새 구간을 만들 때 쓰는 사용자 유형 기본 시간 */
+  suggestedWindow: { start: string; end: string };
 };
 
 const formatMinutes = (minutes: number) => {
@@ -579,11 +635,26 @@ const getHomeLogic = (
   userType: UserType,
   args: { nowMinutes: number; todayEvents: CalendarEvent[] }
 ): HomeLogic => {
+  const greetingText = getGreetingText(args.nowMinutes);
   switch (userType) {
+    case "morningStarter":
+      return {
+        greetingText:
+          args.nowMinutes < 12 * 60
+            ? `${greetingText} · ${USER_TYPE_PROFILES.morningStarter.greetingHint}`
+            : `${greetingText} · 내일 아침에 할 일을 미리 골라 둬요`,
+        todayEvents: args.todayEvents,
+      };
+    case "deadlineDriven":
+    case "lowEnergy":
+      return {
+        greetingText: `${greetingText} · ${USER_TYPE_PROFILES[userType].greetingHint}`,
+        todayEvents: args.todayEvents,
+      };
     case "neutral":
     default:
       return {
-        greetingText: getGreetingText(args.nowMinutes),
+        greetingText,
         todayEvents: args.todayEvents,
       };
   }
@@ -593,16 +664,31 @@ const getTodoLogic = (
   userType: UserType,
   args: { todos: TodoItem[] }
 ): TodoLogic => {
+  const todoCompletedCount = args.todos.filter((todo) => todo.done).length;
+  const completionRate = args.todos.length
+    ? Math.round((todoCompletedCount / args.todos.length) * 100)
+    : 0;
+  const pending = args.todos.filter((todo) => !todo.done);
+  const done = args.todos.filter((todo) => todo.done);
   switch (userType) {
-    case "neutral":
-    default: {
-      const todoCompletedCount = args.todos.filter((todo) => todo.done).length;
-      const completionRate = args.todos.length
-        ? Math.round((todoCompletedCount / args.todos.length) * 100)
-        : 0;
-      const pendingTodos = args.todos.filter((todo) => !todo.done);
-      return { pendingTodos, todoCompletedCount, completionRate };
+    case "morningStarter":
+    case "deadlineDriven":
+    case "lowEnergy": {
+      const pendingTodos = orderPendingTodos(
+        USER_TYPE_PROFILES[userType].todoOrder,
+        pending,
+        (todo) => toMillis(todo.dueAt)
+      );
+      return {
+        pendingTodos,
+        orderedTodos: [...pendingTodos, ...done],
+        todoCompletedCount,
+        completionRate,
+      };
     }
+    case "neutral":
+    default:
+      return { pendingTodos: pending, orderedTodos: args.todos, todoCompletedCount, completionRate };
   }
 };
 
@@ -624,37 +710,52 @@ const getLogLogic = (
 
 const getProtectLogic = (
   userType: UserType,
-  args: { settings: Settings; nowMinutes: number }
+  args: { settings: Settings; nowMinutes: number; calendarKey: string }
 ): ProtectLogic => {
+  const suggestedWindow = USER_TYPE_PROFILES[userType].protectDefault;
+  if (!args.settings.protectEnabled) {
+    return {
+      protectActive: false,
+      activeWindow: null,
+      nextWindow: null,
+      protectDetailText: "보호 시간이 꺼져 있어요",
+      suggestedWindow,
+    };
+  }
+  const { active, next } = findProtectWindows(
+    args.settings.protectWindows ?? [],
+    args.calendarKey,
+    args.nowMinutes
+  );
+  const base = {
+    protectActive: active !== null,
+    activeWindow: active,
+    nextWindow: next,
+    suggestedWindow,
+  };
+  const countdownText = active
+    ? `종료까지 ${formatMinutes(active.endsInMinutes)}`
+    : next && next.startsInMinutes < 24 * 60
+      ? `시작까지 ${formatMinutes(next.startsInMinutes)}`
+      : next
+        ? `다음 보호 시간 ${formatProtectWindow(next.window)}`
+        : null;
   switch (userType) {
+    case "morningStarter":
+    case "deadlineDriven":
+    case "lowEnergy":
+      // 구간이 없으면 유형에 맞는 시간을 권한다
+      return {
+        ...base,
+        protectDetailText:
+          countdownText ?? `추천 보호 시간 ${suggestedWindow.start}~${suggestedWindow.end}`,
+      };
     case "neutral":
-    default: {
-      const protectStartMinutes =
-        parseTimeToMinutes(args.settings.protectStart) ?? 0;
-      const protectEndMinutes =
-        parseTimeToMinutes(args.settings.protectEnd) ?? 12 * 60;
-      const protectActive =
-        args.settings.protectEnabled &&
-        args.nowMinutes >= protectStartMinutes &&
-        args.nowMinutes < protectEndMinutes;
-      const protectRemainingMinutes = protectActive
-        ? protectEndMinutes - args.nowMinutes
-        : args.nowMinutes < protectStartMinutes
-          ? protectStartMinutes - args.nowMinutes
-          : null;
-      const protectDetailText = protectActive
-        ? `종료까지 ${formatMinutes(protectRemainingMinutes ?? 0)}`
-        : protectRemainingMinutes !== null
-          ? `시작까지 ${formatMinutes(protectRemainingMinutes)}`
-          : "오늘 보호 시간이 끝났어요";
+    default:
       return {
-        protectStartMinutes,
-        protectEndMinutes,
-        protectActive,
-        protectRemainingMinutes,
-        protectDetailText,
+        ...base,
+        protectDetailText: countdownText ?? "설정된 보호 시간이 없어요",
       };
-    }
   }
 };
 
@@ -665,18 +766,24 @@ export default function Home() {
   const [authError, setAuthError] = useState("");
   const [settings, setSettings] = useState<Settings>(defaultSettings);
   const [settingsDraft, setSettingsDraft] = useState<Settings>(defaultSettings);
-  const [todayLog, setTodayLog] = useState<DayLog>({ did: "", learned: "" });
   const [todayDraft, setTodayDraft] = useState<DayLog>({ did: "", learned: "" });
-  const [yesterdayLog, setYesterdayLog] = useState<DayLog | null>(null);
-  const [yesterdayExists, setYesterdayExists] = useState(false);
-  const [todos, setTodos] = useState<TodoItem[]>([]);
   const [newTodo, setNewTodo] = useState("");
   const [newTodoDueAt, setNewTodoDueAt] = useState("");
   const [linkNewTodoToGoal, setLinkNewTodoToGoal] = useState(false);
   const [newTodoDesignPlanId, setNewTodoDesignPlanId] = useState("");
   const [newTodoGoalTrackId, setNewTodoGoalTrackId] = useState("");
-  const [designPlans, setDesignPlans] = useState<DesignPlan[]>([]);
-  const [goalTracks, setGoalTracks] = useState<GoalTrack[]>([]);
+  const [newTodoRecurrenceRule, setNewTodoRecurrenceRule] =
+    useState<RecurrenceRule | null>(null);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [userTypeEditing, setUserTypeEditing] = useState(false);
+  const [yearGoalSaving, setYearGoalSaving] = useState(false);
+  const [weeklyActionPlanCommitting, setWeeklyActionPlanCommitting] = useState(false);
+  const [selectedPlanExecutedDateKeys, setSelectedPlanExecutedDateKeys] = useState<
+    string[]
+  >([]);
+  const [editingRecurringTodoId, setEditingRecurringTodoId] = useState<
+    string | null
+  >(null);
   const [selectedDesignPlanId, setSelectedDesignPlanId] = useState<string | null>(null);
   const [newDesignPlanTitle, setNewDesignPlanTitle] = useState("");
   const [newGoalTrackTitle, setNewGoalTrackTitle] = useState("");
@@ -692,13 +799,9 @@ export default function Home() {
   const [addingTodoForGoalTrackId, setAddingTodoForGoalTrackId] = useState<string | null>(null);
   const [goalTrackTodoText, setGoalTrackTodoText] = useState("");
   const [goalTrackTodoDueAt, setGoalTrackTodoDueAt] = useState("");
-  const [goalTrackEvents, setGoalTrackEvents] = useState<GoalTrackEvent[]>([]);
-  const [todosByDateKey, setTodosByDateKey] = useState<
-    Record<string, TodoItem[]>
-  >({});
-  const [goalTrackWeeklyReviews, setGoalTrackWeeklyReviews] = useState<
-    GoalTrackWeeklyReview[]
-  >([]);
+  const [trendGoalTrackId, setTrendGoalTrackId] = useState<string | null>(null);
+  const [trendRange, setTrendRange] = useState<GoalTrendRange>(12);
+  const [historyGoalTrackId, setHistoryGoalTrackId] = useState<string | null>(null);
   const [weeklyReviewSaving, setWeeklyReviewSaving] = useState(false);
   const [executionToast, setExecutionToast] = useState<string | null>(null);
   const [editingGoalLinkTodoId, setEditingGoalLinkTodoId] = useState<string | null>(null);
@@ -709,49 +812,57 @@ export default function Home() {
   const [blockSuggestionLoading, setBlockSuggestionLoading] = useState<
     Record<string, boolean>
   >({});
-  const [todayKey, setTodayKey] = useState(getLocalDateKey());
+  const [todayKey, setTodayKey] = useState(getTodayKey());
   const [yesterdayKey, setYesterdayKey] = useState(getYesterdayKey());
   const [currentMonth, setCurrentMonth] = useState(new Date());
-  const [events, setEvents] = useState<Record<string, CalendarEvent[]>>({});
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
-  const [selectedLog, setSelectedLog] = useState<DayLog | null>(null);
-  const [selectedLogExists, setSelectedLogExists] = useState(false);
   const [newEventTitle, setNewEventTitle] = useState("");
   const [newEventTime, setNewEventTime] = useState("09:00");
   const [activeTab, setActiveTab] = useState<TabKey>("home");
   const [pendingAppId, setPendingAppId] = useState<string | null>(null);
   const [pendingMinutes, setPendingMinutes] = useState(5);
-  const [distractionApps, setDistractionApps] = useState<DistractionApp[]>(
-    defaultSettings.distractionApps ?? []
-  );
   const [newAppLabel, setNewAppLabel] = useState("");
   const [newRoutineText, setNewRoutineText] = useState("");
-  const [wakeScreen, setWakeScreen] = useState<"list" | "execute" | "edit">("list");
+  const [wakeScreen, setWakeScreen] = useState<"list" | "execute" | "edit" | "history">("list");
   const [selectedWakeRoutineId, setSelectedWakeRoutineId] = useState<string | null>(null);
-  const [nowMinutes, setNowMinutes] = useState(() => {
-    const now = new Date();
-    return now.getHours() * 60 + now.getMinutes();
-  });
+  const [nowMinutes, setNowMinutes] = useState(() => getMinutesOfDay());
+  /** 보호 시간처럼 실제 시각을 따르는 계산용 달력 날짜 (하루 시작과 무관) */
+  const [calendarKey, setCalendarKey] = useState(() => getCalendarDateKey());
   const [timerSeconds, setTimerSeconds] = useState<number | null>(null);
   const [timerApp, setTimerApp] = useState<string | null>(null);
   const [timerFinished, setTimerFinished] = useState(false);
   const bodyOverflowRef = useRef<string | null>(null);
   const todoInsertInFlightRef = useRef<Set<string>>(new Set());
   const goalTrackEventsBackfillRunRef = useRef(false);
+  const effectLogsBackfillRunRef = useRef(false);
+  const carryOverRunKeyRef = useRef<string | null>(null);
+  /** 마지막으로 본 서버의 기상 루틴 (병합 저장의 기준점) */
+  const wakeRoutineBaseRef = useRef<WakeRoutineBase>({ revision: 0, routines: [] });
+  const routineHistoryMigratingRef = useRef(false);
+  /** 마지막으로 맞춘 설정 알림 예약 (settings.notificationJobsSignature) */
+  const notificationJobsSignatureRef = useRef<string | null>(null);
+  const [wakeRoutineQueued, setWakeRoutineQueued] = useState(false);
+  const achievedRateRunRef = useRef<Set<string>>(new Set());
   const timerNotifiedRef = useRef(false);
+  /** 지금 돌고 있는 방해 앱 타이머의 기록 (protectBypasses) */
+  const activeBypassRef = useRef<{
+    id: string;
+    bypass: ProtectBypassInput;
+    overran: boolean;
+  } | null>(null);
   const autoRefreshRef = useRef(false);
   const [updateAvailable, setUpdateAvailable] = useState(false);
   const [wakeSaved, setWakeSaved] = useState(false);
   const [routineSaved, setRoutineSaved] = useState(false);
   const [wakeReminder, setWakeReminder] = useState<string | null>(null);
+  const [todoDeepLink, setTodoDeepLink] = useState<TodoDeepLink | null>(null);
+  /** 평가 알림으로 열렸을 때 스크롤할 목표 */
+  const [reviewDeepLinkTrackId, setReviewDeepLinkTrackId] = useState<string | null>(null);
+  const handledDeepLinkSnoozeRef = useRef<string | null>(null);
   const wakeSaveTimeoutRef = useRef<number | null>(null);
   const routineSaveTimeoutRef = useRef<number | null>(null);
   const [pushEnabled, setPushEnabled] = useState(false);
   const [wakeConsent, setWakeConsent] = useState(false);
-  const [effectState, dispatchEffect] = useReducer(
-    effectReducer,
-    initialEffectState
-  );
   const [effectModalTodo, setEffectModalTodo] = useState<TodoItem | null>(null);
   const [effectSelections, setEffectSelections] = useState<
     Record<EffectType, Effect["intensity"]>
@@ -772,17 +883,121 @@ export default function Home() {
   const [todoPolishError, setTodoPolishError] = useState("");
   const [recordDraft, setRecordDraft] = useState("");
   const [recordGoalTrackId, setRecordGoalTrackId] = useState<string>("");
-  const [recordsThisMonth, setRecordsThisMonth] = useState<RecordItem[]>([]);
-  const [logSection, setLogSection] = useState<"daily" | "record">(
+  const [logSection, setLogSection] = useState<"daily" | "record" | "effects">(
     "daily"
   );
 
+  const userId = user?.uid ?? null;
+  const todayLog = useDayLog(db, userId, todayKey) ?? EMPTY_DAY_LOG;
+  const yesterdayLog = useDayLog(db, userId, yesterdayKey);
+  const yesterdayExists = yesterdayLog !== null;
+  const selectedLog = useDayLog(db, userId, selectedDate);
+  const selectedLogExists = selectedLog !== null;
+  const todos = useTodos(db, userId, todayKey);
+  const todosByDateKey = useTodosByDateKey(db, userId, getLastNDateKeys(7));
+  const recurrences = useRecurrences(db, userId, todayKey);
+  const yearGoals = useYearGoals(db, userId);
+  const designPlans = useDesignPlans(db, userId);
+  const [goalTracks, goalTracksLoaded] = useGoalTracks(db, userId);
+  const goalTrackEvents = useRecentGoalTrackEvents(db, userId);
+  const goalTrackWeeklyReviews = useWeeklyReviews(
+    db,
+    userId,
+    getWeekStartKeysForLastNWeeks(8)
+  );
+  const recordsThisMonth = useMonthRecords(db, userId, todayKey.slice(0, 7));
+  const calendarEvents = useCalendarEvents(db, userId);
+  const protectBypasses = useProtectBypasses(db, userId, todayKey);
+  const effectLogs = useEffectLogs(
+    db,
+    userId,
+    addDaysToDateKey(todayKey, -EFFECT_LOOKBACK_DAYS)
+  );
+  const trendBounds = getGoalTrendBounds(todayKey, trendRange);
+  const trendData = useGoalTrackRangeData(
+    db,
+    userId,
+    trendGoalTrackId,
+    trendBounds.fromKey,
+    trendBounds.toKey
+  );
+  const [trendTrackReviews, trendTrackReviewsLoaded] = useGoalTrackReviews(
+    db,
+    userId,
+    trendGoalTrackId
+  );
+  const [historyReviews, historyReviewsLoaded] = useGoalTrackReviews(
+    db,
+    userId,
+    historyGoalTrackId
+  );
+  const historyBounds = getReviewHistoryBounds(historyReviews);
+  const [historyTodosByDateKey, historyTodosLoaded] = useGoalTrackTodosInRange(
+    db,
+    userId,
+    historyBounds ? historyGoalTrackId : null,
+    historyBounds?.fromKey ?? todayKey,
+    historyBounds?.toKey ?? todayKey
+  );
+  const reviewHistory = useMemo(
+    () =>
+      historyGoalTrackId
+        ? buildReviewHistory({
+            goalTrackId: historyGoalTrackId,
+            reviews: historyReviews,
+            todosByDateKey: historyTodosByDateKey,
+            todayKey,
+          })
+        : [],
+    [historyGoalTrackId, historyReviews, historyTodosByDateKey, todayKey]
+  );
+  const goalTrend = useMemo(
+    () =>
+      buildGoalTrend({
+        goalTrackId: trendGoalTrackId ?? "",
+        todayKey,
+        weeks: trendRange,
+        events: trendData.events,
+        todosByDateKey: trendData.todosByDateKey,
+        reviews: trendData.reviews,
+      }),
+    [trendGoalTrackId, todayKey, trendRange, trendData.events, trendData.todosByDateKey, trendData.reviews]
+  );
+  const routineRuns = useRoutineRuns(
+    db,
+    userId,
+    addDaysToDateKey(todayKey, -ROUTINE_RUN_LOOKBACK_DAYS)
+  );
+  const syncStatus = useSyncStatus(db, userId, todayKey);
+  const unsyncedCount =
+    syncStatus.pendingTodoWrites + (syncStatus.dayLogPending ? 1 : 0) + (wakeRoutineQueued ? 1 : 0);
+
   const buildTime = process.env.NEXT_PUBLIC_BUILD_TIME ?? "";
 
   const userType = settings.userType ?? defaultSettings.userType;
+  const weightedEffectLogs = useMemo(
+    () => applyEffectByUserType(userType, effectLogs),
+    [userType, effectLogs]
+  );
+  const effectState = useMemo(
+    () => effectStateFromLogs(weightedEffectLogs),
+    [weightedEffectLogs]
+  );
   const firebaseReady = Boolean(auth && db);
   const isTimerActive = timerSeconds !== null;
   const monthKey = getMonthKey(currentMonth);
+  /** 보고 있는 달의 일정만 dateKey별로 */
+  const events = useMemo(() => {
+    const monthStart = getMonthStartKey(currentMonth);
+    const monthEnd = getMonthEndKey(currentMonth);
+    const next: Record<string, CalendarEvent[]> = {};
+    calendarEvents.forEach((eventItem) => {
+      if (eventItem.dateKey < monthStart || eventItem.dateKey > monthEnd) return;
+      if (!next[eventItem.dateKey]) next[eventItem.dateKey] = [];
+      next[eventItem.dateKey].push(eventItem);
+    });
+    return next;
+  }, [calendarEvents, currentMonth]);
   const modalOpen = Boolean(
     pendingAppId || selectedDate || isTimerActive || effectModalTodo || todoModalOpen
   );
@@ -802,13 +1017,83 @@ export default function Home() {
     [userType, todayLog, yesterdayLog, yesterdayExists]
   );
   const protectLogic = useMemo(
-    () => getProtectLogic(userType, { settings, nowMinutes }),
-    [userType, settings, nowMinutes]
+    () => getProtectLogic(userType, { settings, nowMinutes, calendarKey }),
+    [userType, settings, nowMinutes, calendarKey]
   );
+  // 진행 중인 타이머는 지금까지 쓴 분으로 세므로 렌더마다 다시 계산한다
+  const protectSummary = summarizeProtectBypasses(protectBypasses);
+  const protectWindows = settings.protectWindows ?? [];
+  /** 보호 시간 탭의 앱 목록을 보여 줄 구간: 열려 있는 구간, 없으면 다음 구간 */
+  const shieldWindow =
+    protectLogic.activeWindow?.window ??
+    protectLogic.nextWindow?.window ??
+    protectWindows[0] ??
+    null;
+  const distractionApps = shieldWindow?.distractionApps ?? [];
   const thisMonthRecordCount = recordsThisMonth.length;
+  const selectedYearGoal = useMemo(
+    () => yearGoals.find((g) => g.designPlanId === selectedDesignPlanId) ?? null,
+    [yearGoals, selectedDesignPlanId]
+  );
+  const goalTrackTitleById = useMemo(
+    () => new Map(goalTracks.map((track) => [track.id, track.title])),
+    [goalTracks]
+  );
+  const selectedPlanGoalTrackIds = useMemo(
+    () =>
+      goalTracks
+        .filter((t) => t.designPlanId === selectedDesignPlanId)
+        .map((t) => t.id),
+    [goalTracks, selectedDesignPlanId]
+  );
+  const selectedPlanExecutedKeys = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          ...selectedPlanExecutedDateKeys,
+          ...getExecutedDateKeys(goalTrackEvents, selectedPlanGoalTrackIds),
+        ])
+      ),
+    [selectedPlanExecutedDateKeys, goalTrackEvents, selectedPlanGoalTrackIds]
+  );
+  const selectedYearGoalStartKey = selectedYearGoal
+    ? selectedYearGoal.startDateKey ?? getLocalDateKey(selectedYearGoal.createdAt)
+    : null;
+  const selectedYearGoalWindow = useMemo(
+    () =>
+      selectedYearGoalStartKey
+        ? getYearGoalExecutionWindow({
+            startDateKey: selectedYearGoalStartKey,
+            deadlineDate: selectedYearGoal?.deadlineDate,
+            todayKey,
+          })
+        : null,
+    [selectedYearGoalStartKey, selectedYearGoal?.deadlineDate, todayKey]
+  );
+  const selectedYearGoalProgress = useMemo(() => {
+    if (!selectedYearGoal || !selectedYearGoalStartKey) return 0;
+    return calcYearGoalProgress({
+      executedDateKeys: selectedPlanExecutedKeys,
+      startDateKey: selectedYearGoalStartKey,
+      deadlineDate: selectedYearGoal.deadlineDate,
+      todayKey,
+    });
+  }, [selectedYearGoal, selectedYearGoalStartKey, selectedPlanExecutedKeys, todayKey]);
+  const staleTodos = useMemo(
+    () =>
+      Object.entries(todosByDateKey)
+        .filter(([dateKey]) => dateKey !== todayKey)
+        .flatMap(([dateKey, items]) =>
+          items
+            .filter((todo) => todo.carryOverStale && !todo.done)
+            .map((todo) => ({ dateKey, todo }))
+        )
+        .sort((a, b) => a.dateKey.localeCompare(b.dateKey)),
+    [todosByDateKey, todayKey]
+  );
   const wakeRoutines = useMemo(
-    () => normalizeWakeRoutine(settingsDraft.wakeRoutine, todayKey),
-    [settingsDraft.wakeRoutine, todayKey]
+    () => normalizeWakeRoutine(settingsDraft.wakeRoutine),
+    [settingsDraft.wakeRoutine]
   );
   const activeWakeRoutine = useMemo(() => {
     if (wakeRoutines.length === 0) return null;
@@ -821,15 +1106,43 @@ export default function Home() {
     if (!activeWakeRoutine) return -1;
     return wakeRoutines.findIndex((routine) => routine.id === activeWakeRoutine.id);
   }, [activeWakeRoutine, wakeRoutines]);
-  const activeWakeRoutineAllDone = useMemo(() => {
-    if (!activeWakeRoutine) return false;
-    if (activeWakeRoutine.tasks.length === 0) return false;
-    return activeWakeRoutine.tasks.every((task) => task.completed);
-  }, [activeWakeRoutine]);
-  const activeWakeRoutineCompletedToday = useMemo(() => {
-    if (!activeWakeRoutine) return false;
-    return activeWakeRoutine.lastCompletedDate === todayKey;
-  }, [activeWakeRoutine, todayKey]);
+  const routineRunsByRoutineId = useMemo(() => {
+    const byRoutine = new Map<string, RoutineRun[]>();
+    for (const run of routineRuns) {
+      byRoutine.set(run.routineId, [...(byRoutine.get(run.routineId) ?? []), run]);
+    }
+    return byRoutine;
+  }, [routineRuns]);
+  const routineStatsById = useMemo(
+    () =>
+      new Map(
+        wakeRoutines.map((routine) => [
+          routine.id,
+          computeRoutineStats(routineRunsByRoutineId.get(routine.id) ?? [], todayKey),
+        ])
+      ),
+    [wakeRoutines, routineRunsByRoutineId, todayKey]
+  );
+  const activeWakeRoutineRun = useMemo(() => {
+    if (!activeWakeRoutine) return null;
+    const runId = buildRoutineRunId(activeWakeRoutine.id, todayKey);
+    return routineRuns.find((run) => run.id === runId) ?? null;
+  }, [activeWakeRoutine, routineRuns, todayKey]);
+  const activeWakeRoutineStats = activeWakeRoutine
+    ? routineStatsById.get(activeWakeRoutine.id)
+    : undefined;
+  const nearbyRoutineIds = useNearbyRoutines(wakeRoutines);
+  /** 지금 장소 반경 안인데 오늘 아직 끝내지 않은 위치 루틴 */
+  const nearbyPendingRoutines = useMemo(() => {
+    const completedIds = new Set(
+      routineRuns
+        .filter((run) => run.dateKey === todayKey && run.completed)
+        .map((run) => run.routineId)
+    );
+    return getLocationRoutines(wakeRoutines).filter(
+      (routine) => nearbyRoutineIds.includes(routine.id) && !completedIds.has(routine.id)
+    );
+  }, [wakeRoutines, nearbyRoutineIds, routineRuns, todayKey]);
   const uiCard = "rounded-3xl bg-white p-6 shadow-sm";
   const uiPrimaryButton =
     "h-11 w-full rounded-full bg-slate-900 px-4 text-xs font-semibold text-white transition-colors hover:bg-slate-800";
@@ -841,12 +1154,12 @@ export default function Home() {
 
   useEffect(() => {
     const interval = setInterval(() => {
-      const now = new Date();
-      setNowMinutes(now.getHours() * 60 + now.getMinutes());
-      const latestToday = getLocalDateKey(now);
+      setNowMinutes(getMinutesOfDay());
+      setCalendarKey(getCalendarDateKey());
+      const latestToday = getTodayKey();
       if (latestToday !== todayKey) {
         setTodayKey(latestToday);
-        setYesterdayKey(getYesterdayKey(now));
+        setYesterdayKey(getYesterdayKey());
       }
     }, 60000);
     return () => clearInterval(interval);
@@ -866,51 +1179,12 @@ export default function Home() {
   }, []);
 
   useEffect(() => {
-    setSettingsDraft(settings);
-  }, [settings]);
+    void registerAppShellWorker();
+  }, []);
 
   useEffect(() => {
-    if (!user || !db) return;
-    setSettingsDraft((prev) => {
-      const current = normalizeWakeRoutine(prev.wakeRoutine, todayKey);
-      let changed = false;
-      const nextWakeRoutine = current.map((routine) => {
-        const shouldReset =
-          routine.lastCompletedDate !== todayKey && routine.tasks.some((task) => task.completed);
-        const nextMonthlySuccessRate = calculateMonthlySuccessRate(
-          routine.completionHistory ?? [],
-          todayKey
-        );
-        if (!shouldReset && nextMonthlySuccessRate === routine.monthlySuccessRate) {
-          return routine;
-        }
-        changed = true;
-        return {
-          ...routine,
-          tasks: shouldReset
-            ? routine.tasks.map((task) => ({ ...task, completed: false }))
-            : routine.tasks,
-          monthlySuccessRate: nextMonthlySuccessRate,
-        };
-      });
-      if (changed && db && user) {
-        const settingsRef = doc(db, "users", user.uid, "settings", "main");
-        void setDoc(
-          settingsRef,
-          {
-            wakeRoutine: toRoutineCollection(nextWakeRoutine),
-          },
-          { merge: true }
-        );
-      }
-      return changed
-        ? {
-            ...prev,
-            wakeRoutine: toRoutineCollection(nextWakeRoutine),
-          }
-        : prev;
-    });
-  }, [todayKey, user, db]);
+    setSettingsDraft(settings);
+  }, [settings]);
 
   useEffect(() => {
     if (!wakeSaved) return;
@@ -950,11 +1224,7 @@ export default function Home() {
     if (!user || !db) {
       setSettings(defaultSettings);
       setSettingsDraft(defaultSettings);
-      setTodayLog({ did: "", learned: "" });
       setTodayDraft({ did: "", learned: "" });
-      setYesterdayLog(null);
-      setYesterdayExists(false);
-      setTodos([]);
       setTodoModalOpen(false);
       setTodoDraftText("");
       setTodoPolishLoading(false);
@@ -962,8 +1232,11 @@ export default function Home() {
       setLinkNewTodoToGoal(false);
       setNewTodoDesignPlanId("");
       setNewTodoGoalTrackId("");
-      setDesignPlans([]);
-      setGoalTracks([]);
+      setNewTodoRecurrenceRule(null);
+      setEditingRecurringTodoId(null);
+      setSettingsLoaded(false);
+      carryOverRunKeyRef.current = null;
+      setSelectedPlanExecutedDateKeys([]);
       setSelectedDesignPlanId(null);
       setEditingDesignPlanId(null);
       setEditingDesignPlanTitle("");
@@ -972,42 +1245,60 @@ export default function Home() {
       setAddingTodoForGoalTrackId(null);
       setGoalTrackTodoText("");
       setGoalTrackTodoDueAt("");
-      setGoalTrackEvents([]);
-      setGoalTrackWeeklyReviews([]);
       goalTrackEventsBackfillRunRef.current = false;
+      effectLogsBackfillRunRef.current = false;
       setEditingGoalLinkTodoId(null);
-      setRecordsThisMonth([]);
       return;
     }
 
-    const settingsRef = doc(db, "users", user.uid, "settings", "main");
-    const todayRef = doc(db, "users", user.uid, "days", todayKey);
-    const yesterdayRef = doc(db, "users", user.uid, "days", yesterdayKey);
-    const todosRef = collection(db, "users", user.uid, "days", todayKey, "todos");
-    const todosQuery = query(todosRef, orderBy("createdAt", "asc"));
-
-    const unsubscribeSettings = onSnapshot(settingsRef, (snapshot) => {
-      if (!snapshot.exists()) {
-        setDoc(settingsRef, defaultSettings, { merge: true });
-        setSettings(defaultSettings);
+    const firestore = db;
+    const userId = user.uid;
+    return subscribeSettings(firestore, userId, (data) => {
+      if (!data) {
+        const initialSettings = { ...defaultSettings, timeZone: getDeviceTimeZone() };
+        void saveSettings(firestore, userId, initialSettings);
+        setSettings(initialSettings);
         return;
       }
-      const data = snapshot.data() as Partial<Settings>;
+      // 시간대가 없던 예전 문서는 기기 시간대로 채운다 (서버 알림·이월도 이 값을 쓴다)
+      const nextTimeZone = resolveTimeZone(data.timeZone ?? getDeviceTimeZone());
+      if (data.timeZone !== nextTimeZone) {
+        void saveSettings(firestore, userId, { timeZone: nextTimeZone });
+      }
+      const nextDayStartsAt = normalizeDayStartsAt(data.dayStartsAt);
+      setActiveTimeZone(nextTimeZone);
+      setActiveDayStartsAt(nextDayStartsAt);
+      setTodayKey(getTodayKey());
+      setYesterdayKey(getYesterdayKey());
+      setNowMinutes(getMinutesOfDay());
+      setCalendarKey(getCalendarDateKey());
       const nextUserType = isUserType(data.userType)
         ? data.userType
         : defaultSettings.userType;
-      const nextRoutine = normalizeWakeRoutine(data.wakeRoutine, todayKey);
-      const nextApps =
-        Array.isArray(data.distractionApps) && data.distractionApps.length > 0
-          ? data.distractionApps.map((app) => ({
-              id: app.id ?? `${Date.now()}`,
-              label: app.label ?? "앱",
-              minutes:
-                typeof app.minutes === "number" && app.minutes > 0
-                  ? app.minutes
-                  : 5,
-            }))
-          : defaultSettings.distractionApps ?? [];
+      const nextRoutine = normalizeWakeRoutine(data.wakeRoutine);
+      notificationJobsSignatureRef.current = data.notificationJobsSignature ?? "";
+      wakeRoutineBaseRef.current = {
+        revision: data.wakeRoutineRevision ?? 0,
+        routines: nextRoutine,
+      };
+      // 예전 completionHistory는 실행 기록(routineRuns)으로 옮기고 설정 문서에서는 뺀다
+      const legacyRoutineHistory = readLegacyCompletionHistory(data.wakeRoutine);
+      if (
+        Object.keys(legacyRoutineHistory).length > 0 &&
+        !routineHistoryMigratingRef.current
+      ) {
+        routineHistoryMigratingRef.current = true;
+        const base = wakeRoutineBaseRef.current;
+        void importLegacyRoutineHistory(firestore, userId, legacyRoutineHistory)
+          .then(() => syncWakeRoutine(firestore, userId, base, nextRoutine, normalizeWakeRoutine))
+          .finally(() => {
+            routineHistoryMigratingRef.current = false;
+          });
+      }
+      const nextApps = normalizeDistractionApps(
+        data.distractionApps,
+        DEFAULT_DISTRACTION_APPS
+      );
       const nextWakeTimes = (() => {
         if (Array.isArray(data.wakeTimes) && data.wakeTimes.length > 0) {
           const mapped = data.wakeTimes.map((item, index): WakeAlarm | null => {
@@ -1052,8 +1343,13 @@ export default function Home() {
       })();
       const primaryWakeTime =
         nextWakeTimes[0]?.time ?? defaultSettings.wakeTime;
+      const nextProtectStart =
+        data.protectStart ?? primaryWakeTime ?? defaultSettings.protectStart;
+      const nextProtectEnd = data.protectEnd ?? defaultSettings.protectEnd;
       setSettings({
         userType: nextUserType,
+        userTypeAnswered: data.userTypeAnswered === true,
+        effectLogsBackfilled: data.effectLogsBackfilled === true,
         wakeTime: primaryWakeTime,
         wakeEnabled:
           typeof data.wakeEnabled === "boolean"
@@ -1062,14 +1358,28 @@ export default function Home() {
         wakeConsent: data.wakeConsent ?? defaultSettings.wakeConsent,
         wakeTimes: nextWakeTimes,
         protectEnabled: data.protectEnabled ?? defaultSettings.protectEnabled,
-        protectStart:
-          data.protectStart ??
-          primaryWakeTime ??
-          defaultSettings.protectStart,
-        protectEnd: data.protectEnd ?? defaultSettings.protectEnd,
+        protectStart: nextProtectStart,
+        protectEnd: nextProtectEnd,
         wakeRoutine: toRoutineCollection(nextRoutine),
         distractionApps: nextApps,
+        protectWindows: normalizeProtectWindows(data.protectWindows, {
+          protectStart: nextProtectStart,
+          protectEnd: nextProtectEnd,
+          distractionApps: nextApps,
+        }),
+        carryOverMode: isCarryOverMode(data.carryOverMode)
+          ? data.carryOverMode
+          : DEFAULT_CARRY_OVER_MODE,
+        carryOverMaxHops: normalizeCarryOverMaxHops(data.carryOverMaxHops),
+        timeZone: nextTimeZone,
+        dayStartsAt: nextDayStartsAt,
+        dueRemindersEnabled: data.dueRemindersEnabled ?? true,
+        dueReminderLeadMinutes: normalizeDueReminderLeadMinutes(data.dueReminderLeadMinutes),
+        weeklyReviewReminderEnabled: data.weeklyReviewReminderEnabled ?? true,
+        weeklyReviewReminderTime:
+          data.weeklyReviewReminderTime ?? DEFAULT_WEEKLY_REVIEW_REMINDER_TIME,
       });
+      setSettingsLoaded(true);
       setWakeConsent(
         Boolean(data.wakeConsent ?? defaultSettings.wakeConsent ?? false)
       );
@@ -1085,321 +1395,173 @@ export default function Home() {
         wakeTimes: nextWakeTimes,
         wakeTime: primaryWakeTime,
       }));
-      setDistractionApps(nextApps);
-    });
-
-    const unsubscribeToday = onSnapshot(todayRef, (snapshot) => {
-      if (!snapshot.exists()) {
-        setTodayLog({ did: "", learned: "" });
-        return;
-      }
-      const data = snapshot.data() as Partial<DayLog>;
-      setTodayLog({
-        did: data.did ?? "",
-        learned: data.learned ?? "",
-        reviewedAt: data.reviewedAt ?? null,
-      });
     });
+  }, [user, todayKey]);
 
-    const unsubscribeYesterday = onSnapshot(yesterdayRef, (snapshot) => {
-      if (!snapshot.exists()) {
-        setYesterdayLog(null);
-        setYesterdayExists(false);
-        return;
-      }
-      const data = snapshot.data() as Partial<DayLog>;
-      setYesterdayLog({
-        did: data.did ?? "",
-        learned: data.learned ?? "",
-        reviewedAt: data.reviewedAt ?? null,
-      });
-      setYesterdayExists(true);
+  // 기상·보호 시간·평가 요일 알림 예약을 설정과 맞춘다 (예전 wakeTimeIndex만 있던 사용자도 여기서 옮겨진다)
+  useEffect(() => {
+    // 목표를 아직 못 읽었을 때 맞추면 평가 알림이 지워진다
+    if (!user || !db || !settingsLoaded || !goalTracksLoaded) return;
+    const firestore = db;
+    const userId = user.uid;
+    const jobs = buildSettingsJobs(userId, {
+      timeZone: settings.timeZone ?? getActiveTimeZone(),
+      wakeEnabled: settings.wakeEnabled !== false,
+      wakeTimes: getUniqueWakeTimes(settings.wakeTimes),
+      protectEnabled: settings.protectEnabled,
+      protectWindows: settings.protectWindows ?? [],
+      weeklyReviewEnabled: settings.weeklyReviewReminderEnabled !== false,
+      weeklyReviewTime: settings.weeklyReviewReminderTime ?? DEFAULT_WEEKLY_REVIEW_REMINDER_TIME,
+      goalTracks,
     });
-
-    const unsubscribeTodos = onSnapshot(todosQuery, (snapshot) => {
-      const nextTodos = snapshot.docs.map((item) => {
-        const data = item.data() as Omit<TodoItem, "id">;
-        return {
-          id: item.id,
-          text: data.text ?? "",
-          done: Boolean(data.done),
-          effects: Array.isArray(data.effects) ? data.effects : [],
-          createdAt: data.createdAt,
-          completedAt: data.completedAt,
-          dueAt: data.dueAt,
-          missedReasonType: normalizeMissedReasonType(data.missedReasonType),
-          goalId: typeof data.goalId === "string" ? data.goalId : null,
-          goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : null,
-        };
+    const signature = getJobsSignature(jobs);
+    if (notificationJobsSignatureRef.current === signature) return;
+    notificationJobsSignatureRef.current = signature;
+    void replaceNotificationJobs(firestore, userId, SETTINGS_JOB_TYPES, jobs)
+      .then(() => saveSettings(firestore, userId, { notificationJobsSignature: signature }))
+      .catch(() => {
+        notificationJobsSignatureRef.current = null;
       });
-      setTodos(nextTodos);
-    });
+  }, [
+    user,
+    settingsLoaded,
+    settings.timeZone,
+    settings.wakeEnabled,
+    settings.wakeTimes,
+    settings.protectEnabled,
+    settings.protectWindows,
+    settings.weeklyReviewReminderEnabled,
+    settings.weeklyReviewReminderTime,
+    goalTracksLoaded,
+    goalTracks,
+  ]);
+
+  // 오프라인에서 고친 기상 루틴은 연결되면 병합해서 올린다
+  useEffect(() => {
+    if (!user || !db || !syncStatus.online) return;
+    void flushQueuedWakeRoutine(db, user.uid, normalizeWakeRoutine).then(
+      (result) => {
+        if (!result) return;
+        setWakeRoutineQueued(result.status === "queued");
+        if (result.status === "saved" && result.conflicted) {
+          setExecutionToast("다른 기기에서 바뀐 루틴과 합쳤어요");
+          window.setTimeout(() => setExecutionToast(null), 2500);
+        }
+      }
+    );
+  }, [user, syncStatus.online]);
 
-    const toCreatedAtString = (v: unknown): string => {
-      if (typeof v === "string") return v;
-      const t = v as { toDate?: () => Date } | null;
-      if (t && typeof t.toDate === "function") return t.toDate().toISOString();
-      return "";
+  useEffect(() => {
+    if (!user || !db || !settingsLoaded) return;
+    if (carryOverRunKeyRef.current === todayKey) return;
+    carryOverRunKeyRef.current = todayKey;
+    const firestore = db;
+    const options = {
+      mode: settings.carryOverMode ?? DEFAULT_CARRY_OVER_MODE,
+      maxHops: settings.carryOverMaxHops ?? DEFAULT_CARRY_OVER_MAX_HOPS,
+      timeZone: getActiveTimeZone(),
     };
-
-    const designPlansRef = collection(db, "users", user.uid, "designPlans");
-    const designPlansQuery = query(designPlansRef, orderBy("createdAt", "asc"));
-    const unsubscribeDesignPlans = onSnapshot(designPlansQuery, (snapshot) => {
-      const next: DesignPlan[] = snapshot.docs.map((item) => {
-        const data = item.data();
-        return {
-          id: item.id,
-          title: typeof data.title === "string" ? data.title : "",
-          createdAt: toCreatedAtString(data.createdAt) || "",
-        };
-      });
-      setDesignPlans(next);
-    });
-
-    const goalTracksRef = collection(db, "users", user.uid, "goalTracks");
-    const goalTracksQuery = query(goalTracksRef, orderBy("createdAt", "asc"));
-    const unsubscribeGoalTracks = onSnapshot(goalTracksQuery, (snapshot) => {
-      const next: GoalTrack[] = snapshot.docs.map((item) => {
-        const data = item.data();
-        const rw = data.reviewWeekday;
-        return {
-          id: item.id,
-          designPlanId: typeof data.designPlanId === "string" ? data.designPlanId : "",
-          title: typeof data.title === "string" ? data.title : "",
-          reviewWeekday:
-            typeof rw === "number" && rw >= 0 && rw <= 6 ? rw : 6,
-          createdAt: toCreatedAtString(data.createdAt) || "",
-        };
-      });
-      setGoalTracks(next);
-    });
-
-    const goalTrackEventsRef = collection(db, "users", user.uid, "goalTrackEvents");
-    const goalTrackEventsQuery = query(
-      goalTrackEventsRef,
-      orderBy("createdAt", "desc"),
-      limit(150)
-    );
-    const unsubscribeGoalTrackEvents = onSnapshot(goalTrackEventsQuery, (snapshot) => {
-      const next: GoalTrackEvent[] = snapshot.docs.map((item) => {
-        const data = item.data();
-        const createdAt =
-          typeof (data.createdAt as unknown as { toDate?: () => Date })?.toDate === "function"
-            ? (data.createdAt as unknown as { toDate: () => Date }).toDate()
-            : data.createdAt instanceof Date
-              ? data.createdAt
-              : new Date();
-        return {
-          id: item.id,
-          goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : "",
-          todoId: typeof data.todoId === "string" ? data.todoId : "",
-          todoText: typeof data.todoText === "string" ? data.todoText : "",
-          dateKey: typeof data.dateKey === "string" ? data.dateKey : "",
-          createdAt,
-        };
-      });
-      setGoalTrackEvents(next);
+    const dueLeadMinutes = settings.dueReminderLeadMinutes ?? DEFAULT_DUE_REMINDER_LEAD_MINUTES;
+    const fromKeys = getLastNDateKeys(CARRY_OVER_LOOKBACK_DAYS + 1).slice(1).reverse();
+    void (async () => {
+      for (const fromKey of fromKeys) {
+        const carried = await carryOverPendingTodos(
+          firestore,
+          user.uid,
+          fromKey,
+          todayKey,
+          options
+        );
+        // 전날 예약은 이월하면서 지웠다. 옮긴 마감으로 다시 예약한다
+        if (settings.dueRemindersEnabled === false) continue;
+        for (const todo of carried) {
+          if (!todo.dueAt) continue;
+          await scheduleTodoDueReminders(
+            firestore,
+            user.uid,
+            todayKey,
+            todo.todoId,
+            todo.dueAt,
+            dueLeadMinutes
+          );
+        }
+      }
+    })().catch(() => {
+      // 오프라인·권한 거부: 서버 이월(carryOverTodos)이 이어서 처리한다
     });
+  }, [
+    user,
+    settingsLoaded,
+    settings.carryOverMode,
+    settings.carryOverMaxHops,
+    settings.dueRemindersEnabled,
+    settings.dueReminderLeadMinutes,
+    todayKey,
+  ]);
 
-    const last8WeekKeys = getWeekStartKeysForLastNWeeks(8);
-    const weeklyReviewsRef = collection(
+  useEffect(() => {
+    if (!user || !db || selectedPlanGoalTrackIds.length === 0 || !selectedYearGoalWindow) {
+      setSelectedPlanExecutedDateKeys([]);
+      return;
+    }
+    let cancelled = false;
+    void fetchExecutedDateKeys(
       db,
-      "users",
       user.uid,
-      "goalTrackWeeklyReviews"
-    );
-    const weeklyReviewsQuery = query(
-      weeklyReviewsRef,
-      where("weekStartKey", "in", last8WeekKeys)
-    );
-    const unsubscribeWeeklyReviews = onSnapshot(weeklyReviewsQuery, (snapshot) => {
-      const next: GoalTrackWeeklyReview[] = snapshot.docs.map((item) => {
-        const data = item.data();
-        const toDate = (v: unknown): Date => {
-          if (typeof (v as { toDate?: () => Date })?.toDate === "function") {
-            return (v as { toDate: () => Date }).toDate();
-          }
-          return v instanceof Date ? v : new Date();
-        };
-        const rhythm =
-          data.rhythm === "steady" || data.rhythm === "sporadic" || data.rhythm === "stopped"
-            ? data.rhythm
-            : "steady";
-        const status =
-          data.status === "STEADY" || data.status === "SPORADIC" || data.status === "STOPPED"
-            ? data.status
-            : rhythm === "steady"
-              ? "STEADY"
-              : rhythm === "sporadic"
-                ? "SPORADIC"
-                : "STOPPED";
-        const nextWeekRuleText =
-          typeof data.nextWeekRuleText === "string"
-            ? data.nextWeekRuleText
-            : typeof data.nextWeekOneChange === "string"
-              ? data.nextWeekOneChange
-              : "";
-        const plannedWeekdays = Array.isArray(data.plannedWeekdays)
-          ? (data.plannedWeekdays as number[]).filter(
-              (n) => typeof n === "number" && n >= 0 && n <= 6
-            )
-          : undefined;
-        const nextWeekRules = Array.isArray(data.nextWeekRules)
-          ? (
-              data.nextWeekRules as Array<{
-                text?: string;
-                weekday?: number;
-                weekdays?: number[];
-              }>
-            )
-              .filter((r) => r && typeof r.text === "string" && r.text.trim())
-              .map((r) => {
-                const weekdays = Array.isArray(r.weekdays)
-                  ? r.weekdays.filter((d) => d >= 0 && d <= 6)
-                  : typeof r.weekday === "number" && r.weekday >= 0 && r.weekday <= 6
-                    ? [r.weekday]
-                    : undefined;
-                return {
-                  text: (r.text ?? "").trim(),
-                  weekdays: weekdays && weekdays.length > 0 ? weekdays : undefined,
-                };
-              })
-          : undefined;
-        const blockReason =
-          typeof data.blockReason === "string" &&
-          Object.values(MissedReasonType).includes(data.blockReason as MissedReasonType)
-            ? (data.blockReason as MissedReasonType)
-            : undefined;
-        return {
-          id: item.id,
-          goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : "",
-          weekStartKey: typeof data.weekStartKey === "string" ? data.weekStartKey : "",
-          rhythm,
-          status,
-          wobbleMoment: typeof data.wobbleMoment === "string" ? data.wobbleMoment : undefined,
-          blockReason: blockReason ?? null,
-          blockNote: typeof data.blockNote === "string" ? data.blockNote : undefined,
-          nextWeekOneChange:
-            typeof data.nextWeekOneChange === "string" ? data.nextWeekOneChange : undefined,
-          nextWeekRuleText: nextWeekRuleText || undefined,
-          nextWeekKeepOne:
-            typeof data.nextWeekKeepOne === "string" ? data.nextWeekKeepOne : undefined,
-          plannedWeekdays,
-          nextWeekRules,
-          outcomeMode:
-            data.outcomeMode === "metric" ||
-            data.outcomeMode === "sense" ||
-            data.outcomeMode === "skip"
-              ? data.outcomeMode
-              : undefined,
-          metricLabel: typeof data.metricLabel === "string" ? data.metricLabel : undefined,
-          metricValue:
-            typeof data.metricValue === "number" ? data.metricValue : undefined,
-          metricUnit: typeof data.metricUnit === "string" ? data.metricUnit : undefined,
-          sense:
-            data.sense === "closer" || data.sense === "same" || data.sense === "farther"
-              ? data.sense
-              : undefined,
-          outcomeNote: typeof data.outcomeNote === "string" ? data.outcomeNote : undefined,
-          aiRefinedRuleText:
-            typeof data.aiRefinedRuleText === "string" ? data.aiRefinedRuleText : undefined,
-          aiRefineRationale:
-            typeof data.aiRefineRationale === "string" ? data.aiRefineRationale : undefined,
-          coachFact: typeof data.coachFact === "string" ? data.coachFact : undefined,
-          coachPattern: typeof data.coachPattern === "string" ? data.coachPattern : undefined,
-          coachAction: typeof data.coachAction === "string" ? data.coachAction : undefined,
-          coachSummary: typeof data.coachSummary === "string" ? data.coachSummary : undefined,
-          coachQuestion: typeof data.coachQuestion === "string" ? data.coachQuestion : undefined,
-          createdAt: toDate(data.createdAt),
-          updatedAt: toDate(data.updatedAt),
-        };
-      });
-      setGoalTrackWeeklyReviews(next);
-    });
-
-    const recordsRef = collection(db, "users", user.uid, "records");
-    const now = new Date();
-    const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-    const monthEnd = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-    const recordsQuery = query(
-      recordsRef,
-      where("createdAt", ">=", monthStart),
-      where("createdAt", "<", monthEnd),
-      orderBy("createdAt", "desc")
-    );
-    const unsubscribeRecords = onSnapshot(recordsQuery, (snapshot) => {
-      const nextRecords: RecordItem[] = snapshot.docs.map((item) => {
-        const data = item.data() as Partial<RecordItem> & {
-          createdAt?: unknown;
-          goalId?: unknown;
-        };
-        const createdAt =
-          typeof (data.createdAt as unknown as { toDate?: () => Date })?.toDate ===
-          "function"
-            ? (data.createdAt as unknown as { toDate: () => Date }).toDate()
-            : data.createdAt instanceof Date
-              ? data.createdAt
-              : new Date();
-        return {
-          id: item.id,
-          content: typeof data.content === "string" ? data.content : "",
-          goalId: typeof data.goalId === "string" ? data.goalId : undefined,
-          goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : undefined,
-          createdAt,
-        };
+      selectedPlanGoalTrackIds,
+      selectedYearGoalWindow.fromKey,
+      selectedYearGoalWindow.toKey
+    )
+      .then((keys) => {
+        if (!cancelled) setSelectedPlanExecutedDateKeys(keys);
+      })
+      .catch(() => {
+        // 오프라인·권한 거부: 구독 중인 최근 실행 기록만으로 진행률을 계산한다
+        if (!cancelled) setSelectedPlanExecutedDateKeys([]);
       });
-      setRecordsThisMonth(nextRecords);
-    });
-
     return () => {
-      unsubscribeSettings();
-      unsubscribeToday();
-      unsubscribeYesterday();
-      unsubscribeTodos();
-      unsubscribeDesignPlans();
-      unsubscribeGoalTracks();
-      unsubscribeGoalTrackEvents();
-      unsubscribeWeeklyReviews();
-      unsubscribeRecords();
+      cancelled = true;
     };
-  }, [user, todayKey, yesterdayKey]);
+  }, [user, selectedPlanGoalTrackIds, selectedYearGoalWindow]);
 
   useEffect(() => {
     if (!user || !db) return;
     const firestore = db;
-    const keys = getLastNDateKeys(7);
-    const unsubs = keys.map((dateKey) => {
-      const todosRef = collection(
-        firestore,
-        "users",
-        user.uid,
-        "days",
-        dateKey,
-        "todos"
-      );
-      const q = query(todosRef, orderBy("createdAt", "asc"));
-      return onSnapshot(q, (snapshot) => {
-        const nextTodos: TodoItem[] = snapshot.docs.map((item) => {
-          const data = item.data() as Omit<TodoItem, "id">;
-          return {
-            id: item.id,
-            text: data.text ?? "",
-            done: Boolean(data.done),
-            effects: Array.isArray(data.effects) ? data.effects : [],
-            createdAt: data.createdAt,
-            completedAt: data.completedAt,
-            dueAt: data.dueAt,
-            missedReasonType: normalizeMissedReasonType(data.missedReasonType),
-            goalId: typeof data.goalId === "string" ? data.goalId : null,
-            goalTrackId:
-              typeof data.goalTrackId === "string" ? data.goalTrackId : null,
-          };
+    yearGoals.forEach((goal) => {
+      const plan = goal.weeklyActionPlan;
+      if (!plan || typeof plan.achievedRate === "number") return;
+      if (addDaysToDateKey(plan.weekKey, 6) >= todayKey) return;
+      const runKey = `${goal.designPlanId}_${plan.weekKey}`;
+      if (achievedRateRunRef.current.has(runKey)) return;
+      achievedRateRunRef.current.add(runKey);
+      void calcWeeklyActionPlanAchievedRate(firestore, user.uid, plan)
+        .then((rate) =>
+          saveWeeklyActionPlanAchievedRate(firestore, user.uid, goal.designPlanId, rate)
+        )
+        .catch(() => {
+          // 오프라인·권한 거부: 다음에 목표 목록이 바뀌면 다시 계산한다
+          achievedRateRunRef.current.delete(runKey);
         });
-        setTodosByDateKey((prev) => ({ ...prev, [dateKey]: nextTodos }));
-      });
     });
-    return () => unsubs.forEach((u) => u());
-  }, [user, db, todayKey]);
+  }, [user, yearGoals, todayKey]);
+
+  useEffect(() => {
+    if (!user || !db || !selectedYearGoal) return;
+    if (selectedYearGoal.progress === selectedYearGoalProgress) return;
+    void updateYearGoalProgress(
+      db,
+      user.uid,
+      selectedYearGoal.designPlanId,
+      selectedYearGoalProgress
+    );
+  }, [user, selectedYearGoal, selectedYearGoalProgress]);
+
+  useEffect(() => {
+    if (!user || !db || recurrences.length === 0) return;
+    void materializeRecurringTodos(db, user.uid, recurrences, todayKey).catch(() => {
+      // 오프라인·권한 거부: 반복 규칙이 다시 들어오거나 날짜가 바뀌면 다시 만든다
+    });
+  }, [user, recurrences, todayKey]);
 
   useEffect(() => {
     if (!user || !db || goalTrackEventsBackfillRunRef.current) return;
@@ -1414,78 +1576,31 @@ export default function Home() {
     });
     if (toUpsert.length === 0) return;
     goalTrackEventsBackfillRunRef.current = true;
-    const eventsRef = collection(db, "users", user.uid, "goalTrackEvents");
+    const firestore = db;
     void Promise.all(
-      toUpsert.map((t) => {
-        const eid = buildEventId(t.goalTrackId!, t.id, todayKey);
-        return setDoc(doc(eventsRef, eid), {
-          goalTrackId: t.goalTrackId,
+      toUpsert.map((t) =>
+        recordGoalTrackEvent(firestore, user.uid, {
+          goalTrackId: t.goalTrackId!,
           todoId: t.id,
           todoText: t.text,
           dateKey: todayKey,
-          createdAt: serverTimestamp(),
-        });
-      })
+        })
+      )
     );
   }, [user, db, todos, goalTrackEvents, todayKey]);
 
+  // 효과 기록(effectLogs) 전에 완료한 투두의 effects를 한 번 옮긴다
   useEffect(() => {
-    if (!user || !db) {
-      setEvents({});
-      return;
-    }
-    const monthStart = getMonthStartKey(currentMonth);
-    const monthEnd = getMonthEndKey(currentMonth);
-    const eventsRef = collection(db, "users", user.uid, "events");
-    const eventsQuery = query(
-      eventsRef,
-      orderBy("dateKey", "asc"),
-      orderBy("time", "asc")
-    );
-    const unsubscribeEvents = onSnapshot(eventsQuery, (snapshot) => {
-      const nextEvents: Record<string, CalendarEvent[]> = {};
-      snapshot.docs.forEach((item) => {
-        const data = item.data() as Omit<CalendarEvent, "id">;
-        if (data.dateKey < monthStart || data.dateKey > monthEnd) return;
-        if (!nextEvents[data.dateKey]) {
-          nextEvents[data.dateKey] = [];
-        }
-        nextEvents[data.dateKey].push({
-          id: item.id,
-          title: data.title ?? "",
-          dateKey: data.dateKey ?? "",
-          time: data.time ?? "",
-          createdAt: data.createdAt,
-        });
-      });
-      setEvents(nextEvents);
-    });
-    return () => unsubscribeEvents();
-  }, [user, db, monthKey]);
-
-  useEffect(() => {
-    if (!selectedDate || !user || !db) {
-      setSelectedLog(null);
-      setSelectedLogExists(false);
-      return;
-    }
-    const selectedRef = doc(db, "users", user.uid, "days", selectedDate);
-    const unsubscribeSelected = onSnapshot(selectedRef, (snapshot) => {
-      if (!snapshot.exists()) {
-        setSelectedLog(null);
-        setSelectedLogExists(false);
-        return;
-      }
-      const data = snapshot.data() as Partial<DayLog>;
-      setSelectedLog({
-        did: data.did ?? "",
-        learned: data.learned ?? "",
-        reviewedAt: data.reviewedAt ?? null,
+    if (!user || !db || !settingsLoaded || settings.effectLogsBackfilled) return;
+    if (effectLogsBackfillRunRef.current) return;
+    effectLogsBackfillRunRef.current = true;
+    const firestore = db;
+    void backfillEffectLogs(firestore, user.uid)
+      .then(() => saveSettings(firestore, user.uid, { effectLogsBackfilled: true }))
+      .catch(() => {
+        // 오프라인·색인 없음: 다음에 로그인하면 다시 시도한다
       });
-      setSelectedLogExists(true);
-    });
-    return () => unsubscribeSelected();
-  }, [selectedDate, user, db]);
+  }, [user, settingsLoaded, settings.effectLogsBackfilled]);
 
   useEffect(() => {
     if (!isTimerActive) return;
@@ -1505,6 +1620,17 @@ export default function Home() {
     }
   }, [timerSeconds]);
 
+  // 타이머가 보호 시간 안에 끝나면, 돌아올 때까지는 초과 사용으로 남긴다
+  useEffect(() => {
+    const active = activeBypassRef.current;
+    if (timerSeconds !== 0 || !active || active.overran || !user || !db) return;
+    if (!endsInProtectTime(active.bypass)) return;
+    active.overran = true;
+    void markProtectBypassOverrun(db, user.uid, active.id).catch(() => {
+      // 기록이 없으면(시작 기록 실패) 종료 때 초과 분만 빠진다
+    });
+  }, [timerSeconds, user]);
+
   useEffect(() => {
     if (timerSeconds === null) {
       timerNotifiedRef.current = false;
@@ -1625,6 +1751,78 @@ export default function Home() {
     };
   }, [updateAvailable]);
 
+  // 투두·평가 알림을 눌러 열렸으면 그 탭으로 가서 해당 항목을 보여준다
+  useEffect(() => {
+    const link = parseTodoDeepLink(window.location.search);
+    const reviewTrackId = parseWeeklyReviewDeepLink(window.location.search);
+    if (!link && !reviewTrackId) return;
+    window.history.replaceState(null, "", window.location.pathname);
+    const timeoutId = window.setTimeout(() => {
+      if (link) {
+        setTodoDeepLink(link);
+        setActiveTab("todos");
+      }
+      if (reviewTrackId) {
+        setReviewDeepLinkTrackId(reviewTrackId);
+        setActiveTab("design");
+      }
+    }, 0);
+    return () => window.clearTimeout(timeoutId);
+  }, []);
+
+  // 평가 카드는 설계를 펼쳐야 보이므로, 먼저 그 설계를 고른 뒤 스크롤한다
+  useEffect(() => {
+    if (!reviewDeepLinkTrackId) return;
+    const track = goalTracks.find((item) => item.id === reviewDeepLinkTrackId);
+    if (!track) return;
+    const timeoutId = window.setTimeout(() => {
+      if (selectedDesignPlanId !== track.designPlanId) {
+        setSelectedDesignPlanId(track.designPlanId);
+        return;
+      }
+      document
+        .getElementById(`weekly-review-${track.id}`)
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+      setReviewDeepLinkTrackId(null);
+    }, 0);
+    return () => window.clearTimeout(timeoutId);
+  }, [reviewDeepLinkTrackId, goalTracks, selectedDesignPlanId]);
+
+  useEffect(() => {
+    if (!todoDeepLink || todoDeepLink.dateKey !== todayKey) return;
+    const todo = todos.find((item) => item.id === todoDeepLink.todoId);
+    if (!todo) return;
+    document
+      .getElementById(`todo-${todo.id}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    const dueAtMillis = toMillis(todo.dueAt);
+    const snoozeKey = `${todoDeepLink.dateKey}:${todo.id}`;
+    if (
+      !user ||
+      !db ||
+      !todoDeepLink.snoozeMinutes ||
+      todo.done ||
+      dueAtMillis === null ||
+      handledDeepLinkSnoozeRef.current === snoozeKey
+    ) {
+      return;
+    }
+    handledDeepLinkSnoozeRef.current = snoozeKey;
+    void snoozeTodoReminder(
+      db,
+      user.uid,
+      todoDeepLink.dateKey,
+      todo.id,
+      new Date(dueAtMillis),
+      todoDeepLink.snoozeMinutes
+    ).then((sendAt) => {
+      setExecutionToast(
+        `${sendAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}에 다시 알려드릴게요`
+      );
+      window.setTimeout(() => setExecutionToast(null), 2000);
+    });
+  }, [todoDeepLink, todos, todayKey, user]);
+
   useEffect(() => {
     return listenForForegroundMessages((payload) => {
       const body =
@@ -1635,9 +1833,28 @@ export default function Home() {
     });
   }, []);
 
-  const wakeTimesLabel = (() => {
-    const times = getWakeTimes(settings.wakeTimes);
-    if (times.length === 0) return "없음";
+  // 위치 루틴 도착 알림: 루틴마다 하루 한 번
+  useEffect(() => {
+    nearbyPendingRoutines
+      .filter((routine) => routine.arrivalReminder)
+      .forEach((routine) => {
+        const storageKey = `to-day-arrival-notified-${todayKey}-${routine.id}`;
+        try {
+          if (localStorage.getItem(storageKey)) return;
+          localStorage.setItem(storageKey, "1");
+        } catch {
+          // ignore storage failures
+        }
+        triggerWakeNotification(
+          "루틴 알림",
+          `${routine.place.label || "저장한 장소"}에 도착했어요. ${routine.title}을(를) 시작해 볼까요?`
+        );
+      });
+  }, [nearbyPendingRoutines, todayKey]);
+
+  const wakeTimesLabel = (() => {
+    const times = getWakeTimes(settings.wakeTimes);
+    if (times.length === 0) return "없음";
     if (times.length === 1) return times[0];
     return `${times[0]} 외 ${times.length - 1}개`;
   })();
@@ -1700,142 +1917,183 @@ export default function Home() {
     }));
   };
 
-  const handleSaveWakeSettings = async () => {
+
+  /** 시간대 변경. 반복 알림 예약은 설정 동기화 effect가 새 시간대로 다시 맞춘다 */
+  const handleSaveTimeZone = async (timeZone: string) => {
     if (!user || !db) return;
-    const firestore = db;
-    const userId = user.uid;
-    const settingsRef = doc(firestore, "users", userId, "settings", "main");
-    const previousWakeTimes = getUniqueWakeTimes(settings.wakeTimes);
-    const nextWakeTimes = getUniqueWakeTimes(settingsDraft.wakeTimes);
-    const wakeTimesToSave = normalizeWakeTimes(settingsDraft.wakeTimes);
-    const primaryWakeTime = nextWakeTimes[0] ?? defaultSettings.wakeTime;
-    const nextWakeEnabled = nextWakeTimes.length > 0;
-    await setDoc(
-      settingsRef,
-      {
-        wakeTime: primaryWakeTime,
-        wakeEnabled: nextWakeEnabled,
-        wakeTimes: wakeTimesToSave,
-        protectEnabled: settingsDraft.protectEnabled,
-        protectStart: settingsDraft.protectStart,
-        protectEnd: settingsDraft.protectEnd,
-      },
-      { merge: true }
-    );
-    const previousIndexTimes =
-      previousWakeTimes.length > 0
-        ? previousWakeTimes
-        : settings.wakeTime
-          ? [settings.wakeTime]
-          : [];
-    await Promise.all(
-      previousIndexTimes.map((time) =>
-        deleteDoc(doc(firestore, "wakeTimeIndex", time, "users", userId))
-      )
-    );
-    if (nextWakeEnabled) {
-      await Promise.all(
-        nextWakeTimes.map((time) =>
-          setDoc(
-            doc(firestore, "wakeTimeIndex", time, "users", userId),
-            { userId, wakeTime: time, updatedAt: serverTimestamp() },
-            { merge: true }
-          )
-        )
-      );
-    }
-    setWakeSaved(true);
+    await saveSettings(db, user.uid, {
+      timeZone,
+      previousTimeZone: settings.timeZone ?? getActiveTimeZone(),
+      timeZoneChangedAt: serverTimestamp(),
+    });
+  };
+
+  /** 하루 시작 시각 변경. 이미 저장된 dateKey는 그대로 둔다 */
+  const handleSaveDayStartsAt = async (dayStartsAt: string) => {
+    if (!user || !db) return;
+    await saveSettings(db, user.uid, { dayStartsAt: normalizeDayStartsAt(dayStartsAt) });
+  };
+
+  /** 유형 설문 결과 저장 */
+  const handleSaveUserType = async (nextUserType: UserType) => {
+    if (!user || !db) return;
+    await saveSettings(db, user.uid, { userType: nextUserType, userTypeAnswered: true });
+    setUserTypeEditing(false);
+  };
+
+  /** 설문 건너뛰기. 유형은 그대로 두고 다시 묻지 않는다 */
+  const handleSkipUserType = async () => {
+    if (!user || !db) return;
+    await saveSettings(db, user.uid, { userTypeAnswered: true });
   };
 
   const handleSaveWakeRoutine = async () => {
     if (!user || !db) return;
-    const settingsRef = doc(db, "users", user.uid, "settings", "main");
-    const routinesToSave = normalizeWakeRoutine(settingsDraft.wakeRoutine, todayKey).map(
+    const routinesToSave = normalizeWakeRoutine(settingsDraft.wakeRoutine).map(
       (routine, index) => ({
         ...routine,
         title: getRoutineDisplayTitle(routine.title, index),
       })
     );
-    await setDoc(
-      settingsRef,
-      {
-        wakeRoutine: toRoutineCollection(routinesToSave),
-      },
-      { merge: true }
-    );
+    await persistWakeRoutine(routinesToSave);
     setRoutineSaved(true);
   };
 
+  /** 다른 기기에서 그사이 바뀐 루틴과 병합해서 저장. 오프라인이면 연결될 때까지 보관 */
   const persistWakeRoutine = async (routines: RoutineItem[]) => {
     if (!user || !db) return;
-    const settingsRef = doc(db, "users", user.uid, "settings", "main");
-    await setDoc(
-      settingsRef,
-      {
-        wakeRoutine: toRoutineCollection(routines),
-      },
-      { merge: true }
+    const result = await syncWakeRoutine(
+      db,
+      user.uid,
+      wakeRoutineBaseRef.current,
+      routines,
+      normalizeWakeRoutine
     );
+    setWakeRoutineQueued(result.status === "queued");
+    if (result.status === "saved" && result.conflicted) {
+      setExecutionToast("다른 기기에서 바뀐 루틴과 합쳤어요");
+      window.setTimeout(() => setExecutionToast(null), 2500);
+    }
   };
 
-  const saveDistractionApps = async (apps: DistractionApp[]) => {
+  const saveProtectWindows = async (windows: ProtectWindow[]) => {
     if (!user || !db) return;
-    const settingsRef = doc(db, "users", user.uid, "settings", "main");
-    await setDoc(
-      settingsRef,
-      {
-        distractionApps: apps,
-      },
-      { merge: true }
+    await saveSettings(db, user.uid, { protectWindows: windows });
+  };
+
+  /** 지금 보이는 구간(shieldWindow)의 방해 앱 목록 저장 */
+  const saveDistractionApps = async (apps: DistractionApp[]) => {
+    if (!shieldWindow) return;
+    await saveProtectWindows(
+      protectWindows.map((window) =>
+        window.id === shieldWindow.id ? { ...window, distractionApps: apps } : window
+      )
     );
   };
 
   const handleSaveLog = async () => {
     if (!user || !db) return;
-    const todayRef = doc(db, "users", user.uid, "days", todayKey);
-    await setDoc(
-      todayRef,
-      {
-        did: todayDraft.did,
-        learned: todayDraft.learned,
-        date: todayKey,
-        updatedAt: serverTimestamp(),
-      },
-      { merge: true }
-    );
+    await saveDayLog(db, user.uid, todayKey, {
+      did: todayDraft.did,
+      learned: todayDraft.learned,
+    });
+  };
+
+  const handleExportData = async () => {
+    if (!user || !db) throw new Error("로그인이 필요해요");
+    return exportUserData(db, user.uid);
+  };
+
+  const handleImportData = async (archive: DataArchive) => {
+    if (!user || !db) throw new Error("로그인이 필요해요");
+    return importUserData(db, user.uid, archive);
   };
 
   const handleReviewComplete = async () => {
     if (!user || !db || !yesterdayExists) return;
-    const yesterdayRef = doc(db, "users", user.uid, "days", yesterdayKey);
-    await updateDoc(yesterdayRef, { reviewedAt: serverTimestamp() });
+    await markDayLogReviewed(db, user.uid, yesterdayKey);
+  };
+
+  /** 마감 푸시 예약. 알림을 끈 사용자는 건너뛴다 */
+  const scheduleDueReminders = async (dateKey: string, todoId: string, dueAt: Date) => {
+    if (!user || !db || settings.dueRemindersEnabled === false) return;
+    await scheduleTodoDueReminders(
+      db,
+      user.uid,
+      dateKey,
+      todoId,
+      dueAt,
+      settings.dueReminderLeadMinutes ?? DEFAULT_DUE_REMINDER_LEAD_MINUTES
+    );
+  };
+
+  const handleSnoozeTodo = async (dateKey: string, todo: TodoItem, minutes: number) => {
+    if (!user || !db) return;
+    const dueAtMillis = toMillis(todo.dueAt);
+    if (dueAtMillis === null) return;
+    const sendAt = await snoozeTodoReminder(
+      db,
+      user.uid,
+      dateKey,
+      todo.id,
+      new Date(dueAtMillis),
+      minutes
+    );
+    setExecutionToast(
+      `${sendAt.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}에 다시 알려드릴게요`
+    );
+    window.setTimeout(() => setExecutionToast(null), 2000);
+  };
+
+  const handleSaveDueReminderSettings = async (
+    dueRemindersEnabled: boolean,
+    dueReminderLeadMinutes: number
+  ) => {
+    if (!user || !db) return;
+    await saveSettings(db, user.uid, { dueRemindersEnabled, dueReminderLeadMinutes });
+  };
+
+  const handleSaveWeeklyReviewReminder = async (
+    weeklyReviewReminderEnabled: boolean,
+    weeklyReviewReminderTime: string
+  ) => {
+    if (!user || !db || !weeklyReviewReminderTime) return;
+    await saveSettings(db, user.uid, { weeklyReviewReminderEnabled, weeklyReviewReminderTime });
   };
 
   const handleAddTodo = async () => {
     if (!user || !db || !newTodo.trim()) return;
     if (linkNewTodoToGoal && !newTodoGoalTrackId) return;
-    const todosRef = collection(db, "users", user.uid, "days", todayKey, "todos");
     const dueAtValue = newTodoDueAt ? new Date(newTodoDueAt) : null;
     const normalizedText = newTodo.trim();
     const targetGoalTrackId = linkNewTodoToGoal ? newTodoGoalTrackId : null;
+    if (newTodoRecurrenceRule) {
+      await createRecurrence(db, user.uid, {
+        text: normalizedText,
+        goalTrackId: targetGoalTrackId,
+        rule: newTodoRecurrenceRule,
+        startDateKey: todayKey,
+      });
+      setNewTodo("");
+      setNewTodoDueAt("");
+      setNewTodoRecurrenceRule(null);
+      setLinkNewTodoToGoal(false);
+      setNewTodoDesignPlanId("");
+      setNewTodoGoalTrackId("");
+      return;
+    }
     const dedupKey = [todayKey, normalizedText].join("::");
     const existsAlready = todos.some((todo) => todo.text.trim() === normalizedText);
     if (existsAlready || todoInsertInFlightRef.current.has(dedupKey)) return;
     todoInsertInFlightRef.current.add(dedupKey);
     try {
-      const duplicateSnapshot = await getDocs(
-        query(todosRef, where("text", "==", normalizedText), limit(1))
-      );
-      if (!duplicateSnapshot.empty) return;
-      await addDoc(todosRef, {
+      if (await hasTodoWithText(db, user.uid, todayKey, normalizedText)) return;
+      const todoId = await addTodo(db, user.uid, todayKey, {
         text: normalizedText,
-        done: false,
-        effects: [],
-        completedAt: null,
         dueAt: dueAtValue,
         goalTrackId: targetGoalTrackId,
-        createdAt: serverTimestamp(),
       });
+      if (dueAtValue) await scheduleDueReminders(todayKey, todoId, dueAtValue);
     } finally {
       todoInsertInFlightRef.current.delete(dedupKey);
     }
@@ -1848,33 +2106,29 @@ export default function Home() {
 
   const handleAddDesignPlan = async () => {
     if (!user || !db || !newDesignPlanTitle.trim()) return;
-    const ref = collection(db, "users", user.uid, "designPlans");
-    await addDoc(ref, {
-      title: newDesignPlanTitle.trim(),
-      createdAt: serverTimestamp(),
-    });
+    await addDesignPlan(db, user.uid, newDesignPlanTitle);
     setNewDesignPlanTitle("");
   };
 
   const handleRenameDesignPlan = async (id: string, title: string) => {
     if (!user || !db || !title.trim()) return;
-    const planRef = doc(db, "users", user.uid, "designPlans", id);
-    await updateDoc(planRef, { title: title.trim() });
+    await renameDesignPlan(db, user.uid, id, title);
     setEditingDesignPlanId(null);
     setEditingDesignPlanTitle("");
   };
 
   const nullifyGoalTrackIdInAllTodos = async (goalTrackId: string) => {
     if (!db || !user) return;
-    const daysRef = collection(db, "users", user.uid, "days");
-    const daysSnap = await getDocs(daysRef);
+    const daysSnap = await getDocs(daysCollectionRef(db, user.uid));
     let batch = writeBatch(db);
     let batchCount = 0;
     const BATCH_LIMIT = 450;
     for (const dayDoc of daysSnap.docs) {
-      const todosRef = collection(db, "users", user.uid, "days", dayDoc.id, "todos");
       const todosSnap = await getDocs(
-        query(todosRef, where("goalTrackId", "==", goalTrackId))
+        query(
+          todosCollectionRef(db, user.uid, dayDoc.id),
+          where("goalTrackId", "==", goalTrackId)
+        )
       );
       for (const todoDoc of todosSnap.docs) {
         batch.update(todoDoc.ref, { goalTrackId: null });
@@ -1896,31 +2150,115 @@ export default function Home() {
       await nullifyGoalTrackIdInAllTodos(track.id);
       await deleteGoalTrackEventsByGoalTrackId(db, user.uid, track.id);
     }
-    let batch = writeBatch(db);
+    const batch = writeBatch(db);
     for (const track of tracksToDelete) {
-      batch.delete(doc(db, "users", user.uid, "goalTracks", track.id));
+      batch.delete(goalTrackDocRef(db, user.uid, track.id));
     }
-    batch.delete(doc(db, "users", user.uid, "designPlans", id));
+    batch.delete(designPlanDocRef(db, user.uid, id));
+    batch.delete(yearGoalDocRef(db, user.uid, id));
     await batch.commit();
     if (selectedDesignPlanId === id) setSelectedDesignPlanId(null);
   };
 
+  const handleSaveYearGoal = async (designPlanId: string, draft: YearGoalDraft) => {
+    if (!user || !db) return;
+    setYearGoalSaving(true);
+    try {
+      const isNew = !yearGoals.some((g) => g.designPlanId === designPlanId);
+      await saveYearGoal(db, user.uid, designPlanId, draft, {
+        isNew,
+        startDateKey: todayKey,
+      });
+    } finally {
+      setYearGoalSaving(false);
+    }
+  };
+
+  /** AI 라우트의 로그인·한도 실패는 토스트로 알린다 */
+  const showAiLimitToast = (error?: AiRouteError) => {
+    const message = getAiLimitMessage(error);
+    if (!message) return;
+    setExecutionToast(message);
+    window.setTimeout(() => setExecutionToast(null), 2500);
+  };
+
+  const handleRequestGoalCoach = async (
+    mode: GoalCoachMode,
+    draft: YearGoalDraft
+  ): Promise<GoalCoachResult | null> => {
+    const { result, error } = await postAiRoute<GoalCoachResult>("/api/ai/goal-coach", {
+      mode,
+      yearGoal: draft.yearGoal,
+      currentStatus: draft.currentPosition.currentStatus,
+      dailyAvailableTime: draft.currentPosition.dailyAvailableTime,
+      weakestArea: draft.currentPosition.weakestArea,
+      note: draft.currentPosition.note,
+      threeMonthGoal: draft.threeMonthGoal,
+    });
+    showAiLimitToast(error);
+    return result;
+  };
+
+  const handleGenerateWeeklyActionPlan = async (
+    yearGoal: YearGoal,
+    seedTodos: string[],
+    weeklyState: string
+  ): Promise<{ rationale: string; todos: string[] } | null> => {
+    const { result, error } = await postAiRoute<{ rationale: string; todos: string[] }>(
+      "/api/ai/weekly-action-plan",
+      {
+        deadlineDate: yearGoal.deadlineDate ?? "",
+        desiredOutcome: yearGoal.threeMonthGoal || yearGoal.yearGoal,
+        requiredState: yearGoal.currentPosition.currentStatus,
+        weeklyState,
+        constraints: [
+          yearGoal.currentPosition.dailyAvailableTime,
+          yearGoal.currentPosition.weakestArea,
+        ]
+          .filter(Boolean)
+          .join(", "),
+        seedTodos,
+      }
+    );
+    showAiLimitToast(error);
+    return result;
+  };
+
+  const handleCommitWeeklyActionPlan = async (
+    designPlanId: string,
+    plan: {
+      weekKey: string;
+      rationale: string;
+      weeklyState: string;
+      todos: Array<{ text: string; weekdays: number[]; goalTrackId: string }>;
+    }
+  ) => {
+    if (!user || !db) return;
+    setWeeklyActionPlanCommitting(true);
+    try {
+      const created = await commitWeeklyActionPlan(
+        db,
+        user.uid,
+        designPlanId,
+        plan,
+        todayKey
+      );
+      setExecutionToast(`주간 계획 투두 ${created}개를 추가했어요`);
+      window.setTimeout(() => setExecutionToast(null), 2000);
+    } finally {
+      setWeeklyActionPlanCommitting(false);
+    }
+  };
+
   const handleAddGoalTrack = async () => {
     if (!user || !db || !selectedDesignPlanId || !newGoalTrackTitle.trim()) return;
-    const ref = collection(db, "users", user.uid, "goalTracks");
-    await addDoc(ref, {
-      designPlanId: selectedDesignPlanId,
-      title: newGoalTrackTitle.trim(),
-      reviewWeekday: 6,
-      createdAt: serverTimestamp(),
-    });
+    await addGoalTrack(db, user.uid, selectedDesignPlanId, newGoalTrackTitle);
     setNewGoalTrackTitle("");
   };
 
   const handleRenameGoalTrack = async (id: string, title: string) => {
     if (!user || !db || !title.trim()) return;
-    const trackRef = doc(db, "users", user.uid, "goalTracks", id);
-    await updateDoc(trackRef, { title: title.trim() });
+    await renameGoalTrack(db, user.uid, id, title);
     setEditingGoalTrackId(null);
     setEditingGoalTrackTitle("");
   };
@@ -1932,31 +2270,27 @@ export default function Home() {
     if (!user || !db) return;
     const track = goalTracks.find((t) => t.id === goalTrackId);
     const designPlanId = track?.designPlanId;
-    const tracksToUpdate = designPlanId
-      ? goalTracks.filter((t) => t.designPlanId === designPlanId)
-      : [{ id: goalTrackId }];
-    const batch = writeBatch(db);
-    for (const t of tracksToUpdate) {
-      const ref = doc(db, "users", user.uid, "goalTracks", t.id);
-      batch.update(ref, { reviewWeekday });
-    }
-    await batch.commit();
+    const goalTrackIds = designPlanId
+      ? goalTracks.filter((t) => t.designPlanId === designPlanId).map((t) => t.id)
+      : [goalTrackId];
+    await updateGoalTracksReviewWeekday(db, user.uid, goalTrackIds, reviewWeekday);
     setEditingReviewDayGoalTrackId(null);
   };
 
+  const handleSaveGoalTrackMetric = async (goalTrackId: string, metric: GoalMetric | null) => {
+    if (!user || !db) return;
+    await updateGoalTrackMetric(db, user.uid, goalTrackId, metric);
+  };
+
   const handleAddTodoFromGoalTrack = async () => {
     if (!user || !db || !addingTodoForGoalTrackId || !goalTrackTodoText.trim()) return;
-    const todosRef = collection(db, "users", user.uid, "days", todayKey, "todos");
     const dueAtValue = goalTrackTodoDueAt ? new Date(goalTrackTodoDueAt) : null;
-    await addDoc(todosRef, {
-      text: goalTrackTodoText.trim(),
-      done: false,
-      effects: [],
-      completedAt: null,
+    const todoId = await addTodo(db, user.uid, todayKey, {
+      text: goalTrackTodoText,
       dueAt: dueAtValue,
       goalTrackId: addingTodoForGoalTrackId,
-      createdAt: serverTimestamp(),
     });
+    if (dueAtValue) await scheduleDueReminders(todayKey, todoId, dueAtValue);
     setAddingTodoForGoalTrackId(null);
     setGoalTrackTodoText("");
     setGoalTrackTodoDueAt("");
@@ -1966,8 +2300,7 @@ export default function Home() {
     if (!user || !db) return;
     await nullifyGoalTrackIdInAllTodos(id);
     await deleteGoalTrackEventsByGoalTrackId(db, user.uid, id);
-    const trackRef = doc(db, "users", user.uid, "goalTracks", id);
-    await deleteDoc(trackRef);
+    await deleteGoalTrack(db, user.uid, id);
   };
 
   const handleAddAiTodoAsTodo = async (
@@ -1977,7 +2310,6 @@ export default function Home() {
   ) => {
     if (!user || !db || !todoText.trim()) return;
     const dateKey = targetDateKey ?? todayKey;
-    const todosRef = collection(db, "users", user.uid, "days", dateKey, "todos");
     const normalizedText = todoText.trim();
     const targetGoalTrackId = goalTrackId || null;
     const dedupKey = [dateKey, normalizedText].join("::");
@@ -1987,18 +2319,10 @@ export default function Home() {
       if (dateKey === todayKey && todos.some((todo) => todo.text.trim() === normalizedText)) {
         return;
       }
-      const duplicateSnapshot = await getDocs(
-        query(todosRef, where("text", "==", normalizedText), limit(1))
-      );
-      if (!duplicateSnapshot.empty) return;
-      await addDoc(todosRef, {
+      if (await hasTodoWithText(db, user.uid, dateKey, normalizedText)) return;
+      await addTodo(db, user.uid, dateKey, {
         text: normalizedText,
-        done: false,
-        effects: [],
-        completedAt: null,
-        dueAt: null,
         goalTrackId: targetGoalTrackId,
-        createdAt: serverTimestamp(),
       });
     } finally {
       todoInsertInFlightRef.current.delete(dedupKey);
@@ -2007,33 +2331,20 @@ export default function Home() {
 
   const handleToggleTodo = async (todo: TodoItem) => {
     if (!user || !db) return;
-    const todoRef = doc(
-      db,
-      "users",
-      user.uid,
-      "days",
-      todayKey,
-      "todos",
-      todo.id
-    );
-    const eventsRef = collection(db, "users", user.uid, "goalTrackEvents");
     const goalTrackId = todo.goalTrackId ?? null;
 
     if (!todo.done) {
-      await updateDoc(todoRef, {
+      await updateTodo(db, user.uid, todayKey, todo.id, {
         done: true,
         completedAt: serverTimestamp(),
         effects: [],
       });
       if (goalTrackId) {
-        const eventId = buildEventId(goalTrackId, todo.id, todayKey);
-        const eventRef = doc(eventsRef, eventId);
-        await setDoc(eventRef, {
+        await recordGoalTrackEvent(db, user.uid, {
           goalTrackId,
           todoId: todo.id,
           todoText: todo.text,
           dateKey: todayKey,
-          createdAt: serverTimestamp(),
         });
         const track = goalTracks.find((t) => t.id === goalTrackId);
         const trackName = track?.title || "목표";
@@ -2042,11 +2353,20 @@ export default function Home() {
       }
       return;
     }
-    await updateDoc(todoRef, { done: false, completedAt: null, effects: [] });
+    await updateTodo(db, user.uid, todayKey, todo.id, {
+      done: false,
+      completedAt: null,
+      effects: [],
+    });
+    if (todo.effects?.length) {
+      await removeEffectLog(db, user.uid, todayKey, todo.id);
+    }
     if (goalTrackId) {
-      const eventId = buildEventId(goalTrackId, todo.id, todayKey);
-      const eventRef = doc(eventsRef, eventId);
-      await deleteDoc(eventRef);
+      await removeGoalTrackEvent(db, user.uid, {
+        goalTrackId,
+        todoId: todo.id,
+        dateKey: todayKey,
+      });
     }
   };
 
@@ -2084,27 +2404,18 @@ export default function Home() {
         }) as Effect
     );
     if (selectedEffects.length === 0) return;
-    const effects = applyEffectByUserType(userType, selectedEffects);
-    const todoRef = doc(
-      db,
-      "users",
-      user.uid,
-      "days",
-      todayKey,
-      "todos",
-      effectModalTodo.id
-    );
-    await updateDoc(todoRef, {
+    // 고른 강도 그대로 저장한다. 유형 가중치는 모아 볼 때 적용한다 (applyEffectByUserType)
+    await updateTodo(db, user.uid, todayKey, effectModalTodo.id, {
       done: true,
-      effects,
+      effects: selectedEffects,
       completedAt: serverTimestamp(),
     });
-    dispatchEffect({
-      type: "ADD_EFFECTS",
-      payload: {
-        date: todayKey,
-        effects,
-      },
+    await saveEffectLog(db, user.uid, {
+      todoId: effectModalTodo.id,
+      todoText: effectModalTodo.text,
+      dateKey: todayKey,
+      goalTrackId: effectModalTodo.goalTrackId ?? null,
+      effects: selectedEffects,
     });
     closeEffectModal();
   };
@@ -2114,16 +2425,14 @@ export default function Home() {
     if (todo.goalTrackId) {
       await deleteGoalTrackEventsByTodoId(db, user.uid, todo.id);
     }
-    const todoRef = doc(
-      db,
-      "users",
-      user.uid,
-      "days",
-      todayKey,
-      "todos",
-      todo.id
-    );
-    await deleteDoc(todoRef);
+    if (todo.effects?.length) {
+      await removeEffectLog(db, user.uid, todayKey, todo.id);
+    }
+    if (todo.recurrenceId) {
+      await skipRecurringTodo(db, user.uid, todo.recurrenceId, todayKey);
+      return;
+    }
+    await deleteTodo(db, user.uid, todayKey, todo.id);
   };
 
   const handleUpdateTodoGoalTrackId = async (
@@ -2131,17 +2440,76 @@ export default function Home() {
     goalTrackId: string | null
   ) => {
     if (!user || !db) return;
-    const todoRef = doc(
+    await updateTodo(db, user.uid, todayKey, todo.id, { goalTrackId });
+    setEditingGoalLinkTodoId(null);
+  };
+
+  const handleSaveRecurringTodo = async (
+    todo: TodoItem,
+    text: string,
+    scope: RecurrenceEditScope
+  ) => {
+    if (!user || !db || !text.trim()) return;
+    const recurrence = recurrences.find((r) => r.id === todo.recurrenceId);
+    if (scope === "future" && recurrence) {
+      await updateRecurrenceFromDate(db, user.uid, recurrence, todayKey, {
+        text,
+        goalTrackId: todo.goalTrackId ?? null,
+      });
+    } else {
+      await updateTodo(db, user.uid, todayKey, todo.id, { text: text.trim() });
+    }
+    setEditingRecurringTodoId(null);
+  };
+
+  const handleDeleteRecurringTodo = async (
+    todo: TodoItem,
+    scope: RecurrenceEditScope
+  ) => {
+    if (!user || !db || !todo.recurrenceId) return;
+    if (todo.goalTrackId) {
+      await deleteGoalTrackEventsByTodoId(db, user.uid, todo.id);
+    }
+    if (scope === "future") {
+      await endRecurrenceFromDate(db, user.uid, todo.recurrenceId, todayKey);
+      if (todo.done) {
+        await deleteTodo(db, user.uid, todayKey, todo.id);
+      }
+    } else {
+      await skipRecurringTodo(db, user.uid, todo.recurrenceId, todayKey);
+    }
+    setEditingRecurringTodoId(null);
+  };
+
+  const handleRestoreStaleTodo = async (dateKey: string, todo: TodoItem) => {
+    if (!user || !db) return;
+    const restored = await restoreStaleTodo(
       db,
-      "users",
       user.uid,
-      "days",
+      dateKey,
       todayKey,
-      "todos",
-      todo.id
+      todo.id,
+      getActiveTimeZone()
     );
-    await updateDoc(todoRef, { goalTrackId });
-    setEditingGoalLinkTodoId(null);
+    if (restored?.dueAt) await scheduleDueReminders(todayKey, restored.todoId, restored.dueAt);
+  };
+
+  const handleDropStaleTodo = async (dateKey: string, todo: TodoItem) => {
+    if (!user || !db) return;
+    await deleteTodo(db, user.uid, dateKey, todo.id);
+  };
+
+  const handleSaveCarryOverSettings = async (
+    carryOverMode: CarryOverMode,
+    carryOverMaxHops: number
+  ) => {
+    if (!user || !db) return;
+    await saveSettings(db, user.uid, { carryOverMode, carryOverMaxHops });
+  };
+
+  const handleEndRecurrence = async (recurrenceId: string) => {
+    if (!user || !db) return;
+    await endRecurrenceFromDate(db, user.uid, recurrenceId, todayKey);
   };
 
   const handleApplyWeeklyCoachAction = async (
@@ -2153,28 +2521,20 @@ export default function Home() {
     const normalizedText = actionText.trim();
     // weekday: 0=일, 1=월, ... 6=토 (Date.getDay()) → 0=월...6=일 (ISO) 변환
     const isoWeekday = (weekday + 6) % 7;
-    const targetDateKey = getNextWeekDateKeyByWeekdayKST(isoWeekday);
-    const todosRef = collection(db, "users", user.uid, "days", targetDateKey, "todos");
-    const duplicateSnapshot = await getDocs(
-      query(todosRef, where("goalTrackId", "==", goalTrackId), limit(50))
-    );
-    const isDuplicate = duplicateSnapshot.docs.some(
-      (d) => (d.data().text as string)?.trim() === normalizedText
+    const targetDateKey = getNextWeekDateKeyByWeekday(isoWeekday);
+    const isDuplicate = await hasDuplicateTodo(
+      db,
+      user.uid,
+      targetDateKey,
+      normalizedText,
+      goalTrackId
     );
     if (isDuplicate) {
       setExecutionToast("이미 추가되어 있어요");
       window.setTimeout(() => setExecutionToast(null), 2000);
       return;
     }
-    await addDoc(todosRef, {
-      text: normalizedText,
-      done: false,
-      effects: [],
-      completedAt: null,
-      dueAt: null,
-      goalTrackId,
-      createdAt: serverTimestamp(),
-    });
+    await addTodo(db, user.uid, targetDateKey, { text: normalizedText, goalTrackId });
     setExecutionToast("다음 주 투두에 추가했어요");
     window.setTimeout(() => setExecutionToast(null), 2000);
   };
@@ -2192,22 +2552,13 @@ export default function Home() {
     if (!user || !db) return;
     setWeeklyReviewSaving(true);
     try {
-      const reviewId = buildReviewId(data.goalTrackId, data.weekStartKey);
-      const reviewRef = doc(
-        db,
-        "users",
-        user.uid,
-        "goalTrackWeeklyReviews",
-        reviewId
-      );
-      await updateDoc(reviewRef, {
+      await updateWeeklyReview(db, user.uid, data.goalTrackId, data.weekStartKey, {
         outcomeMode: data.outcomeMode ?? null,
         metricLabel: data.metricLabel ?? null,
         metricValue: data.metricValue ?? null,
         metricUnit: data.metricUnit ?? null,
         sense: data.sense ?? null,
         outcomeNote: data.outcomeNote ?? null,
-        updatedAt: serverTimestamp(),
       });
     } finally {
       setWeeklyReviewSaving(false);
@@ -2244,17 +2595,13 @@ export default function Home() {
         wobbleMoment: "",
         nextWeekRuleText: firstRuleText,
       });
-      const reviewId = buildReviewId(data.goalTrackId, data.weekStartKey);
-      const reviewRef = doc(
+      const existingReview = await fetchWeeklyReviewData(
         db,
-        "users",
         user.uid,
-        "goalTrackWeeklyReviews",
-        reviewId
+        data.goalTrackId,
+        data.weekStartKey
       );
-      const existingSnap = await getDoc(reviewRef);
-      const existingData = existingSnap.exists() ? existingSnap.data() : {};
-      const existing = !!existingSnap.exists();
+      const existingData = existingReview ?? {};
       const mergedNextWeekRules =
         data.nextWeekRules?.length > 0
           ? data.nextWeekRules
@@ -2264,11 +2611,12 @@ export default function Home() {
           ? [mergedNextWeekRules[0].weekdays![0]]
           : (existingData.plannedWeekdays ?? null);
       const mergedFirstRuleText = mergedNextWeekRules[0]?.text ?? firstRuleText;
-      await setDoc(
-        reviewRef,
+      await saveWeeklyReview(
+        db,
+        user.uid,
+        data.goalTrackId,
+        data.weekStartKey,
         {
-          goalTrackId: data.goalTrackId,
-          weekStartKey: data.weekStartKey,
           rhythm,
           status: data.status,
           blockReason: data.blockReason ?? null,
@@ -2286,10 +2634,8 @@ export default function Home() {
           coachFact: coach.fact,
           coachPattern: coach.pattern,
           coachAction: coach.action,
-          updatedAt: serverTimestamp(),
-          ...(existing ? {} : { createdAt: serverTimestamp() }),
         },
-        { merge: true }
+        !existingReview
       );
     } finally {
       setWeeklyReviewSaving(false);
@@ -2301,35 +2647,17 @@ export default function Home() {
     reasonType: MissedReasonType
   ) => {
     if (!user || !db) return;
-    const todoRef = doc(
-      db,
-      "users",
-      user.uid,
-      "days",
-      todayKey,
-      "todos",
-      todo.id
-    );
-    await updateDoc(todoRef, {
+    await updateTodo(db, user.uid, todayKey, todo.id, {
       missedReasonType: reasonType,
       missedReasonUpdatedAt: serverTimestamp(),
     });
     clearTodoAIResult(todo.id);
     try {
-      const interventionsRef = collection(
-        db,
-        "users",
-        user.uid,
-        "days",
-        todayKey,
-        "todoInterventions"
-      );
-      await addDoc(interventionsRef, {
+      await logTodoIntervention(db, user.uid, todayKey, {
         todoId: todo.id,
         reasonType,
         kind: "REASON_SELECTED",
         todoText: todo.text,
-        createdAt: serverTimestamp(),
       });
     } catch {
       // ignore logging failures
@@ -2393,36 +2721,22 @@ export default function Home() {
             `${todo.id}-${reasonType}`,
             NOT_ENOUGH_TIME_QUESTION_POOL
           );
-    const result = await (async () => {
-      try {
-        const response = await fetch("/api/ai/rewrite-todo", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            originalTodoText: todo.text,
-            reasonType:
-              reasonType === MissedReasonType.HARD_TO_START
-                ? "HARD_TO_START"
-                : "NOT_ENOUGH_TIME",
-            contextQuestions,
-          }),
-        });
-        if (!response.ok) return null;
-        const data = (await response.json()) as {
-          result?: {
-            conditionMessage: string;
-            rewrittenTodo: string;
-          } | null;
-        };
-        return data.result ?? null;
-      } catch {
-        return null;
-      }
-    })();
+    const { result, error } = await postAiRoute<{
+      conditionMessage: string;
+      rewrittenTodo: string;
+    }>("/api/ai/rewrite-todo", {
+      originalTodoText: todo.text,
+      reasonType:
+        reasonType === MissedReasonType.HARD_TO_START
+          ? "HARD_TO_START"
+          : "NOT_ENOUGH_TIME",
+      contextQuestions,
+    });
     if (!result) {
       setTodoAIError((prev) => ({
         ...prev,
-        [todo.id]: "AI 생성에 실패했어요. 다시 시도해 주세요.",
+        [todo.id]:
+          getAiLimitMessage(error) ?? "AI 생성에 실패했어요. 다시 시도해 주세요.",
       }));
     } else {
       setTodoAIResults((prev) => ({ ...prev, [todo.id]: result }));
@@ -2447,16 +2761,7 @@ export default function Home() {
 
   const handleReplaceTodoText = async (todo: TodoItem, nextText: string) => {
     if (!user || !db || !nextText.trim()) return;
-    const todoRef = doc(
-      db,
-      "users",
-      user.uid,
-      "days",
-      todayKey,
-      "todos",
-      todo.id
-    );
-    await updateDoc(todoRef, {
+    await updateTodo(db, user.uid, todayKey, todo.id, {
       text: nextText.trim(),
       missedReasonType: null,
       dueAt: null,
@@ -2484,26 +2789,16 @@ export default function Home() {
       delete next[todo.id];
       return next;
     });
-    let result: { question: string; rewrittenTodo: string } | null = null;
-    try {
-      const response = await fetch("/api/ai/todo-block", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          blockType,
-          originalTodo: todo.text,
-          situation: situation || undefined,
-        }),
-      });
-      if (response.ok) {
-        const data = (await response.json()) as {
-          result?: { question: string; rewrittenTodo: string } | null;
-        };
-        result = data.result ?? null;
+    const response = await postAiRoute<{ question: string; rewrittenTodo: string }>(
+      "/api/ai/todo-block",
+      {
+        blockType,
+        originalTodo: todo.text,
+        situation: situation || undefined,
       }
-    } catch {
-      // fall through to fallback
-    }
+    );
+    showAiLimitToast(response.error);
+    let result = response.result;
     if (!result || !result.question || !result.rewrittenTodo) {
       result = fallbackSuggestion(blockType, todo.text);
     }
@@ -2516,16 +2811,7 @@ export default function Home() {
     newText: string
   ) => {
     if (!user || !db || !newText.trim()) return;
-    const todoRef = doc(
-      db,
-      "users",
-      user.uid,
-      "days",
-      todayKey,
-      "todos",
-      todo.id
-    );
-    await updateDoc(todoRef, { text: newText.trim() });
+    await updateTodo(db, user.uid, todayKey, todo.id, { text: newText.trim() });
     setBlockSuggestion((prev) => {
       const next = { ...prev };
       delete next[todo.id];
@@ -2538,35 +2824,17 @@ export default function Home() {
 
   const handleConfirmCompletedButNotChecked = async (todo: TodoItem) => {
     if (!user || !db) return;
-    const todoRef = doc(
-      db,
-      "users",
-      user.uid,
-      "days",
-      todayKey,
-      "todos",
-      todo.id
-    );
-    await updateDoc(todoRef, {
+    await updateTodo(db, user.uid, todayKey, todo.id, {
       done: true,
       completedAt: serverTimestamp(),
       completionNote: "COMPLETED_BUT_NOT_CHECKED",
     });
     try {
-      const interventionsRef = collection(
-        db,
-        "users",
-        user.uid,
-        "days",
-        todayKey,
-        "todoInterventions"
-      );
-      await addDoc(interventionsRef, {
+      await logTodoIntervention(db, user.uid, todayKey, {
         todoId: todo.id,
         reasonType: MissedReasonType.COMPLETED_BUT_NOT_CHECKED,
         kind: "COMPLETED_CONFIRMED",
         todoText: todo.text,
-        createdAt: serverTimestamp(),
       });
     } catch {
       // ignore logging failures
@@ -2578,30 +2846,21 @@ export default function Home() {
     if (!rawTodo) return;
     setTodoPolishLoading(true);
     setTodoPolishError("");
-    try {
-      const response = await fetch("/api/ai/polish-todo", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ rawTodo }),
-      });
-      if (!response.ok) {
-        setTodoPolishError("문장 다듬기에 실패했어요.");
-        return;
-      }
-      const data = (await response.json()) as {
-        result?: { polishedTodo: string } | null;
-      };
-      const polishedTodo = data.result?.polishedTodo?.trim() ?? "";
-      if (!polishedTodo) {
-        setTodoPolishError("다듬은 문장을 받지 못했어요.");
-        return;
-      }
-      setTodoDraftText(polishedTodo);
-    } catch {
-      setTodoPolishError("문장 다듬기 중 오류가 발생했어요.");
-    } finally {
-      setTodoPolishLoading(false);
+    const { result, error } = await postAiRoute<{ polishedTodo: string }>(
+      "/api/ai/polish-todo",
+      { rawTodo }
+    );
+    setTodoPolishLoading(false);
+    if (error) {
+      setTodoPolishError(getAiLimitMessage(error) ?? "문장 다듬기에 실패했어요.");
+      return;
     }
+    const polishedTodo = result?.polishedTodo?.trim() ?? "";
+    if (!polishedTodo) {
+      setTodoPolishError("다듬은 문장을 받지 못했어요.");
+      return;
+    }
+    setTodoDraftText(polishedTodo);
   };
 
   const handleSubmitGoalTodo = async () => {
@@ -2619,12 +2878,7 @@ export default function Home() {
     const content = recordDraft.trim();
     if (!content) return;
     try {
-      const recordsRef = collection(db, "users", user.uid, "records");
-      await addDoc(recordsRef, {
-        content,
-        goalTrackId: recordGoalTrackId || null,
-        createdAt: serverTimestamp(),
-      });
+      await addRecord(db, user.uid, content, recordGoalTrackId || null);
       setRecordDraft("");
     } catch {
       // ignore record save failures
@@ -2633,20 +2887,17 @@ export default function Home() {
 
   const handleAddEvent = async () => {
     if (!user || !db || !selectedDate || !newEventTitle.trim()) return;
-    const eventsRef = collection(db, "users", user.uid, "events");
-    await addDoc(eventsRef, {
-      title: newEventTitle.trim(),
+    await addCalendarEvent(db, user.uid, {
+      title: newEventTitle,
       dateKey: selectedDate,
       time: newEventTime,
-      createdAt: serverTimestamp(),
     });
     setNewEventTitle("");
   };
 
   const handleDeleteEvent = async (eventItem: CalendarEvent) => {
     if (!user || !db) return;
-    const eventRef = doc(db, "users", user.uid, "events", eventItem.id);
-    await deleteDoc(eventRef);
+    await deleteCalendarEvent(db, user.uid, eventItem.id);
   };
 
   const handlePreviousMonth = () => {
@@ -2661,10 +2912,31 @@ export default function Home() {
     );
   };
 
-  const startDistractionTimer = (appName: string, minutes: number) => {
-    setTimerApp(appName);
+  const startDistractionTimer = (app: { id: string; label: string }, minutes: number) => {
+    setTimerApp(app.label);
     setTimerSeconds(minutes * 60);
     setTimerFinished(false);
+    activeBypassRef.current = null;
+    if (!user || !db) return;
+    // 보호 시간 중에 연 앱만 세션에 묶인다 (밖이면 기록만 남긴다)
+    const session = protectLogic.activeWindow
+      ? buildProtectSession(protectLogic.activeWindow, settings.timeZone ?? getActiveTimeZone())
+      : null;
+    const bypass = buildProtectBypass(
+      session
+        ? { ...session, id: buildProtectSessionId(session.dateKey, session.windowId) }
+        : null,
+      todayKey,
+      app,
+      minutes
+    );
+    // id를 먼저 정해 두어야 쓰기가 끝나기 전에 타이머가 끝나도 초과·종료가 같은 기록에 남는다
+    const id = createProtectBypassId(db, user.uid);
+    activeBypassRef.current = { id, bypass, overran: false };
+    void startProtectBypass(db, user.uid, id, session, bypass).catch(() => {
+      // 시작 기록이 없으면 초과·종료도 남기지 않는다
+      if (activeBypassRef.current?.id === id) activeBypassRef.current = null;
+    });
   };
 
   const confirmDistractionTimer = () => {
@@ -2672,12 +2944,11 @@ export default function Home() {
     const nextApps = distractionApps.map((app) =>
       app.id === pendingAppId ? { ...app, minutes: pendingMinutes } : app
     );
-    setDistractionApps(nextApps);
     saveDistractionApps(nextApps);
     const appLabel =
       distractionApps.find((app) => app.id === pendingAppId)?.label ??
       "앱";
-    startDistractionTimer(appLabel, pendingMinutes);
+    startDistractionTimer({ id: pendingAppId, label: appLabel }, pendingMinutes);
     if (typeof window !== "undefined" && "Notification" in window) {
       if (Notification.permission === "default") {
         Notification.requestPermission().catch(() => {});
@@ -2691,6 +2962,20 @@ export default function Home() {
   };
 
   const closeTimer = () => {
+    const active = activeBypassRef.current;
+    activeBypassRef.current = null;
+    if (active && user && db) {
+      const endedAt = new Date();
+      void endProtectBypass(
+        db,
+        user.uid,
+        active.id,
+        endedAt,
+        active.overran ? calcOverrunMinutes(active.bypass, endedAt) : null
+      ).catch(() => {
+        // 오프라인·권한 거부: 종료 시각 없이 남는다 (통계는 endsAt으로 본다)
+      });
+    }
     setTimerSeconds(null);
     setTimerApp(null);
     setTimerFinished(false);
@@ -2739,14 +3024,12 @@ export default function Home() {
       ...distractionApps,
       { id: `${Date.now()}`, label: trimmed, minutes: 5 },
     ];
-    setDistractionApps(nextApps);
     saveDistractionApps(nextApps);
     setNewAppLabel("");
   };
 
   const handleRemoveApp = (appId: string) => {
     const nextApps = distractionApps.filter((app) => app.id !== appId);
-    setDistractionApps(nextApps);
     saveDistractionApps(nextApps);
   };
 
@@ -2755,7 +3038,7 @@ export default function Home() {
     options?: { persist?: boolean }
   ) => {
     setSettingsDraft((prev) => {
-      const current = normalizeWakeRoutine(prev.wakeRoutine, todayKey);
+      const current = normalizeWakeRoutine(prev.wakeRoutine);
       const nextWakeRoutine = updater(current);
       if (options?.persist) {
         void persistWakeRoutine(nextWakeRoutine);
@@ -2776,7 +3059,7 @@ export default function Home() {
       if (!routine) {
         const createdRoutineId = `routine-${Date.now()}`;
         setSelectedWakeRoutineId(createdRoutineId);
-        return [makeDefaultRoutine(createdRoutineId, [{ id: `${Date.now()}-task`, title: trimmed, completed: false }])];
+        return [makeDefaultRoutine(createdRoutineId, [{ id: `${Date.now()}-task`, title: trimmed }])];
       }
       return routines.map((item) =>
         item.id === routine.id
@@ -2784,7 +3067,7 @@ export default function Home() {
               ...item,
               tasks: [
                 ...item.tasks,
-                { id: `${Date.now()}-task`, title: trimmed, completed: false },
+                { id: `${Date.now()}-task`, title: trimmed },
               ],
             }
           : item
@@ -2840,25 +3123,57 @@ export default function Home() {
     );
   };
 
-  const handleToggleRoutineTask = (routineId: string, taskId: string) => {
-    updateWakeRoutineInDraft(
-      (routines) =>
-        routines.map((routine) =>
-          routine.id === routineId
-            ? {
-                ...routine,
-                tasks: routine.tasks.map((task) =>
-                  task.id === taskId
-                    ? {
-                        ...task,
-                        completed: !task.completed,
-                      }
-                    : task
-                ),
-              }
-            : routine
-        ),
-      { persist: true }
+  /** 실행 화면에서 할 일 하나를 끝내거나 건너뛴다 (기록이 없으면 지금 시작한 것으로 만든다) */
+  const handleFinishRoutineTask = (
+    routineId: string,
+    taskId: string,
+    outcome: RoutineTaskOutcome,
+    durationSeconds: number
+  ) => {
+    if (!user || !db) return;
+    const routine = wakeRoutines.find((item) => item.id === routineId);
+    if (!routine) return;
+    const now = new Date();
+    const runId = buildRoutineRunId(routineId, todayKey);
+    const run = routineRuns.find((item) => item.id === runId) ?? buildRoutineRun(routine, todayKey, now);
+    void saveRoutineRun(
+      db,
+      user.uid,
+      finishRoutineRunTask(run, routine, taskId, outcome, durationSeconds, now)
+    );
+  };
+
+  /** 루틴 실행 화면 열기. 오늘 기록이 없으면 시작 시각을 남긴다 */
+  const handleStartRoutine = (routine: RoutineItem) => {
+    setSelectedWakeRoutineId(routine.id);
+    setWakeScreen("execute");
+    if (!user || !db) return;
+    const runId = buildRoutineRunId(routine.id, todayKey);
+    if (routineRuns.some((item) => item.id === runId)) return;
+    void saveRoutineRun(db, user.uid, buildRoutineRun(routine, todayKey, new Date()));
+  };
+
+  /** 할 일 목표 시간(분). 비우면 목표 없음 */
+  const handleUpdateRoutineTaskTarget = (
+    routineId: string,
+    taskId: string,
+    minutes: number | null
+  ) => {
+    updateWakeRoutineInDraft((routines) =>
+      routines.map((routine) =>
+        routine.id === routineId
+          ? {
+              ...routine,
+              tasks: routine.tasks.map((task) => {
+                if (task.id !== taskId) return task;
+                const { id, title } = task;
+                return minutes && minutes > 0
+                  ? { id, title, targetSeconds: Math.round(minutes * 60) }
+                  : { id, title };
+              }),
+            }
+          : routine
+      )
     );
   };
 
@@ -2878,34 +3193,21 @@ export default function Home() {
     );
   };
 
-  const handleCompleteWakeRoutine = () => {
-    if (!activeWakeRoutine || !activeWakeRoutineAllDone || activeWakeRoutineCompletedToday) {
-      return;
-    }
-    updateWakeRoutineInDraft(
-      (routines) =>
-        routines.map((routine) => {
-          if (routine.id !== activeWakeRoutine.id) return routine;
-          const lastCompletedDate = routine.lastCompletedDate;
-          const diffDays = lastCompletedDate
-            ? diffDaysBetweenDateKeys(lastCompletedDate, todayKey)
-            : null;
-          const canKeepStreak =
-            diffDays !== null && diffDays > 0 && diffDays - 1 <= ROUTINE_STREAK_GRACE_DAYS;
-          const nextStreak = canKeepStreak ? routine.streak + 1 : 1;
-          const completionHistory = Array.from(
-            new Set([...(routine.completionHistory ?? []), todayKey])
-          ).sort();
-          return {
-            ...routine,
-            streak: nextStreak,
-            totalCompletedDays: routine.totalCompletedDays + 1,
-            lastCompletedDate: todayKey,
-            monthlySuccessRate: calculateMonthlySuccessRate(completionHistory, todayKey),
-            completionHistory,
-          };
-        }),
-      { persist: true }
+  const handleChangeRoutinePlace = (routineId: string, place: RoutinePlace) => {
+    updateWakeRoutineInDraft((routines) =>
+      routines.map((routine) => (routine.id === routineId ? { ...routine, place } : routine))
+    );
+  };
+
+  const handleChangeRoutineArrivalReminder = (routineId: string, enabled: boolean) => {
+    updateWakeRoutineInDraft((routines) =>
+      routines.map((routine) => {
+        if (routine.id !== routineId) return routine;
+        const next = { ...routine };
+        if (enabled) next.arrivalReminder = true;
+        else delete next.arrivalReminder;
+        return next;
+      })
     );
   };
 
@@ -2957,16 +3259,7 @@ export default function Home() {
         setWakeReminder("푸시 등록에 실패했어요.");
         return;
       }
-      const tokenRef = doc(db, "users", user.uid, "pushTokens", token);
-      await setDoc(
-        tokenRef,
-        {
-          token,
-          platform: "web",
-          createdAt: serverTimestamp(),
-        },
-        { merge: true }
-      );
+      await savePushToken(db, user.uid, token);
       try {
         localStorage.setItem("to-day-push-token", token);
       } catch {
@@ -2974,15 +3267,10 @@ export default function Home() {
       }
       setPushEnabled(true);
       setWakeConsent(true);
-      const settingsRef = doc(db, "users", user.uid, "settings", "main");
-      await setDoc(
-        settingsRef,
-        {
-          wakeConsent: true,
-          wakeConsentAt: serverTimestamp(),
-        },
-        { merge: true }
-      );
+      await saveSettings(db, user.uid, {
+        wakeConsent: true,
+        wakeConsentAt: serverTimestamp(),
+      });
     } catch {
       setWakeReminder("푸시 알림 등록 중 오류가 발생했어요.");
     }
@@ -3183,7 +3471,21 @@ export default function Home() {
         <header className="flex items-center justify-between">
           <div>
             <p className="text-xs text-slate-500">{formatDateKey(todayKey)}</p>
-            <h1 className="text-2xl font-semibold">to day</h1>
+            <div className="flex items-center gap-2">
+              <h1 className="text-2xl font-semibold">to day</h1>
+              {(!syncStatus.online || unsyncedCount > 0) && (
+                <span
+                  className={`rounded-full px-2 py-0.5 text-[11px] font-semibold ${
+                    syncStatus.online
+                      ? "bg-sky-100 text-sky-700"
+                      : "bg-amber-100 text-amber-700"
+                  }`}
+                >
+                  {syncStatus.online ? "동기화 중" : "오프라인"}
+                  {unsyncedCount > 0 ? ` · 대기 ${unsyncedCount}` : ""}
+                </span>
+              )}
+            </div>
           </div>
           <div className="flex items-center gap-2">
             <button
@@ -3203,6 +3505,21 @@ export default function Home() {
 
         {activeTab === "home" && (
           <>
+            {settingsLoaded && !settings.userTypeAnswered && (
+              <section className={uiCard}>
+                <p className="text-sm font-semibold">나에게 맞게 시작하기</p>
+                <p className="mt-1 text-xs text-slate-400">
+                  세 가지만 답하면 인사, 투두 순서, 보호 시간, 효과 기록을 맞춰 드려요.
+                </p>
+                <div className="mt-4">
+                  <UserTypeQuestionnaire
+                    userType={userType}
+                    onSubmit={handleSaveUserType}
+                    onSkip={handleSkipUserType}
+                  />
+                </div>
+              </section>
+            )}
             <section className={uiCard}>
               <p className="text-xs text-slate-400">
                 {homeLogic.greetingText}
@@ -3213,8 +3530,8 @@ export default function Home() {
                     {user.displayName ?? "오늘도"}님, 좋은 하루 보내요
                   </h2>
                   <p className="mt-1 text-xs text-slate-400">
-                    기상 알림 {wakeTimesLabel} · 보호 시간 {settings.protectStart}
-                    ~{settings.protectEnd}
+                    기상 알림 {wakeTimesLabel} · 보호 시간{" "}
+                    {protectWindows.map(formatProtectWindow).join(", ") || "없음"}
                   </p>
                 </div>
                 <div
@@ -3281,6 +3598,37 @@ export default function Home() {
               </div>
             </section>
 
+            {nearbyPendingRoutines.length > 0 && (
+              <section className={uiCard}>
+                <p className="text-sm font-semibold">📍 여기서 할 루틴</p>
+                <div className="mt-3 space-y-2">
+                  {nearbyPendingRoutines.map((routine) => (
+                    <div
+                      key={routine.id}
+                      className="flex items-center justify-between gap-3 rounded-2xl border border-slate-100 px-3 py-3"
+                    >
+                      <div>
+                        <p className="text-sm font-semibold text-slate-900">{routine.title}</p>
+                        <p className="text-[11px] text-slate-400">
+                          {formatRoutinePlace(routine.place)} · 할 일 {routine.tasks.length}개
+                        </p>
+                      </div>
+                      <button
+                        type="button"
+                        className="h-9 shrink-0 rounded-full bg-slate-900 px-4 text-[11px] font-semibold text-white"
+                        onClick={() => {
+                          handleStartRoutine(routine);
+                          setActiveTab("wake");
+                        }}
+                      >
+                        실행하기
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
             <section className={uiCard}>
               <div className="flex items-center justify-between">
                 <p className="text-sm font-semibold">성장 대시보드</p>
@@ -3424,7 +3772,8 @@ export default function Home() {
                             {getRoutineDisplayTitle(routine.title, index)}
                           </p>
                           <p className="mt-1 text-xs text-slate-400">
-                            🔥 {routine.streak}일 · 성공률 {routine.monthlySuccessRate}%
+                            🔥 {routineStatsById.get(routine.id)?.streak ?? 0}일 · 성공률{" "}
+                            {routineStatsById.get(routine.id)?.monthlySuccessRate ?? 0}%
                           </p>
                         </div>
                         <details className="relative">
@@ -3442,6 +3791,16 @@ export default function Home() {
                             >
                               편집
                             </button>
+                            <button
+                              type="button"
+                              className="w-full rounded-xl px-2 py-2 text-left text-xs text-slate-600 hover:bg-slate-50"
+                              onClick={() => {
+                                setSelectedWakeRoutineId(routine.id);
+                                setWakeScreen("history");
+                              }}
+                            >
+                              기록
+                            </button>
                             <button
                               type="button"
                               className="w-full rounded-xl px-2 py-2 text-left text-xs text-rose-500 hover:bg-rose-50"
@@ -3455,10 +3814,7 @@ export default function Home() {
                       <button
                         type="button"
                         className="mt-4 h-11 w-full rounded-full bg-slate-900 px-4 text-xs font-semibold text-white"
-                        onClick={() => {
-                          setSelectedWakeRoutineId(routine.id);
-                          setWakeScreen("execute");
-                        }}
+                        onClick={() => handleStartRoutine(routine)}
                       >
                         실행하기
                       </button>
@@ -3499,57 +3855,39 @@ export default function Home() {
                   <div className="rounded-2xl border border-slate-100 px-4 py-3">
                     <p className="text-[11px] text-slate-400">연속 성공일</p>
                     <p className="mt-1 text-lg font-semibold text-slate-900">
-                      🔥 {activeWakeRoutine.streak}일
+                      🔥 {activeWakeRoutineStats?.streak ?? 0}일
                     </p>
                   </div>
                 </div>
-                <div className="mt-3 space-y-2">
-                  {activeWakeRoutine.tasks.length === 0 && (
-                    <p className="text-xs text-slate-400">
-                      태스크가 없어요. 편집 화면에서 추가해 주세요.
-                    </p>
-                  )}
-                  {activeWakeRoutine.tasks.map((task) => (
-                    <label
-                      key={task.id}
-                      className={`flex items-center gap-3 rounded-2xl border px-3 py-3 transition ${
-                        task.completed
-                          ? "scale-[1.01] border-emerald-200 bg-emerald-50/70"
-                          : "border-slate-100 bg-white"
-                      }`}
-                    >
-                      <input
-                        type="checkbox"
-                        checked={task.completed}
-                        onChange={() => handleToggleRoutineTask(activeWakeRoutine.id, task.id)}
-                        className="h-4 w-4 accent-slate-900"
-                      />
-                      <span
-                        className={`text-sm transition ${
-                          task.completed
-                            ? "font-semibold text-emerald-700 line-through"
-                            : "text-slate-700"
-                        }`}
-                      >
-                        {getIconForRoutine(task.title)} {task.title}
-                      </span>
-                    </label>
-                  ))}
-                </div>
+                <RoutineRunner
+                  routine={activeWakeRoutine}
+                  run={activeWakeRoutineRun}
+                  onStart={() => handleStartRoutine(activeWakeRoutine)}
+                  onFinishTask={(taskId, outcome, durationSeconds) =>
+                    handleFinishRoutineTask(activeWakeRoutine.id, taskId, outcome, durationSeconds)
+                  }
+                />
+              </section>
+            )}
+
+            {wakeScreen === "history" && activeWakeRoutine && (
+              <section className={uiCard}>
                 <button
                   type="button"
-                  className={`mt-4 h-11 w-full rounded-full px-4 text-xs font-semibold transition ${
-                    activeWakeRoutineAllDone && !activeWakeRoutineCompletedToday
-                      ? "bg-slate-900 text-white"
-                      : "bg-slate-200 text-slate-400"
-                  }`}
-                  onClick={handleCompleteWakeRoutine}
-                  disabled={!activeWakeRoutineAllDone || activeWakeRoutineCompletedToday}
+                  className="text-xs font-semibold text-slate-500"
+                  onClick={() => setWakeScreen("list")}
                 >
-                  {activeWakeRoutineCompletedToday
-                    ? "오늘 루틴 완료됨"
-                    : "오늘 완료하기"}
+                  ← 목록으로
                 </button>
+                <RoutineHistoryPanel
+                  title={getRoutineDisplayTitle(
+                    activeWakeRoutine.title,
+                    activeWakeRoutineIndex >= 0 ? activeWakeRoutineIndex : 0
+                  )}
+                  routine={activeWakeRoutine}
+                  runs={routineRunsByRoutineId.get(activeWakeRoutine.id) ?? []}
+                  todayKey={todayKey}
+                />
               </section>
             )}
 
@@ -3598,6 +3936,18 @@ export default function Home() {
                         </button>
                       ))}
                     </div>
+                    {activeWakeRoutine.triggerType === "location" && (
+                      <RoutinePlaceEditor
+                        place={activeWakeRoutine.place ?? null}
+                        arrivalReminder={activeWakeRoutine.arrivalReminder === true}
+                        onChangePlace={(place) =>
+                          handleChangeRoutinePlace(activeWakeRoutine.id, place)
+                        }
+                        onChangeArrivalReminder={(enabled) =>
+                          handleChangeRoutineArrivalReminder(activeWakeRoutine.id, enabled)
+                        }
+                      />
+                    )}
                   </div>
                 </section>
                 <section className={uiCard}>
@@ -3605,7 +3955,7 @@ export default function Home() {
                     <div>
                       <p className="text-sm font-semibold">루틴 편집</p>
                       <p className="text-xs text-slate-400">
-                        실행 설정을 수정합니다.
+                        할 일마다 목표 시간(분)을 적으면 실행할 때 카운트다운해요.
                       </p>
                     </div>
                   </div>
@@ -3632,6 +3982,24 @@ export default function Home() {
                         <span className="text-sm text-slate-700">
                           {getIconForRoutine(task.title)} {index + 1}. {task.title}
                         </span>
+                        <label className="ml-auto mr-3 flex items-center gap-1 text-[11px] text-slate-400">
+                          <input
+                            type="number"
+                            min={1}
+                            max={120}
+                            value={task.targetSeconds ? Math.round(task.targetSeconds / 60) : ""}
+                            onChange={(event) =>
+                              handleUpdateRoutineTaskTarget(
+                                activeWakeRoutine.id,
+                                task.id,
+                                event.target.value ? Number(event.target.value) : null
+                              )
+                            }
+                            placeholder="-"
+                            className="w-12 rounded-lg border border-slate-200 px-2 py-1 text-right text-xs"
+                          />
+                          분
+                        </label>
                         <button
                           className="text-xs text-slate-400"
                           onClick={() =>
@@ -3667,41 +4035,16 @@ export default function Home() {
                 <div>
                   <p className="text-sm font-semibold">보호 시간 설정</p>
                   <p className="text-xs text-slate-400">
-                    보호 시간을 직접 설정할 수 있어요.
+                    요일마다 다른 구간을 여러 개 둘 수 있어요. 끝이 시작보다 이르면 다음 날까지 이어져요.
                   </p>
                 </div>
               </div>
-              <div className={`mt-4 ${uiInputPanel} flex items-center gap-3`}>
-                <input
-                  type="time"
-                  value={settingsDraft.protectStart}
-                  onChange={(event) =>
-                    setSettingsDraft((prev) => ({
-                      ...prev,
-                      protectStart: event.target.value,
-                    }))
-                  }
-                  className="w-28 rounded-xl border border-slate-200 px-3 py-2 text-sm"
-                />
-                <span className="text-xs text-slate-400">~</span>
-                <input
-                  type="time"
-                  value={settingsDraft.protectEnd}
-                  onChange={(event) =>
-                    setSettingsDraft((prev) => ({
-                      ...prev,
-                      protectEnd: event.target.value,
-                    }))
-                  }
-                  className="w-28 rounded-xl border border-slate-200 px-3 py-2 text-sm"
-                />
-              </div>
-              <button
-                className={`mt-4 ${uiPrimaryButton}`}
-                onClick={handleSaveWakeSettings}
-              >
-                보호 시간 저장
-              </button>
+              <ProtectWindowsEditor
+                windows={protectWindows}
+                defaultApps={settings.distractionApps ?? DEFAULT_DISTRACTION_APPS}
+                newWindowTimes={protectLogic.suggestedWindow}
+                onSave={saveProtectWindows}
+              />
             </section>
 
             <section className={uiCard}>
@@ -3713,6 +4056,12 @@ export default function Home() {
                       ? "현재 집중 모드가 활성화되어 있어요."
                       : "지금은 보호 시간이 아니에요."}
                   </p>
+                  {shieldWindow && (
+                    <p className="mt-1 text-[11px] text-slate-500">
+                      {protectLogic.activeWindow ? "지금" : "다음"} ·{" "}
+                      {formatProtectWindow(shieldWindow)} · {protectLogic.protectDetailText}
+                    </p>
+                  )}
                 </div>
                 <span
                   className={`rounded-full px-3 py-1 text-xs ${
@@ -3764,6 +4113,35 @@ export default function Home() {
                 </button>
               </div>
             </section>
+
+            <section className={uiCard}>
+              <p className="text-sm font-semibold">오늘 보호 시간 사용</p>
+              <p className="text-xs text-slate-400">
+                보호 시간 중에 연 앱과 쓴 시간이에요.
+              </p>
+              {protectSummary.length === 0 ? (
+                <p className="mt-3 text-xs text-slate-400">
+                  오늘 보호 시간에 연 앱이 없어요.
+                </p>
+              ) : (
+                <div className={`mt-3 ${uiInputPanel} space-y-2 text-xs`}>
+                  {protectSummary.map((item) => (
+                    <div key={item.appId} className="flex items-center justify-between">
+                      <span className="font-semibold text-slate-700">{item.appLabel}</span>
+                      <span className="text-slate-500">
+                        {item.bypassCount}회 · {formatMinutes(item.minutes)}
+                        {item.overrunCount > 0 && (
+                          <span className="ml-1 text-rose-500">
+                            (초과 {item.overrunCount}회
+                            {item.overrunMinutes > 0 ? ` · ${item.overrunMinutes}분` : ""})
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
           </>
         )}
 
@@ -3771,7 +4149,7 @@ export default function Home() {
           <>
             {activeTab === "log" && (
               <section className={uiCard}>
-                <div className="grid grid-cols-2 gap-2 text-xs">
+                <div className="grid grid-cols-3 gap-2 text-xs">
                 <button
                   type="button"
                   onClick={() => setLogSection("daily")}
@@ -3794,6 +4172,17 @@ export default function Home() {
                 >
                   실행 기록
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setLogSection("effects")}
+                  className={`h-10 rounded-full border px-2 text-center font-semibold ${
+                    logSection === "effects"
+                      ? "border-slate-900 bg-slate-900 text-white"
+                      : "border-slate-200 text-slate-600"
+                  }`}
+                >
+                  효과 분석
+                </button>
                 </div>
               </section>
             )}
@@ -3845,6 +4234,41 @@ export default function Home() {
               </section>
             )}
 
+            {activeTab === "log" && logSection === "daily" && (
+              <>
+                <div className="rounded-2xl border border-slate-100 bg-white p-4">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-semibold">나의 유형</p>
+                    <button
+                      type="button"
+                      className="text-[11px] font-semibold text-slate-500"
+                      onClick={() => setUserTypeEditing((prev) => !prev)}
+                    >
+                      {userTypeEditing ? "닫기" : "다시 답하기"}
+                    </button>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-600">
+                    {USER_TYPE_PROFILES[userType].label}
+                  </p>
+                  <p className="mt-1 text-[11px] text-slate-400">
+                    {USER_TYPE_PROFILES[userType].description}
+                  </p>
+                  {userTypeEditing && (
+                    <div className="mt-3">
+                      <UserTypeQuestionnaire userType={userType} onSubmit={handleSaveUserType} />
+                    </div>
+                  )}
+                </div>
+                <DayClockSetting
+                  timeZone={settings.timeZone ?? getActiveTimeZone()}
+                  dayStartsAt={settings.dayStartsAt ?? getActiveDayStartsAt()}
+                  onChangeTimeZone={handleSaveTimeZone}
+                  onChangeDayStartsAt={handleSaveDayStartsAt}
+                />
+                <DataBackupPanel onExport={handleExportData} onImport={handleImportData} />
+              </>
+            )}
+
             {activeTab === "design" && (
               <>
               <section className={uiCard}>
@@ -3852,6 +4276,31 @@ export default function Home() {
                 <p className="mt-1 text-xs text-slate-400">
                   설계(상위)를 만들고 그 아래 목표/주제를 추가하세요.
                 </p>
+                <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={settings.weeklyReviewReminderEnabled !== false}
+                      onChange={(event) =>
+                        handleSaveWeeklyReviewReminder(
+                          event.target.checked,
+                          settings.weeklyReviewReminderTime ?? DEFAULT_WEEKLY_REVIEW_REMINDER_TIME
+                        )
+                      }
+                    />
+                    평가 요일 알림
+                  </label>
+                  {settings.weeklyReviewReminderEnabled !== false && (
+                    <input
+                      type="time"
+                      value={settings.weeklyReviewReminderTime ?? DEFAULT_WEEKLY_REVIEW_REMINDER_TIME}
+                      onChange={(event) =>
+                        handleSaveWeeklyReviewReminder(true, event.target.value)
+                      }
+                      className="rounded-xl border border-slate-200 px-2 py-1"
+                    />
+                  )}
+                </div>
                 <div className={`mt-3 ${uiInputPanel} flex gap-2`}>
                   <input
                     value={newDesignPlanTitle}
@@ -3946,6 +4395,39 @@ export default function Home() {
                       </div>
                       {selectedDesignPlanId === plan.id && (
                         <div className="mt-3 space-y-2 border-t border-slate-100 pt-3">
+                          <YearGoalEditor
+                            key={plan.id}
+                            yearGoal={selectedYearGoal}
+                            progress={selectedYearGoalProgress}
+                            executedDays={selectedPlanExecutedKeys.length}
+                            onSave={(draft) => handleSaveYearGoal(plan.id, draft)}
+                            onRequestCoach={handleRequestGoalCoach}
+                            saving={yearGoalSaving}
+                          >
+                            {selectedYearGoal && (
+                              <WeeklyActionPlanPanel
+                                yearGoal={selectedYearGoal}
+                                goalTracks={goalTracks.filter(
+                                  (t) => t.designPlanId === plan.id
+                                )}
+                                thisWeekKey={getWeekStartKey()}
+                                nextWeekKey={addDaysToDateKey(getWeekStartKey(), 7)}
+                                todayKey={todayKey}
+                                getDateKey={getPlanDateKey}
+                                onGenerate={(seedTodos, weeklyState) =>
+                                  handleGenerateWeeklyActionPlan(
+                                    selectedYearGoal,
+                                    seedTodos,
+                                    weeklyState
+                                  )
+                                }
+                                onCommit={(weeklyPlan) =>
+                                  handleCommitWeeklyActionPlan(plan.id, weeklyPlan)
+                                }
+                                committing={weeklyActionPlanCommitting}
+                              />
+                            )}
+                          </YearGoalEditor>
                           <div className="flex gap-2">
                             <input
                               value={newGoalTrackTitle}
@@ -4069,66 +4551,119 @@ export default function Home() {
                                     + 투두 추가
                                   </button>
                                 )}
-                                <WeeklyReviewCard
-                                  track={track}
-                                  review={
-                                    goalTrackWeeklyReviews.find(
-                                      (r) =>
-                                        r.goalTrackId === track.id &&
-                                        r.weekStartKey === getWeekStartKeyKST()
-                                    ) ?? null
-                                  }
-                                  weekStartKey={getWeekStartKeyKST()}
-                                  planReviewWeekday={
-                                    goalTracks.filter(
-                                      (t) => t.designPlanId === plan.id
-                                    )[0]?.reviewWeekday ?? 6
-                                  }
-                                  last7DaysCounts={calcLast7Days(goalTrackEvents, track.id)}
-                                  last7DaysCompletionRatios={calcLast7DaysCompletionRatios(
-                                    todosByDateKey,
-                                    track.id,
-                                    getLastNDateKeys(7)
-                                  )}
-                                  recentExecution={(() => {
-                                    const counts = calcLast7Days(
-                                      goalTrackEvents,
+                                <div id={`weekly-review-${track.id}`}>
+                                  <WeeklyReviewCard
+                                    track={track}
+                                    review={
+                                      goalTrackWeeklyReviews.find(
+                                        (r) =>
+                                          r.goalTrackId === track.id &&
+                                          r.weekStartKey === getWeekStartKey()
+                                      ) ?? null
+                                    }
+                                    weekStartKey={getWeekStartKey()}
+                                    planReviewWeekday={
+                                      goalTracks.filter(
+                                        (t) => t.designPlanId === plan.id
+                                      )[0]?.reviewWeekday ?? 6
+                                    }
+                                    last7DaysCounts={calcLast7Days(goalTrackEvents, track.id)}
+                                    last7DaysCompletionRatios={calcLast7DaysCompletionRatios(
+                                      todosByDateKey,
                                       track.id
-                                    );
-                                    const keys = getLastNDateKeys(7);
-                                    const executedDays = getExecutedDayCount(
-                                      counts,
-                                      keys
-                                    );
-                                    const recent = recentEvents(
-                                      goalTrackEvents,
-                                      track.id,
-                                      1
-                                    );
-                                    return {
-                                      executedDays,
-                                      lastExecutedText:
-                                        recent[0]?.todoText ?? "",
-                                    };
-                                  })()}
-                                  editingReviewDayGoalTrackId={
-                                    editingReviewDayGoalTrackId
-                                  }
-                                  onUpdateReviewWeekday={
-                                    handleUpdateGoalTrackReviewWeekday
-                                  }
-                                  onEditingReviewDayChange={
-                                    setEditingReviewDayGoalTrackId
-                                  }
-                                  onApplyAction={handleApplyWeeklyCoachAction}
-                                  onSave={handleSaveWeeklyReview}
-                                  onSaveSnapshotOnly={handleSaveSnapshotOnly}
-                                  reviewContentExpanded={weeklyReviewContentExpanded}
-                                  onReviewContentExpandedChange={
-                                    setWeeklyReviewContentExpanded
-                                  }
-                                  saving={weeklyReviewSaving}
-                                />
+                                    )}
+                                    recentExecution={(() => {
+                                      const counts = calcLast7Days(
+                                        goalTrackEvents,
+                                        track.id
+                                      );
+                                      const keys = getLastNDateKeys(7);
+                                      const executedDays = getExecutedDayCount(
+                                        counts,
+                                        keys
+                                      );
+                                      const recent = recentEvents(
+                                        goalTrackEvents,
+                                        track.id,
+                                        1
+                                      );
+                                      return {
+                                        executedDays,
+                                        lastExecutedText:
+                                          recent[0]?.todoText ?? "",
+                                      };
+                                    })()}
+                                    editingReviewDayGoalTrackId={
+                                      editingReviewDayGoalTrackId
+                                    }
+                                    onUpdateReviewWeekday={
+                                      handleUpdateGoalTrackReviewWeekday
+                                    }
+                                    onEditingReviewDayChange={
+                                      setEditingReviewDayGoalTrackId
+                                    }
+                                    onApplyAction={handleApplyWeeklyCoachAction}
+                                    onSave={handleSaveWeeklyReview}
+                                    onSaveSnapshotOnly={handleSaveSnapshotOnly}
+                                    reviewContentExpanded={weeklyReviewContentExpanded}
+                                    onReviewContentExpandedChange={
+                                      setWeeklyReviewContentExpanded
+                                    }
+                                    saving={weeklyReviewSaving}
+                                  />
+                                </div>
+                                <div className="mt-2 flex gap-2">
+                                  <button
+                                    type="button"
+                                    className="flex-1 rounded-lg border border-slate-200 py-1 text-xs text-slate-500 hover:border-slate-300"
+                                    onClick={() =>
+                                      setTrendGoalTrackId((prev) =>
+                                        prev === track.id ? null : track.id
+                                      )
+                                    }
+                                  >
+                                    {trendGoalTrackId === track.id ? "추이 닫기" : "추이 보기"}
+                                  </button>
+                                  <button
+                                    type="button"
+                                    className="flex-1 rounded-lg border border-slate-200 py-1 text-xs text-slate-500 hover:border-slate-300"
+                                    onClick={() =>
+                                      setHistoryGoalTrackId((prev) =>
+                                        prev === track.id ? null : track.id
+                                      )
+                                    }
+                                  >
+                                    {historyGoalTrackId === track.id ? "기록 닫기" : "지난 평가"}
+                                  </button>
+                                </div>
+                                {historyGoalTrackId === track.id && (
+                                  <ReviewHistoryPanel
+                                    entries={reviewHistory}
+                                    loading={
+                                      !historyReviewsLoaded ||
+                                      (historyBounds !== null && !historyTodosLoaded)
+                                    }
+                                  />
+                                )}
+                                {trendGoalTrackId === track.id && (
+                                  <>
+                                    <GoalTrendPanel
+                                      trend={goalTrend}
+                                      range={trendRange}
+                                      loading={!trendData.loaded}
+                                      onChangeRange={setTrendRange}
+                                    />
+                                    <GoalMetricPanel
+                                      metric={track.metric}
+                                      reviews={trendTrackReviews}
+                                      loading={!trendTrackReviewsLoaded}
+                                      todayKey={todayKey}
+                                      onSaveMetric={(metric) =>
+                                        handleSaveGoalTrackMetric(track.id, metric)
+                                      }
+                                    />
+                                  </>
+                                )}
                               </div>
                             ))}
                         </div>
@@ -4138,10 +4673,20 @@ export default function Home() {
                 </div>
               </section>
 
-
               </>
             )}
 
+            {activeTab === "log" && logSection === "effects" && (
+              <section className={uiCard}>
+                <EffectDashboard
+                  logs={weightedEffectLogs}
+                  todayKey={todayKey}
+                  effectLabels={EFFECT_LABELS}
+                  trackTitleById={goalTrackTitleById}
+                />
+              </section>
+            )}
+
             {activeTab === "log" && logSection === "record" && (
               <section className={uiCard}>
                 <p className="text-sm font-semibold">목표 연결 기록</p>
@@ -4350,19 +4895,163 @@ export default function Home() {
                   </select>
                 </div>
               )}
+              <RecurrenceRulePicker
+                value={newTodoRecurrenceRule}
+                onChange={setNewTodoRecurrenceRule}
+                baseDateKey={todayKey}
+              />
               <button
                 className={uiPrimaryButton}
                 onClick={handleAddTodo}
                 disabled={linkNewTodoToGoal && !newTodoGoalTrackId}
               >
-                추가
+                {newTodoRecurrenceRule ? "반복 투두 추가" : "추가"}
               </button>
             </div>
+            {staleTodos.length > 0 && (
+              <div className="mt-4 rounded-2xl border border-amber-100 bg-amber-50/60 p-3">
+                <p className="text-[11px] font-semibold text-amber-700">
+                  결정이 필요한 투두
+                </p>
+                <p className="text-[11px] text-amber-600">
+                  {settings.carryOverMaxHops ?? DEFAULT_CARRY_OVER_MAX_HOPS}번 넘게
+                  미뤄졌어요. 오늘 할지, 내려놓을지 정해 주세요.
+                </p>
+                <div className="mt-2 space-y-2">
+                  {staleTodos.map(({ dateKey, todo }) => (
+                    <div
+                      key={`${dateKey}-${todo.id}`}
+                      className="flex items-center justify-between gap-2 text-xs"
+                    >
+                      <span className="text-slate-700">
+                        {todo.text}
+                        <span className="ml-1 text-[11px] text-slate-400">
+                          {formatDateKey(dateKey)}
+                        </span>
+                      </span>
+                      <div className="flex shrink-0 gap-1">
+                        <button
+                          type="button"
+                          className="rounded-full bg-slate-900 px-2 py-1 text-[11px] text-white"
+                          onClick={() => handleRestoreStaleTodo(dateKey, todo)}
+                        >
+                          오늘 하기
+                        </button>
+                        <button
+                          type="button"
+                          className="rounded-full border border-slate-200 bg-white px-2 py-1 text-[11px] text-slate-500"
+                          onClick={() => handleDropStaleTodo(dateKey, todo)}
+                        >
+                          내려놓기
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="mt-4 flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={settings.dueRemindersEnabled !== false}
+                  onChange={(event) =>
+                    handleSaveDueReminderSettings(
+                      event.target.checked,
+                      settings.dueReminderLeadMinutes ?? DEFAULT_DUE_REMINDER_LEAD_MINUTES
+                    )
+                  }
+                />
+                마감 알림
+              </label>
+              {settings.dueRemindersEnabled !== false && (
+                <select
+                  value={settings.dueReminderLeadMinutes ?? DEFAULT_DUE_REMINDER_LEAD_MINUTES}
+                  onChange={(event) =>
+                    handleSaveDueReminderSettings(true, Number(event.target.value))
+                  }
+                  className="rounded-xl border border-slate-200 px-2 py-1"
+                >
+                  {DUE_REMINDER_LEAD_OPTIONS.map((minutes) => (
+                    <option key={minutes} value={minutes}>
+                      {minutes}분 전
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-[11px] text-slate-500">
+              <span>미완료 투두</span>
+              <select
+                value={settings.carryOverMode ?? DEFAULT_CARRY_OVER_MODE}
+                onChange={(event) =>
+                  handleSaveCarryOverSettings(
+                    event.target.value as CarryOverMode,
+                    settings.carryOverMaxHops ?? DEFAULT_CARRY_OVER_MAX_HOPS
+                  )
+                }
+                className="rounded-xl border border-slate-200 px-2 py-1"
+              >
+                {CARRY_OVER_MODES.map((mode) => (
+                  <option key={mode} value={mode}>
+                    {CARRY_OVER_MODE_LABELS[mode]}
+                  </option>
+                ))}
+              </select>
+              {settings.carryOverMode !== "off" && (
+                <label className="flex items-center gap-1">
+                  최대
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_CARRY_OVER_HOPS}
+                    value={settings.carryOverMaxHops ?? DEFAULT_CARRY_OVER_MAX_HOPS}
+                    onChange={(event) =>
+                      handleSaveCarryOverSettings(
+                        settings.carryOverMode ?? DEFAULT_CARRY_OVER_MODE,
+                        normalizeCarryOverMaxHops(Number(event.target.value))
+                      )
+                    }
+                    className="w-14 rounded-xl border border-slate-200 px-2 py-1"
+                  />
+                  번
+                </label>
+              )}
+            </div>
+            {recurrences.some((r) => !r.endDateKey || r.endDateKey >= todayKey) && (
+              <div className="mt-4 rounded-2xl border border-slate-100 p-3">
+                <p className="text-[11px] font-semibold text-slate-500">반복 규칙</p>
+                <div className="mt-2 space-y-1">
+                  {recurrences
+                    .filter((r) => !r.endDateKey || r.endDateKey >= todayKey)
+                    .map((recurrence) => (
+                      <div
+                        key={recurrence.id}
+                        className="flex items-center justify-between gap-2 text-xs"
+                      >
+                        <span className="text-slate-600">
+                          🔁 {recurrence.text}
+                          <span className="ml-1 text-[11px] text-slate-400">
+                            {describeRecurrenceRule(recurrence.rule)}
+                          </span>
+                        </span>
+                        <button
+                          type="button"
+                          className="text-[11px] text-slate-400"
+                          onClick={() => handleEndRecurrence(recurrence.id)}
+                        >
+                          중지
+                        </button>
+                      </div>
+                    ))}
+                </div>
+              </div>
+            )}
             <div className="mt-4 space-y-3 text-sm">
               {todos.length === 0 && (
                 <p className="text-xs text-slate-400">아직 투두가 없어요.</p>
               )}
-              {todos.map((todo) => (
+              {todoLogic.orderedTodos.map((todo) => (
                 (() => {
                   const dueAtMillis = toMillis(todo.dueAt);
                   const isOverdue =
@@ -4394,14 +5083,18 @@ export default function Home() {
                     ? goalTracks.find((t) => t.id === linkedGoalTrackId)
                     : null;
                   const isEditingGoalLink = editingGoalLinkTodoId === todo.id;
+                  const recurrence = todo.recurrenceId
+                    ? recurrences.find((r) => r.id === todo.recurrenceId) ?? null
+                    : null;
                   return (
                 <div
                   key={todo.id}
+                  id={`todo-${todo.id}`}
                   className={`rounded-2xl border px-3 py-3 ${
                     linkedGoalTrackId
                       ? "border-l-2 border-l-slate-300 border-slate-100"
                       : "border-slate-100"
-                  }`}
+                  } ${todoDeepLink?.todoId === todo.id ? "ring-2 ring-slate-900/20" : ""}`}
                 >
                   <label className="flex items-start gap-3 text-sm">
                     <input
@@ -4420,14 +5113,26 @@ export default function Home() {
                           {linkedGoalTrackId && (
                             <span className="mr-1.5 text-[10px] opacity-60" aria-hidden>🎯</span>
                           )}
+                          {todo.recurrenceId && (
+                            <span className="mr-1.5 text-[10px] opacity-60" aria-hidden>🔁</span>
+                          )}
                           {todo.text}
                         </span>
                         <button
                           className="text-[11px] text-slate-400"
-                          onClick={() => handleDeleteTodo(todo)}
+                          onClick={(e) => {
+                            if (!recurrence) {
+                              void handleDeleteTodo(todo);
+                              return;
+                            }
+                            e.preventDefault();
+                            setEditingRecurringTodoId(
+                              editingRecurringTodoId === todo.id ? null : todo.id
+                            );
+                          }}
                           type="button"
                         >
-                          삭제
+                          {recurrence ? "반복 편집" : "삭제"}
                         </button>
                       </div>
                       <div className="mt-1 flex items-center gap-2">
@@ -4460,6 +5165,17 @@ export default function Home() {
                           </span>
                         )}
                       </div>
+                      {recurrence && editingRecurringTodoId === todo.id && (
+                        <RecurringTodoEditor
+                          initialText={todo.text}
+                          ruleLabel={describeRecurrenceRule(recurrence.rule)}
+                          onSave={(text, scope) =>
+                            handleSaveRecurringTodo(todo, text, scope)
+                          }
+                          onDelete={(scope) => handleDeleteRecurringTodo(todo, scope)}
+                          onCancel={() => setEditingRecurringTodoId(null)}
+                        />
+                      )}
                       {isEditingGoalLink && (
                         <InlineGoalLinkEditor
                           designPlans={designPlans}
@@ -4493,6 +5209,14 @@ export default function Home() {
                           onClose={() => setOpenBlockPanelTodoId(null)}
                         />
                       )}
+                      {todo.carriedFromDateKey && (
+                        <p className="mt-1 text-[11px] text-slate-400">
+                          {formatDateKey(todo.carriedFromDateKey)}에서 넘어옴
+                          {(todo.carryOverCount ?? 0) > 1
+                            ? ` · ${todo.carryOverCount}번째`
+                            : ""}
+                        </p>
+                      )}
                       {dueAtMillis !== null && (
                         <p
                           className={`mt-1 text-[11px] ${
@@ -4501,6 +5225,17 @@ export default function Home() {
                         >
                           마감{" "}
                           {new Date(dueAtMillis ?? Date.now()).toLocaleString()}
+                          {!todo.done && (
+                            <button
+                              type="button"
+                              className="ml-2 text-[11px] font-semibold text-slate-500"
+                              onClick={() =>
+                                handleSnoozeTodo(todayKey, todo, DEFAULT_SNOOZE_MINUTES)
+                              }
+                            >
+                              {DEFAULT_SNOOZE_MINUTES}분 뒤 다시 알림
+                            </button>
+                          )}
                         </p>
                       )}
                       {!todo.done && isOverdue && (
@@ -0,0 +1,119 @@
+"use client";
+
+import React from "react";
+import { buildArchiveCsvFiles, isDataArchive } from "@/domain/dataArchive";
+import type { DataArchive } from "@/types/dataArchive";
+
+type Props = {
+  onExport: () => Promise<DataArchive>;
+  /** 쓴 문서 수를 돌려준다 */
+  onImport: (archive: DataArchive) => Promise<number>;
+};
+
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const archiveDateLabel = (archive: DataArchive) => archive.exportedAt.slice(0, 10);
+
+export function DataBackupPanel({ onExport, onImport }: Props) {
+  const [busy, setBusy] = React.useState<"json" | "csv" | "import" | null>(null);
+  const [message, setMessage] = React.useState("");
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const handleExport = async (kind: "json" | "csv") => {
+    setBusy(kind);
+    setMessage("");
+    try {
+      const archive = await onExport();
+      const dateLabel = archiveDateLabel(archive);
+      if (kind === "json") {
+        downloadFile(
+          `to-day-${dateLabel}.json`,
+          JSON.stringify(archive, null, 2),
+          "application/json"
+        );
+      } else {
+        // 엑셀에서 한글이 깨지지 않도록 BOM을 붙인다
+        for (const [fileName, csv] of Object.entries(buildArchiveCsvFiles(archive))) {
+          downloadFile(`to-day-${dateLabel}-${fileName}`, `\uFEFF${csv}`, "text/csv");
+        }
+      }
+      setMessage("내보내기를 마쳤어요.");
+    } catch {
+      setMessage("내보내기에 실패했어요. 연결을 확인해 주세요.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    setBusy("import");
+    setMessage("");
+    try {
+      const parsed: unknown = JSON.parse(await file.text());
+      if (!isDataArchive(parsed)) {
+        setMessage("to day 내보내기(JSON) 파일이 아니에요.");
+        return;
+      }
+      const written = await onImport(parsed);
+      setMessage(`${archiveDateLabel(parsed)} 백업에서 ${written}개 문서를 가져왔어요.`);
+    } catch {
+      setMessage("가져오기에 실패했어요.");
+    } finally {
+      setBusy(null);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-100 bg-white p-4">
+      <p className="text-sm font-semibold">데이터 백업</p>
+      <p className="mt-1 text-xs text-slate-400">
+        기록·투두·목표·회고·일정을 파일로 내보내거나, 내보낸 JSON을 이 계정으로 가져와요.
+      </p>
+      <div className="mt-3 grid grid-cols-3 gap-2 text-xs">
+        <button
+          type="button"
+          className="h-10 rounded-full border border-slate-200 px-2 font-semibold text-slate-700 disabled:text-slate-300"
+          onClick={() => handleExport("json")}
+          disabled={busy !== null}
+        >
+          {busy === "json" ? "준비 중..." : "JSON"}
+        </button>
+        <button
+          type="button"
+          className="h-10 rounded-full border border-slate-200 px-2 font-semibold text-slate-700 disabled:text-slate-300"
+          onClick={() => handleExport("csv")}
+          disabled={busy !== null}
+        >
+          {busy === "csv" ? "준비 중..." : "CSV"}
+        </button>
+        <button
+          type="button"
+          className="h-10 rounded-full bg-slate-900 px-2 font-semibold text-white disabled:bg-slate-300"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+        >
+          {busy === "import" ? "가져오는 중..." : "가져오기"}
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void handleImportFile(file);
+        }}
+      />
+      {message && <p className="mt-2 text-[11px] text-slate-500">{message}</p>}
+    </div>
+  );
+}
@@ -32,11 +32,7 @@ export function ExecutionEvidenceCard({
   const [expanded, setExpanded] = React.useState(false);
   const last7Keys = getLastNDateKeys(7);
   const last7 = calcLast7Days(events, track.id);
-  const completionRatios = calcLast7DaysCompletionRatios(
-    todosByDateKey,
-    track.id,
-    last7Keys
-  );
+  const completionRatios = calcLast7DaysCompletionRatios(todosByDateKey, track.id);
   const executedDays = getExecutedDayCount(last7, last7Keys);
   const totalActions = getTotalActionCount(last7, last7Keys);
   const lastExecuted = getLastExecutedText(last7, last7Keys);
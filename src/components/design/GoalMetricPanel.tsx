@@ -0,0 +1,374 @@
+"use client";
+
+import React from "react";
+import {
+  buildMetricSeries,
+  fitMetricTrend,
+  metricTrendValueAt,
+  projectGoalMetric,
+  summarizeSense,
+  weeksBetween,
+} from "@/domain/goalMetric";
+import type { GoalMetric, GoalMetricDirection } from "@/types/goalMetric";
+import type { GoalTrackWeeklyReview, OutcomeSense } from "@/types/goalTrackWeeklyReview";
+
+type Props = {
+  metric: GoalMetric | undefined;
+  reviews: GoalTrackWeeklyReview[];
+  loading: boolean;
+  todayKey: string;
+  onSaveMetric: (metric: GoalMetric | null) => Promise<void>;
+};
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const CHART_PADDING = 8;
+
+const SENSE_LABEL: Record<OutcomeSense, string> = {
+  closer: "가까워짐",
+  same: "제자리",
+  farther: "멀어짐",
+};
+
+const SENSE_COLOR: Record<OutcomeSense, string> = {
+  closer: "bg-emerald-500",
+  same: "bg-slate-300",
+  farther: "bg-rose-400",
+};
+
+const DIRECTION_LABEL: Record<GoalMetricDirection, string> = {
+  increase: "늘리기",
+  decrease: "줄이기",
+};
+
+const formatWeek = (dateKey: string) =>
+  `${Number(dateKey.slice(5, 7))}/${Number(dateKey.slice(8, 10))}`;
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+/**
+ * 결과 지표: 트랙별 지표 정의(라벨·단위·방향·목표·기한), 주간 회고 값의 시계열과
+ * 목표선·기한까지의 추세선. 지표 값이 없으면 체감 기록을 요약한다.
+ */
+export function GoalMetricPanel({ metric, reviews, loading, todayKey, onSaveMetric }: Props) {
+  const [editing, setEditing] = React.useState(false);
+  const [label, setLabel] = React.useState("");
+  const [unit, setUnit] = React.useState("");
+  const [direction, setDirection] = React.useState<GoalMetricDirection>("increase");
+  const [targetValue, setTargetValue] = React.useState("");
+  const [deadline, setDeadline] = React.useState("");
+  const [saving, setSaving] = React.useState(false);
+
+  const points = buildMetricSeries(reviews);
+  const senseSummary = summarizeSense(reviews);
+  const trendLine = fitMetricTrend(points);
+  const projection = metric ? projectGoalMetric(metric, points, todayKey) : null;
+  const latestMetricReview = reviews
+    .filter((review) => review.metricLabel || review.metricUnit)
+    .sort((a, b) => b.weekStartKey.localeCompare(a.weekStartKey))[0];
+  const unitText = metric ? metric.unit : latestMetricReview?.metricUnit ?? "";
+
+  const startEdit = () => {
+    setLabel(metric?.label ?? latestMetricReview?.metricLabel ?? "");
+    setUnit(metric?.unit ?? latestMetricReview?.metricUnit ?? "");
+    setDirection(metric?.direction ?? "increase");
+    setTargetValue(metric?.targetValue != null ? String(metric.targetValue) : "");
+    setDeadline(metric?.deadline ?? "");
+    setEditing(true);
+  };
+
+  const save = async (next: GoalMetric | null) => {
+    setSaving(true);
+    try {
+      await onSaveMetric(next);
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!label.trim()) return;
+    const parsedTarget = targetValue.trim() === "" ? null : Number(targetValue);
+    void save({
+      label: label.trim(),
+      unit: unit.trim(),
+      direction,
+      targetValue: parsedTarget !== null && Number.isFinite(parsedTarget) ? parsedTarget : null,
+      deadline: deadline || null,
+    });
+  };
+
+  const renderChart = () => {
+    const startKey = points[0].weekStartKey;
+    const lastKey = points[points.length - 1].weekStartKey;
+    const endKey = metric?.deadline && metric.deadline > lastKey ? metric.deadline : lastKey;
+    const span = Math.max(1, weeksBetween(startKey, endKey));
+    const projectedEnd =
+      trendLine && metric?.deadline && metric.deadline > lastKey
+        ? metricTrendValueAt(trendLine, metric.deadline)
+        : null;
+    const values = [
+      ...points.map((point) => point.value),
+      ...(metric?.targetValue != null ? [metric.targetValue] : []),
+      ...(projectedEnd !== null ? [projectedEnd] : []),
+    ];
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const xOf = (dateKey: string) =>
+      CHART_PADDING + (weeksBetween(startKey, dateKey) / span) * (CHART_WIDTH - CHART_PADDING * 2);
+    const yOf = (value: number) =>
+      max === min
+        ? CHART_HEIGHT / 2
+        : CHART_HEIGHT - CHART_PADDING - ((value - min) / (max - min)) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+    return (
+      <>
+        <svg
+          viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+          className="mt-3 w-full"
+          role="img"
+          aria-label="결과 지표 추이"
+        >
+          {metric?.targetValue != null && (
+            <line
+              x1={0}
+              x2={CHART_WIDTH}
+              y1={yOf(metric.targetValue)}
+              y2={yOf(metric.targetValue)}
+              stroke="#10b981"
+              strokeDasharray="4 3"
+              strokeWidth={1}
+            />
+          )}
+          {projectedEnd !== null && trendLine && (
+            <line
+              x1={xOf(lastKey)}
+              y1={yOf(metricTrendValueAt(trendLine, lastKey))}
+              x2={xOf(endKey)}
+              y2={yOf(projectedEnd)}
+              stroke="#94a3b8"
+              strokeDasharray="2 3"
+              strokeWidth={1.5}
+            />
+          )}
+          {points.length > 1 && (
+            <polyline
+              points={points
+                .map((point) => `${xOf(point.weekStartKey)},${yOf(point.value)}`)
+                .join(" ")}
+              fill="none"
+              stroke="#0f172a"
+              strokeWidth={1.5}
+            />
+          )}
+          {points.map((point) => (
+            <circle
+              key={point.weekStartKey}
+              cx={xOf(point.weekStartKey)}
+              cy={yOf(point.value)}
+              r={3}
+              fill="#0f172a"
+            >
+              <title>{`${formatWeek(point.weekStartKey)} 주 · ${formatNumber(point.value)}${unitText}`}</title>
+            </circle>
+          ))}
+        </svg>
+        <div className="mt-1 flex justify-between text-[10px] text-slate-400">
+          <span>{formatWeek(startKey)}</span>
+          <span>
+            {formatWeek(endKey)}
+            {endKey !== lastKey && " (기한)"}
+          </span>
+        </div>
+        <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-500">
+          <span className="flex items-center gap-1">
+            <span className="h-0.5 w-3 bg-slate-900" />
+            기록한 값
+          </span>
+          {metric?.targetValue != null && (
+            <span className="flex items-center gap-1">
+              <span className="h-0.5 w-3 bg-emerald-500" />
+              목표 {formatNumber(metric.targetValue)}
+              {unitText}
+            </span>
+          )}
+          {projectedEnd !== null && (
+            <span className="flex items-center gap-1">
+              <span className="h-0.5 w-3 bg-slate-400" />
+              지금 추세
+            </span>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  const renderSense = () => (
+    <div className="mt-3">
+      <p className="text-[11px] text-slate-500">
+        체감 {senseSummary.total}주 ·{" "}
+        {(Object.keys(SENSE_LABEL) as OutcomeSense[])
+          .map((sense) => `${SENSE_LABEL[sense]} ${senseSummary.counts[sense]}`)
+          .join(" · ")}
+      </p>
+      <div className="mt-2 flex gap-1">
+        {senseSummary.recent.map((entry) => (
+          <span
+            key={entry.weekStartKey}
+            title={`${formatWeek(entry.weekStartKey)} 주 · ${SENSE_LABEL[entry.sense]}`}
+            className={`h-3 flex-1 rounded-sm ${SENSE_COLOR[entry.sense]}`}
+          />
+        ))}
+      </div>
+      {senseSummary.streak && senseSummary.streak.weeks >= 2 && (
+        <p className="mt-2 text-[11px] text-slate-600">
+          최근 {senseSummary.streak.weeks}번 연속 &quot;{SENSE_LABEL[senseSummary.streak.sense]}&quot;
+        </p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="mt-3 rounded-2xl border border-slate-100 bg-slate-50 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold text-slate-600">
+          결과 지표
+          {metric && (
+            <span className="ml-1 font-normal text-slate-400">
+              {metric.label}
+              {metric.unit && ` (${metric.unit})`} · {DIRECTION_LABEL[metric.direction]}
+            </span>
+          )}
+        </p>
+        {!editing && (
+          <button
+            type="button"
+            className="shrink-0 text-[11px] text-slate-500 hover:text-slate-700"
+            onClick={startEdit}
+          >
+            {metric ? "수정" : "지표 정하기"}
+          </button>
+        )}
+      </div>
+
+      {editing && (
+        <div className="mt-3 space-y-2">
+          <div className="flex gap-2">
+            <input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="지표 이름 (예: 체중)"
+              maxLength={50}
+              className="min-w-0 flex-1 rounded-lg border border-slate-200 px-2 py-1 text-xs"
+            />
+            <input
+              value={unit}
+              onChange={(e) => setUnit(e.target.value)}
+              placeholder="단위"
+              maxLength={20}
+              className="w-16 rounded-lg border border-slate-200 px-2 py-1 text-xs"
+            />
+          </div>
+          <div className="flex gap-1">
+            {(["increase", "decrease"] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`h-7 flex-1 rounded-full text-[11px] font-semibold ${
+                  direction === option
+                    ? "bg-slate-900 text-white"
+                    : "border border-slate-200 bg-white text-slate-600"
+                }`}
+                onClick={() => setDirection(option)}
+              >
+                {DIRECTION_LABEL[option]}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              inputMode="decimal"
+              value={targetValue}
+              onChange={(e) => setTargetValue(e.target.value)}
+              placeholder="목표 값 (선택)"
+              className="min-w-0 flex-1 rounded-lg border border-slate-200 px-2 py-1 text-xs"
+            />
+            <input
+              type="date"
+              value={deadline}
+              onChange={(e) => setDeadline(e.target.value)}
+              className="min-w-0 flex-1 rounded-lg border border-slate-200 px-2 py-1 text-xs"
+            />
+          </div>
+          <div className="flex gap-2">
+            {metric && (
+              <button
+                type="button"
+                className="rounded-full border border-slate-200 px-3 py-1 text-xs text-rose-500"
+                onClick={() => void save(null)}
+                disabled={saving}
+              >
+                지우기
+              </button>
+            )}
+            <button
+              type="button"
+              className="ml-auto rounded-full border border-slate-200 px-3 py-1 text-xs text-slate-500"
+              onClick={() => setEditing(false)}
+            >
+              취소
+            </button>
+            <button
+              type="button"
+              className="rounded-full bg-slate-900 px-3 py-1 text-xs font-semibold text-white disabled:bg-slate-300"
+              onClick={handleSubmit}
+              disabled={!label.trim() || saving}
+            >
+              저장
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="mt-3 text-xs text-slate-400">불러오는 중...</p>
+      ) : points.length > 0 ? (
+        <>
+          {renderChart()}
+          <p className="mt-2 text-[11px] text-slate-600">
+            최근 {formatNumber(points[points.length - 1].value)}
+            {unitText}
+            {trendLine &&
+              ` · 주당 ${trendLine.slopePerWeek >= 0 ? "+" : ""}${formatNumber(trendLine.slopePerWeek)}${unitText}`}
+          </p>
+          {projection && metric && (
+            <p className="mt-1 text-[11px] text-slate-600">
+              이 추세면 기한({formatWeek(metric.deadline ?? todayKey)})에 약{" "}
+              {formatNumber(projection.projectedValue)}
+              {unitText}
+              {projection.onTrack === true && " · 목표에 닿아요"}
+              {projection.onTrack === false &&
+                projection.requiredPerWeek !== null &&
+                ` · 목표까지 주당 ${formatNumber(projection.requiredPerWeek)}${unitText} 필요`}
+              {projection.onTrack === false && projection.requiredPerWeek === null && " · 기한이 지났어요"}
+            </p>
+          )}
+          {!metric && (
+            <p className="mt-1 text-[11px] text-slate-400">
+              지표를 정하면 목표선과 기한까지의 추세를 함께 보여 드려요.
+            </p>
+          )}
+        </>
+      ) : senseSummary.total > 0 ? (
+        renderSense()
+      ) : (
+        <p className="mt-3 text-xs text-slate-400">
+          주간 평가의 결과 스냅샷에 지표나 체감을 남기면 여기에 쌓여요.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import React from "react";
+import { GOAL_TREND_RANGES } from "@/domain/goalTrend";
+import { WEEKLY_STATUS_LABELS } from "@/domain/weeklyReview";
+import type { WeeklyStatus } from "@/types/goalTrackWeeklyReview";
+import type { GoalTrend, GoalTrendRange } from "@/types/goalTrend";
+
+type Props = {
+  trend: GoalTrend;
+  range: GoalTrendRange;
+  loading: boolean;
+  onChangeRange: (range: GoalTrendRange) => void;
+};
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+const STRIP_HEIGHT = 8;
+
+const STATUS_COLOR: Record<WeeklyStatus, string> = {
+  STEADY: "#10b981",
+  SPORADIC: "#f59e0b",
+  STOPPED: "#f43f5e",
+};
+
+const formatWeek = (weekStartKey: string) =>
+  `${Number(weekStartKey.slice(5, 7))}/${Number(weekStartKey.slice(8, 10))}`;
+
+const average = (values: number[]) =>
+  values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * 목표 트랙 추이: 주별 실행한 날(막대), 연결 투두 완료율(초록 선),
+ * 회고 결과 수치(주황 점), 회고 상태(아래 띠)를 한 차트에 겹쳐 보여 준다.
+ */
+export function GoalTrendPanel({ trend, range, loading, onChangeRange }: Props) {
+  const { weeks } = trend;
+  const columnWidth = CHART_WIDTH / Math.max(1, weeks.length);
+  const barWidth = Math.max(2, columnWidth * 0.6);
+  const xOf = (index: number) => index * columnWidth + columnWidth / 2;
+  const yOfRatio = (ratio: number) => CHART_HEIGHT - ratio * CHART_HEIGHT;
+
+  const completionPoints = weeks
+    .map((week, index) =>
+      week.completionRate === null ? null : `${xOf(index)},${yOfRatio(week.completionRate / 100)}`
+    )
+    .filter((point): point is string => point !== null);
+
+  const metricValues = weeks
+    .map((week) => week.metricValue)
+    .filter((value): value is number => value !== null);
+  const metricMin = Math.min(...metricValues);
+  const metricMax = Math.max(...metricValues);
+  const yOfMetric = (value: number) =>
+    yOfRatio(metricMax === metricMin ? 0.5 : 0.1 + ((value - metricMin) / (metricMax - metricMin)) * 0.8);
+  const metricPoints = weeks
+    .map((week, index) =>
+      week.metricValue === null ? null : { x: xOf(index), y: yOfMetric(week.metricValue), week }
+    )
+    .filter((point): point is NonNullable<typeof point> => point !== null);
+
+  const averageDays = average(weeks.map((week) => week.executedDays));
+  const averageCompletion = average(
+    weeks
+      .map((week) => week.completionRate)
+      .filter((value): value is number => value !== null)
+  );
+  const statusCounts = weeks.reduce<Record<WeeklyStatus, number>>(
+    (acc, week) => (week.status ? { ...acc, [week.status]: acc[week.status] + 1 } : acc),
+    { STEADY: 0, SPORADIC: 0, STOPPED: 0 }
+  );
+  const labelIndexes = [...new Set([0, Math.floor((weeks.length - 1) / 2), weeks.length - 1])];
+
+  return (
+    <div className="mt-3 rounded-2xl border border-slate-100 bg-slate-50 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-semibold text-slate-600">주별 추이</p>
+        <div className="flex gap-1">
+          {GOAL_TREND_RANGES.map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`h-7 rounded-full px-3 text-[11px] font-semibold ${
+                range === option
+                  ? "bg-slate-900 text-white"
+                  : "border border-slate-200 bg-white text-slate-600"
+              }`}
+              onClick={() => onChangeRange(option)}
+            >
+              {option}주
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="mt-3 text-xs text-slate-400">불러오는 중...</p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT + STRIP_HEIGHT + 4}`}
+            className="mt-3 w-full"
+            role="img"
+            aria-label="주별 실행 추이"
+          >
+            {weeks.map((week, index) => (
+              <rect
+                key={`bar-${week.weekStartKey}`}
+                x={xOf(index) - barWidth / 2}
+                y={yOfRatio(week.executedDays / 7)}
+                width={barWidth}
+                height={(week.executedDays / 7) * CHART_HEIGHT}
+                fill="#cbd5e1"
+              >
+                <title>
+                  {`${formatWeek(week.weekStartKey)} 주 · 실행 ${week.executedDays}일`}
+                  {week.completionRate !== null
+                    ? ` · 완료율 ${week.completionRate}% (${week.todoDone}/${week.todoTotal})`
+                    : ""}
+                </title>
+              </rect>
+            ))}
+            {completionPoints.length > 1 && (
+              <polyline
+                points={completionPoints.join(" ")}
+                fill="none"
+                stroke="#10b981"
+                strokeWidth={1.5}
+              />
+            )}
+            {metricPoints.map((point) => (
+              <circle
+                key={`metric-${point.week.weekStartKey}`}
+                cx={point.x}
+                cy={point.y}
+                r={3}
+                fill="#f59e0b"
+              >
+                <title>{`${formatWeek(point.week.weekStartKey)} 주 · ${point.week.metricValue}${trend.metricUnit}`}</title>
+              </circle>
+            ))}
+            {weeks.map((week, index) => (
+              <rect
+                key={`status-${week.weekStartKey}`}
+                x={index * columnWidth + 0.5}
+                y={CHART_HEIGHT + 4}
+                width={Math.max(1, columnWidth - 1)}
+                height={STRIP_HEIGHT}
+                fill={week.status ? STATUS_COLOR[week.status] : "#f1f5f9"}
+              >
+                <title>
+                  {`${formatWeek(week.weekStartKey)} 주 · ${
+                    week.status ? WEEKLY_STATUS_LABELS[week.status] : "회고 없음"
+                  }`}
+                </title>
+              </rect>
+            ))}
+          </svg>
+          <div className="mt-1 flex justify-between text-[10px] text-slate-400">
+            {labelIndexes.map((index) =>
+              weeks[index] ? <span key={index}>{formatWeek(weeks[index].weekStartKey)}</span> : null
+            )}
+          </div>
+
+          <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-500">
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-2 rounded-sm bg-slate-300" />
+              실행한 날
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-0.5 w-3 bg-emerald-500" />
+              투두 완료율
+            </span>
+            {metricPoints.length > 0 && (
+              <span className="flex items-center gap-1">
+                <span className="h-2 w-2 rounded-full bg-amber-500" />
+                {trend.metricLabel || "결과 수치"}
+                {metricValues.length > 0 &&
+                  ` ${metricMin}~${metricMax}${trend.metricUnit}`}
+              </span>
+            )}
+          </div>
+
+          <p className="mt-2 text-[11px] text-slate-500">
+            주 평균 {averageDays !== null ? averageDays.toFixed(1) : 0}일 실행
+            {averageCompletion !== null && ` · 평균 완료율 ${Math.round(averageCompletion)}%`}
+            {(Object.keys(statusCounts) as WeeklyStatus[])
+              .filter((status) => statusCounts[status] > 0)
+              .map((status) => ` · ${WEEKLY_STATUS_LABELS[status]} ${statusCounts[status]}주`)
+              .join("")}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import React from "react";
+import { BLOCK_REASON_LABELS } from "@/domain/blockReason";
+import { WEEKLY_STATUS_LABELS } from "@/domain/weeklyReview";
+import type { WeeklyStatus } from "@/types/goalTrackWeeklyReview";
+import type { ReviewHistoryEntry, RuleFollowStatus } from "@/types/reviewHistory";
+
+type Props = {
+  entries: ReviewHistoryEntry[];
+  loading: boolean;
+};
+
+/** 0=일, 1=월, ... 6=토 (Date.getDay()) */
+const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+const STATUS_BADGE: Record<WeeklyStatus, string> = {
+  STEADY: "bg-emerald-50 text-emerald-700",
+  SPORADIC: "bg-amber-50 text-amber-700",
+  STOPPED: "bg-rose-50 text-rose-600",
+};
+
+const FOLLOW_LABEL: Record<RuleFollowStatus, string> = {
+  followed: "지킴",
+  partial: "일부",
+  notDone: "못 함",
+  notScheduled: "투두 없음",
+  inProgress: "진행 중",
+};
+
+const FOLLOW_BADGE: Record<RuleFollowStatus, string> = {
+  followed: "bg-emerald-50 text-emerald-700",
+  partial: "bg-amber-50 text-amber-700",
+  notDone: "bg-rose-50 text-rose-600",
+  notScheduled: "bg-slate-100 text-slate-500",
+  inProgress: "bg-sky-50 text-sky-700",
+};
+
+const formatWeek = (weekStartKey: string) =>
+  `${Number(weekStartKey.slice(5, 7))}/${Number(weekStartKey.slice(8, 10))}`;
+
+const formatWeekdays = (weekdays: number[] | undefined) =>
+  weekdays && weekdays.length > 0
+    ? [...weekdays]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map((day) => WEEKDAY_LABELS[day])
+        .join("·")
+    : "요일 없음";
+
+/**
+ * 지난 주간 평가 기록: 주마다 상태·막힌 이유·다음 주 규칙(다음 주에 지켰는지)·코치 정리,
+ * 그리고 바로 전 평가와 비교한 규칙 변화.
+ */
+export function ReviewHistoryPanel({ entries, loading }: Props) {
+  const [expandedWeek, setExpandedWeek] = React.useState<string | null>(null);
+
+  if (loading) {
+    return <p className="mt-3 text-xs text-slate-400">불러오는 중...</p>;
+  }
+  if (entries.length === 0) {
+    return <p className="mt-3 text-xs text-slate-400">아직 남긴 주간 평가가 없어요.</p>;
+  }
+
+  return (
+    <ul className="mt-3 space-y-2">
+      {entries.map((entry) => {
+        const { review, diff } = entry;
+        const expanded = expandedWeek === review.weekStartKey;
+        const followed = entry.rules.filter((rule) => rule.status === "followed").length;
+        const judged = entry.rules.filter((rule) => rule.status !== "inProgress").length;
+        const coachLines = [
+          review.coachFact,
+          review.coachPattern,
+          review.coachAction,
+          review.coachSummary,
+          review.coachQuestion,
+        ].filter((line): line is string => !!line?.trim());
+        const hasDiff =
+          diff &&
+          (diff.added.length > 0 || diff.removed.length > 0 || diff.rescheduled.length > 0);
+
+        return (
+          <li
+            key={review.weekStartKey}
+            className="rounded-2xl border border-slate-100 bg-white px-3 py-2"
+          >
+            <button
+              type="button"
+              className="flex w-full items-center justify-between gap-2 text-left"
+              onClick={() => setExpandedWeek(expanded ? null : review.weekStartKey)}
+            >
+              <span className="flex items-center gap-2 text-xs text-slate-700">
+                {formatWeek(review.weekStartKey)} 주
+                <span
+                  className={`rounded-full px-2 py-0.5 text-[10px] font-semibold ${STATUS_BADGE[entry.status]}`}
+                >
+                  {WEEKLY_STATUS_LABELS[entry.status]}
+                </span>
+              </span>
+              <span className="text-[10px] text-slate-400">
+                {judged > 0 ? `규칙 ${followed}/${judged} 지킴` : `규칙 ${entry.rules.length}개`}
+                {hasDiff && " · 변경"}
+              </span>
+            </button>
+
+            {expanded && (
+              <div className="mt-2 space-y-3 border-t border-slate-100 pt-2 text-[11px]">
+                {review.blockReason && (
+                  <p className="text-slate-600">
+                    막힌 이유: {BLOCK_REASON_LABELS[review.blockReason]}
+                    {review.blockNote && (
+                      <span className="text-slate-400"> · {review.blockNote}</span>
+                    )}
+                  </p>
+                )}
+
+                <div>
+                  <p className="font-semibold text-slate-600">
+                    다음 주 규칙 ({formatWeek(entry.followWeekStartKey)} 주)
+                  </p>
+                  {entry.rules.length === 0 ? (
+                    <p className="mt-1 text-slate-400">규칙 없음</p>
+                  ) : (
+                    <ul className="mt-1 space-y-1">
+                      {entry.rules.map((rule) => (
+                        <li key={rule.text} className="flex items-start justify-between gap-2">
+                          <span className="text-slate-700">
+                            {rule.text}
+                            <span className="ml-1 text-slate-400">
+                              {formatWeekdays(rule.weekdays)}
+                            </span>
+                          </span>
+                          <span
+                            className={`shrink-0 rounded-full px-2 py-0.5 text-[10px] font-semibold ${FOLLOW_BADGE[rule.status]}`}
+                          >
+                            {FOLLOW_LABEL[rule.status]}
+                            {rule.todoCount > 0 && ` ${rule.doneCount}/${rule.todoCount}`}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {diff && entry.previousWeekStartKey && (
+                  <div>
+                    <p className="font-semibold text-slate-600">
+                      {formatWeek(entry.previousWeekStartKey)} 주 평가와 비교
+                    </p>
+                    {!hasDiff ? (
+                      <p className="mt-1 text-slate-400">규칙이 그대로예요.</p>
+                    ) : (
+                      <ul className="mt-1 space-y-0.5">
+                        {diff.added.map((rule) => (
+                          <li key={`added-${rule.text}`} className="text-emerald-700">
+                            + {rule.text}
+                          </li>
+                        ))}
+                        {diff.removed.map((rule) => (
+                          <li key={`removed-${rule.text}`} className="text-rose-500 line-through">
+                            − {rule.text}
+                          </li>
+                        ))}
+                        {diff.rescheduled.map((rule) => (
+                          <li key={`rescheduled-${rule.text}`} className="text-amber-700">
+                            ~ {rule.text} ({formatWeekdays(rule.fromWeekdays)} →{" "}
+                            {formatWeekdays(rule.toWeekdays)})
+                          </li>
+                        ))}
+                        {diff.kept.length > 0 && (
+                          <li className="text-slate-400">유지 {diff.kept.length}개</li>
+                        )}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {coachLines.length > 0 && (
+                  <div>
+                    <p className="font-semibold text-slate-600">코치 정리</p>
+                    <ul className="mt-1 space-y-0.5 text-slate-500">
+                      {coachLines.map((line) => (
+                        <li key={line}>{line}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
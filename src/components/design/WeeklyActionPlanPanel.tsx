@@ -0,0 +1,271 @@
+"use client";
+
+import React from "react";
+import type { GoalTrack } from "@/types/goalTrack";
+import type { YearGoal } from "@/types/goal";
+
+/** 0=일, 1=월, ... 6=토 (Date.getDay()). 화면은 월요일부터 */
+const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+type PlanItem = { text: string; weekdays: number[]; goalTrackId: string };
+
+type Props = {
+  yearGoal: YearGoal;
+  goalTracks: GoalTrack[];
+  thisWeekKey: string;
+  nextWeekKey: string;
+  /** 이미 지난 날짜 판단용 */
+  todayKey: string;
+  /** weekKey + 요일 → dateKey */
+  getDateKey: (weekKey: string, weekday: number) => string;
+  onGenerate: (
+    seedTodos: string[],
+    weeklyState: string
+  ) => Promise<{ rationale: string; todos: string[] } | null>;
+  onCommit: (plan: {
+    weekKey: string;
+    rationale: string;
+    weeklyState: string;
+    todos: PlanItem[];
+  }) => Promise<void>;
+  committing?: boolean;
+};
+
+export function WeeklyActionPlanPanel({
+  yearGoal,
+  goalTracks,
+  thisWeekKey,
+  nextWeekKey,
+  todayKey,
+  getDateKey,
+  onGenerate,
+  onCommit,
+  committing = false,
+}: Props) {
+  const [open, setOpen] = React.useState(false);
+  const [weekKey, setWeekKey] = React.useState(thisWeekKey);
+  const [weeklyState, setWeeklyState] = React.useState(yearGoal.weeklyState ?? "");
+  const [seedText, setSeedText] = React.useState("");
+  const [rationale, setRationale] = React.useState("");
+  const [items, setItems] = React.useState<PlanItem[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState("");
+
+  const currentPlan = yearGoal.weeklyActionPlan;
+  const seedTodos = seedText
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const canCommit =
+    items.length > 0 &&
+    items.every((item) => item.text.trim() && item.goalTrackId && item.weekdays.length > 0);
+
+  const reset = () => {
+    setSeedText("");
+    setRationale("");
+    setItems([]);
+    setError("");
+  };
+
+  const handleGenerate = async () => {
+    if (seedTodos.length === 0 || !weeklyState.trim()) {
+      setError("이번 주 상태 목표와 실행 초안을 적어 주세요.");
+      return;
+    }
+    setLoading(true);
+    setError("");
+    try {
+      const result = await onGenerate(seedTodos, weeklyState.trim());
+      const polished = result?.todos ?? seedTodos;
+      if (!result) setError("다듬기에 실패해서 초안 그대로 보여드려요.");
+      setRationale(result?.rationale ?? "");
+      setItems(
+        polished.map((text) => ({
+          text,
+          weekdays: [],
+          goalTrackId: goalTracks.length === 1 ? goalTracks[0].id : "",
+        }))
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateItem = (index: number, patch: Partial<PlanItem>) => {
+    setItems((prev) => prev.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+  };
+
+  const toggleWeekday = (index: number, weekday: number) => {
+    const item = items[index];
+    const weekdays = item.weekdays.includes(weekday)
+      ? item.weekdays.filter((d) => d !== weekday)
+      : [...item.weekdays, weekday];
+    updateItem(index, { weekdays });
+  };
+
+  const handleCommit = async () => {
+    if (!canCommit) return;
+    await onCommit({ weekKey, rationale, weeklyState: weeklyState.trim(), todos: items });
+    reset();
+    setOpen(false);
+  };
+
+  return (
+    <div className="mt-4 rounded-xl border border-slate-100 bg-slate-50 p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-[11px] font-semibold text-slate-500">주간 실행 계획</p>
+        <button
+          type="button"
+          className="text-[11px] text-slate-500 underline-offset-1 hover:underline"
+          onClick={() => setOpen(!open)}
+        >
+          {open ? "닫기" : currentPlan ? "새로 짜기" : "계획 짜기"}
+        </button>
+      </div>
+      {currentPlan && !open && (
+        <div className="mt-2 space-y-1 text-xs text-slate-600">
+          <p className="text-[11px] text-slate-400">
+            {currentPlan.weekKey} 주
+            {typeof currentPlan.achievedRate === "number"
+              ? ` · 달성률 ${currentPlan.achievedRate}%`
+              : " · 진행 중"}
+          </p>
+          {currentPlan.todos.map((todo) => (
+            <p key={todo.text}>
+              · {todo.text}
+              <span className="ml-1 text-[11px] text-slate-400">
+                {(todo.weekdays ?? []).map((d) => WEEKDAY_LABELS[d]).join("·")}
+              </span>
+            </p>
+          ))}
+          {(yearGoal.weeklyActionPlanHistory ?? []).length > 0 && (
+            <p className="text-[11px] text-slate-400">
+              지난 계획{" "}
+              {(yearGoal.weeklyActionPlanHistory ?? [])
+                .slice(0, 4)
+                .map((plan) => `${plan.weekKey} 주 ${plan.achievedRate ?? 0}%`)
+                .join(" · ")}
+            </p>
+          )}
+        </div>
+      )}
+      {open && (
+        <div className="mt-2 space-y-2">
+          <div className="grid grid-cols-2 gap-1">
+            {[
+              { key: thisWeekKey, label: "이번 주" },
+              { key: nextWeekKey, label: "다음 주" },
+            ].map((option) => (
+              <button
+                key={option.key}
+                type="button"
+                onClick={() => setWeekKey(option.key)}
+                className={`rounded-full border px-2 py-1 text-[11px] ${
+                  weekKey === option.key
+                    ? "border-slate-900 bg-slate-900 text-white"
+                    : "border-slate-200 bg-white text-slate-500"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <input
+            value={weeklyState}
+            onChange={(e) => setWeeklyState(e.target.value)}
+            placeholder="이번 주 상태 목표 (예: 매일 리스닝 감 유지)"
+            className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          />
+          {items.length === 0 ? (
+            <>
+              <textarea
+                value={seedText}
+                onChange={(e) => setSeedText(e.target.value)}
+                rows={4}
+                placeholder={"실행 초안을 한 줄에 하나씩\n예) 파트3 문제 20개 풀기"}
+                className="w-full rounded-xl border border-slate-200 px-3 py-2 text-sm"
+              />
+              <button
+                type="button"
+                className="w-full rounded-full bg-slate-900 px-3 py-2 text-xs font-semibold text-white disabled:bg-slate-300"
+                onClick={handleGenerate}
+                disabled={loading || seedTodos.length === 0}
+              >
+                {loading ? "다듬는 중..." : "✨ 실행 항목 다듬기"}
+              </button>
+            </>
+          ) : (
+            <>
+              {rationale && <p className="text-[11px] text-slate-500">{rationale}</p>}
+              {items.map((item, index) => (
+                <div key={index} className="rounded-xl border border-slate-200 bg-white p-2">
+                  <input
+                    value={item.text}
+                    onChange={(e) => updateItem(index, { text: e.target.value })}
+                    className="w-full rounded-lg border border-slate-200 px-2 py-1.5 text-xs"
+                  />
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {WEEKDAY_ORDER.map((weekday) => {
+                      const isPast = getDateKey(weekKey, weekday) < todayKey;
+                      return (
+                        <button
+                          key={weekday}
+                          type="button"
+                          disabled={isPast}
+                          onClick={() => toggleWeekday(index, weekday)}
+                          className={`h-7 w-7 rounded-full border text-[11px] ${
+                            item.weekdays.includes(weekday)
+                              ? "border-slate-900 bg-slate-900 text-white"
+                              : "border-slate-200 bg-white text-slate-500 disabled:text-slate-200"
+                          }`}
+                        >
+                          {WEEKDAY_LABELS[weekday]}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <select
+                    value={item.goalTrackId}
+                    onChange={(e) => updateItem(index, { goalTrackId: e.target.value })}
+                    className="mt-2 w-full rounded-lg border border-slate-200 px-2 py-1.5 text-xs"
+                  >
+                    <option value="">목표/주제 선택</option>
+                    {goalTracks.map((track) => (
+                      <option key={track.id} value={track.id}>
+                        {track.title || "제목 없음"}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  className="rounded-full border border-slate-200 bg-white px-3 py-2 text-xs text-slate-600"
+                  onClick={reset}
+                >
+                  다시 쓰기
+                </button>
+                <button
+                  type="button"
+                  className="flex-1 rounded-full bg-emerald-600 px-3 py-2 text-xs font-semibold text-white disabled:bg-slate-300"
+                  onClick={handleCommit}
+                  disabled={!canCommit || committing}
+                >
+                  {committing ? "추가 중..." : "요일별 투두로 추가"}
+                </button>
+              </div>
+            </>
+          )}
+          {goalTracks.length === 0 && (
+            <p className="text-[11px] text-rose-500">
+              먼저 목표/주제를 하나 이상 추가해 주세요.
+            </p>
+          )}
+          {error && <p className="text-[11px] text-rose-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
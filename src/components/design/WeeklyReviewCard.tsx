@@ -8,6 +8,11 @@ import type {
 } from "@/types/goalTrackWeeklyReview";
 import { MissedReasonType } from "@/types/missed-reason";
 import { buildWeeklyCoach } from "@/domain/weeklyCoach";
+import {
+  getNextWeekRuleText,
+  getNextWeekRules,
+  getReviewStatus,
+} from "@/domain/weeklyReview";
 import {
   getExecutedDayCount,
   getRecentGap,
@@ -16,6 +21,7 @@ import {
 } from "@/domain/execution";
 import { getLastNDateKeys } from "@/domain/date";
 import { getLocalDateKey } from "@/lib/date";
+import { getWeekdayFromDateKey } from "@/lib/dateKey";
 import { RhythmDots } from "@/components/design/RhythmDots";
 import type { OutcomeMode, OutcomeSense } from "@/types/goalTrackWeeklyReview";
 import { OutcomeSnapshot } from "@/components/design/OutcomeSnapshot";
@@ -23,16 +29,6 @@ import { OutcomeSnapshot } from "@/components/design/OutcomeSnapshot";
 /** 0=일, 1=월, ... 6=토 (Date.getDay()) */
 const REVIEW_DAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
 
-/** 기존 rhythm → status 매핑 */
-function rhythmToStatus(
-  r?: "steady" | "sporadic" | "stopped"
-): WeeklyStatus {
-  if (r === "steady") return "STEADY";
-  if (r === "sporadic") return "SPORADIC";
-  if (r === "stopped") return "STOPPED";
-  return "STEADY";
-}
-
 /** status → rhythm (하위호환 저장용) */
 function statusToRhythm(s: WeeklyStatus): "steady" | "sporadic" | "stopped" {
   if (s === "STEADY") return "steady";
@@ -40,56 +36,6 @@ function statusToRhythm(s: WeeklyStatus): "steady" | "sporadic" | "stopped" {
   return "stopped";
 }
 
-/** review에서 nextWeekRuleText 또는 nextWeekOneChange 추출 */
-function getNextWeekRuleText(review: GoalTrackWeeklyReview | null): string {
-  if (!review) return "";
-  return (
-    review.nextWeekRuleText?.trim() ||
-    review.nextWeekOneChange?.trim() ||
-    ""
-  );
-}
-
-/** review에서 nextWeekRules 추출 (하위호환) */
-function getNextWeekRules(
-  review: GoalTrackWeeklyReview | null
-): Array<{ text: string; weekdays?: number[] }> {
-  if (!review) return [];
-  if (review.nextWeekRules && review.nextWeekRules.length > 0) {
-    return review.nextWeekRules
-      .filter((r) => r.text?.trim())
-      .map((r) => {
-        const raw = r as { text: string; weekdays?: number[]; weekday?: number };
-        const weekdays = Array.isArray(raw.weekdays)
-          ? raw.weekdays.filter((d) => d >= 0 && d <= 6)
-          : typeof raw.weekday === "number" &&
-              raw.weekday >= 0 &&
-              raw.weekday <= 6
-            ? [raw.weekday]
-            : undefined;
-        return {
-          text: raw.text.trim(),
-          weekdays: weekdays && weekdays.length > 0 ? weekdays : undefined,
-        };
-      });
-  }
-  const legacy = getNextWeekRuleText(review);
-  if (!legacy) return [];
-  return [
-    {
-      text: legacy,
-      weekdays: review.plannedWeekdays?.filter((d) => d >= 0 && d <= 6),
-    },
-  ];
-}
-
-/** review에서 status 추출 (기존 rhythm 매핑) */
-function getReviewStatus(review: GoalTrackWeeklyReview | null): WeeklyStatus {
-  if (!review) return "STEADY";
-  if (review.status) return review.status;
-  return rhythmToStatus(review.rhythm);
-}
-
 type Props = {
   track: GoalTrack;
   review: GoalTrackWeeklyReview | null;
@@ -202,7 +148,7 @@ export function WeeklyReviewCard({
 
   const reviewWeekday =
     planReviewWeekday ?? track.reviewWeekday ?? 6;
-  const todayWeekday = new Date().getDay();
+  const todayWeekday = getWeekdayFromDateKey(getLocalDateKey());
   const isReviewDay = todayWeekday === reviewWeekday;
   const reviewDayLabel = REVIEW_DAY_LABELS[reviewWeekday] ?? "토";
 
@@ -260,6 +206,14 @@ export function WeeklyReviewCard({
     }
   };
 
+  /** 지표 모드를 고르면 트랙의 지표 정의로 라벨·단위를 채운다 */
+  const handleOutcomeModeChange = (mode: OutcomeMode) => {
+    setOutcomeMode(mode);
+    if (mode !== "metric" || !track.metric) return;
+    if (!metricLabel.trim()) setMetricLabel(track.metric.label);
+    if (!metricUnit.trim()) setMetricUnit(track.metric.unit);
+  };
+
   const addNextWeekRule = () => {
     setNextWeekRules((prev) => [...prev, { text: "", weekdays: undefined }]);
   };
@@ -752,7 +706,7 @@ export function WeeklyReviewCard({
                 outcomeNote={outcomeNote}
                 expanded={true}
                 onExpandedChange={() => {}}
-                onOutcomeModeChange={setOutcomeMode}
+                onOutcomeModeChange={handleOutcomeModeChange}
                 onMetricLabelChange={setMetricLabel}
                 onMetricValueChange={setMetricValue}
                 onMetricUnitChange={setMetricUnit}
@@ -1030,7 +984,7 @@ export function WeeklyReviewCard({
           outcomeNote={outcomeNote}
           expanded={outcomeSnapshotExpanded}
           onExpandedChange={setOutcomeSnapshotExpanded}
-          onOutcomeModeChange={setOutcomeMode}
+          onOutcomeModeChange={handleOutcomeModeChange}
           onMetricLabelChange={setMetricLabel}
           onMetricValueChange={setMetricValue}
           onMetricUnitChange={setMetricUnit}
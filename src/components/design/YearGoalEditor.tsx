@@ -0,0 +1,321 @@
+"use client";
+
+import React from "react";
+import type { GoalCoachMode, GoalCoachResult, YearGoal } from "@/types/goal";
+import type { YearGoalDraft } from "@/lib/repositories/yearGoals";
+
+/** 코칭 단계 순서: 구체화 → 현실 점검 → 쪼개기 */
+const COACH_STEPS: Array<{ mode: GoalCoachMode; label: string; guide: string }> = [
+  { mode: "SPECIFY", label: "1. 구체화", guide: "목표를 숫자·기한·횟수로 또렷하게" },
+  { mode: "REALITY_CHECK", label: "2. 현실 점검", guide: "지금 상태와 하루 시간으로 가능한지" },
+  { mode: "BREAK_DOWN", label: "3. 쪼개기", guide: "3개월 목표를 오늘 할 수 있는 단위로" },
+];
+
+const emptyDraft = (): YearGoalDraft => ({
+  yearGoal: "",
+  deadlineDate: "",
+  currentPosition: {
+    currentStatus: "",
+    dailyAvailableTime: "",
+    weakestArea: "",
+    note: "",
+  },
+  threeMonthGoal: "",
+  weeklyState: "",
+});
+
+const toDraft = (goal: YearGoal | null): YearGoalDraft =>
+  goal
+    ? {
+        yearGoal: goal.yearGoal,
+        deadlineDate: goal.deadlineDate ?? "",
+        currentPosition: { ...goal.currentPosition },
+        threeMonthGoal: goal.threeMonthGoal,
+        weeklyState: goal.weeklyState ?? "",
+      }
+    : emptyDraft();
+
+type Props = {
+  yearGoal: YearGoal | null;
+  /** 연결된 목표 실행으로 계산한 진행률 (0~100) */
+  progress: number;
+  executedDays: number;
+  onSave: (draft: YearGoalDraft) => Promise<void>;
+  onRequestCoach: (
+    mode: GoalCoachMode,
+    draft: YearGoalDraft
+  ) => Promise<GoalCoachResult | null>;
+  saving?: boolean;
+  /** 저장된 목표 아래에 붙는 영역 (주간 실행 계획 등) */
+  children?: React.ReactNode;
+};
+
+export function YearGoalEditor({
+  yearGoal,
+  progress,
+  executedDays,
+  onSave,
+  onRequestCoach,
+  saving = false,
+  children,
+}: Props) {
+  const [draft, setDraft] = React.useState<YearGoalDraft>(() => toDraft(yearGoal));
+  const [editing, setEditing] = React.useState(!yearGoal);
+  const [coachStepIndex, setCoachStepIndex] = React.useState(0);
+  const [coachResults, setCoachResults] = React.useState<
+    Partial<Record<GoalCoachMode, GoalCoachResult>>
+  >({});
+  const [coachLoading, setCoachLoading] = React.useState(false);
+  const [coachError, setCoachError] = React.useState("");
+
+  React.useEffect(() => {
+    if (!editing) setDraft(toDraft(yearGoal));
+  }, [yearGoal, editing]);
+
+  const yearGoalId = yearGoal?.id ?? null;
+  React.useEffect(() => {
+    if (yearGoalId) setEditing(false);
+  }, [yearGoalId]);
+
+  const canSave = Boolean(draft.yearGoal.trim() && draft.threeMonthGoal.trim());
+  const currentStep = COACH_STEPS[coachStepIndex];
+  const currentResult = coachResults[currentStep.mode];
+
+  const updatePosition = (
+    key: keyof YearGoalDraft["currentPosition"],
+    value: string
+  ) => {
+    setDraft((prev) => ({
+      ...prev,
+      currentPosition: { ...prev.currentPosition, [key]: value },
+    }));
+  };
+
+  const handleAskCoach = async () => {
+    if (!canSave) {
+      setCoachError("1년 목표와 3개월 목표를 먼저 적어 주세요.");
+      return;
+    }
+    setCoachLoading(true);
+    setCoachError("");
+    try {
+      const result = await onRequestCoach(currentStep.mode, draft);
+      if (!result) {
+        setCoachError("코칭을 받지 못했어요. 잠시 후 다시 시도해 주세요.");
+        return;
+      }
+      setCoachResults((prev) => ({ ...prev, [currentStep.mode]: result }));
+    } finally {
+      setCoachLoading(false);
+    }
+  };
+
+  /** 제안 문장을 단계에 맞는 칸에 반영 */
+  const handleApplySuggestion = (suggestion: string) => {
+    if (currentStep.mode === "SPECIFY") {
+      setDraft((prev) => ({ ...prev, yearGoal: suggestion }));
+    } else if (currentStep.mode === "BREAK_DOWN") {
+      setDraft((prev) => ({ ...prev, threeMonthGoal: suggestion }));
+    } else {
+      setDraft((prev) => ({
+        ...prev,
+        currentPosition: {
+          ...prev.currentPosition,
+          note: [prev.currentPosition.note.trim(), suggestion].filter(Boolean).join("\n"),
+        },
+      }));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    await onSave(draft);
+    setEditing(false);
+  };
+
+  if (!editing && yearGoal) {
+    return (
+      <div className="rounded-2xl border border-slate-100 bg-white p-4">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="text-[11px] text-slate-400">1년 목표</p>
+            <p className="text-sm font-semibold text-slate-900">{yearGoal.yearGoal}</p>
+          </div>
+          <button
+            type="button"
+            className="text-xs text-slate-400 hover:text-slate-600"
+            onClick={() => setEditing(true)}
+          >
+            수정
+          </button>
+        </div>
+        <p className="mt-2 text-[11px] text-slate-400">3개월 목표</p>
+        <p className="text-sm text-slate-700">{yearGoal.threeMonthGoal}</p>
+        <div className="mt-3">
+          <div className="flex items-center justify-between text-[11px] text-slate-500">
+            <span>
+              진행률 {progress}%
+              {yearGoal.deadlineDate ? ` · ${yearGoal.deadlineDate}까지` : ""}
+            </span>
+            <span>실행한 날 {executedDays}일</span>
+          </div>
+          <div className="mt-1 h-2 w-full rounded-full bg-slate-100">
+            <div
+              className="h-2 rounded-full bg-slate-900"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </div>
+        {children}
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-100 bg-white p-4">
+      <p className="text-xs font-semibold text-slate-700">1년 / 3개월 목표</p>
+      <div className="mt-3 flex flex-col gap-2 text-sm">
+        <input
+          value={draft.yearGoal}
+          onChange={(e) => setDraft((prev) => ({ ...prev, yearGoal: e.target.value }))}
+          placeholder="1년 목표 (예: 토익 900점)"
+          className="rounded-xl border border-slate-200 px-3 py-2"
+        />
+        <label className="flex items-center gap-2 text-xs text-slate-500">
+          데드라인
+          <input
+            type="date"
+            value={draft.deadlineDate ?? ""}
+            onChange={(e) =>
+              setDraft((prev) => ({ ...prev, deadlineDate: e.target.value }))
+            }
+            className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-sm"
+          />
+        </label>
+        <input
+          value={draft.currentPosition.currentStatus}
+          onChange={(e) => updatePosition("currentStatus", e.target.value)}
+          placeholder="현재 상태 (예: 모의고사 650점)"
+          className="rounded-xl border border-slate-200 px-3 py-2"
+        />
+        <input
+          value={draft.currentPosition.dailyAvailableTime}
+          onChange={(e) => updatePosition("dailyAvailableTime", e.target.value)}
+          placeholder="하루 가능 시간 (예: 평일 1시간)"
+          className="rounded-xl border border-slate-200 px-3 py-2"
+        />
+        <input
+          value={draft.currentPosition.weakestArea}
+          onChange={(e) => updatePosition("weakestArea", e.target.value)}
+          placeholder="가장 약한 영역 (예: 리스닝 파트 3)"
+          className="rounded-xl border border-slate-200 px-3 py-2"
+        />
+        <textarea
+          value={draft.currentPosition.note}
+          onChange={(e) => updatePosition("note", e.target.value)}
+          rows={2}
+          placeholder="자유 메모"
+          className="rounded-xl border border-slate-200 px-3 py-2"
+        />
+        <input
+          value={draft.threeMonthGoal}
+          onChange={(e) =>
+            setDraft((prev) => ({ ...prev, threeMonthGoal: e.target.value }))
+          }
+          placeholder="3개월 목표 (예: 모의고사 800점)"
+          className="rounded-xl border border-slate-200 px-3 py-2"
+        />
+      </div>
+
+      <div className="mt-4 rounded-xl border border-slate-100 bg-slate-50 p-3">
+        <p className="text-[11px] font-semibold text-slate-500">목표 코칭</p>
+        <div className="mt-2 grid grid-cols-3 gap-1">
+          {COACH_STEPS.map((step, index) => (
+            <button
+              key={step.mode}
+              type="button"
+              onClick={() => setCoachStepIndex(index)}
+              className={`rounded-full border px-2 py-1 text-[11px] font-medium ${
+                index === coachStepIndex
+                  ? "border-slate-900 bg-slate-900 text-white"
+                  : coachResults[step.mode]
+                    ? "border-slate-300 bg-white text-slate-700"
+                    : "border-slate-200 bg-white text-slate-400"
+              }`}
+            >
+              {step.label}
+            </button>
+          ))}
+        </div>
+        <p className="mt-2 text-[11px] text-slate-500">{currentStep.guide}</p>
+        <button
+          type="button"
+          className="mt-2 w-full rounded-full border border-slate-200 bg-white px-3 py-2 text-xs font-semibold text-slate-700 disabled:text-slate-300"
+          onClick={handleAskCoach}
+          disabled={coachLoading}
+        >
+          {coachLoading ? "질문 만드는 중..." : "코치에게 질문 받기"}
+        </button>
+        {coachError && <p className="mt-2 text-[11px] text-rose-500">{coachError}</p>}
+        {currentResult && (
+          <div className="mt-3 space-y-2">
+            <div className="space-y-1 text-xs text-slate-600">
+              {currentResult.questions.map((question) => (
+                <p key={question}>· {question}</p>
+              ))}
+            </div>
+            <div className="rounded-xl border border-slate-200 bg-white p-3">
+              <p className="text-[11px] text-slate-400">제안</p>
+              <p className="mt-1 text-sm text-slate-700">{currentResult.suggestion}</p>
+              <div className="mt-2 flex gap-2">
+                <button
+                  type="button"
+                  className="rounded-full bg-slate-900 px-3 py-1 text-[11px] font-medium text-white"
+                  onClick={() => handleApplySuggestion(currentResult.suggestion)}
+                >
+                  {currentStep.mode === "SPECIFY"
+                    ? "1년 목표에 반영"
+                    : currentStep.mode === "BREAK_DOWN"
+                      ? "3개월 목표에 반영"
+                      : "메모에 추가"}
+                </button>
+                {coachStepIndex < COACH_STEPS.length - 1 && (
+                  <button
+                    type="button"
+                    className="rounded-full border border-slate-200 px-3 py-1 text-[11px] text-slate-600"
+                    onClick={() => setCoachStepIndex(coachStepIndex + 1)}
+                  >
+                    다음 단계
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-3 flex gap-2">
+        {yearGoal && (
+          <button
+            type="button"
+            className="h-10 rounded-full border border-slate-200 px-4 text-xs text-slate-600"
+            onClick={() => {
+              setDraft(toDraft(yearGoal));
+              setEditing(false);
+            }}
+          >
+            취소
+          </button>
+        )}
+        <button
+          type="button"
+          className="h-10 flex-1 rounded-full bg-slate-900 px-4 text-xs font-semibold text-white disabled:bg-slate-300"
+          onClick={handleSave}
+          disabled={!canSave || saving}
+        >
+          {saving ? "저장 중..." : "목표 저장"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+"use client";
+
+import React from "react";
+import {
+  EFFECT_TREND_PERIODS,
+  buildEffectTrend,
+  getEffectPeriodKey,
+  getRecentEffectPeriodKeys,
+  summarizeEffectTypes,
+  summarizeEffectsByGoalTrack,
+  summarizeEffectsByKeyword,
+} from "@/domain/effectStats";
+import type { EffectLog, EffectPeriod, EffectSourceSummary, EffectType } from "@/types/effect";
+
+type Props = {
+  logs: EffectLog[];
+  todayKey: string;
+  effectLabels: Record<EffectType, string>;
+  /** 목표 트랙 id → 이름 */
+  trackTitleById: Map<string, string>;
+};
+
+const PERIOD_LABEL: Record<EffectPeriod, string> = {
+  week: "주",
+  month: "월",
+};
+
+const formatPeriodKey = (periodKey: string, period: EffectPeriod) =>
+  period === "week"
+    ? `${Number(periodKey.slice(5, 7))}/${Number(periodKey.slice(8, 10))}`
+    : `${Number(periodKey.slice(5, 7))}월`;
+
+/**
+ * 효과 분석: 이번 주/달에 어떤 효과가 많았는지, 효과 종류별 추이,
+ * 목표 트랙·투두 키워드별로 어떤 효과가 나왔는지.
+ */
+export function EffectDashboard({ logs, todayKey, effectLabels, trackTitleById }: Props) {
+  const [period, setPeriod] = React.useState<EffectPeriod>("week");
+  const periodKeys = getRecentEffectPeriodKeys(todayKey, period, EFFECT_TREND_PERIODS[period]);
+  const currentKey = getEffectPeriodKey(todayKey, period);
+  const currentLogs = logs.filter((log) => getEffectPeriodKey(log.dateKey, period) === currentKey);
+  const dominant = summarizeEffectTypes(currentLogs.flatMap((log) => log.effects));
+  const trend = buildEffectTrend(logs, period, periodKeys);
+  const trendTypes = summarizeEffectTypes(logs.flatMap((log) => log.effects))
+    .map((item) => item.type)
+    .filter((type) => trend.some((bucket) => bucket.totals[type] > 0));
+  const trendMax = Math.max(
+    1,
+    ...trend.flatMap((bucket) => trendTypes.map((type) => bucket.totals[type]))
+  );
+  const byTrack = summarizeEffectsByGoalTrack(logs, trackTitleById);
+  const byKeyword = summarizeEffectsByKeyword(logs);
+
+  const renderSources = (sources: EffectSourceSummary[], emptyText: string) =>
+    sources.length === 0 ? (
+      <p className="mt-2 text-xs text-slate-400">{emptyText}</p>
+    ) : (
+      <ul className="mt-2 space-y-2">
+        {sources.map((source) => (
+          <li
+            key={source.key}
+            className="flex items-center justify-between gap-3 rounded-2xl border border-slate-100 px-3 py-2 text-xs"
+          >
+            <span className="truncate text-slate-700">
+              {source.label}
+              <span className="ml-1 text-slate-400">{source.count}회</span>
+            </span>
+            <span className="shrink-0 text-slate-500">
+              {source.totals
+                .slice(0, 2)
+                .map((item) => `${effectLabels[item.type]} ${item.share}%`)
+                .join(" · ")}
+            </span>
+          </li>
+        ))}
+      </ul>
+    );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold">효과 분석</p>
+        <div className="flex gap-1">
+          {(["week", "month"] as const).map((key) => (
+            <button
+              key={key}
+              type="button"
+              className={`h-8 rounded-full px-3 text-[11px] font-semibold ${
+                period === key
+                  ? "bg-slate-900 text-white"
+                  : "border border-slate-200 bg-white text-slate-600"
+              }`}
+              onClick={() => setPeriod(key)}
+            >
+              {PERIOD_LABEL[key]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="mt-4 text-xs font-semibold text-slate-600">
+        이번 {PERIOD_LABEL[period]}에 많았던 효과 · 완료 {currentLogs.length}개
+      </p>
+      {dominant.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-400">
+          아직 기록된 효과가 없어요. 투두를 완료할 때 효과를 골라 주세요.
+        </p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {dominant.map((item) => (
+            <li key={item.type} className="text-xs">
+              <div className="flex items-center justify-between text-slate-600">
+                <span>{effectLabels[item.type]}</span>
+                <span className="text-slate-400">
+                  {item.count}회 · 강도 {item.intensitySum} ({item.share}%)
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 rounded-full bg-slate-100">
+                <div
+                  className="h-1.5 rounded-full bg-slate-900"
+                  style={{ width: `${item.share}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-5 text-xs font-semibold text-slate-600">
+        효과별 추이 · 최근 {periodKeys.length}
+        {PERIOD_LABEL[period]} (강도 합)
+      </p>
+      {trendTypes.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-400">기록이 쌓이면 보여 드려요.</p>
+      ) : (
+        <div className="mt-2 space-y-2">
+          {trendTypes.map((type) => (
+            <div key={type} className="flex items-end gap-2">
+              <span className="w-12 shrink-0 text-[11px] text-slate-500">{effectLabels[type]}</span>
+              <div className="flex h-6 flex-1 items-end gap-1">
+                {trend.map((bucket) => (
+                  <span
+                    key={bucket.periodKey}
+                    title={`${formatPeriodKey(bucket.periodKey, period)} · ${bucket.totals[type]}`}
+                    className="flex-1 rounded-sm bg-emerald-400"
+                    style={{
+                      height: `${Math.max(2, (bucket.totals[type] / trendMax) * 100)}%`,
+                      opacity: bucket.totals[type] > 0 ? 1 : 0.15,
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <span className="w-12 shrink-0" />
+            <div className="flex flex-1 gap-1">
+              {trend.map((bucket) => (
+                <span
+                  key={bucket.periodKey}
+                  className="flex-1 text-center text-[10px] text-slate-400"
+                >
+                  {formatPeriodKey(bucket.periodKey, period)}
+                </span>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <p className="mt-5 text-xs font-semibold text-slate-600">목표 트랙별 효과</p>
+      {renderSources(byTrack, "목표에 연결된 투두의 효과가 아직 없어요.")}
+
+      <p className="mt-5 text-xs font-semibold text-slate-600">자주 한 투두 키워드별 효과</p>
+      {renderSources(byKeyword, "두 번 이상 나온 키워드가 아직 없어요.")}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import React from "react";
+import {
+  ROUTINE_HEATMAP_WEEKS,
+  buildRoutineHeatmap,
+  computeRoutineStats,
+  summarizeRoutineTaskSkips,
+} from "@/domain/routineRun";
+import type { RoutineHeatmapLevel, RoutineRun } from "@/types/routineRun";
+import type { RoutineItem } from "@/types/settings";
+
+type Props = {
+  title: string;
+  routine: RoutineItem;
+  /** 이 루틴의 실행 기록 */
+  runs: RoutineRun[];
+  todayKey: string;
+};
+
+const WEEKDAY_LABELS = ["월", "화", "수", "목", "금", "토", "일"];
+
+const LEVEL_CLASS: Record<RoutineHeatmapLevel, string> = {
+  done: "bg-emerald-500",
+  partial: "bg-emerald-200",
+  none: "bg-slate-100",
+  future: "bg-transparent",
+};
+
+const LEVEL_LABEL: Record<RoutineHeatmapLevel, string> = {
+  done: "완료",
+  partial: "일부",
+  none: "안 함",
+  future: "",
+};
+
+const formatSeconds = (seconds: number) =>
+  seconds < 60 ? `${seconds}초` : `${Math.round(seconds / 60)}분`;
+
+/** 루틴 기록: 최근 몇 주 히트맵과 할 일별 건너뛴 비율·평균 걸린 시간 */
+export function RoutineHistoryPanel({ title, routine, runs, todayKey }: Props) {
+  const stats = computeRoutineStats(runs, todayKey);
+  const heatmap = buildRoutineHeatmap(runs, todayKey);
+  const skips = summarizeRoutineTaskSkips(runs, routine, todayKey);
+
+  return (
+    <div className="mt-3">
+      <p className="text-sm font-semibold text-slate-900">{title} 기록</p>
+      <p className="mt-1 text-xs text-slate-400">
+        🔥 {stats.streak}일 · 이번 달 성공률 {stats.monthlySuccessRate}%
+        {stats.lastCompletedDate ? ` · 마지막 완료 ${stats.lastCompletedDate}` : ""}
+      </p>
+
+      <p className="mt-4 text-xs font-semibold text-slate-600">
+        최근 {ROUTINE_HEATMAP_WEEKS}주
+      </p>
+      <div className="mt-2 flex gap-1">
+        <div className="flex flex-col gap-1">
+          {WEEKDAY_LABELS.map((label) => (
+            <span key={label} className="h-4 text-[10px] leading-4 text-slate-400">
+              {label}
+            </span>
+          ))}
+        </div>
+        {heatmap.map((week) => (
+          <div key={week[0]?.dateKey} className="flex flex-col gap-1">
+            {week.map((cell) => (
+              <span
+                key={cell.dateKey}
+                title={cell.level === "future" ? undefined : `${cell.dateKey} · ${LEVEL_LABEL[cell.level]}`}
+                className={`h-4 w-4 rounded ${LEVEL_CLASS[cell.level]} ${
+                  cell.dateKey === todayKey ? "ring-1 ring-slate-400" : ""
+                }`}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="mt-2 flex gap-3 text-[10px] text-slate-400">
+        {(["done", "partial", "none"] as const).map((level) => (
+          <span key={level} className="flex items-center gap-1">
+            <span className={`h-2.5 w-2.5 rounded ${LEVEL_CLASS[level]}`} />
+            {LEVEL_LABEL[level]}
+          </span>
+        ))}
+      </div>
+
+      <p className="mt-4 text-xs font-semibold text-slate-600">할 일별 건너뜀 · 걸린 시간</p>
+      {skips.length === 0 ? (
+        <p className="mt-2 text-xs text-slate-400">할 일이 없어요.</p>
+      ) : (
+        <ul className="mt-2 space-y-2">
+          {skips.map((item) => (
+            <li key={item.taskId} className="text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-slate-700">{item.title}</span>
+                <span className="text-slate-400">
+                  {item.runs === 0
+                    ? "기록 없음"
+                    : `${item.skipped}/${item.runs}회 건너뜀 (${item.skipRate}%)`}
+                  {item.averageSeconds !== null && ` · 평균 ${formatSeconds(item.averageSeconds)}`}
+                  {item.targetSeconds !== null && ` / 목표 ${formatSeconds(item.targetSeconds)}`}
+                  {item.averageSeconds !== null &&
+                    item.targetSeconds !== null &&
+                    item.averageSeconds > item.targetSeconds && (
+                      <span className="ml-1 text-rose-500">느림</span>
+                    )}
+                </span>
+              </div>
+              <div className="mt-1 h-1.5 rounded-full bg-slate-100">
+                <div
+                  className="h-1.5 rounded-full bg-rose-300"
+                  style={{ width: `${item.skipRate}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+"use client";
+
+import React from "react";
+import {
+  DEFAULT_ROUTINE_PLACE_RADIUS,
+  ROUTINE_PLACE_RADIUS_OPTIONS,
+  formatRoutinePlace,
+} from "@/domain/routinePlace";
+import { requestCurrentPosition } from "@/lib/geolocation";
+import type { RoutinePlace } from "@/types/settings";
+
+type Props = {
+  place: RoutinePlace | null;
+  arrivalReminder: boolean;
+  onChangePlace: (place: RoutinePlace) => void;
+  onChangeArrivalReminder: (enabled: boolean) => void;
+};
+
+/** 위치 트리거 루틴의 장소 설정: 이름, 반경, 현재 위치로 좌표 저장, 도착 알림 */
+export function RoutinePlaceEditor({
+  place,
+  arrivalReminder,
+  onChangePlace,
+  onChangeArrivalReminder,
+}: Props) {
+  const [locating, setLocating] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const handleUseCurrentPosition = async () => {
+    setLocating(true);
+    setError(null);
+    const position = await requestCurrentPosition();
+    setLocating(false);
+    if (!position) {
+      setError("위치를 가져오지 못했어요. 브라우저 위치 권한을 확인해 주세요.");
+      return;
+    }
+    onChangePlace({
+      label: place?.label ?? "",
+      lat: position.lat,
+      lng: position.lng,
+      radiusMeters: place?.radiusMeters ?? DEFAULT_ROUTINE_PLACE_RADIUS,
+    });
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="text-xs font-semibold text-slate-600">장소</p>
+      <p className="text-[11px] text-slate-400">
+        {place
+          ? formatRoutinePlace(place)
+          : "아직 장소가 없어요. 그 장소에서 현재 위치로 설정해 주세요."}
+      </p>
+      {place && (
+        <input
+          value={place.label}
+          onChange={(event) => onChangePlace({ ...place, label: event.target.value })}
+          placeholder="예) 회사, 헬스장"
+          className="w-full rounded-2xl border border-slate-200 px-3 py-2 text-sm"
+        />
+      )}
+      {place && (
+        <div className="grid grid-cols-3 gap-2">
+          {ROUTINE_PLACE_RADIUS_OPTIONS.map((radius) => (
+            <button
+              key={radius}
+              type="button"
+              className={`h-9 rounded-full text-[11px] font-semibold ${
+                place.radiusMeters === radius
+                  ? "bg-slate-900 text-white"
+                  : "border border-slate-200 bg-white text-slate-600"
+              }`}
+              onClick={() => onChangePlace({ ...place, radiusMeters: radius })}
+            >
+              {radius}m
+            </button>
+          ))}
+        </div>
+      )}
+      <button
+        type="button"
+        className="h-9 w-full rounded-full border border-slate-200 bg-white text-[11px] font-semibold text-slate-600"
+        onClick={() => void handleUseCurrentPosition()}
+        disabled={locating}
+      >
+        {locating ? "위치 확인 중..." : place ? "현재 위치로 다시 설정" : "현재 위치로 설정"}
+      </button>
+      {error && <p className="text-[11px] text-rose-500">{error}</p>}
+      <label className="flex items-center gap-2 text-[11px] text-slate-600">
+        <input
+          type="checkbox"
+          checked={arrivalReminder}
+          onChange={(event) => onChangeArrivalReminder(event.target.checked)}
+        />
+        도착했는데 오늘 아직 안 했으면 알림
+      </label>
+    </div>
+  );
+}
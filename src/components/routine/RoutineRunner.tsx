@@ -0,0 +1,237 @@
+"use client";
+
+import React from "react";
+import {
+  getCurrentRoutineTask,
+  getCurrentRoutineTaskStartedAt,
+  getRoutineRunDuration,
+} from "@/domain/routineRun";
+import { playAudioCue } from "@/lib/audioCue";
+import { getIconForRoutine } from "@/lib/routine-icons";
+import type { RoutineRun, RoutineTaskOutcome } from "@/types/routineRun";
+import type { RoutineItem } from "@/types/settings";
+
+type Props = {
+  routine: RoutineItem;
+  /** 오늘 실행 기록. 아직 없으면 null */
+  run: RoutineRun | null;
+  onStart: () => void;
+  onFinishTask: (taskId: string, outcome: RoutineTaskOutcome, durationSeconds: number) => void;
+};
+
+/** 지금 할 일의 일시정지 상태. taskId가 바뀌면 새로 시작한다 */
+type PauseState = { taskId: string; pausedMs: number; pausedAt: number | null };
+
+const formatClock = (seconds: number) => {
+  const safe = Math.max(0, seconds);
+  return `${Math.floor(safe / 60)}:${String(safe % 60).padStart(2, "0")}`;
+};
+
+const formatMinutes = (seconds: number) =>
+  seconds < 60 ? `${seconds}초` : `${Math.round(seconds / 60)}분`;
+
+/**
+ * 루틴 실행 화면. 할 일을 순서대로 하나씩 보여 주고, 목표 시간이 있으면 카운트다운해서
+ * 끝나면 다음 할 일로 넘어간다. 걸린 시간(일시정지 제외)은 할 일마다 실행 기록에 남는다.
+ */
+export function RoutineRunner({ routine, run, onStart, onFinishTask }: Props) {
+  const current = getCurrentRoutineTask(run, routine);
+  const currentId = current?.id ?? null;
+  const targetSeconds = current?.targetSeconds ?? null;
+  const [now, setNow] = React.useState(0);
+  const [pause, setPause] = React.useState<PauseState>({
+    taskId: "",
+    pausedMs: 0,
+    pausedAt: null,
+  });
+  const [soundOn, setSoundOn] = React.useState(true);
+  const autoAdvancedRef = React.useRef<string | null>(null);
+
+  const taskPause: PauseState =
+    pause.taskId === currentId ? pause : { taskId: currentId ?? "", pausedMs: 0, pausedAt: null };
+  const paused = taskPause.pausedAt !== null;
+  const startedAt = run ? getCurrentRoutineTaskStartedAt(run) : null;
+  const elapsedSeconds =
+    startedAt && now > 0
+      ? Math.max(
+          0,
+          Math.floor(((taskPause.pausedAt ?? now) - startedAt.getTime() - taskPause.pausedMs) / 1000)
+        )
+      : 0;
+  const remainingSeconds = targetSeconds !== null ? targetSeconds - elapsedSeconds : null;
+  const remainingTasks = routine.tasks.filter((task) => task.id !== currentId).length;
+  const isLastTask =
+    current !== null &&
+    routine.tasks.every(
+      (task) =>
+        task.id === current.id ||
+        run?.tasks.some((item) => item.taskId === task.id && (item.completed || item.skipped))
+    );
+
+  React.useEffect(() => {
+    if (!run || !currentId) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 500);
+    return () => window.clearInterval(interval);
+  }, [run, currentId]);
+
+  const finish = (outcome: RoutineTaskOutcome) => {
+    if (!currentId) return;
+    if (soundOn) playAudioCue(isLastTask ? "done" : "next");
+    onFinishTask(currentId, outcome, elapsedSeconds);
+  };
+
+  // 목표 시간이 다 되면 알리고 다음 할 일로 넘어간다 (할 일마다 한 번).
+  // 화면을 떠나 있다 돌아와도 걸린 시간은 목표 시간으로 남긴다
+  React.useEffect(() => {
+    if (!run || !currentId || targetSeconds === null) return;
+    if (remainingSeconds === null || remainingSeconds > 0 || paused) return;
+    const key = `${run.id}_${currentId}`;
+    if (autoAdvancedRef.current === key) return;
+    autoAdvancedRef.current = key;
+    if (soundOn) playAudioCue(isLastTask ? "done" : "timeUp");
+    onFinishTask(currentId, "done", targetSeconds);
+  }, [run, currentId, targetSeconds, remainingSeconds, paused, soundOn, isLastTask, onFinishTask]);
+
+  const togglePause = () => {
+    const stamp = Date.now();
+    setPause(
+      paused
+        ? {
+            taskId: taskPause.taskId,
+            pausedMs: taskPause.pausedMs + (stamp - (taskPause.pausedAt ?? stamp)),
+            pausedAt: null,
+          }
+        : { ...taskPause, pausedAt: stamp }
+    );
+    setNow(stamp);
+  };
+
+  if (routine.tasks.length === 0) {
+    return (
+      <p className="mt-3 text-xs text-slate-400">태스크가 없어요. 편집 화면에서 추가해 주세요.</p>
+    );
+  }
+
+  const duration = run ? getRoutineRunDuration(run) : null;
+  const recordedByTaskId = new Map((run?.tasks ?? []).map((task) => [task.taskId, task]));
+
+  return (
+    <div className="mt-3">
+      {!run ? (
+        <button
+          type="button"
+          className="h-11 w-full rounded-full bg-slate-900 px-4 text-xs font-semibold text-white"
+          onClick={onStart}
+        >
+          시작하기
+        </button>
+      ) : current ? (
+        <div className="rounded-2xl border border-slate-100 bg-slate-50 px-4 py-4 text-center">
+          <p className="text-[11px] text-slate-400">
+            지금 할 일 · 남은 할 일 {remainingTasks}개
+          </p>
+          <p className="mt-1 text-base font-semibold text-slate-900">
+            {getIconForRoutine(current.title)} {current.title}
+          </p>
+          <p
+            className={`mt-2 text-3xl font-semibold tabular-nums ${
+              remainingSeconds !== null && remainingSeconds <= 10
+                ? "text-rose-500"
+                : "text-slate-900"
+            }`}
+          >
+            {remainingSeconds !== null ? formatClock(remainingSeconds) : formatClock(elapsedSeconds)}
+          </p>
+          <p className="text-[11px] text-slate-400">
+            {targetSeconds !== null
+              ? `목표 ${formatMinutes(targetSeconds)} · 끝나면 자동으로 넘어가요`
+              : "목표 시간 없음 · 끝나면 완료를 눌러 주세요"}
+            {paused && " · 일시정지"}
+          </p>
+          <div className="mt-3 grid grid-cols-3 gap-2">
+            <button
+              type="button"
+              className="h-10 rounded-full border border-slate-200 bg-white text-xs font-semibold text-slate-600"
+              onClick={togglePause}
+            >
+              {paused ? "계속" : "일시정지"}
+            </button>
+            <button
+              type="button"
+              className="h-10 rounded-full border border-slate-200 bg-white text-xs font-semibold text-slate-600"
+              onClick={() => finish("skipped")}
+            >
+              건너뛰기
+            </button>
+            <button
+              type="button"
+              className="h-10 rounded-full bg-slate-900 text-xs font-semibold text-white"
+              onClick={() => finish("done")}
+            >
+              완료
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-2xl border border-emerald-100 bg-emerald-50/70 px-4 py-4 text-center">
+          <p className="text-sm font-semibold text-emerald-700">
+            {run.completed ? "오늘 루틴 완료됨" : "모두 건너뛰었어요"}
+          </p>
+          {duration && (
+            <p className="mt-1 text-xs text-emerald-700">
+              {formatMinutes(duration.actualSeconds)} 걸림
+              {duration.plannedSeconds !== null &&
+                ` · 계획 ${formatMinutes(duration.plannedSeconds)}`}
+            </p>
+          )}
+        </div>
+      )}
+
+      <ul className="mt-3 space-y-2">
+        {routine.tasks.map((task) => {
+          const recorded = recordedByTaskId.get(task.id);
+          const state = recorded?.completed
+            ? "done"
+            : recorded?.skipped
+              ? "skipped"
+              : task.id === currentId && run
+                ? "current"
+                : "pending";
+          return (
+            <li
+              key={task.id}
+              className={`flex items-center justify-between gap-3 rounded-2xl border px-3 py-2 text-sm ${
+                state === "done"
+                  ? "border-emerald-200 bg-emerald-50/70 text-emerald-700"
+                  : state === "current"
+                    ? "border-slate-300 bg-white text-slate-900"
+                    : "border-slate-100 bg-white text-slate-500"
+              }`}
+            >
+              <span className={state === "skipped" ? "line-through" : ""}>
+                {getIconForRoutine(task.title)} {task.title}
+              </span>
+              <span className="shrink-0 text-[11px]">
+                {state === "done" && recorded?.durationSeconds != null
+                  ? formatMinutes(recorded.durationSeconds)
+                  : state === "skipped"
+                    ? "건너뜀"
+                    : task.targetSeconds
+                      ? formatMinutes(task.targetSeconds)
+                      : ""}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      <button
+        type="button"
+        className="mt-3 text-[11px] text-slate-400"
+        onClick={() => setSoundOn((prev) => !prev)}
+      >
+        {soundOn ? "🔔 소리 켜짐" : "🔕 소리 꺼짐"}
+      </button>
+    </div>
+  );
+}
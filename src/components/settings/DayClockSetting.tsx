@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import { getDeviceTimeZone, listTimeZones } from "@/lib/dateKey";
+
+/** 하루 시작으로 고를 수 있는 시각 (자정 ~ 새벽 6시) */
+const DAY_START_OPTIONS = ["00:00", "01:00", "02:00", "03:00", "04:00", "05:00", "06:00"];
+
+type Props = {
+  timeZone: string;
+  dayStartsAt: string;
+  onChangeTimeZone: (timeZone: string) => Promise<void>;
+  onChangeDayStartsAt: (dayStartsAt: string) => Promise<void>;
+};
+
+export function DayClockSetting({
+  timeZone,
+  dayStartsAt,
+  onChangeTimeZone,
+  onChangeDayStartsAt,
+}: Props) {
+  const [saving, setSaving] = React.useState(false);
+  const zones = React.useMemo(() => {
+    const list = listTimeZones();
+    return list.includes(timeZone) ? list : [timeZone, ...list];
+  }, [timeZone]);
+  const dayStartOptions = DAY_START_OPTIONS.includes(dayStartsAt)
+    ? DAY_START_OPTIONS
+    : [dayStartsAt, ...DAY_START_OPTIONS];
+  const deviceTimeZone = getDeviceTimeZone();
+
+  const save = async (task: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await task();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-100 bg-white p-4">
+      <p className="text-sm font-semibold">하루 기준</p>
+      <p className="mt-1 text-xs text-slate-400">
+        오늘 날짜, 주간 실행 수, 기상 알림이 이 기준을 따라요. 바꿔도 이미 기록한 날짜는 그대로예요.
+      </p>
+      <label className="mt-3 block text-[11px] text-slate-500">
+        시간대
+        <select
+          value={timeZone}
+          onChange={(event) => {
+            const next = event.target.value;
+            if (next !== timeZone) void save(() => onChangeTimeZone(next));
+          }}
+          disabled={saving}
+          className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 text-xs"
+        >
+          {zones.map((zone) => (
+            <option key={zone} value={zone}>
+              {zone}
+            </option>
+          ))}
+        </select>
+      </label>
+      {deviceTimeZone !== timeZone && (
+        <button
+          type="button"
+          className="mt-2 text-[11px] font-semibold text-slate-500"
+          onClick={() => void save(() => onChangeTimeZone(deviceTimeZone))}
+          disabled={saving}
+        >
+          이 기기 시간대({deviceTimeZone})로 바꾸기
+        </button>
+      )}
+      <label className="mt-3 block text-[11px] text-slate-500">
+        하루가 시작되는 시각
+        <select
+          value={dayStartsAt}
+          onChange={(event) => {
+            const next = event.target.value;
+            if (next !== dayStartsAt) void save(() => onChangeDayStartsAt(next));
+          }}
+          disabled={saving}
+          className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2 text-xs"
+        >
+          {dayStartOptions.map((time) => (
+            <option key={time} value={time}>
+              {time === "00:00" ? "자정 (00:00)" : `새벽 ${time}`}
+            </option>
+          ))}
+        </select>
+      </label>
+      <p className="mt-1 text-[11px] text-slate-400">
+        이 시각 전에 한 일은 전날 기록으로 남아요. 예) 03:00이면 새벽 1시 완료도 어제 투두예요.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import React from "react";
+import { PROTECT_WEEKDAY_LABELS, crossesMidnight, formatProtectWeekdays } from "@/domain/protect";
+import type { DistractionApp, ProtectWindow } from "@/types/settings";
+
+type Props = {
+  windows: ProtectWindow[];
+  /** 새 구간에 넣을 방해 앱 목록 */
+  defaultApps: DistractionApp[];
+  /** 새 구간의 시작·끝 (사용자 유형 기본값) */
+  newWindowTimes: { start: string; end: string };
+  onSave: (windows: ProtectWindow[]) => Promise<void>;
+};
+
+export function ProtectWindowsEditor({ windows, defaultApps, newWindowTimes, onSave }: Props) {
+  // 저장된 값이 바뀌면 편집 중인 값도 새로 시작한다
+  const windowsKey = JSON.stringify(windows);
+  const [draft, setDraft] = React.useState({ key: windowsKey, windows });
+  const [saving, setSaving] = React.useState(false);
+  const current = draft.key === windowsKey ? draft.windows : windows;
+  const dirty = JSON.stringify(current) !== windowsKey;
+  const invalid = current.some((window) => window.start === window.end);
+
+  const update = (next: ProtectWindow[]) => setDraft({ key: windowsKey, windows: next });
+
+  const updateWindow = (id: string, patch: Partial<ProtectWindow>) =>
+    update(current.map((window) => (window.id === id ? { ...window, ...patch } : window)));
+
+  const toggleWeekday = (window: ProtectWindow, day: number) =>
+    updateWindow(window.id, {
+      weekdays: window.weekdays.includes(day)
+        ? window.weekdays.filter((item) => item !== day)
+        : [...window.weekdays, day].sort((a, b) => a - b),
+    });
+
+  const addWindow = () =>
+    update([
+      ...current,
+      {
+        id: `window-${Date.now()}`,
+        label: "",
+        weekdays: [],
+        start: newWindowTimes.start,
+        end: newWindowTimes.end,
+        distractionApps: defaultApps,
+      },
+    ]);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave(current);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      {current.length === 0 && (
+        <p className="text-xs text-slate-400">보호 시간 구간이 없어요.</p>
+      )}
+      {current.map((window) => (
+        <div key={window.id} className="rounded-2xl border border-slate-100 bg-slate-50 p-3">
+          <div className="flex items-center gap-2">
+            <input
+              value={window.label}
+              onChange={(event) => updateWindow(window.id, { label: event.target.value })}
+              placeholder="이름 (예: 저녁)"
+              maxLength={20}
+              className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-xs"
+            />
+            <button
+              type="button"
+              className="text-[11px] text-slate-400"
+              onClick={() => update(current.filter((item) => item.id !== window.id))}
+            >
+              삭제
+            </button>
+          </div>
+          <div className="mt-2 flex flex-wrap items-center gap-1">
+            {PROTECT_WEEKDAY_LABELS.map((label, day) => (
+              <button
+                key={label}
+                type="button"
+                onClick={() => toggleWeekday(window, day)}
+                className={`h-7 w-7 rounded-full border text-[11px] ${
+                  window.weekdays.includes(day)
+                    ? "border-slate-900 bg-slate-900 text-white"
+                    : "border-slate-200 text-slate-500"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+            <span className="ml-1 text-[11px] text-slate-400">
+              {formatProtectWeekdays(window.weekdays)}
+            </span>
+          </div>
+          <div className="mt-2 flex items-center gap-2">
+            <input
+              type="time"
+              value={window.start}
+              onChange={(event) => updateWindow(window.id, { start: event.target.value })}
+              className="w-28 rounded-xl border border-slate-200 px-3 py-2 text-sm"
+            />
+            <span className="text-xs text-slate-400">~</span>
+            <input
+              type="time"
+              value={window.end}
+              onChange={(event) => updateWindow(window.id, { end: event.target.value })}
+              className="w-28 rounded-xl border border-slate-200 px-3 py-2 text-sm"
+            />
+            {window.start === window.end ? (
+              <span className="text-[11px] text-rose-500">시작과 끝이 같아요</span>
+            ) : (
+              crossesMidnight(window) && (
+                <span className="text-[11px] text-slate-400">다음 날</span>
+              )
+            )}
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="w-full rounded-2xl border border-dashed border-slate-200 py-2 text-xs text-slate-500 hover:border-slate-300"
+        onClick={addWindow}
+      >
+        + 구간 추가
+      </button>
+      <button
+        type="button"
+        className="h-11 w-full rounded-full bg-slate-900 px-4 text-xs font-semibold text-white transition-colors hover:bg-slate-800 disabled:bg-slate-300"
+        onClick={() => void save()}
+        disabled={!dirty || invalid || saving}
+      >
+        보호 시간 저장
+      </button>
+    </div>
+  );
+}
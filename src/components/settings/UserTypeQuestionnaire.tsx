@@ -0,0 +1,94 @@
+"use client";
+
+import React from "react";
+import { USER_TYPE_PROFILES, USER_TYPE_QUESTIONS, pickUserType } from "@/domain/userType";
+import type { UserType } from "@/types/settings";
+
+type Props = {
+  userType: UserType;
+  onSubmit: (userType: UserType) => Promise<void>;
+  /** 있으면 "나중에" 버튼을 보여 준다 (온보딩) */
+  onSkip?: () => Promise<void>;
+};
+
+/** 사용자 유형 설문. 질문마다 하나씩 고르면 유형을 정해 준다 */
+export function UserTypeQuestionnaire({ userType, onSubmit, onSkip }: Props) {
+  const [answers, setAnswers] = React.useState<Array<UserType | null>>(() =>
+    USER_TYPE_QUESTIONS.map(() => null)
+  );
+  const [saving, setSaving] = React.useState(false);
+  const complete = answers.every((answer) => answer !== null);
+  const result = complete ? pickUserType(answers as UserType[]) : null;
+
+  const save = async (task: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await task();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {USER_TYPE_QUESTIONS.map((question, questionIndex) => (
+        <div key={question.question}>
+          <p className="text-xs font-semibold text-slate-600">
+            {questionIndex + 1}. {question.question}
+          </p>
+          <div className="mt-2 grid grid-cols-2 gap-2">
+            {question.options.map((option) => (
+              <button
+                key={option.label}
+                type="button"
+                className={`min-h-9 rounded-2xl px-3 py-2 text-left text-[11px] font-semibold ${
+                  answers[questionIndex] === option.type
+                    ? "bg-slate-900 text-white"
+                    : "border border-slate-200 bg-white text-slate-600"
+                }`}
+                onClick={() =>
+                  setAnswers((prev) =>
+                    prev.map((answer, index) => (index === questionIndex ? option.type : answer))
+                  )
+                }
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {result && (
+        <div className="rounded-2xl border border-slate-100 bg-slate-50 px-3 py-3">
+          <p className="text-sm font-semibold text-slate-900">
+            {USER_TYPE_PROFILES[result].label}
+            {result === userType && <span className="ml-1 text-xs text-slate-400">(지금 유형)</span>}
+          </p>
+          <p className="mt-1 text-xs text-slate-500">{USER_TYPE_PROFILES[result].description}</p>
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {onSkip && (
+          <button
+            type="button"
+            className="h-11 flex-1 rounded-full border border-slate-200 bg-white px-4 text-xs font-semibold text-slate-600"
+            onClick={() => void save(onSkip)}
+            disabled={saving}
+          >
+            나중에
+          </button>
+        )}
+        <button
+          type="button"
+          className="h-11 flex-1 rounded-full bg-slate-900 px-4 text-xs font-semibold text-white disabled:opacity-40"
+          onClick={() => result && void save(() => onSubmit(result))}
+          disabled={!result || saving}
+        >
+          이 유형으로 시작
+        </button>
+      </div>
+    </div>
+  );
+}
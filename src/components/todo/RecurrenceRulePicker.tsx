@@ -0,0 +1,115 @@
+"use client";
+
+import React from "react";
+import type { RecurrenceKind, RecurrenceRule } from "@/types/recurrence";
+
+const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+const KIND_OPTIONS: Array<{ value: RecurrenceKind | "none"; label: string }> = [
+  { value: "none", label: "반복 안 함" },
+  { value: "daily", label: "매일" },
+  { value: "weekdays", label: "특정 요일" },
+  { value: "interval", label: "N일마다" },
+  { value: "monthly", label: "매월 특정 일" },
+];
+
+type Props = {
+  /** null = 반복 안 함 */
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  /** 기본 요일/일자를 정할 기준 dateKey */
+  baseDateKey: string;
+};
+
+export function RecurrenceRulePicker({ value, onChange, baseDateKey }: Props) {
+  const [y, m, d] = baseDateKey.split("-").map(Number);
+  const baseWeekday = new Date(y, m - 1, d).getDay();
+
+  const handleKindChange = (kind: RecurrenceKind | "none") => {
+    if (kind === "none") onChange(null);
+    else if (kind === "daily") onChange({ kind: "daily" });
+    else if (kind === "weekdays") onChange({ kind: "weekdays", weekdays: [baseWeekday] });
+    else if (kind === "interval") onChange({ kind: "interval", everyDays: 2 });
+    else onChange({ kind: "monthly", dayOfMonth: d });
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    if (value?.kind !== "weekdays") return;
+    const next = value.weekdays.includes(weekday)
+      ? value.weekdays.filter((w) => w !== weekday)
+      : [...value.weekdays, weekday].sort((a, b) => a - b);
+    if (next.length === 0) return;
+    onChange({ kind: "weekdays", weekdays: next });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <select
+        value={value?.kind ?? "none"}
+        onChange={(e) => handleKindChange(e.target.value as RecurrenceKind | "none")}
+        className="rounded-2xl border border-slate-200 px-3 py-2 text-sm"
+      >
+        {KIND_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {value?.kind === "weekdays" && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, weekday) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(weekday)}
+              className={`h-8 w-8 rounded-full border text-[11px] font-medium ${
+                value.weekdays.includes(weekday)
+                  ? "border-slate-900 bg-slate-900 text-white"
+                  : "border-slate-200 bg-white text-slate-500"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      {value?.kind === "interval" && (
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={value.everyDays}
+            onChange={(e) =>
+              onChange({
+                kind: "interval",
+                everyDays: Math.max(1, Math.min(365, Number(e.target.value) || 1)),
+              })
+            }
+            className="w-20 rounded-xl border border-slate-200 px-2 py-1.5 text-sm"
+          />
+          일마다
+        </label>
+      )}
+      {value?.kind === "monthly" && (
+        <label className="flex items-center gap-2 text-xs text-slate-600">
+          매월
+          <input
+            type="number"
+            min={1}
+            max={31}
+            value={value.dayOfMonth}
+            onChange={(e) =>
+              onChange({
+                kind: "monthly",
+                dayOfMonth: Math.max(1, Math.min(31, Number(e.target.value) || 1)),
+              })
+            }
+            className="w-20 rounded-xl border border-slate-200 px-2 py-1.5 text-sm"
+          />
+          일 (없는 날은 말일)
+        </label>
+      )}
+    </div>
+  );
+}
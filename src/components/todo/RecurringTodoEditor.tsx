@@ -0,0 +1,83 @@
+"use client";
+
+import React from "react";
+import type { RecurrenceEditScope } from "@/types/recurrence";
+
+type Props = {
+  initialText: string;
+  /** 규칙 설명. 예) "매주 월·수" */
+  ruleLabel: string;
+  onSave: (text: string, scope: RecurrenceEditScope) => void;
+  onDelete: (scope: RecurrenceEditScope) => void;
+  onCancel: () => void;
+};
+
+export function RecurringTodoEditor({
+  initialText,
+  ruleLabel,
+  onSave,
+  onDelete,
+  onCancel,
+}: Props) {
+  const [text, setText] = React.useState(initialText);
+  const [scope, setScope] = React.useState<RecurrenceEditScope>("this");
+
+  React.useEffect(() => {
+    setText(initialText);
+  }, [initialText]);
+
+  const canSave = Boolean(text.trim());
+
+  return (
+    <div className="mt-2 rounded-xl border border-slate-100 bg-slate-50/80 p-3">
+      <p className="text-[11px] font-medium text-slate-500">반복 투두 · {ruleLabel}</p>
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        className="mt-2 w-full rounded-lg border border-slate-200 px-2 py-1.5 text-xs"
+      />
+      <div className="mt-2 flex gap-3 text-[11px] text-slate-600">
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            checked={scope === "this"}
+            onChange={() => setScope("this")}
+          />
+          이번만
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="radio"
+            checked={scope === "future"}
+            onChange={() => setScope("future")}
+          />
+          이후 모두
+        </label>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-2">
+        <button
+          type="button"
+          className="rounded-full border border-slate-200 bg-white px-3 py-1 text-[11px] font-medium text-slate-600"
+          onClick={onCancel}
+        >
+          취소
+        </button>
+        <button
+          type="button"
+          className="rounded-full bg-slate-900 px-3 py-1 text-[11px] font-medium text-white disabled:bg-slate-300"
+          onClick={() => canSave && onSave(text.trim(), scope)}
+          disabled={!canSave}
+        >
+          저장
+        </button>
+        <button
+          type="button"
+          className="rounded-full border border-rose-200 px-3 py-1 text-[11px] text-rose-500"
+          onClick={() => onDelete(scope)}
+        >
+          {scope === "this" ? "이번만 삭제" : "이후 모두 삭제"}
+        </button>
+      </div>
+    </div>
+  );
+}
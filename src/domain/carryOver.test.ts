@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_CARRY_OVER_MAX_HOPS,
+  decideCarryOver,
+  MAX_CARRY_OVER_HOPS,
+  normalizeCarryOverMaxHops,
+  shiftDueAt,
+} from "@/domain/carryOver";
+
+describe("decideCarryOver", () => {
+  const pending = { done: false, carryOverCount: 0 };
+
+  it("미완료 투두는 옮긴다", () => {
+    expect(decideCarryOver(pending, 3)).toBe("carry");
+    expect(decideCarryOver({ ...pending, carryOverCount: 2 }, 3)).toBe("carry");
+  });
+
+  it("hop 수를 채우면 결정 대기", () => {
+    expect(decideCarryOver({ ...pending, carryOverCount: 3 }, 3)).toBe("stale");
+  });
+
+  it("완료·반복·결정 대기·이미 복사한 투두는 건너뛴다", () => {
+    expect(decideCarryOver({ ...pending, done: true }, 3)).toBe("skip");
+    expect(decideCarryOver({ ...pending, recurrenceId: "r1" }, 3)).toBe("skip");
+    expect(decideCarryOver({ ...pending, carryOverStale: true }, 3)).toBe("skip");
+    expect(decideCarryOver({ ...pending, carriedToDateKey: "2025-03-02" }, 3)).toBe("skip");
+  });
+});
+
+describe("normalizeCarryOverMaxHops", () => {
+  it("1 ~ MAX_CARRY_OVER_HOPS만 받는다", () => {
+    expect(normalizeCarryOverMaxHops(5)).toBe(5);
+    expect(normalizeCarryOverMaxHops(2.7)).toBe(2);
+    expect(normalizeCarryOverMaxHops(MAX_CARRY_OVER_HOPS)).toBe(MAX_CARRY_OVER_HOPS);
+    expect(normalizeCarryOverMaxHops(MAX_CARRY_OVER_HOPS + 1)).toBe(DEFAULT_CARRY_OVER_MAX_HOPS);
+    expect(normalizeCarryOverMaxHops(0)).toBe(DEFAULT_CARRY_OVER_MAX_HOPS);
+    expect(normalizeCarryOverMaxHops("3")).toBe(DEFAULT_CARRY_OVER_MAX_HOPS);
+  });
+});
+
+describe("shiftDueAt", () => {
+  it("옮긴 날수만큼 민다", () => {
+    const dueAt = new Date("2025-03-01T09:30:00Z"); // 서울 18:30
+    expect(shiftDueAt(dueAt, "2025-03-01", "2025-03-02", "Asia/Seoul").toISOString()).toBe(
+      "2025-03-02T09:30:00.000Z"
+    );
+    expect(shiftDueAt(dueAt, "2025-03-01", "2025-03-04", "Asia/Seoul").toISOString()).toBe(
+      "2025-03-04T09:30:00.000Z"
+    );
+  });
+
+  it("서머타임이 바뀌어도 벽시계 시각을 지킨다", () => {
+    const dueAt = new Date("2025-03-08T14:00:00Z"); // 뉴욕 09:00 (EST)
+    expect(
+      shiftDueAt(dueAt, "2025-03-08", "2025-03-09", "America/New_York").toISOString()
+    ).toBe("2025-03-09T13:00:00.000Z"); // 뉴욕 09:00 (EDT)
+  });
+});
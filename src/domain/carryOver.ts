@@ -0,0 +1,47 @@
+import {
+  CARRY_OVER_MODES,
+  DEFAULT_CARRY_OVER_MAX_HOPS,
+  DEFAULT_CARRY_OVER_MODE,
+  decideCarryOver,
+  isCarryOverMode,
+  MAX_CARRY_OVER_HOPS,
+  normalizeCarryOverMaxHops,
+  shiftDueAt,
+} from "../../functions/carryOver";
+
+/*
+ * 이월 판단·hop 상한은 Cloud Functions와 같은 functions/carryOver.js를 그대로 쓴다.
+ */
+
+export {
+  CARRY_OVER_MODES,
+  DEFAULT_CARRY_OVER_MAX_HOPS,
+  DEFAULT_CARRY_OVER_MODE,
+  decideCarryOver,
+  isCarryOverMode,
+  MAX_CARRY_OVER_HOPS,
+  normalizeCarryOverMaxHops,
+  shiftDueAt,
+};
+
+/** 미완료 투두 이월 방식. move=옮기기, copy=복사(원본 유지), off=이월 안 함 */
+export type CarryOverMode = "move" | "copy" | "off";
+
+/** 새 todayKey 첫 로드 때 되돌아볼 일수 (앱을 며칠 안 열었을 때 대비) */
+export const CARRY_OVER_LOOKBACK_DAYS = 7;
+
+export const CARRY_OVER_MODE_LABELS: Record<CarryOverMode, string> = {
+  move: "다음 날로 옮기기",
+  copy: "다음 날에 복사",
+  off: "이월 안 함",
+};
+
+export type CarryOverCandidate = {
+  done: boolean;
+  recurrenceId?: string | null;
+  carryOverCount?: number;
+  carryOverStale?: boolean;
+  carriedToDateKey?: string | null;
+};
+
+export type CarryOverDecision = "carry" | "stale" | "skip";
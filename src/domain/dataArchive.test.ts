@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  createIdRemapper,
+  deterministicId,
+  remapArchive,
+} from "@/domain/dataArchive";
+import type { DataArchive } from "@/types/dataArchive";
+
+const archive = (overrides: Partial<DataArchive> = {}): DataArchive => ({
+  format: ARCHIVE_FORMAT,
+  version: ARCHIVE_VERSION,
+  exportedAt: "2025-03-01T00:00:00.000Z",
+  sourceUserId: "source",
+  settings: null,
+  days: [],
+  designPlans: [],
+  yearGoals: [],
+  goalTracks: [],
+  goalTrackEvents: [],
+  goalTrackWeeklyReviews: [],
+  recurrences: [],
+  records: [],
+  events: [],
+  ...overrides,
+});
+
+describe("deterministicId", () => {
+  it("같은 seed면 같은 20자 id", () => {
+    const id = deterministicId("target:todos:abc");
+    expect(id).toMatch(/^[A-Za-z0-9]{20}$/);
+    expect(deterministicId("target:todos:abc")).toBe(id);
+  });
+
+  it("seed가 다르면 다른 id", () => {
+    const ids = new Set(
+      ["a", "b", "ab", "ba", "target:todos:abc", "target:goalTracks:abc"].map(deterministicId)
+    );
+    expect(ids.size).toBe(6);
+  });
+});
+
+describe("createIdRemapper", () => {
+  it("같은 계정이면 id를 그대로 둔다", () => {
+    expect(createIdRemapper("u1", "u1")("todos", "abc")).toBe("abc");
+  });
+
+  it("다른 계정이면 대상 계정·종류로 새 id", () => {
+    const remap = createIdRemapper("u1", "u2");
+    expect(remap("todos", "abc")).toBe(deterministicId("u2:todos:abc"));
+    expect(remap("todos", "abc")).not.toBe(remap("goalTracks", "abc"));
+    expect(createIdRemapper("u1", "u3")("todos", "abc")).not.toBe(remap("todos", "abc"));
+  });
+});
+
+describe("remapArchive", () => {
+  const remap = (kind: string, id: string) => `${kind}-${id}`;
+
+  it("투두 참조와 합성 id를 바뀐 구성요소로 다시 만든다", () => {
+    const result = remapArchive(
+      archive({
+        days: [
+          {
+            dateKey: "2025-03-01",
+            log: null,
+            todos: [
+              { id: "t1", data: { text: "단어", goalTrackId: "g1" } },
+              { id: "r1_2025-03-01", data: { text: "운동", recurrenceId: "r1" } },
+            ],
+            todoInterventions: [{ id: "i1", data: { todoId: "t1" } }],
+          },
+        ],
+        goalTracks: [{ id: "g1", data: { designPlanId: "d1" } }],
+        goalTrackEvents: [
+          { id: "g1_t1_2025-03-01", data: { goalTrackId: "g1", todoId: "t1", dateKey: "2025-03-01" } },
+        ],
+        goalTrackWeeklyReviews: [
+          { id: "g1_2025-02-24", data: { goalTrackId: "g1", weekStartKey: "2025-02-24" } },
+        ],
+        effectLogs: [
+          { id: "2025-03-01_t1", data: { dateKey: "2025-03-01", todoId: "t1", goalTrackId: "g1" } },
+        ],
+      }),
+      remap
+    );
+
+    const [day] = result.days;
+    expect(day.todos.map((todo) => todo.id)).toEqual(["todos-t1", "recurrences-r1_2025-03-01"]);
+    expect(day.todos[0].data.goalTrackId).toBe("goalTracks-g1");
+    expect(day.todos[1].data.recurrenceId).toBe("recurrences-r1");
+    expect(day.todoInterventions[0]).toEqual({ id: "other-i1", data: { todoId: "todos-t1" } });
+    expect(result.goalTracks[0]).toEqual({
+      id: "goalTracks-g1",
+      data: { designPlanId: "designPlans-d1" },
+    });
+    expect(result.goalTrackEvents[0].id).toBe("goalTracks-g1_todos-t1_2025-03-01");
+    expect(result.goalTrackWeeklyReviews[0].id).toBe("goalTracks-g1_2025-02-24");
+    expect(result.effectLogs?.[0]).toEqual({
+      id: "2025-03-01_todos-t1",
+      data: { dateKey: "2025-03-01", todoId: "todos-t1", goalTrackId: "goalTracks-g1" },
+    });
+  });
+
+  it("주간 계획과 지난 계획의 목표 트랙을 바꾼다", () => {
+    const plan = (weekKey: string) => ({
+      weekKey,
+      todos: [{ text: "단어", goalTrackId: "g1" }],
+    });
+    const result = remapArchive(
+      archive({
+        yearGoals: [
+          {
+            id: "y1",
+            data: {
+              designPlanId: "d1",
+              weeklyActionPlan: plan("2025-03-03"),
+              weeklyActionPlanHistory: { "2025-02-24": plan("2025-02-24") },
+            },
+          },
+        ],
+      }),
+      remap
+    );
+    const data = result.yearGoals[0].data as {
+      designPlanId: string;
+      weeklyActionPlan: ReturnType<typeof plan>;
+      weeklyActionPlanHistory: Record<string, ReturnType<typeof plan>>;
+    };
+    expect(result.yearGoals[0].id).toBe("designPlans-y1");
+    expect(data.designPlanId).toBe("designPlans-d1");
+    expect(data.weeklyActionPlan.todos[0].goalTrackId).toBe("goalTracks-g1");
+    expect(data.weeklyActionPlanHistory["2025-02-24"].todos[0].goalTrackId).toBe(
+      "goalTracks-g1"
+    );
+  });
+
+  it("보호 세션 id는 그대로 만들고 타이머 기록이 따라간다", () => {
+    const result = remapArchive(
+      archive({
+        protectSessions: [
+          { id: "2025-03-01_w1", data: { dateKey: "2025-03-01", windowId: "w1" } },
+        ],
+        protectBypasses: [{ id: "b1", data: { sessionId: "2025-03-01_w1" } }],
+      }),
+      remap
+    );
+    expect(result.protectSessions?.[0].id).toBe("2025-03-01_w1");
+    expect(result.protectBypasses?.[0]).toEqual({
+      id: "other-b1",
+      data: { sessionId: "2025-03-01_w1" },
+    });
+  });
+
+  it("같은 계정 remapper면 그대로 돌아온다", () => {
+    const source = archive({
+      days: [
+        {
+          dateKey: "2025-03-01",
+          log: null,
+          todos: [{ id: "t1", data: { goalTrackId: "g1" } }],
+          todoInterventions: [],
+        },
+      ],
+    });
+    const result = remapArchive(source, createIdRemapper("u1", "u1"));
+    expect(result.days).toEqual([
+      {
+        ...source.days[0],
+        todos: [{ id: "t1", data: { goalTrackId: "g1", recurrenceId: undefined } }],
+      },
+    ]);
+  });
+});
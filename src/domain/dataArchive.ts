@@ -0,0 +1,342 @@
+import type { ArchivedDoc, DataArchive } from "@/types/dataArchive";
+import { buildEventId } from "@/domain/execution";
+import { buildEffectLogId } from "@/domain/effectStats";
+import { buildProtectSessionId } from "@/domain/protect";
+import { buildRecurringTodoId } from "@/domain/recurrence";
+import { buildReviewId } from "@/domain/weeklyReview";
+
+export const ARCHIVE_FORMAT = "to-day-export";
+export const ARCHIVE_VERSION = 1;
+
+/** 내보내기 파일인지 형식·버전만 확인 (필드 검증은 규칙이 한다) */
+export const isDataArchive = (value: unknown): value is DataArchive => {
+  if (!value || typeof value !== "object") return false;
+  const archive = value as Partial<DataArchive>;
+  return (
+    archive.format === ARCHIVE_FORMAT &&
+    archive.version === ARCHIVE_VERSION &&
+    Array.isArray(archive.days) &&
+    Array.isArray(archive.goalTracks)
+  );
+};
+
+export type RemapKind = "designPlans" | "goalTracks" | "recurrences" | "todos" | "other";
+
+/** 종류(kind) + 예전 id → 새 id. 같은 입력이면 항상 같은 id여야 한다 */
+export type IdRemapper = (kind: RemapKind, oldId: string) => string;
+
+const ID_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+/** 문자열 → Firestore 자동 id 모양(20자)의 결정적 id. 같은 seed면 항상 같은 값 */
+export const deterministicId = (seed: string): string => {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  let id = "";
+  for (let round = 0; id.length < 20; round += 1) {
+    for (let i = 0; i < seed.length; i += 1) {
+      const code = seed.charCodeAt(i) + round;
+      h1 = Math.imul(h1 ^ code, 16777619) >>> 0;
+      h2 = Math.imul(h2 ^ code, 2246822507) >>> 0;
+    }
+    let value = (h1 ^ h2) >>> 0;
+    for (let i = 0; i < 5 && id.length < 20; i += 1) {
+      id += ID_ALPHABET[value % ID_ALPHABET.length];
+      value = Math.floor(value / ID_ALPHABET.length);
+    }
+  }
+  return id;
+};
+
+/** 대상 계정 기준 remapper. 같은 계정으로 되돌리는 경우는 id를 그대로 둔다 */
+export const createIdRemapper = (sourceUserId: string, targetUserId: string): IdRemapper =>
+  sourceUserId === targetUserId
+    ? (_kind, oldId) => oldId
+    : (kind, oldId) => deterministicId(`${targetUserId}:${kind}:${oldId}`);
+
+const remapOptional = (remap: IdRemapper, kind: RemapKind, value: unknown): unknown =>
+  typeof value === "string" && value ? remap(kind, value) : value;
+
+const remapDocs = (
+  docs: ArchivedDoc[],
+  kind: RemapKind,
+  remap: IdRemapper,
+  remapData: (data: Record<string, unknown>) => Record<string, unknown> = (data) => data
+): ArchivedDoc[] => docs.map((item) => ({ id: remap(kind, item.id), data: remapData(item.data) }));
+
+/**
+ * 새 계정으로 옮길 때 문서 id와 참조를 바꾼다.
+ * 자동 id는 remap으로, 합성 id(buildEventId, buildReviewId, buildRecurringTodoId, buildEffectLogId,
+ * buildProtectSessionId)는 바뀐 구성요소로 다시 만든다. dateKey·weekStartKey는 그대로 둔다.
+ */
+export const remapArchive = (archive: DataArchive, remap: IdRemapper): DataArchive => {
+  const remapTodoId = (todoId: string, data: Record<string, unknown>, dateKey: string) => {
+    const recurrenceId = data.recurrenceId;
+    if (
+      typeof recurrenceId === "string" &&
+      todoId === buildRecurringTodoId(recurrenceId, dateKey)
+    ) {
+      return buildRecurringTodoId(remap("recurrences", recurrenceId), dateKey);
+    }
+    return remap("todos", todoId);
+  };
+  const withGoalTrack = (data: Record<string, unknown>) => ({
+    ...data,
+    goalTrackId: remapOptional(remap, "goalTracks", data.goalTrackId),
+  });
+  // 이벤트의 todoId는 같은 날짜의 투두 id와 같아야 한다
+  const todoIdsByDate = new Map<string, Map<string, string>>();
+  const days = archive.days.map((day) => {
+    const idMap = new Map<string, string>();
+    const todos = day.todos.map((todo) => {
+      const id = remapTodoId(todo.id, todo.data, day.dateKey);
+      idMap.set(todo.id, id);
+      return {
+        id,
+        data: {
+          ...withGoalTrack(todo.data),
+          recurrenceId: remapOptional(remap, "recurrences", todo.data.recurrenceId),
+        },
+      };
+    });
+    todoIdsByDate.set(day.dateKey, idMap);
+    return {
+      ...day,
+      todos,
+      todoInterventions: remapDocs(day.todoInterventions, "other", remap, (data) => ({
+        ...data,
+        todoId:
+          typeof data.todoId === "string"
+            ? (idMap.get(data.todoId) ?? remap("todos", data.todoId))
+            : data.todoId,
+      })),
+    };
+  });
+
+  const goalTrackEvents = archive.goalTrackEvents.map((event) => {
+    const goalTrackId = remap("goalTracks", String(event.data.goalTrackId ?? ""));
+    const dateKey = String(event.data.dateKey ?? "");
+    const oldTodoId = String(event.data.todoId ?? "");
+    const todoId = todoIdsByDate.get(dateKey)?.get(oldTodoId) ?? remap("todos", oldTodoId);
+    return {
+      id: buildEventId(goalTrackId, todoId, dateKey),
+      data: { ...event.data, goalTrackId, todoId },
+    };
+  });
+
+  const effectLogs = (archive.effectLogs ?? []).map((log) => {
+    const dateKey = String(log.data.dateKey ?? "");
+    const oldTodoId = String(log.data.todoId ?? "");
+    const todoId = todoIdsByDate.get(dateKey)?.get(oldTodoId) ?? remap("todos", oldTodoId);
+    return {
+      id: buildEffectLogId(dateKey, todoId),
+      data: { ...withGoalTrack(log.data), todoId },
+    };
+  });
+
+  // 세션 id는 dateKey + windowId(설정 안의 값이라 그대로)로 다시 만들고, 타이머 기록의 sessionId도 따라 바꾼다
+  const sessionIds = new Map<string, string>();
+  const protectSessions = (archive.protectSessions ?? []).map((session) => {
+    const { dateKey, windowId } = session.data;
+    const id =
+      typeof dateKey === "string" && typeof windowId === "string"
+        ? buildProtectSessionId(dateKey, windowId)
+        : session.id;
+    sessionIds.set(session.id, id);
+    return { id, data: session.data };
+  });
+  const protectBypasses = remapDocs(archive.protectBypasses ?? [], "other", remap, (data) => ({
+    ...data,
+    sessionId:
+      typeof data.sessionId === "string"
+        ? (sessionIds.get(data.sessionId) ?? data.sessionId)
+        : data.sessionId,
+  }));
+
+  const goalTrackWeeklyReviews = archive.goalTrackWeeklyReviews.map((review) => {
+    const goalTrackId = remap("goalTracks", String(review.data.goalTrackId ?? ""));
+    return {
+      id: buildReviewId(goalTrackId, String(review.data.weekStartKey ?? "")),
+      data: { ...review.data, goalTrackId },
+    };
+  });
+
+  const remapPlan = (value: unknown) => {
+    const plan = value as { todos?: Array<Record<string, unknown>> } | undefined;
+    return plan && Array.isArray(plan.todos)
+      ? { ...plan, todos: plan.todos.map((todo) => withGoalTrack(todo)) }
+      : null;
+  };
+  const yearGoals = remapDocs(archive.yearGoals, "designPlans", remap, (data) => {
+    const plan = remapPlan(data.weeklyActionPlan);
+    const history =
+      data.weeklyActionPlanHistory && typeof data.weeklyActionPlanHistory === "object"
+        ? Object.fromEntries(
+            Object.entries(data.weeklyActionPlanHistory as Record<string, unknown>).map(
+              ([weekKey, item]) => [weekKey, remapPlan(item) ?? item]
+            )
+          )
+        : null;
+    return {
+      ...data,
+      designPlanId: remapOptional(remap, "designPlans", data.designPlanId),
+      ...(plan ? { weeklyActionPlan: plan } : {}),
+      ...(history ? { weeklyActionPlanHistory: history } : {}),
+    };
+  });
+
+  return {
+    ...archive,
+    days,
+    designPlans: remapDocs(archive.designPlans, "designPlans", remap),
+    yearGoals,
+    goalTracks: remapDocs(archive.goalTracks, "goalTracks", remap, (data) => ({
+      ...data,
+      designPlanId: remapOptional(remap, "designPlans", data.designPlanId),
+    })),
+    goalTrackEvents,
+    goalTrackWeeklyReviews,
+    recurrences: remapDocs(archive.recurrences, "recurrences", remap, withGoalTrack),
+    records: remapDocs(archive.records, "other", remap, withGoalTrack),
+    events: remapDocs(archive.events, "other", remap),
+    // 루틴 id는 settings 안에 있어서 바꾸지 않는다 (문서 id도 그대로)
+    routineRuns: archive.routineRuns ?? [],
+    effectLogs,
+    protectSessions,
+    protectBypasses,
+  };
+};
+
+const csvCell = (value: unknown): string => {
+  if (value == null) return "";
+  const text =
+    typeof value === "object"
+      ? "__timestamp" in (value as object)
+        ? String((value as { __timestamp: unknown }).__timestamp)
+        : JSON.stringify(value)
+      : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** 행 목록 → CSV (첫 줄 헤더). 객체·배열 값은 JSON 문자열로 넣는다 */
+export const toCsv = (columns: string[], rows: Array<Record<string, unknown>>): string =>
+  [
+    columns.join(","),
+    ...rows.map((row) => columns.map((column) => csvCell(row[column])).join(",")),
+  ].join("\n");
+
+/** effects 배열 → "CLARITY:2;FOCUS:3" */
+const effectsCell = (value: unknown): string =>
+  Array.isArray(value)
+    ? (value as Array<{ type?: string; intensity?: number }>)
+        .map((effect) => `${effect.type}:${effect.intensity}`)
+        .join(";")
+    : "";
+
+const docRows = (docs: ArchivedDoc[]) => docs.map((item) => ({ id: item.id, ...item.data }));
+
+/** 엔티티별 CSV 파일 (파일 이름 → 내용) */
+export const buildArchiveCsvFiles = (archive: DataArchive): Record<string, string> => ({
+  "day-logs.csv": toCsv(
+    ["dateKey", "did", "learned", "reviewedAt", "updatedAt"],
+    archive.days
+      .filter((day) => day.log)
+      .map((day) => ({ dateKey: day.dateKey, ...day.log }))
+  ),
+  "todos.csv": toCsv(
+    [
+      "dateKey",
+      "id",
+      "text",
+      "done",
+      "effects",
+      "missedReasonType",
+      "goalTrackId",
+      "recurrenceId",
+      "dueAt",
+      "completedAt",
+      "createdAt",
+      "carriedFromDateKey",
+      "carryOverCount",
+    ],
+    archive.days.flatMap((day) =>
+      day.todos.map((todo) => ({
+        dateKey: day.dateKey,
+        id: todo.id,
+        ...todo.data,
+        effects: effectsCell(todo.data.effects),
+      }))
+    )
+  ),
+  "todo-interventions.csv": toCsv(
+    ["dateKey", "id", "todoId", "todoText", "reasonType", "kind", "createdAt"],
+    archive.days.flatMap((day) =>
+      day.todoInterventions.map((item) => ({ dateKey: day.dateKey, id: item.id, ...item.data }))
+    )
+  ),
+  "design-plans.csv": toCsv(["id", "title", "createdAt"], docRows(archive.designPlans)),
+  "year-goals.csv": toCsv(
+    ["id", "yearGoal", "threeMonthGoal", "weeklyState", "deadlineDate", "startDateKey", "progress"],
+    docRows(archive.yearGoals)
+  ),
+  "goal-tracks.csv": toCsv(
+    ["id", "designPlanId", "title", "reviewWeekday", "createdAt"],
+    docRows(archive.goalTracks)
+  ),
+  "goal-track-events.csv": toCsv(
+    ["id", "goalTrackId", "todoId", "todoText", "dateKey", "createdAt"],
+    docRows(archive.goalTrackEvents)
+  ),
+  "weekly-reviews.csv": toCsv(
+    [
+      "id",
+      "goalTrackId",
+      "weekStartKey",
+      "status",
+      "blockReason",
+      "blockNote",
+      "nextWeekRules",
+      "outcomeMode",
+      "metricLabel",
+      "metricValue",
+      "metricUnit",
+      "sense",
+      "outcomeNote",
+      "updatedAt",
+    ],
+    docRows(archive.goalTrackWeeklyReviews)
+  ),
+  "recurrences.csv": toCsv(
+    ["id", "text", "goalTrackId", "rule", "startDateKey", "endDateKey", "skippedDateKeys"],
+    docRows(archive.recurrences)
+  ),
+  "records.csv": toCsv(["id", "content", "goalTrackId", "createdAt"], docRows(archive.records)),
+  "events.csv": toCsv(["id", "title", "dateKey", "time", "createdAt"], docRows(archive.events)),
+  "routine-runs.csv": toCsv(
+    ["id", "routineId", "dateKey", "completed", "startedAt", "completedAt"],
+    docRows(archive.routineRuns ?? [])
+  ),
+  "effect-logs.csv": toCsv(
+    ["id", "dateKey", "todoId", "todoText", "goalTrackId", "effects", "createdAt"],
+    (archive.effectLogs ?? []).map((log) => ({
+      id: log.id,
+      ...log.data,
+      effects: effectsCell(log.data.effects),
+    }))
+  ),
+  "protect-bypasses.csv": toCsv(
+    [
+      "id",
+      "sessionId",
+      "dateKey",
+      "appId",
+      "appLabel",
+      "minutes",
+      "startedAt",
+      "endsAt",
+      "endedAt",
+      "overran",
+      "overrunMinutes",
+    ],
+    docRows(archive.protectBypasses ?? [])
+  ),
+});
@@ -1,83 +1,67 @@
-import { getLocalDateKey } from "@/lib/date";
+import {
+  addDaysToDateKey,
+  getTodayKey,
+  getWeekdayFromDateKey,
+  getWeekStartKeyFromDateKey,
+} from "@/lib/dateKey";
 
-const pad = (value: number) => String(value).padStart(2, "0");
+/*
+ * 날짜 계산은 모두 사용자 시간대 기준 dateKey에서 출발한다 (lib/dateKey).
+ * 주·요일은 dateKey 산술로만 구하므로, 주 중간에 시간대를 바꿔도
+ * 이미 저장된 dateKey·weekStartKey와 어긋나지 않는다.
+ */
 
-/** KST 기준 dateKey (YYYY-MM-DD) */
-export const toDateKeyKST = (date: Date = new Date()): string => {
-  const utc = date.getTime();
-  const kstOffset = 9 * 60 * 60 * 1000;
-  const kst = new Date(utc + kstOffset);
-  const year = kst.getUTCFullYear();
-  const month = pad(kst.getUTCMonth() + 1);
-  const day = pad(kst.getUTCDate());
-  return `${year}-${month}-${day}`;
-};
+export { addDaysToDateKey };
 
-/** 오늘(KST) dateKey */
-export const getTodayKeyKST = () => toDateKeyKST(new Date());
+/** 오늘(사용자 시간대) dateKey */
+export { getTodayKey };
 
-/** 이번 주 월요일 dateKey (KST) */
-export const getWeekStartKeyKST = (date: Date = new Date()): string => {
-  const kst = new Date(date.getTime() + 9 * 60 * 60 * 1000);
-  const day = kst.getUTCDay();
-  const mondayOffset = day === 0 ? -6 : 1 - day;
-  const monday = new Date(kst);
-  monday.setUTCDate(kst.getUTCDate() + mondayOffset);
-  return toDateKeyKST(monday);
-};
+/** 이번 주 월요일 dateKey */
+export const getWeekStartKey = (todayKey: string = getTodayKey()): string =>
+  getWeekStartKeyFromDateKey(todayKey);
 
-/** 주의 일요일 dateKey (KST) */
-export const getWeekEndKeyKST = (date: Date = new Date()): string => {
-  const weekStart = getWeekStartKeyKST(date);
-  const [y, m, d] = weekStart.split("-").map(Number);
-  const sunday = new Date(Date.UTC(y, m - 1, d + 6));
-  return toDateKeyKST(sunday);
-};
+/** 주의 일요일 dateKey */
+export const getWeekEndKey = (todayKey: string = getTodayKey()): string =>
+  addDaysToDateKey(getWeekStartKey(todayKey), 6);
 
-/** 최근 N일 dateKey 배열 (오늘 포함, 오늘→과거 순) - getLocalDateKey 사용 (앱 todayKey와 일치) */
-export const getLastNDateKeys = (n: number, date: Date = new Date()): string[] => {
+/** 최근 N일 dateKey 배열 (오늘 포함, 오늘→과거 순) */
+export const getLastNDateKeys = (n: number, todayKey: string = getTodayKey()): string[] => {
   const keys: string[] = [];
-  for (let i = 0; i < n; i++) {
-    const d = new Date(date);
-    d.setDate(d.getDate() - i);
-    keys.push(getLocalDateKey(d));
-  }
+  for (let i = 0; i < n; i++) keys.push(addDaysToDateKey(todayKey, -i));
   return keys;
 };
 
-/** 최근 N주 월요일 dateKey 배열 (이번 주 포함, 중복 제거) */
-export const getWeekStartKeysForLastNWeeks = (n: number): string[] => {
-  const seen = new Set<string>();
+/** from~to dateKey 배열 (양끝 포함, 과거→최근 순). from > to면 빈 배열 */
+export const getDateKeysBetween = (fromKey: string, toKey: string): string[] => {
   const keys: string[] = [];
-  const now = new Date();
-  for (let i = 0; i < n; i++) {
-    const d = new Date(now);
-    d.setDate(d.getDate() - i * 7);
-    const k = getWeekStartKeyKST(d);
-    if (!seen.has(k)) {
-      seen.add(k);
-      keys.push(k);
-    }
-  }
+  for (let key = fromKey; key <= toKey; key = addDaysToDateKey(key, 1)) keys.push(key);
   return keys;
 };
 
-/** dateKey에 N일 더하기 (YYYY-MM-DD) */
-export const addDaysToDateKey = (dateKey: string, days: number): string => {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  const date = new Date(y, m - 1, d);
-  date.setDate(date.getDate() + days);
-  const pad = (v: number) => String(v).padStart(2, "0");
-  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+/** from → to 날짜 수 (to가 뒤면 양수) */
+export const getDaysBetween = (fromKey: string, toKey: string): number => {
+  const toUtc = (key: string) =>
+    Date.UTC(Number(key.slice(0, 4)), Number(key.slice(5, 7)) - 1, Number(key.slice(8, 10)));
+  return Math.round((toUtc(toKey) - toUtc(fromKey)) / (24 * 60 * 60 * 1000));
+};
+
+/** 최근 N주 월요일 dateKey 배열 (이번 주 포함) */
+export const getWeekStartKeysForLastNWeeks = (
+  n: number,
+  todayKey: string = getTodayKey()
+): string[] => {
+  const thisWeek = getWeekStartKey(todayKey);
+  const keys: string[] = [];
+  for (let i = 0; i < n; i++) keys.push(addDaysToDateKey(thisWeek, -i * 7));
+  return keys;
 };
 
-/** 다음 주 특정 요일의 dateKey (KST). weekday: 0=월 … 6=일 */
-export const getNextWeekDateKeyByWeekdayKST = (
+/** 다음 주 특정 요일의 dateKey. weekday: 0=월 … 6=일 */
+export const getNextWeekDateKeyByWeekday = (
   weekday: number,
-  from: Date = new Date()
+  todayKey: string = getTodayKey()
 ): string => {
-  const thisWeekMonday = getWeekStartKeyKST(from);
-  const nextWeekMonday = addDaysToDateKey(thisWeekMonday, 7);
+  const nextWeekMonday = addDaysToDateKey(getWeekStartKey(todayKey), 7);
   return addDaysToDateKey(nextWeekMonday, weekday);
 };
 
@@ -87,11 +71,8 @@ export const isDateKeyBefore = (a: string, b: string): boolean => a < b;
 /** dateKey 문자열 비교 (a <= b) */
 export const isDateKeyBeforeOrEqual = (a: string, b: string): boolean => a <= b;
 
-/** dateKey → 요일 한글 (로컬 기준). "월"|"화"|"수"|"목"|"금"|"토"|"일" */
+/** dateKey → 요일 한글. "월"|"화"|"수"|"목"|"금"|"토"|"일" */
 export const getWeekdayKoFromDateKey = (dateKey: string): string => {
-  const [y, m, d] = dateKey.split("-").map(Number);
-  const date = new Date(y, m - 1, d);
-  const day = date.getDay();
   const labels = ["일", "월", "화", "수", "목", "금", "토"];
-  return labels[day] ?? "?";
+  return labels[getWeekdayFromDateKey(dateKey)] ?? "?";
 };
@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildEffectTrend,
+  extractTodoKeywords,
+  getRecentEffectPeriodKeys,
+  normalizeEffects,
+  summarizeEffectsByGoalTrack,
+  summarizeEffectsByKeyword,
+  summarizeEffectTypes,
+} from "@/domain/effectStats";
+import { EffectType, type EffectLog } from "@/types/effect";
+
+const log = (overrides: Partial<EffectLog>): EffectLog => ({
+  id: "log",
+  todoId: "t1",
+  todoText: "",
+  dateKey: "2025-03-03",
+  goalTrackId: null,
+  effects: [],
+  createdAt: null,
+  ...overrides,
+});
+
+describe("normalizeEffects", () => {
+  it("모르는 종류·강도는 버린다", () => {
+    expect(
+      normalizeEffects([
+        { type: EffectType.FOCUS, intensity: 2 },
+        { type: "unknown", intensity: 1 },
+        { type: EffectType.ENERGY, intensity: 4 },
+        null,
+      ])
+    ).toEqual([{ type: EffectType.FOCUS, intensity: 2 }]);
+    expect(normalizeEffects("focus")).toEqual([]);
+  });
+});
+
+describe("summarizeEffectTypes", () => {
+  it("강도 합 내림차순, 비율은 강도 합 기준", () => {
+    const totals = summarizeEffectTypes([
+      { type: EffectType.FOCUS, intensity: 1 },
+      { type: EffectType.ENERGY, intensity: 3 },
+      { type: EffectType.FOCUS, intensity: 2 },
+      { type: EffectType.CLARITY, intensity: 2 },
+    ]);
+    expect(totals.map((total) => total.type)).toEqual([
+      EffectType.FOCUS,
+      EffectType.ENERGY,
+      EffectType.CLARITY,
+    ]);
+    expect(totals[0]).toEqual({ type: EffectType.FOCUS, count: 2, intensitySum: 3, share: 38 });
+  });
+});
+
+describe("getRecentEffectPeriodKeys", () => {
+  it("주는 월요일 dateKey, 달은 YYYY-MM (과거→현재)", () => {
+    expect(getRecentEffectPeriodKeys("2025-03-05", "week", 3)).toEqual([
+      "2025-02-17",
+      "2025-02-24",
+      "2025-03-03",
+    ]);
+    expect(getRecentEffectPeriodKeys("2025-02-10", "month", 3)).toEqual([
+      "2024-12",
+      "2025-01",
+      "2025-02",
+    ]);
+  });
+});
+
+describe("buildEffectTrend", () => {
+  it("기간별 강도 합. 기간 밖 기록은 빼고 빈 기간은 0", () => {
+    const trend = buildEffectTrend(
+      [
+        log({ dateKey: "2025-03-01", effects: [{ type: EffectType.FOCUS, intensity: 2 }] }),
+        log({ dateKey: "2025-03-20", effects: [{ type: EffectType.FOCUS, intensity: 1 }] }),
+        log({ dateKey: "2024-12-31", effects: [{ type: EffectType.FOCUS, intensity: 3 }] }),
+      ],
+      "month",
+      ["2025-02", "2025-03"]
+    );
+    expect(trend.map((bucket) => bucket.totals[EffectType.FOCUS])).toEqual([0, 3]);
+  });
+});
+
+describe("summarizeEffectsByGoalTrack / summarizeEffectsByKeyword", () => {
+  const focus = [{ type: EffectType.FOCUS, intensity: 2 as const }];
+
+  it("트랙 없는 투두와 지운 트랙은 뺀다", () => {
+    const summaries = summarizeEffectsByGoalTrack(
+      [
+        log({ goalTrackId: "g1", effects: focus }),
+        log({ goalTrackId: "g1", effects: focus }),
+        log({ goalTrackId: "deleted", effects: focus }),
+        log({ goalTrackId: null, effects: focus }),
+      ],
+      new Map([["g1", "영어"]])
+    );
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0]).toMatchObject({ key: "g1", label: "영어", count: 2 });
+  });
+
+  it("키워드는 두 번 이상 나온 것만", () => {
+    expect(extractTodoKeywords("영어 단어 30개, 영어!")).toEqual(["영어", "단어", "30개"]);
+    const summaries = summarizeEffectsByKeyword([
+      log({ todoText: "영어 단어", effects: focus }),
+      log({ todoText: "영어 듣기", effects: focus }),
+    ]);
+    expect(summaries.map((summary) => summary.key)).toEqual(["영어"]);
+  });
+});
@@ -0,0 +1,168 @@
+import { addDaysToDateKey, getWeekStartKey } from "@/domain/date";
+import {
+  EffectType,
+  type Effect,
+  type EffectLog,
+  type EffectPeriod,
+  type EffectSourceSummary,
+  type EffectTrendBucket,
+  type EffectTypeTotal,
+} from "@/types/effect";
+
+/** 화면에서 구독하는 효과 기록 기간 (월별 추이 6개월) */
+export const EFFECT_LOOKBACK_DAYS = 183;
+
+/** 추이에 보여 주는 기간 수 */
+export const EFFECT_TREND_PERIODS: Record<EffectPeriod, number> = {
+  week: 8,
+  month: 6,
+};
+
+/** 키워드로 보려면 이만큼은 완료돼야 한다 */
+const KEYWORD_MIN_COUNT = 2;
+const KEYWORD_LIMIT = 8;
+const KEYWORD_MIN_LENGTH = 2;
+
+const EFFECT_TYPES = Object.values(EffectType);
+
+/** 문서 id. 같은 날 같은 투두는 한 건 */
+export const buildEffectLogId = (dateKey: string, todoId: string): string =>
+  `${dateKey}_${todoId}`;
+
+/** 저장된 값 → 효과. 모르는 종류·강도는 버린다 */
+export const normalizeEffects = (value: unknown): Effect[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (item): item is Effect =>
+          Boolean(item) &&
+          EFFECT_TYPES.includes((item as Effect).type) &&
+          [1, 2, 3].includes((item as Effect).intensity)
+      )
+    : [];
+
+/** dateKey별 효과 (오늘 효과 수 등) */
+export const groupEffectsByDate = (logs: EffectLog[]): Record<string, Effect[]> => {
+  const byDate: Record<string, Effect[]> = {};
+  for (const log of logs) {
+    byDate[log.dateKey] = [...(byDate[log.dateKey] ?? []), ...log.effects];
+  }
+  return byDate;
+};
+
+/** 주: 그 주 월요일 dateKey, 달: YYYY-MM */
+export const getEffectPeriodKey = (dateKey: string, period: EffectPeriod): string =>
+  period === "week" ? getWeekStartKey(dateKey) : dateKey.slice(0, 7);
+
+/** todayKey가 속한 기간부터 거슬러 count개 (과거→현재 순) */
+export const getRecentEffectPeriodKeys = (
+  todayKey: string,
+  period: EffectPeriod,
+  count: number
+): string[] => {
+  const keys: string[] = [];
+  if (period === "week") {
+    const thisWeek = getWeekStartKey(todayKey);
+    for (let i = count - 1; i >= 0; i--) keys.push(addDaysToDateKey(thisWeek, -i * 7));
+    return keys;
+  }
+  const [year, month] = todayKey.split("-").map(Number);
+  for (let i = count - 1; i >= 0; i--) {
+    const index = year * 12 + (month - 1) - i;
+    keys.push(`${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`);
+  }
+  return keys;
+};
+
+const emptyTotals = (): Record<EffectType, number> =>
+  Object.fromEntries(EFFECT_TYPES.map((type) => [type, 0])) as Record<EffectType, number>;
+
+/** 효과 종류별 횟수·강도 합 (강도 합 내림차순, 0인 종류는 뺀다) */
+export const summarizeEffectTypes = (effects: Effect[]): EffectTypeTotal[] => {
+  const counts = emptyTotals();
+  const sums = emptyTotals();
+  for (const effect of effects) {
+    counts[effect.type] += 1;
+    sums[effect.type] += effect.intensity;
+  }
+  const total = EFFECT_TYPES.reduce((acc, type) => acc + sums[type], 0);
+  return EFFECT_TYPES.filter((type) => counts[type] > 0)
+    .map((type) => ({
+      type,
+      count: counts[type],
+      intensitySum: sums[type],
+      share: total > 0 ? Math.round((sums[type] / total) * 100) : 0,
+    }))
+    .sort((a, b) => b.intensitySum - a.intensitySum || b.count - a.count);
+};
+
+/** 기간별 효과 종류 강도 합. 기록 없는 기간도 0으로 채운다 */
+export const buildEffectTrend = (
+  logs: EffectLog[],
+  period: EffectPeriod,
+  periodKeys: string[]
+): EffectTrendBucket[] => {
+  const buckets = new Map(periodKeys.map((periodKey) => [periodKey, emptyTotals()]));
+  for (const log of logs) {
+    const totals = buckets.get(getEffectPeriodKey(log.dateKey, period));
+    if (!totals) continue;
+    for (const effect of log.effects) totals[effect.type] += effect.intensity;
+  }
+  return periodKeys.map((periodKey) => ({
+    periodKey,
+    totals: buckets.get(periodKey) ?? emptyTotals(),
+  }));
+};
+
+const summarizeSources = (
+  entries: Array<{ key: string; label: string; log: EffectLog }>
+): EffectSourceSummary[] => {
+  const grouped = new Map<string, { label: string; logs: EffectLog[] }>();
+  for (const entry of entries) {
+    const current = grouped.get(entry.key) ?? { label: entry.label, logs: [] };
+    current.logs.push(entry.log);
+    grouped.set(entry.key, current);
+  }
+  return [...grouped.entries()]
+    .map(([key, { label, logs }]) => ({
+      key,
+      label,
+      count: logs.length,
+      totals: summarizeEffectTypes(logs.flatMap((log) => log.effects)),
+    }))
+    .sort((a, b) => b.count - a.count);
+};
+
+/** 목표 트랙별로 어떤 효과가 나왔는지. 트랙 없는 투두와 지운 트랙은 뺀다 */
+export const summarizeEffectsByGoalTrack = (
+  logs: EffectLog[],
+  trackTitleById: Map<string, string>
+): EffectSourceSummary[] =>
+  summarizeSources(
+    logs.flatMap((log) => {
+      const title = log.goalTrackId ? trackTitleById.get(log.goalTrackId) : undefined;
+      return log.goalTrackId && title !== undefined
+        ? [{ key: log.goalTrackId, label: title || "목표", log }]
+        : [];
+    })
+  );
+
+/** 투두 문구 → 키워드 (공백으로 나누고 한글·영문·숫자만 남긴다) */
+export const extractTodoKeywords = (text: string): string[] => [
+  ...new Set(
+    text
+      .toLowerCase()
+      .split(/\s+/)
+      .map((word) => word.replace(/[^0-9a-z가-힣]/g, ""))
+      .filter((word) => word.length >= KEYWORD_MIN_LENGTH)
+  ),
+];
+
+/** 자주 나온 투두 키워드별 효과 (완료 수 많은 순) */
+export const summarizeEffectsByKeyword = (logs: EffectLog[]): EffectSourceSummary[] =>
+  summarizeSources(
+    logs.flatMap((log) =>
+      extractTodoKeywords(log.todoText).map((keyword) => ({ key: keyword, label: keyword, log }))
+    )
+  )
+    .filter((summary) => summary.count >= KEYWORD_MIN_COUNT)
+    .slice(0, KEYWORD_LIMIT);
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { calcCompletionRatios, calcDailyCounts } from "@/domain/execution";
+import type { GoalTrackEvent } from "@/types/goalTrackEvent";
+
+const event = (goalTrackId: string, dateKey: string): GoalTrackEvent => ({
+  id: `${goalTrackId}_${dateKey}`,
+  goalTrackId,
+  todoId: "t1",
+  todoText: "",
+  dateKey,
+  createdAt: new Date(0),
+});
+
+describe("calcDailyCounts", () => {
+  it("넘긴 날짜만, 없는 날은 0", () => {
+    expect(
+      calcDailyCounts(
+        [
+          event("g1", "2025-03-01"),
+          event("g1", "2025-03-01"),
+          event("g2", "2025-03-02"),
+          event("g1", "2025-02-01"),
+        ],
+        "g1",
+        ["2025-03-01", "2025-03-02"]
+      )
+    ).toEqual({ "2025-03-01": 2, "2025-03-02": 0 });
+  });
+});
+
+describe("calcCompletionRatios", () => {
+  it("날짜별 목표 연결 투두의 완료 수/전체 수. 기간은 dateKeys가 정한다", () => {
+    const todosByDateKey = {
+      "2025-02-20": [{ done: true, goalTrackId: "g1" }],
+      "2025-03-01": [
+        { done: true, goalTrackId: "g1" },
+        { done: false, goalTrackId: "g1" },
+        { done: true, goalTrackId: "g2" },
+        { done: true, goalTrackId: null },
+      ],
+    };
+    expect(
+      calcCompletionRatios(todosByDateKey, "g1", ["2025-02-28", "2025-03-01"])
+    ).toEqual({
+      "2025-02-28": { done: 0, total: 0 },
+      "2025-03-01": { done: 1, total: 2 },
+    });
+  });
+});
@@ -1,8 +1,8 @@
 import type { GoalTrackEvent } from "@/types/goalTrackEvent";
-import { getLocalDateKey } from "@/lib/date";
 import {
-  getWeekStartKeyKST,
-  getWeekEndKeyKST,
+  getTodayKey,
+  getWeekStartKey,
+  getWeekEndKey,
   getLastNDateKeys,
 } from "./date";
 
@@ -13,25 +13,24 @@ export const buildEventId = (
   dateKey: string
 ): string => `${goalTrackId}_${todoId}_${dateKey}`;
 
-/** 오늘 실행 수 (getLocalDateKey와 일치) */
+/** 오늘 실행 수 (사용자 시간대 기준) */
 export const calcTodayCount = (
   events: GoalTrackEvent[],
   goalTrackId: string
 ): number => {
-  const today = getLocalDateKey();
+  const today = getTodayKey();
   return events.filter(
     (e) => e.goalTrackId === goalTrackId && e.dateKey === today
   ).length;
 };
 
-/** 이번 주 실행 수 (월~일, 로컬 기준) */
+/** 이번 주 실행 수 (월~일, 사용자 시간대 기준) */
 export const calcWeekCount = (
   events: GoalTrackEvent[],
   goalTrackId: string
 ): number => {
-  const now = new Date();
-  const start = getWeekStartKeyKST(now);
-  const end = getWeekEndKeyKST(now);
+  const start = getWeekStartKey();
+  const end = getWeekEndKey();
   return events.filter(
     (e) =>
       e.goalTrackId === goalTrackId &&
@@ -40,21 +39,28 @@ export const calcWeekCount = (
   ).length;
 };
 
-/** 최근 7일별 실행 수 (오늘→6일전, dateKey → count) */
-export const calcLast7Days = (
+/** dateKeys별 실행 수 (dateKey → count). 기간은 호출하는 쪽이 정한다 */
+export const calcDailyCounts = (
   events: GoalTrackEvent[],
-  goalTrackId: string
+  goalTrackId: string,
+  keys: string[]
 ): Record<string, number> => {
-  const keys = getLastNDateKeys(7);
+  const keySet = new Set(keys);
   const map: Record<string, number> = {};
   keys.forEach((k) => (map[k] = 0));
   events
-    .filter((e) => e.goalTrackId === goalTrackId && keys.includes(e.dateKey))
+    .filter((e) => e.goalTrackId === goalTrackId && keySet.has(e.dateKey))
     .forEach((e) => (map[e.dateKey] = (map[e.dateKey] ?? 0) + 1));
   return map;
 };
 
-/** 최근 7일 중 실행한 날 수 (counts 기반) */
+/** 최근 7일별 실행 수 (오늘→6일전, dateKey → count) */
+export const calcLast7Days = (
+  events: GoalTrackEvent[],
+  goalTrackId: string
+): Record<string, number> => calcDailyCounts(events, goalTrackId, getLastNDateKeys(7));
+
+/** keys 중 실행한 날 수 (counts 기반) */
 export const getExecutedDayCount = (
   counts: Record<string, number>,
   keys: string[]
@@ -84,9 +90,11 @@ export const getDotStyleFromRatio = (
 /** 날짜별 목표 연결 투두 완료 비율. { dateKey: { done, total } } */
 export type CompletionRatioEntry = { done: number; total: number };
 
-/** 최근 7일별 완료 비율 (목표 연결 투두 기준) */
-export const calcLast7DaysCompletionRatios = (
-  todosByDateKey: Record<string, { done: boolean; goalTrackId?: string | null }[]>,
+type TodosByDateKey = Record<string, { done: boolean; goalTrackId?: string | null }[]>;
+
+/** dateKeys별 완료 비율 (목표 연결 투두 기준). 기간은 호출하는 쪽이 정한다 */
+export const calcCompletionRatios = (
+  todosByDateKey: TodosByDateKey,
   goalTrackId: string,
   dateKeys: string[]
 ): Record<string, CompletionRatioEntry> => {
@@ -103,19 +111,26 @@ export const calcLast7DaysCompletionRatios = (
   return result;
 };
 
+/** 최근 7일별 완료 비율 (오늘→6일전) */
+export const calcLast7DaysCompletionRatios = (
+  todosByDateKey: TodosByDateKey,
+  goalTrackId: string
+): Record<string, CompletionRatioEntry> =>
+  calcCompletionRatios(todosByDateKey, goalTrackId, getLastNDateKeys(7));
+
 /** 최근 7일 총 행동 수 */
 export const getTotalActionCount = (
   counts: Record<string, number>,
   keys: string[]
 ): number => keys.reduce((sum, k) => sum + (counts[k] ?? 0), 0);
 
-/** 최근 미실행 일수 (0=오늘 실행, 1=어제 실행, ... 7=7일간 미실행) - 패턴 로직용 */
+/** 최근 미실행 일수 (0=오늘 실행, 1=어제 실행, ... keys.length=기간 내내 미실행) - 패턴 로직용. keys는 최근→과거 순 */
 export const getRecentGap = (
   counts: Record<string, number>,
   keys: string[]
 ): number => {
   const idx = keys.findIndex((k) => (counts[k] ?? 0) > 0);
-  return idx === -1 ? 7 : idx;
+  return idx === -1 ? keys.length : idx;
 };
 
 /** 마지막 실행 문구 (gap 기반, UI 표시용) */
@@ -0,0 +1,144 @@
+import { getDaysBetween, getWeekStartKey } from "@/domain/date";
+import type {
+  GoalMetric,
+  GoalMetricPoint,
+  GoalMetricProjection,
+  GoalSenseSummary,
+} from "@/types/goalMetric";
+import type { GoalTrackWeeklyReview, OutcomeSense } from "@/types/goalTrackWeeklyReview";
+
+/** 추세는 최근 값 몇 개로만 잡는다 (오래된 값에 끌려가지 않도록) */
+export const METRIC_TREND_POINTS = 8;
+
+/** 체감 요약에서 보여 줄 최근 주 수 */
+export const SENSE_RECENT_WEEKS = 12;
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** 두 dateKey 사이 주 수 (소수 포함, b가 뒤면 양수) */
+export const weeksBetween = (a: string, b: string) => getDaysBetween(a, b) / 7;
+
+/** 저장된 지표 정의 → GoalMetric. 라벨이 없거나 형식이 틀리면 null */
+export const normalizeGoalMetric = (raw: unknown): GoalMetric | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const data = raw as Record<string, unknown>;
+  const label = typeof data.label === "string" ? data.label.trim() : "";
+  if (!label) return null;
+  return {
+    label,
+    unit: typeof data.unit === "string" ? data.unit.trim() : "",
+    direction: data.direction === "decrease" ? "decrease" : "increase",
+    targetValue:
+      typeof data.targetValue === "number" && Number.isFinite(data.targetValue)
+        ? data.targetValue
+        : null,
+    deadline:
+      typeof data.deadline === "string" && DATE_KEY_PATTERN.test(data.deadline)
+        ? data.deadline
+        : null,
+  };
+};
+
+/** 회고에서 지표 값만 모은 시계열 (오래된 순). 체감·생략 주는 뺀다 */
+export const buildMetricSeries = (reviews: GoalTrackWeeklyReview[]): GoalMetricPoint[] =>
+  reviews
+    .filter(
+      (review) =>
+        review.outcomeMode !== "sense" &&
+        review.outcomeMode !== "skip" &&
+        typeof review.metricValue === "number" &&
+        Number.isFinite(review.metricValue)
+    )
+    .map((review) => ({ weekStartKey: review.weekStartKey, value: review.metricValue as number }))
+    .sort((a, b) => a.weekStartKey.localeCompare(b.weekStartKey));
+
+/**
+ * 최근 값들의 최소제곱 직선. x는 첫 점부터의 주 수.
+ * 점이 2개 미만이거나 모두 같은 주면 null.
+ */
+export const fitMetricTrend = (
+  points: GoalMetricPoint[]
+): { originKey: string; slopePerWeek: number; intercept: number } | null => {
+  const recent = points.slice(-METRIC_TREND_POINTS);
+  if (recent.length < 2) return null;
+  const originKey = recent[0].weekStartKey;
+  const xs = recent.map((point) => weeksBetween(originKey, point.weekStartKey));
+  const ys = recent.map((point) => point.value);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  let numerator = 0;
+  let denominator = 0;
+  xs.forEach((x, index) => {
+    numerator += (x - meanX) * (ys[index] - meanY);
+    denominator += (x - meanX) ** 2;
+  });
+  if (denominator === 0) return null;
+  const slopePerWeek = numerator / denominator;
+  return { originKey, slopePerWeek, intercept: meanY - slopePerWeek * meanX };
+};
+
+/** 추세 직선의 dateKey 시점 값 */
+export const metricTrendValueAt = (
+  trend: { originKey: string; slopePerWeek: number; intercept: number },
+  dateKey: string
+): number => trend.intercept + trend.slopePerWeek * weeksBetween(trend.originKey, dateKey);
+
+/** 목표 값을 넘었는지 (방향 기준) */
+export const reachesTarget = (metric: GoalMetric, value: number): boolean =>
+  metric.targetValue !== null &&
+  (metric.direction === "increase" ? value >= metric.targetValue : value <= metric.targetValue);
+
+/**
+ * 지금 추세를 기한까지 그으면 얼마가 되는지. 기한이 없거나 추세를 못 잡으면 null.
+ * 최근 값이 이미 목표를 넘었으면 onTrack은 true.
+ */
+export const projectGoalMetric = (
+  metric: GoalMetric,
+  points: GoalMetricPoint[],
+  todayKey: string
+): GoalMetricProjection | null => {
+  if (!metric.deadline) return null;
+  const trend = fitMetricTrend(points);
+  if (!trend) return null;
+  const projectedValue = metricTrendValueAt(trend, metric.deadline);
+  const weeksLeft = Math.max(0, weeksBetween(getWeekStartKey(todayKey), metric.deadline));
+  const latest = points[points.length - 1].value;
+  return {
+    slopePerWeek: trend.slopePerWeek,
+    projectedValue,
+    weeksLeft,
+    onTrack:
+      metric.targetValue === null
+        ? null
+        : reachesTarget(metric, latest) || reachesTarget(metric, projectedValue),
+    requiredPerWeek:
+      metric.targetValue === null || weeksLeft === 0
+        ? null
+        : (metric.targetValue - latest) / weeksLeft,
+  };
+};
+
+/** 체감 기록 요약 (가까워짐/제자리/멀어짐 횟수, 최근 흐름, 이어진 주 수) */
+export const summarizeSense = (reviews: GoalTrackWeeklyReview[]): GoalSenseSummary => {
+  const entries = reviews
+    .filter(
+      (review): review is GoalTrackWeeklyReview & { sense: OutcomeSense } =>
+        review.outcomeMode === "sense" && !!review.sense
+    )
+    .map((review) => ({ weekStartKey: review.weekStartKey, sense: review.sense }))
+    .sort((a, b) => a.weekStartKey.localeCompare(b.weekStartKey));
+  const counts: Record<OutcomeSense, number> = { closer: 0, same: 0, farther: 0 };
+  for (const entry of entries) counts[entry.sense] += 1;
+  let streak: GoalSenseSummary["streak"] = null;
+  for (let index = entries.length - 1; index >= 0; index--) {
+    if (!streak) streak = { sense: entries[index].sense, weeks: 1 };
+    else if (entries[index].sense === streak.sense) streak.weeks += 1;
+    else break;
+  }
+  return {
+    counts,
+    total: entries.length,
+    recent: entries.slice(-SENSE_RECENT_WEEKS),
+    streak,
+  };
+};
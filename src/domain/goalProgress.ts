@@ -0,0 +1,53 @@
+import type { GoalTrackEvent } from "@/types/goalTrackEvent";
+
+const dayIndex = (dateKey: string): number => {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / 86400000);
+};
+
+/** 연결된 목표들의 실행이 있었던 날짜 (중복 제거) */
+export const getExecutedDateKeys = (
+  events: GoalTrackEvent[],
+  goalTrackIds: string[]
+): string[] => {
+  const ids = new Set(goalTrackIds);
+  const keys = new Set<string>();
+  for (const e of events) {
+    if (ids.has(e.goalTrackId) && e.dateKey) keys.add(e.dateKey);
+  }
+  return Array.from(keys).sort();
+};
+
+/**
+ * 진행률에 들어가는 실행 날짜 범위: 시작일 ~ (데드라인과 오늘 중 이른 날).
+ * 데드라인이 시작일보다 앞이면 데드라인은 무시한다.
+ */
+export const getYearGoalExecutionWindow = (args: {
+  startDateKey: string;
+  deadlineDate?: string;
+  todayKey: string;
+}): { fromKey: string; toKey: string } => {
+  const { startDateKey, deadlineDate, todayKey } = args;
+  const endKey = deadlineDate && deadlineDate >= startDateKey ? deadlineDate : todayKey;
+  return { fromKey: startDateKey, toKey: endKey < todayKey ? endKey : todayKey };
+};
+
+/**
+ * 1년 목표 진행률 (0~100).
+ * 데드라인이 있으면 시작일~데드라인 전체 일수 중 실행한 날의 비율,
+ * 없으면 시작일~오늘 경과 일수 중 실행한 날의 비율.
+ */
+export const calcYearGoalProgress = (args: {
+  executedDateKeys: string[];
+  startDateKey: string;
+  deadlineDate?: string;
+  todayKey: string;
+}): number => {
+  const { executedDateKeys, startDateKey, deadlineDate, todayKey } = args;
+  const endKey = deadlineDate && deadlineDate >= startDateKey ? deadlineDate : todayKey;
+  const totalDays = dayIndex(endKey) - dayIndex(startDateKey) + 1;
+  if (totalDays <= 0) return 0;
+  const { fromKey, toKey } = getYearGoalExecutionWindow(args);
+  const executed = executedDateKeys.filter((k) => k >= fromKey && k <= toKey).length;
+  return Math.min(100, Math.round((executed / totalDays) * 100));
+};
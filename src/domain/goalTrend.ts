@@ -0,0 +1,74 @@
+import { addDaysToDateKey, getDateKeysBetween, getWeekStartKey } from "@/domain/date";
+import { calcCompletionRatios, calcDailyCounts } from "@/domain/execution";
+import type { GoalTrackEvent } from "@/types/goalTrackEvent";
+import type { GoalTrackWeeklyReview } from "@/types/goalTrackWeeklyReview";
+import type { GoalTrend, GoalTrendRange, GoalTrendWeek } from "@/types/goalTrend";
+import type { TodoItem } from "@/types/todo";
+
+export const GOAL_TREND_RANGES: GoalTrendRange[] = [4, 12, 52];
+
+/** 추이 기간: 이번 주 포함 weeks주의 첫 월요일 ~ 오늘 */
+export const getGoalTrendBounds = (
+  todayKey: string,
+  weeks: number
+): { fromKey: string; toKey: string } => ({
+  fromKey: addDaysToDateKey(getWeekStartKey(todayKey), -(weeks - 1) * 7),
+  toKey: todayKey,
+});
+
+/**
+ * 목표 트랙 하나의 주별 추이. 실행한 날(goalTrackEvents), 연결 투두 완료율(todosByDateKey),
+ * 회고 상태·결과 스냅샷을 같은 주 축에 모은다. 오늘 이후 날짜는 세지 않는다.
+ */
+export const buildGoalTrend = (args: {
+  goalTrackId: string;
+  todayKey: string;
+  weeks: number;
+  events: GoalTrackEvent[];
+  todosByDateKey: Record<string, TodoItem[]>;
+  reviews: GoalTrackWeeklyReview[];
+}): GoalTrend => {
+  const { fromKey, toKey } = getGoalTrendBounds(args.todayKey, args.weeks);
+  const dateKeys = getDateKeysBetween(fromKey, toKey);
+  const counts = calcDailyCounts(args.events, args.goalTrackId, dateKeys);
+  const ratios = calcCompletionRatios(args.todosByDateKey, args.goalTrackId, dateKeys);
+  const reviewByWeek = new Map(
+    args.reviews
+      .filter((review) => review.goalTrackId === args.goalTrackId)
+      .map((review) => [review.weekStartKey, review])
+  );
+
+  const weeks: GoalTrendWeek[] = [];
+  for (let i = 0; i < args.weeks; i++) {
+    const weekStartKey = addDaysToDateKey(fromKey, i * 7);
+    const keys = dateKeys.filter(
+      (key) => key >= weekStartKey && key <= addDaysToDateKey(weekStartKey, 6)
+    );
+    const todoDone = keys.reduce((sum, key) => sum + (ratios[key]?.done ?? 0), 0);
+    const todoTotal = keys.reduce((sum, key) => sum + (ratios[key]?.total ?? 0), 0);
+    const review = reviewByWeek.get(weekStartKey);
+    weeks.push({
+      weekStartKey,
+      executedDays: keys.filter((key) => (counts[key] ?? 0) > 0).length,
+      eventCount: keys.reduce((sum, key) => sum + (counts[key] ?? 0), 0),
+      todoDone,
+      todoTotal,
+      completionRate: todoTotal > 0 ? Math.round((todoDone / todoTotal) * 100) : null,
+      status: review?.status ?? null,
+      metricValue:
+        review?.outcomeMode === "metric" && typeof review.metricValue === "number"
+          ? review.metricValue
+          : null,
+      sense: review?.outcomeMode === "sense" ? (review.sense ?? null) : null,
+    });
+  }
+
+  const latestMetric = [...reviewByWeek.values()]
+    .filter((review) => review.outcomeMode === "metric")
+    .sort((a, b) => b.weekStartKey.localeCompare(a.weekStartKey))[0];
+  return {
+    weeks,
+    metricLabel: latestMetric?.metricLabel ?? "",
+    metricUnit: latestMetric?.metricUnit ?? "",
+  };
+};
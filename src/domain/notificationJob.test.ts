@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildNotificationJobId,
+  buildSettingsJobs,
+  buildTodoDueJobs,
+  buildTodoSnoozeJob,
+} from "@/domain/notificationJob";
+
+describe("buildNotificationJobId", () => {
+  it("사용자·종류·dedupeKey로 만든다", () => {
+    expect(buildNotificationJobId("u1", "todoDue", "2025-03-01_t1_before")).toBe(
+      "u1_todoDue_2025-03-01_t1_before"
+    );
+  });
+});
+
+describe("buildTodoDueJobs", () => {
+  const dueAt = new Date("2025-03-01T09:00:30Z");
+
+  it("N분 전과 지남 두 건 (분 단위로 내림)", () => {
+    const jobs = buildTodoDueJobs("u1", "2025-03-01", "t1", dueAt, 10, new Date("2025-03-01T08:00:00Z"));
+    expect(jobs.map((job) => [job.dedupeKey, job.fireAt.toISOString()])).toEqual([
+      ["2025-03-01_t1_before", "2025-03-01T08:50:00.000Z"],
+      ["2025-03-01_t1_overdue", "2025-03-01T09:05:00.000Z"],
+    ]);
+    expect(jobs[0].payload.data).toEqual({
+      dateKey: "2025-03-01",
+      todoId: "t1",
+      kind: "before",
+      dueAt: dueAt.toISOString(),
+    });
+    expect(jobs[0].payload.link).toBe("/?tab=todos&date=2025-03-01&todo=t1");
+  });
+
+  it("이미 지난 시각은 뺀다", () => {
+    const jobs = buildTodoDueJobs("u1", "2025-03-01", "t1", dueAt, 10, new Date("2025-03-01T08:55:00Z"));
+    expect(jobs.map((job) => job.dedupeKey)).toEqual(["2025-03-01_t1_overdue"]);
+  });
+});
+
+describe("buildTodoSnoozeJob", () => {
+  it("같은 투두는 같은 dedupeKey로 덮어쓴다", () => {
+    const now = new Date("2025-03-01T09:10:00Z");
+    const job = buildTodoSnoozeJob("u1", "2025-03-01", "t1", new Date("2025-03-01T09:00:00Z"), 10, now);
+    expect(job.dedupeKey).toBe("2025-03-01_t1_snooze");
+    expect(job.fireAt.toISOString()).toBe("2025-03-01T09:20:00.000Z");
+  });
+});
+
+describe("buildSettingsJobs", () => {
+  const source = {
+    timeZone: "Asia/Seoul",
+    wakeEnabled: true,
+    wakeTimes: ["07:00"],
+    protectEnabled: true,
+    protectWindows: [
+      { id: "w1", label: "", start: "23:00", end: "01:00", weekdays: [5, 6], distractionApps: [] },
+    ],
+    weeklyReviewEnabled: true,
+    weeklyReviewTime: "21:00",
+    goalTracks: [{ id: "g1", title: "영어", reviewWeekday: 0 }],
+  };
+  const now = new Date("2025-03-01T00:00:00Z");
+
+  it("켜진 설정마다 반복 예약", () => {
+    const jobs = buildSettingsJobs("u1", source, now);
+    expect(jobs.map((job) => `${job.type}:${job.dedupeKey}`)).toEqual([
+      "wake:0700",
+      "protectStart:w1",
+      "protectEnd:w1",
+      "weeklyReview:g1",
+    ]);
+    expect(jobs.every((job) => job.fireAt.getTime() > now.getTime())).toBe(true);
+  });
+
+  it("자정을 넘기는 보호 시간은 다음 날 요일에 끝난다", () => {
+    const end = buildSettingsJobs("u1", source, now).find((job) => job.type === "protectEnd");
+    expect(end?.recurrence?.weekdays).toEqual([6, 0]);
+  });
+
+  it("꺼진 설정은 만들지 않는다", () => {
+    expect(
+      buildSettingsJobs(
+        "u1",
+        { ...source, wakeEnabled: false, protectEnabled: false, weeklyReviewEnabled: false },
+        now
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,193 @@
+import { getNextRecurrenceFireAt } from "@/lib/dateKey";
+import type {
+  NotificationJobInput,
+  NotificationJobType,
+  NotificationPayload,
+  NotificationRecurrence,
+} from "@/types/notificationJob";
+import type { GoalTrack } from "@/types/goalTrack";
+import type { ProtectWindow } from "@/types/settings";
+import { crossesMidnight } from "./protect";
+import {
+  buildDueReminderSlots,
+  buildSnoozeSendAt,
+  buildTodoDueDedupeKey,
+  buildTodoDuePayload,
+} from "./todoReminder";
+import { buildWeeklyReviewDeepLink } from "./weeklyReview";
+
+/** 문서 id. 같은 사용자·종류·dedupeKey면 같은 문서 (functions/index.js와 같은 규칙) */
+export const buildNotificationJobId = (
+  userId: string,
+  type: NotificationJobType,
+  dedupeKey: string
+): string => `${userId}_${type}_${dedupeKey}`;
+
+/** 설정에서 만들어지는 반복 예약 종류 (설정이 바뀌면 통째로 다시 맞춘다) */
+export const SETTINGS_JOB_TYPES: NotificationJobType[] = [
+  "wake",
+  "protectStart",
+  "protectEnd",
+  "weeklyReview",
+];
+
+const buildRecurringJob = (
+  userId: string,
+  type: NotificationJobType,
+  dedupeKey: string,
+  recurrence: NotificationRecurrence,
+  payload: NotificationPayload,
+  now: Date
+): NotificationJobInput | null => {
+  const fireAt = getNextRecurrenceFireAt(recurrence, now);
+  return fireAt ? { userId, type, dedupeKey, recurrence, payload, fireAt } : null;
+};
+
+export type SettingsJobSource = {
+  timeZone: string;
+  wakeEnabled: boolean;
+  wakeTimes: string[];
+  protectEnabled: boolean;
+  protectWindows: ProtectWindow[];
+  weeklyReviewEnabled: boolean;
+  weeklyReviewTime: string;
+  goalTracks: Pick<GoalTrack, "id" | "title" | "reviewWeekday">[];
+};
+
+/** 기상·보호 시간·평가 요일 설정 → 반복 예약 목록 */
+export const buildSettingsJobs = (
+  userId: string,
+  source: SettingsJobSource,
+  now: Date = new Date()
+): NotificationJobInput[] => {
+  const daily = (time: string): NotificationRecurrence => ({
+    time,
+    timeZone: source.timeZone,
+    weekdays: [],
+  });
+  const jobs: Array<NotificationJobInput | null> = [];
+  if (source.wakeEnabled) {
+    for (const time of source.wakeTimes) {
+      jobs.push(
+        buildRecurringJob(
+          userId,
+          "wake",
+          time.replace(":", ""),
+          daily(time),
+          {
+            title: "기상 알림",
+            body: `설정한 기상 시간(${time})이에요.`,
+            link: "/?tab=wake",
+            data: { wakeTime: time },
+          },
+          now
+        )
+      );
+    }
+  }
+  if (source.protectEnabled) {
+    for (const window of source.protectWindows) {
+      const name = window.label ? `${window.label} 보호 시간` : "보호 시간";
+      // 자정을 넘기는 구간은 다음 날 요일에 끝난다
+      const endWeekdays = crossesMidnight(window)
+        ? window.weekdays.map((day) => (day + 1) % 7)
+        : window.weekdays;
+      jobs.push(
+        buildRecurringJob(
+          userId,
+          "protectStart",
+          window.id,
+          { time: window.start, timeZone: source.timeZone, weekdays: window.weekdays },
+          {
+            title: "보호 시간",
+            body: `지금부터 ${window.end}까지 ${name}이에요.`,
+            link: "/?tab=shield",
+            data: { windowId: window.id },
+          },
+          now
+        ),
+        buildRecurringJob(
+          userId,
+          "protectEnd",
+          window.id,
+          { time: window.end, timeZone: source.timeZone, weekdays: endWeekdays },
+          {
+            title: "보호 시간 끝",
+            body: `${name}이 끝났어요. 오늘 지킨 시간을 확인해 보세요.`,
+            link: "/?tab=shield",
+            data: { windowId: window.id },
+          },
+          now
+        )
+      );
+    }
+  }
+  if (source.weeklyReviewEnabled) {
+    for (const track of source.goalTracks) {
+      // 본문의 최근 7일 실행 요약은 스케줄러가 보낼 때 채운다
+      jobs.push(
+        buildRecurringJob(
+          userId,
+          "weeklyReview",
+          track.id,
+          {
+            time: source.weeklyReviewTime,
+            timeZone: source.timeZone,
+            weekdays: [track.reviewWeekday ?? 6],
+          },
+          {
+            title: "주간 평가",
+            body: `오늘은 '${track.title}' 평가하는 날이에요.`,
+            link: buildWeeklyReviewDeepLink(track.id),
+            data: { goalTrackId: track.id },
+          },
+          now
+        )
+      );
+    }
+  }
+  return jobs.filter((job): job is NotificationJobInput => job !== null);
+};
+
+/** 다시 맞출 필요가 있는지 비교하는 값 (fireAt 제외) */
+export const getJobsSignature = (jobs: NotificationJobInput[]): string =>
+  JSON.stringify(
+    jobs
+      .map((job) => [job.type, job.dedupeKey, job.recurrence, job.payload])
+      .sort((a, b) => `${a[0]}_${a[1]}`.localeCompare(`${b[0]}_${b[1]}`))
+  );
+
+/** 마감 "N분 전"·"지남" 예약 (이미 지난 시각은 뺀다) */
+export const buildTodoDueJobs = (
+  userId: string,
+  dateKey: string,
+  todoId: string,
+  dueAt: Date,
+  leadMinutes: number,
+  now: Date = new Date()
+): NotificationJobInput[] =>
+  buildDueReminderSlots(dueAt, leadMinutes, now).map((slot) => ({
+    userId,
+    type: "todoDue",
+    dedupeKey: buildTodoDueDedupeKey(dateKey, todoId, slot.kind),
+    fireAt: slot.sendAt,
+    recurrence: null,
+    payload: buildTodoDuePayload(dateKey, todoId, slot.kind, dueAt),
+  }));
+
+/** 미루기 예약. 같은 투두를 또 미루면 덮어쓴다 */
+export const buildTodoSnoozeJob = (
+  userId: string,
+  dateKey: string,
+  todoId: string,
+  dueAt: Date,
+  minutes: number,
+  now: Date = new Date()
+): NotificationJobInput => ({
+  userId,
+  type: "todoDue",
+  dedupeKey: buildTodoDueDedupeKey(dateKey, todoId, "snooze"),
+  fireAt: buildSnoozeSendAt(minutes, now),
+  recurrence: null,
+  payload: buildTodoDuePayload(dateKey, todoId, "snooze", dueAt),
+});
@@ -0,0 +1,244 @@
+import { parseTimeToMinutes } from "@/lib/date";
+import { addDaysToDateKey, getWeekdayFromDateKey, zonedTimeToDate } from "@/lib/dateKey";
+import type { DistractionApp, ProtectWindow } from "@/types/settings";
+import type {
+  ProtectAppSummary,
+  ProtectBypass,
+  ProtectBypassInput,
+  ProtectSessionInput,
+} from "@/types/protectSession";
+
+const MINUTE_MS = 60 * 1000;
+
+const DAY_MINUTES = 24 * 60;
+
+/** 예전 단일 보호 시간(protectStart~protectEnd)을 옮긴 구간 id */
+export const DEFAULT_PROTECT_WINDOW_ID = "default";
+
+export const PROTECT_WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+const isTime = (value: unknown): value is string =>
+  typeof value === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+/** 저장된 방해 앱 목록 정리. 비어 있으면 fallback */
+export const normalizeDistractionApps = (
+  value: unknown,
+  fallback: DistractionApp[]
+): DistractionApp[] => {
+  if (!Array.isArray(value) || value.length === 0) return fallback;
+  return value.map((app: Partial<DistractionApp>, index) => ({
+    id: typeof app?.id === "string" && app.id ? app.id : `${Date.now()}-${index}`,
+    label: typeof app?.label === "string" && app.label ? app.label : "앱",
+    minutes: typeof app?.minutes === "number" && app.minutes > 0 ? app.minutes : 5,
+  }));
+};
+
+/**
+ * 저장된 보호 시간 구간 정리. 구간 목록이 없던 예전 문서는
+ * protectStart~protectEnd 매일 한 구간(id "default")으로 옮긴다.
+ */
+export const normalizeProtectWindows = (
+  value: unknown,
+  legacy: { protectStart: string; protectEnd: string; distractionApps: DistractionApp[] }
+): ProtectWindow[] => {
+  if (!Array.isArray(value)) {
+    return [
+      {
+        id: DEFAULT_PROTECT_WINDOW_ID,
+        label: "",
+        weekdays: [],
+        start: legacy.protectStart,
+        end: legacy.protectEnd,
+        distractionApps: legacy.distractionApps,
+      },
+    ];
+  }
+  return value
+    .filter((item: Partial<ProtectWindow>) => isTime(item?.start) && isTime(item?.end))
+    .map((item: Partial<ProtectWindow>, index) => ({
+      id: typeof item.id === "string" && item.id ? item.id : `window-${index}`,
+      label: typeof item.label === "string" ? item.label : "",
+      weekdays: Array.isArray(item.weekdays)
+        ? Array.from(
+            new Set(item.weekdays.filter((day) => Number.isInteger(day) && day >= 0 && day <= 6))
+          ).sort((a, b) => a - b)
+        : [],
+      start: item.start as string,
+      end: item.end as string,
+      distractionApps: normalizeDistractionApps(item.distractionApps, legacy.distractionApps),
+    }));
+};
+
+/** 자정을 넘기는 구간인지 (end <= start) */
+export const crossesMidnight = (window: Pick<ProtectWindow, "start" | "end">): boolean =>
+  (parseTimeToMinutes(window.end) ?? 0) <= (parseTimeToMinutes(window.start) ?? 0);
+
+export const formatProtectWeekdays = (weekdays: number[]): string => {
+  if (weekdays.length === 0 || weekdays.length === 7) return "매일";
+  const joined = weekdays.join(",");
+  if (joined === "1,2,3,4,5") return "평일";
+  if (joined === "0,6") return "주말";
+  return weekdays.map((day) => PROTECT_WEEKDAY_LABELS[day]).join("·");
+};
+
+/** "평일 07:00~12:00", "저녁 매일 22:00~다음 날 01:00" */
+export const formatProtectWindow = (window: ProtectWindow): string => {
+  const end = crossesMidnight(window) ? `다음 날 ${window.end}` : window.end;
+  const label = window.label ? `${window.label} ` : "";
+  return `${label}${formatProtectWeekdays(window.weekdays)} ${window.start}~${end}`;
+};
+
+/** 구간이 실제로 열리는 한 번 */
+export type ProtectWindowOccurrence = {
+  window: ProtectWindow;
+  /** 구간이 시작하는 날 (사용자 시간대 달력 날짜) */
+  dateKey: string;
+  /** 지금부터 시작·끝까지 분. 이미 시작했으면 startsIn이 0 이하 */
+  startsInMinutes: number;
+  endsInMinutes: number;
+};
+
+/**
+ * 지금 열려 있는 구간과 다음에 열릴 구간.
+ * 어제 시작해서 자정을 넘긴 구간도 본다. 다음 구간은 일주일 안에서 찾는다.
+ */
+export const findProtectWindows = (
+  windows: ProtectWindow[],
+  calendarKey: string,
+  nowMinutes: number
+): { active: ProtectWindowOccurrence | null; next: ProtectWindowOccurrence | null } => {
+  const occurrences: ProtectWindowOccurrence[] = [];
+  for (let offset = -1; offset <= 7; offset += 1) {
+    const dateKey = addDaysToDateKey(calendarKey, offset);
+    const weekday = getWeekdayFromDateKey(dateKey);
+    for (const window of windows) {
+      if (window.weekdays.length > 0 && !window.weekdays.includes(weekday)) continue;
+      const start = parseTimeToMinutes(window.start) ?? 0;
+      const end = (parseTimeToMinutes(window.end) ?? 0) + (crossesMidnight(window) ? DAY_MINUTES : 0);
+      const base = offset * DAY_MINUTES - nowMinutes;
+      occurrences.push({
+        window,
+        dateKey,
+        startsInMinutes: base + start,
+        endsInMinutes: base + end,
+      });
+    }
+  }
+  const active =
+    occurrences
+      .filter((item) => item.startsInMinutes <= 0 && item.endsInMinutes > 0)
+      // 겹치면 가장 늦게 끝나는 구간
+      .sort((a, b) => b.endsInMinutes - a.endsInMinutes)[0] ?? null;
+  const next =
+    occurrences
+      .filter((item) => item.startsInMinutes > 0)
+      .sort((a, b) => a.startsInMinutes - b.startsInMinutes)[0] ?? null;
+  return { active, next };
+};
+
+/** 문서 id = dateKey_windowId (같은 날 같은 구간은 한 문서) */
+export const buildProtectSessionId = (dateKey: string, windowId: string): string =>
+  `${dateKey}_${windowId}`;
+
+/** 열려 있는 구간 → 세션 문서. dateKey는 구간이 시작한 날 (자정을 넘겨도 같은 세션) */
+export const buildProtectSession = (
+  occurrence: ProtectWindowOccurrence,
+  timeZone: string
+): ProtectSessionInput => {
+  const { window, dateKey } = occurrence;
+  const endDateKey = crossesMidnight(window) ? addDaysToDateKey(dateKey, 1) : dateKey;
+  return {
+    dateKey,
+    windowId: window.id,
+    start: window.start,
+    end: window.end,
+    startsAt: zonedTimeToDate(dateKey, window.start, timeZone),
+    endsAt: zonedTimeToDate(endDateKey, window.end, timeZone),
+  };
+};
+
+/** 타이머 시작 기록. 보호 시간 밖이면 session을 null로 */
+export const buildProtectBypass = (
+  session: (ProtectSessionInput & { id: string }) | null,
+  dateKey: string,
+  app: { id: string; label: string },
+  minutes: number,
+  now: Date = new Date()
+): ProtectBypassInput => ({
+  sessionId: session?.id ?? null,
+  dateKey,
+  appId: app.id,
+  appLabel: app.label,
+  minutes,
+  startedAt: now,
+  endsAt: new Date(now.getTime() + minutes * MINUTE_MS),
+  protectStartsAt: session?.startsAt ?? null,
+  protectEndsAt: session?.endsAt ?? null,
+});
+
+/** 타이머가 보호 시간 안에 끝나는지 (끝난 뒤에도 계속 쓰면 초과) */
+export const endsInProtectTime = (bypass: ProtectBypassInput): boolean =>
+  bypass.protectEndsAt !== null && bypass.endsAt.getTime() < bypass.protectEndsAt.getTime();
+
+const overlapMinutes = (from: number, to: number, rangeFrom: number, rangeTo: number) =>
+  Math.max(0, Math.min(to, rangeTo) - Math.max(from, rangeFrom)) / MINUTE_MS;
+
+/** 돌아온 시각까지 보호 시간 안에서 초과로 쓴 분 (타이머 종료 ~ 돌아옴) */
+export const calcOverrunMinutes = (bypass: ProtectBypassInput, endedAt: Date): number => {
+  if (!bypass.protectStartsAt || !bypass.protectEndsAt) return 0;
+  return Math.round(
+    overlapMinutes(
+      bypass.endsAt.getTime(),
+      endedAt.getTime(),
+      bypass.protectStartsAt.getTime(),
+      bypass.protectEndsAt.getTime()
+    )
+  );
+};
+
+/**
+ * 기록 하나가 보호 시간 안에서 쓴 분.
+ * 돌아온 기록은 시작~돌아옴, 아직이면 시작~min(지금, 타이머 종료)로 센다
+ * (돌아오지 않고 앱을 닫은 기록이 끝없이 늘어나지 않도록).
+ */
+export const calcBypassProtectMinutes = (bypass: ProtectBypass, now: Date = new Date()): number => {
+  if (!bypass.protectStartsAt || !bypass.protectEndsAt) return 0;
+  const end = bypass.endedAt
+    ? bypass.endedAt.getTime()
+    : Math.min(now.getTime(), bypass.endsAt.getTime());
+  return overlapMinutes(
+    bypass.startedAt.getTime(),
+    end,
+    bypass.protectStartsAt.getTime(),
+    bypass.protectEndsAt.getTime()
+  );
+};
+
+/** 하루 기록 → 앱별 보호 시간 사용 요약 (많이 쓴 순) */
+export const summarizeProtectBypasses = (
+  bypasses: ProtectBypass[],
+  now: Date = new Date()
+): ProtectAppSummary[] => {
+  const byApp = new Map<string, ProtectAppSummary>();
+  for (const bypass of bypasses) {
+    if (!bypass.sessionId) continue;
+    const summary = byApp.get(bypass.appId) ?? {
+      appId: bypass.appId,
+      appLabel: bypass.appLabel,
+      bypassCount: 0,
+      minutes: 0,
+      overrunCount: 0,
+      overrunMinutes: 0,
+    };
+    summary.bypassCount += 1;
+    summary.minutes += calcBypassProtectMinutes(bypass, now);
+    if (bypass.overran) {
+      summary.overrunCount += 1;
+      summary.overrunMinutes += bypass.overrunMinutes ?? 0;
+    }
+    byApp.set(bypass.appId, summary);
+  }
+  return Array.from(byApp.values())
+    .map((summary) => ({ ...summary, minutes: Math.round(summary.minutes) }))
+    .sort((a, b) => b.minutes - a.minutes);
+};
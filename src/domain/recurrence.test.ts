@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRecurringTodoId,
+  describeRecurrenceRule,
+  isRecurrenceDueOn,
+  matchesRecurrenceRule,
+  normalizeRecurrenceRule,
+} from "@/domain/recurrence";
+import type { TodoRecurrence } from "@/types/recurrence";
+
+const recurrence = (overrides: Partial<TodoRecurrence> = {}): TodoRecurrence => ({
+  id: "r1",
+  text: "운동",
+  goalTrackId: null,
+  rule: { kind: "daily" },
+  startDateKey: "2025-03-01",
+  endDateKey: null,
+  skippedDateKeys: [],
+  createdAt: "2025-03-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("matchesRecurrenceRule", () => {
+  it("weekdays는 요일로 본다", () => {
+    const rule = { kind: "weekdays" as const, weekdays: [1, 3] };
+    expect(matchesRecurrenceRule(rule, "2025-03-01", "2025-03-03")).toBe(true); // 월
+    expect(matchesRecurrenceRule(rule, "2025-03-01", "2025-03-04")).toBe(false); // 화
+  });
+
+  it("interval은 시작일부터 센다", () => {
+    const rule = { kind: "interval" as const, everyDays: 3 };
+    expect(matchesRecurrenceRule(rule, "2025-03-01", "2025-03-01")).toBe(true);
+    expect(matchesRecurrenceRule(rule, "2025-03-01", "2025-03-04")).toBe(true);
+    expect(matchesRecurrenceRule(rule, "2025-03-01", "2025-03-05")).toBe(false);
+    expect(matchesRecurrenceRule(rule, "2025-03-01", "2025-02-26")).toBe(false);
+  });
+
+  it("monthly 31일은 짧은 달에 말일", () => {
+    const rule = { kind: "monthly" as const, dayOfMonth: 31 };
+    expect(matchesRecurrenceRule(rule, "2025-01-01", "2025-02-28")).toBe(true);
+    expect(matchesRecurrenceRule(rule, "2025-01-01", "2024-02-29")).toBe(true);
+    expect(matchesRecurrenceRule(rule, "2025-01-01", "2025-03-30")).toBe(false);
+    expect(matchesRecurrenceRule(rule, "2025-01-01", "2025-03-31")).toBe(true);
+  });
+});
+
+describe("isRecurrenceDueOn", () => {
+  it("시작 전·종료 후·건너뛴 날은 만들지 않는다", () => {
+    const item = recurrence({ endDateKey: "2025-03-10", skippedDateKeys: ["2025-03-05"] });
+    expect(isRecurrenceDueOn(item, "2025-02-28")).toBe(false);
+    expect(isRecurrenceDueOn(item, "2025-03-01")).toBe(true);
+    expect(isRecurrenceDueOn(item, "2025-03-05")).toBe(false);
+    expect(isRecurrenceDueOn(item, "2025-03-10")).toBe(true);
+    expect(isRecurrenceDueOn(item, "2025-03-11")).toBe(false);
+  });
+});
+
+describe("normalizeRecurrenceRule", () => {
+  it("잘못된 값은 null", () => {
+    expect(normalizeRecurrenceRule(null)).toBeNull();
+    expect(normalizeRecurrenceRule({ kind: "yearly" })).toBeNull();
+    expect(normalizeRecurrenceRule({ kind: "weekdays", weekdays: [7, -1] })).toBeNull();
+    expect(normalizeRecurrenceRule({ kind: "interval", everyDays: 0 })).toBeNull();
+    expect(normalizeRecurrenceRule({ kind: "monthly", dayOfMonth: 32 })).toBeNull();
+  });
+
+  it("요일은 걸러서 정렬한다", () => {
+    expect(normalizeRecurrenceRule({ kind: "weekdays", weekdays: [5, "1", 1, 9] })).toEqual({
+      kind: "weekdays",
+      weekdays: [1, 5],
+    });
+    expect(normalizeRecurrenceRule({ kind: "interval", everyDays: 2.5 })).toEqual({
+      kind: "interval",
+      everyDays: 2,
+    });
+  });
+});
+
+describe("describeRecurrenceRule / buildRecurringTodoId", () => {
+  it("규칙 설명", () => {
+    expect(describeRecurrenceRule({ kind: "weekdays", weekdays: [1, 3, 5] })).toBe("매주 월·수·금");
+    expect(describeRecurrenceRule({ kind: "interval", everyDays: 1 })).toBe("매일");
+    expect(describeRecurrenceRule({ kind: "monthly", dayOfMonth: 15 })).toBe("매월 15일");
+  });
+
+  it("같은 규칙·날짜는 같은 id", () => {
+    expect(buildRecurringTodoId("r1", "2025-03-01")).toBe("r1_2025-03-01");
+  });
+});
@@ -0,0 +1,106 @@
+import type { RecurrenceRule, TodoRecurrence } from "@/types/recurrence";
+
+const WEEKDAY_LABELS = ["일", "월", "화", "수", "목", "금", "토"];
+
+const parseDateKey = (dateKey: string): Date => {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+
+/** deterministic todoId: 같은 규칙·같은 날짜는 항상 같은 문서 */
+export const buildRecurringTodoId = (
+  recurrenceId: string,
+  dateKey: string
+): string => `${recurrenceId}_${dateKey}`;
+
+/** 규칙만 보고 해당 날짜가 반복일인지 (monthly 31일 → 짧은 달은 말일) */
+export const matchesRecurrenceRule = (
+  rule: RecurrenceRule,
+  startDateKey: string,
+  dateKey: string
+): boolean => {
+  const date = parseDateKey(dateKey);
+  switch (rule.kind) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return rule.weekdays.includes(date.getUTCDay());
+    case "interval": {
+      const every = Math.max(1, Math.floor(rule.everyDays));
+      const diff = Math.round(
+        (date.getTime() - parseDateKey(startDateKey).getTime()) / 86400000
+      );
+      return diff >= 0 && diff % every === 0;
+    }
+    case "monthly": {
+      const lastDay = new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+      ).getUTCDate();
+      return date.getUTCDate() === Math.min(rule.dayOfMonth, lastDay);
+    }
+    default:
+      return false;
+  }
+};
+
+/** 시작/종료일, 건너뛴 날짜까지 반영한 생성 여부 */
+export const isRecurrenceDueOn = (
+  recurrence: TodoRecurrence,
+  dateKey: string
+): boolean => {
+  if (dateKey < recurrence.startDateKey) return false;
+  if (recurrence.endDateKey && dateKey > recurrence.endDateKey) return false;
+  if (recurrence.skippedDateKeys.includes(dateKey)) return false;
+  return matchesRecurrenceRule(recurrence.rule, recurrence.startDateKey, dateKey);
+};
+
+/** Firestore 값 → RecurrenceRule (잘못된 값이면 null) */
+export const normalizeRecurrenceRule = (value: unknown): RecurrenceRule | null => {
+  const raw = value as Partial<{
+    kind: string;
+    weekdays: unknown;
+    everyDays: unknown;
+    dayOfMonth: unknown;
+  }> | null;
+  if (!raw || typeof raw.kind !== "string") return null;
+  switch (raw.kind) {
+    case "daily":
+      return { kind: "daily" };
+    case "weekdays": {
+      const weekdays = Array.isArray(raw.weekdays)
+        ? (raw.weekdays as unknown[])
+            .filter((d): d is number => typeof d === "number" && d >= 0 && d <= 6)
+            .sort((a, b) => a - b)
+        : [];
+      return weekdays.length > 0 ? { kind: "weekdays", weekdays } : null;
+    }
+    case "interval":
+      return typeof raw.everyDays === "number" && raw.everyDays >= 1
+        ? { kind: "interval", everyDays: Math.floor(raw.everyDays) }
+        : null;
+    case "monthly":
+      return typeof raw.dayOfMonth === "number" &&
+        raw.dayOfMonth >= 1 &&
+        raw.dayOfMonth <= 31
+        ? { kind: "monthly", dayOfMonth: Math.floor(raw.dayOfMonth) }
+        : null;
+    default:
+      return null;
+  }
+};
+
+/** 규칙 한 줄 설명. 예) "매주 월·수·금" */
+export const describeRecurrenceRule = (rule: RecurrenceRule): string => {
+  switch (rule.kind) {
+    case "daily":
+      return "매일";
+    case "weekdays":
+      return `매주 ${rule.weekdays.map((d) => WEEKDAY_LABELS[d]).join("·")}`;
+    case "interval":
+      return rule.everyDays === 1 ? "매일" : `${rule.everyDays}일마다`;
+    case "monthly":
+      return `매월 ${rule.dayOfMonth}일`;
+    default:
+      return "반복";
+  }
+};
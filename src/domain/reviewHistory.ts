@@ -0,0 +1,123 @@
+import { addDaysToDateKey } from "@/domain/date";
+import { getNextWeekRules, getReviewStatus } from "@/domain/weeklyReview";
+import type { GoalTrackWeeklyReview } from "@/types/goalTrackWeeklyReview";
+import type {
+  ReviewHistoryEntry,
+  ReviewRule,
+  ReviewRuleCheck,
+  ReviewRuleDiff,
+} from "@/types/reviewHistory";
+import type { TodoItem } from "@/types/todo";
+
+/** 규칙·투두 문구 비교용 (앞뒤 공백, 연속 공백 무시) */
+const normalizeRuleText = (text: string) => text.trim().replace(/\s+/g, " ");
+
+const sameWeekdays = (a: number[] = [], b: number[] = []) =>
+  [...a].sort().join(",") === [...b].sort().join(",");
+
+/**
+ * 평가 기록 화면에서 읽을 투두 기간: 가장 오래된 평가의 다음 주 월요일 ~ 가장 최근 평가의 다음 주 일요일.
+ * 평가가 없으면 null.
+ */
+export const getReviewHistoryBounds = (
+  reviews: GoalTrackWeeklyReview[]
+): { fromKey: string; toKey: string } | null => {
+  if (reviews.length === 0) return null;
+  const weekKeys = reviews.map((review) => review.weekStartKey).sort();
+  return {
+    fromKey: addDaysToDateKey(weekKeys[0], 7),
+    toKey: addDaysToDateKey(weekKeys[weekKeys.length - 1], 13),
+  };
+};
+
+/**
+ * 규칙 하나가 다음 주에 지켜졌는지. handleApplyWeeklyCoachAction이 만든 투두(같은 목표, 같은 문구)를 센다.
+ * 첫 규칙은 코치 제안 문구(coachAction)로 만든 투두도 같이 센다 (적용 버튼이 첫 규칙의 요일을 쓴다).
+ */
+export const checkRuleFollowThrough = (args: {
+  rule: ReviewRule;
+  extraTexts?: string[];
+  goalTrackId: string;
+  followWeekStartKey: string;
+  todayKey: string;
+  todosByDateKey: Record<string, TodoItem[]>;
+}): ReviewRuleCheck => {
+  const texts = new Set([args.rule.text, ...(args.extraTexts ?? [])].map(normalizeRuleText));
+  const weekEndKey = addDaysToDateKey(args.followWeekStartKey, 6);
+  const matched = Object.entries(args.todosByDateKey)
+    .filter(([dateKey]) => dateKey >= args.followWeekStartKey && dateKey <= weekEndKey)
+    .flatMap(([, todos]) => todos)
+    .filter(
+      (todo) => todo.goalTrackId === args.goalTrackId && texts.has(normalizeRuleText(todo.text))
+    );
+  const todoCount = matched.length;
+  const doneCount = matched.filter((todo) => todo.done).length;
+  const expected = Math.max(1, args.rule.weekdays?.length ?? 0);
+  const status =
+    doneCount >= expected
+      ? "followed"
+      : args.todayKey <= weekEndKey
+        ? "inProgress"
+        : todoCount === 0
+          ? "notScheduled"
+          : doneCount === 0
+            ? "notDone"
+            : "partial";
+  return { ...args.rule, status, todoCount, doneCount };
+};
+
+/** 이전 평가 규칙 → 이번 평가 규칙 변화 (문구가 같으면 같은 규칙) */
+export const diffReviewRules = (previous: ReviewRule[], next: ReviewRule[]): ReviewRuleDiff => {
+  const previousByText = new Map(previous.map((rule) => [normalizeRuleText(rule.text), rule]));
+  const nextTexts = new Set(next.map((rule) => normalizeRuleText(rule.text)));
+  const diff: ReviewRuleDiff = { added: [], removed: [], rescheduled: [], kept: [] };
+  for (const rule of next) {
+    const before = previousByText.get(normalizeRuleText(rule.text));
+    if (!before) diff.added.push(rule);
+    else if (!sameWeekdays(before.weekdays, rule.weekdays))
+      diff.rescheduled.push({
+        text: rule.text,
+        fromWeekdays: before.weekdays ?? [],
+        toWeekdays: rule.weekdays ?? [],
+      });
+    else diff.kept.push(rule);
+  }
+  diff.removed = previous.filter((rule) => !nextTexts.has(normalizeRuleText(rule.text)));
+  return diff;
+};
+
+/** 목표 트랙 하나의 평가 기록 (최근 평가가 먼저). 각 평가에 규칙 실행 여부와 이전 평가 대비 변화를 붙인다 */
+export const buildReviewHistory = (args: {
+  goalTrackId: string;
+  reviews: GoalTrackWeeklyReview[];
+  todosByDateKey: Record<string, TodoItem[]>;
+  todayKey: string;
+}): ReviewHistoryEntry[] => {
+  const sorted = args.reviews
+    .filter((review) => review.goalTrackId === args.goalTrackId)
+    .sort((a, b) => a.weekStartKey.localeCompare(b.weekStartKey));
+  return sorted
+    .map((review, index) => {
+      const followWeekStartKey = addDaysToDateKey(review.weekStartKey, 7);
+      const rules = getNextWeekRules(review);
+      const previous = index > 0 ? sorted[index - 1] : null;
+      return {
+        review,
+        status: getReviewStatus(review),
+        followWeekStartKey,
+        rules: rules.map((rule, ruleIndex) =>
+          checkRuleFollowThrough({
+            rule,
+            extraTexts: ruleIndex === 0 && review.coachAction ? [review.coachAction] : [],
+            goalTrackId: args.goalTrackId,
+            followWeekStartKey,
+            todayKey: args.todayKey,
+            todosByDateKey: args.todosByDateKey,
+          })
+        ),
+        diff: previous ? diffReviewRules(getNextWeekRules(previous), rules) : null,
+        previousWeekStartKey: previous?.weekStartKey ?? null,
+      };
+    })
+    .reverse();
+};
@@ -0,0 +1,73 @@
+import type { RoutineItem, RoutineTask } from "@/types/settings";
+
+export type RoutineMergeResult = {
+  routines: RoutineItem[];
+  /** 같은 루틴을 양쪽에서 고쳐서 합친 경우 */
+  conflicted: boolean;
+};
+
+const sameRoutine = (a: RoutineItem, b: RoutineItem) => JSON.stringify(a) === JSON.stringify(b);
+
+const byId = (routines: RoutineItem[]) => new Map(routines.map((routine) => [routine.id, routine]));
+
+/** 할 일은 id 기준 합집합 */
+const mergeTasks = (local: RoutineTask[], remote: RoutineTask[]): RoutineTask[] => {
+  const localIds = new Set(local.map((task) => task.id));
+  return [...local, ...remote.filter((task) => !localIds.has(task.id))];
+};
+
+/** 양쪽에서 고친 루틴: 제목·종류는 이 기기 것, 할 일은 합친다 */
+const combineRoutine = (local: RoutineItem, remote: RoutineItem): RoutineItem => ({
+  ...local,
+  tasks: mergeTasks(local.tasks, remote.tasks),
+});
+
+/**
+ * 기상 루틴 3-way 병합.
+ * base = 이 기기가 편집을 시작할 때 본 서버 값, local = 이 기기의 결과, remote = 지금 서버 값.
+ * 한쪽만 바꾼 루틴은 바꾼 쪽을, 양쪽이 바꾼 루틴은 합친다.
+ * 한쪽이 지우고 다른 쪽이 고쳤다면 고친 쪽을 남긴다.
+ */
+export const mergeRoutines = (
+  base: RoutineItem[],
+  local: RoutineItem[],
+  remote: RoutineItem[]
+): RoutineMergeResult => {
+  const baseById = byId(base);
+  const localById = byId(local);
+  const remoteById = byId(remote);
+  const ids = [
+    ...local.map((routine) => routine.id),
+    ...remote.map((routine) => routine.id).filter((id) => !localById.has(id)),
+  ];
+  let conflicted = false;
+  const routines: RoutineItem[] = [];
+  for (const id of ids) {
+    const b = baseById.get(id);
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+    if (l && r) {
+      if (sameRoutine(l, r) || (b && sameRoutine(b, r))) {
+        routines.push(l);
+      } else if (b && sameRoutine(b, l)) {
+        routines.push(r);
+      } else {
+        conflicted = true;
+        routines.push(combineRoutine(l, r));
+      }
+      continue;
+    }
+    const only = l ?? r;
+    if (!only) continue;
+    if (!b) {
+      routines.push(only);
+      continue;
+    }
+    // 한쪽에서 지운 루틴: 남은 쪽이 그대로면 삭제, 고쳤으면 살린다
+    if (!sameRoutine(b, only)) {
+      conflicted = true;
+      routines.push(only);
+    }
+  }
+  return { routines, conflicted };
+};
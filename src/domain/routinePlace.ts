@@ -0,0 +1,68 @@
+import type { RoutineItem, RoutinePlace } from "@/types/settings";
+
+/** 장소 반경 선택지 (m) */
+export const ROUTINE_PLACE_RADIUS_OPTIONS = [100, 200, 500] as const;
+
+export const DEFAULT_ROUTINE_PLACE_RADIUS = 200;
+
+const MIN_RADIUS_METERS = 50;
+const MAX_RADIUS_METERS = 5000;
+const EARTH_RADIUS_METERS = 6371000;
+
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+  /** 위치 정확도 반경 (m). 모르면 0 */
+  accuracy: number;
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** 두 지점 사이 거리 (m, 하버사인) */
+export const distanceMeters = (
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * 반경 안인지. 위치가 부정확하면(accuracy) 그만큼은 봐준다,
+ * 단 반경보다 크게는 봐주지 않는다 (도시 하나가 다 들어가지 않게).
+ */
+export const isInsidePlace = (place: RoutinePlace, point: GeoPoint): boolean =>
+  distanceMeters(place, point) <= place.radiusMeters + Math.min(point.accuracy, place.radiusMeters);
+
+/** 저장된 값 → 장소. 좌표가 이상하면 undefined */
+export const normalizeRoutinePlace = (value: unknown): RoutinePlace | undefined => {
+  if (!value || typeof value !== "object") return undefined;
+  const candidate = value as Partial<RoutinePlace>;
+  const { lat, lng } = candidate;
+  if (typeof lat !== "number" || typeof lng !== "number") return undefined;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  const radius =
+    typeof candidate.radiusMeters === "number"
+      ? candidate.radiusMeters
+      : DEFAULT_ROUTINE_PLACE_RADIUS;
+  return {
+    label: typeof candidate.label === "string" ? candidate.label.trim() : "",
+    lat,
+    lng,
+    radiusMeters: Math.min(MAX_RADIUS_METERS, Math.max(MIN_RADIUS_METERS, Math.round(radius))),
+  };
+};
+
+/** 장소가 있는 위치 트리거 루틴 */
+export const getLocationRoutines = (routines: RoutineItem[]) =>
+  routines.filter(
+    (routine): routine is RoutineItem & { place: RoutinePlace } =>
+      routine.triggerType === "location" && Boolean(routine.place)
+  );
+
+export const formatRoutinePlace = (place: RoutinePlace): string =>
+  `${place.label || "저장한 장소"} (반경 ${place.radiusMeters}m)`;
@@ -0,0 +1,242 @@
+import { addDaysToDateKey, getWeekStartKey } from "@/domain/date";
+import type {
+  RoutineHeatmapCell,
+  RoutineRun,
+  RoutineRunDuration,
+  RoutineRunInput,
+  RoutineRunTask,
+  RoutineStats,
+  RoutineTaskOutcome,
+  RoutineTaskSkipRate,
+} from "@/types/routineRun";
+import type { RoutineItem, RoutineTask } from "@/types/settings";
+
+/** 완료한 날 사이에 이만큼은 비어도 연속으로 본다 */
+export const ROUTINE_STREAK_GRACE_DAYS = 2;
+
+/** 화면에서 구독하는 실행 기록 기간 (연속 기록도 이 안에서만 센다) */
+export const ROUTINE_RUN_LOOKBACK_DAYS = 365;
+
+/** 루틴 기록 히트맵 주 수 */
+export const ROUTINE_HEATMAP_WEEKS = 12;
+
+/** 문서 id. 루틴 하나는 하루에 한 번 실행한다 */
+export const buildRoutineRunId = (routineId: string, dateKey: string): string =>
+  `${routineId}_${dateKey}`;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const dateKeyToDayNumber = (dateKey: string): number => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+/** to - from (일) */
+const diffDays = (from: string, to: string): number =>
+  dateKeyToDayNumber(to) - dateKeyToDayNumber(from);
+
+const toRunTask = (task: RoutineTask): RoutineRunTask => ({
+  taskId: task.id,
+  title: task.title,
+  completed: false,
+  skipped: false,
+  completedAt: null,
+  durationSeconds: null,
+  targetSeconds: task.targetSeconds ?? null,
+});
+
+const isHandled = (task: RoutineRunTask) => task.completed || task.skipped;
+
+/** "실행하기"로 연 그날의 첫 실행 */
+export const buildRoutineRun = (
+  routine: RoutineItem,
+  dateKey: string,
+  now: Date
+): RoutineRunInput => ({
+  routineId: routine.id,
+  dateKey,
+  startedAt: now,
+  completedAt: null,
+  completed: false,
+  tasks: routine.tasks.map(toRunTask),
+});
+
+/** 지금 루틴 순서대로 실행 기록의 할 일 (루틴에 새로 생긴 할 일은 아직 안 한 것으로) */
+const alignRunTasks = (run: RoutineRunInput, routine: RoutineItem): RoutineRunTask[] => {
+  const existing = new Map(run.tasks.map((task) => [task.taskId, task]));
+  return routine.tasks.map((task) => {
+    const recorded = existing.get(task.id);
+    return recorded && isHandled(recorded) ? recorded : toRunTask(task);
+  });
+};
+
+/** 지금 해야 할 할 일 (루틴 순서로 아직 끝내지도 건너뛰지도 않은 첫 할 일). 다 했으면 null */
+export const getCurrentRoutineTask = (
+  run: RoutineRunInput | null,
+  routine: RoutineItem
+): RoutineTask | null => {
+  const handled = new Set(
+    (run?.tasks ?? []).filter(isHandled).map((task) => task.taskId)
+  );
+  return routine.tasks.find((task) => !handled.has(task.id)) ?? null;
+};
+
+/** 지금 할 일을 시작한 시각 = 마지막으로 끝낸 할 일의 시각, 없으면 실행 시작 */
+export const getCurrentRoutineTaskStartedAt = (run: RoutineRunInput): Date | null =>
+  run.tasks.reduce<Date | null>(
+    (latest, task) =>
+      task.completedAt && (!latest || task.completedAt.getTime() > latest.getTime())
+        ? task.completedAt
+        : latest,
+    run.startedAt
+  );
+
+/**
+ * 할 일 하나를 끝내거나 건너뛴다. 마지막 할 일이었으면 실행도 끝나고,
+ * 하나라도 끝낸 할 일이 있으면 그날 완료로 센다.
+ */
+export const finishRoutineRunTask = (
+  run: RoutineRunInput,
+  routine: RoutineItem,
+  taskId: string,
+  outcome: RoutineTaskOutcome,
+  durationSeconds: number,
+  now: Date
+): RoutineRunInput => {
+  const tasks = alignRunTasks(run, routine).map((task) =>
+    task.taskId === taskId
+      ? {
+          ...task,
+          completed: outcome === "done",
+          skipped: outcome === "skipped",
+          completedAt: now,
+          durationSeconds: Math.max(0, Math.round(durationSeconds)),
+        }
+      : task
+  );
+  const finished = tasks.length > 0 && tasks.every(isHandled);
+  const completed = finished && tasks.some((task) => task.completed);
+  return {
+    ...run,
+    startedAt: run.startedAt ?? now,
+    tasks,
+    completed: run.completed || completed,
+    completedAt: run.completedAt ?? (completed ? now : null),
+  };
+};
+
+/** 실제로 쓴 시간(끝내거나 건너뛴 할 일의 합)과 계획 시간 */
+export const getRoutineRunDuration = (run: RoutineRunInput): RoutineRunDuration => {
+  const targets = run.tasks
+    .map((task) => task.targetSeconds)
+    .filter((value): value is number => typeof value === "number");
+  return {
+    actualSeconds: run.tasks.reduce((sum, task) => sum + (task.durationSeconds ?? 0), 0),
+    plannedSeconds: targets.length > 0 ? targets.reduce((sum, value) => sum + value, 0) : null,
+  };
+};
+
+/** 완료한 날 (오름차순, 중복 없음) */
+const getCompletedDateKeys = (runs: RoutineRun[]): string[] =>
+  Array.from(new Set(runs.filter((run) => run.completed).map((run) => run.dateKey))).sort();
+
+/** 한 루틴의 실행 기록 → 연속 성공일·이번 달 성공률 */
+export const computeRoutineStats = (runs: RoutineRun[], todayKey: string): RoutineStats => {
+  const completed = getCompletedDateKeys(runs).filter((dateKey) => dateKey <= todayKey);
+  const lastCompletedDate = completed[completed.length - 1] ?? "";
+  let streak = 0;
+  if (lastCompletedDate && diffDays(lastCompletedDate, todayKey) - 1 <= ROUTINE_STREAK_GRACE_DAYS) {
+    streak = 1;
+    for (let i = completed.length - 1; i > 0; i -= 1) {
+      if (diffDays(completed[i - 1], completed[i]) - 1 > ROUTINE_STREAK_GRACE_DAYS) break;
+      streak += 1;
+    }
+  }
+  const monthPrefix = todayKey.slice(0, 7);
+  const elapsedDays = Math.max(1, Number(todayKey.slice(8, 10)));
+  const monthDays = completed.filter((dateKey) => dateKey.startsWith(monthPrefix)).length;
+  return {
+    streak,
+    monthlySuccessRate: Math.round((monthDays / elapsedDays) * 100),
+    lastCompletedDate,
+  };
+};
+
+/** 최근 weeks주 히트맵 (월요일 시작, 주 단위 열) */
+export const buildRoutineHeatmap = (
+  runs: RoutineRun[],
+  todayKey: string,
+  weeks: number = ROUTINE_HEATMAP_WEEKS
+): RoutineHeatmapCell[][] => {
+  const byDate = new Map(runs.map((run) => [run.dateKey, run]));
+  const firstWeek = addDaysToDateKey(getWeekStartKey(todayKey), -(weeks - 1) * 7);
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => {
+      const dateKey = addDaysToDateKey(firstWeek, week * 7 + day);
+      const run = byDate.get(dateKey);
+      const level: RoutineHeatmapCell["level"] =
+        dateKey > todayKey
+          ? "future"
+          : run?.completed
+            ? "done"
+            : run && run.tasks.some((task) => task.completed)
+              ? "partial"
+              : "none";
+      return { dateKey, level };
+    })
+  );
+};
+
+/**
+ * 할 일별 건너뛴 비율. 지금 루틴에 있는 할 일만, 그 할 일이 들어 있던 실행만 센다.
+ * 오늘 실행은 아직 진행 중일 수 있어서 완료했을 때만 센다.
+ */
+export const summarizeRoutineTaskSkips = (
+  runs: RoutineRun[],
+  routine: RoutineItem,
+  todayKey: string
+): RoutineTaskSkipRate[] => {
+  const finished = runs.filter((run) => run.dateKey < todayKey || run.completed);
+  return routine.tasks.map((task) => {
+    const entries = finished
+      .map((run) => run.tasks.find((item) => item.taskId === task.id))
+      .filter((item): item is RoutineRunTask => Boolean(item));
+    const skipped = entries.filter((item) => !item.completed).length;
+    const durations = entries
+      .filter((item) => item.completed)
+      .map((item) => item.durationSeconds)
+      .filter((value): value is number => typeof value === "number");
+    return {
+      taskId: task.id,
+      title: task.title,
+      runs: entries.length,
+      skipped,
+      skipRate: entries.length > 0 ? Math.round((skipped / entries.length) * 100) : 0,
+      averageSeconds:
+        durations.length > 0
+          ? Math.round(durations.reduce((sum, value) => sum + value, 0) / durations.length)
+          : null,
+      targetSeconds: task.targetSeconds ?? null,
+    };
+  });
+};
+
+/** 예전 settings.wakeRoutine[].completionHistory (실행 기록으로 옮기기 전) */
+export const readLegacyCompletionHistory = (raw: unknown): Record<string, string[]> => {
+  const source = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === "object" && Array.isArray((raw as { routines?: unknown }).routines)
+      ? (raw as { routines: unknown[] }).routines
+      : [];
+  const history: Record<string, string[]> = {};
+  for (const item of source) {
+    if (!item || typeof item !== "object") continue;
+    const { id, completionHistory } = item as { id?: unknown; completionHistory?: unknown };
+    if (typeof id !== "string" || !Array.isArray(completionHistory)) continue;
+    const dateKeys = completionHistory.filter(
+      (value): value is string => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    );
+    if (dateKeys.length > 0) history[id] = dateKeys;
+  }
+  return history;
+};
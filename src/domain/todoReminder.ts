@@ -0,0 +1,53 @@
+import type { TodoDeepLink } from "@/types/todoReminder";
+import {
+  buildDueReminderSlots,
+  buildTodoDeepLink,
+  buildTodoDueDedupeKey,
+  buildTodoDuePayload,
+  DEFAULT_DUE_REMINDER_LEAD_MINUTES,
+  normalizeDueReminderLeadMinutes,
+  OVERDUE_NOTICE_DELAY_MINUTES,
+  TODO_REMINDER_KINDS,
+} from "../../functions/todoReminder";
+
+/*
+ * 마감 알림 시각·주소·예약 형식은 Cloud Functions와 같은 functions/todoReminder.js를 쓴다
+ * (이월할 때 서버도 같은 예약을 다시 만든다).
+ */
+
+export {
+  buildDueReminderSlots,
+  buildTodoDeepLink,
+  buildTodoDueDedupeKey,
+  buildTodoDuePayload,
+  DEFAULT_DUE_REMINDER_LEAD_MINUTES,
+  normalizeDueReminderLeadMinutes,
+  OVERDUE_NOTICE_DELAY_MINUTES,
+  TODO_REMINDER_KINDS,
+};
+
+export const DUE_REMINDER_LEAD_OPTIONS = [5, 10, 30, 60];
+
+/** 알림 "미루기" 기본 분 (서비스 워커 버튼과 같은 값) */
+export const DEFAULT_SNOOZE_MINUTES = 10;
+
+const MINUTE_MS = 60 * 1000;
+
+/** 미루기 알림 시각 (분 단위) */
+export const buildSnoozeSendAt = (minutes: number, now: Date = new Date()): Date =>
+  new Date(Math.floor((now.getTime() + minutes * MINUTE_MS) / MINUTE_MS) * MINUTE_MS);
+
+/** 주소의 검색 문자열에서 투두 링크 읽기. 투두 링크가 아니면 null */
+export const parseTodoDeepLink = (search: string): TodoDeepLink | null => {
+  const params = new URLSearchParams(search);
+  const dateKey = params.get("date");
+  const todoId = params.get("todo");
+  if (params.get("tab") !== "todos" || !dateKey || !todoId) return null;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) return null;
+  const snooze = Number(params.get("snooze"));
+  return {
+    dateKey,
+    todoId,
+    snoozeMinutes: Number.isFinite(snooze) && snooze > 0 ? Math.min(snooze, 24 * 60) : null,
+  };
+};
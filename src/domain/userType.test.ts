@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { pickUserType, weightEffects } from "@/domain/userType";
+import { EffectType } from "@/types/effect";
+
+describe("weightEffects", () => {
+  it("유형이 챙기는 효과만 강도 +1 (최대 3)", () => {
+    expect(
+      weightEffects("deadlineDriven", [
+        { type: EffectType.FOCUS, intensity: 1 },
+        { type: EffectType.DISCIPLINE, intensity: 3 },
+        { type: EffectType.ENERGY, intensity: 2 },
+      ])
+    ).toEqual([
+      { type: EffectType.FOCUS, intensity: 2 },
+      { type: EffectType.DISCIPLINE, intensity: 3 },
+      { type: EffectType.ENERGY, intensity: 2 },
+    ]);
+  });
+
+  it("기본 유형은 그대로", () => {
+    const effects = [{ type: EffectType.FOCUS, intensity: 1 as const }];
+    expect(weightEffects("neutral", effects)).toEqual(effects);
+  });
+});
+
+describe("pickUserType", () => {
+  it("가장 많이 고른 유형. 동점이면 먼저 답한 쪽", () => {
+    expect(pickUserType(["lowEnergy", "morningStarter", "morningStarter"])).toBe("morningStarter");
+    expect(pickUserType(["deadlineDriven", "lowEnergy"])).toBe("deadlineDriven");
+    expect(pickUserType([])).toBe("neutral");
+  });
+});
@@ -0,0 +1,141 @@
+import { EffectType, type Effect } from "@/types/effect";
+import type { TodoItem } from "@/types/todo";
+import type { UserType } from "@/types/settings";
+
+/** 남은 투두 정렬 방식 */
+export type TodoOrder = "created" | "goalFirst" | "dueFirst" | "smallFirst";
+
+/** 사용자 유형별로 달라지는 값. get*Logic과 applyEffectByUserType이 읽는다 */
+export type UserTypeProfile = {
+  label: string;
+  description: string;
+  /** 홈 인사 뒤에 붙는 한마디 */
+  greetingHint: string;
+  todoOrder: TodoOrder;
+  /** 새 보호 시간 구간의 기본 시간 */
+  protectDefault: { start: string; end: string };
+  /** 이 유형이 특히 챙기는 효과. 기록은 그대로 두고 집계할 때 한 단계 세게(최대 3) 본다 */
+  boostedEffects: EffectType[];
+};
+
+export const USER_TYPE_PROFILES: Record<UserType, UserTypeProfile> = {
+  neutral: {
+    label: "기본",
+    description: "특별한 조정 없이 그대로 써요.",
+    greetingHint: "",
+    todoOrder: "created",
+    protectDefault: { start: "20:00", end: "22:00" },
+    boostedEffects: [],
+  },
+  morningStarter: {
+    label: "아침 시작형",
+    description: "아침에 가장 잘 움직여요. 목표에 연결된 일을 먼저 보여 주고, 보호 시간을 아침에 잡아요.",
+    greetingHint: "중요한 일 하나를 오전에 끝내요",
+    todoOrder: "goalFirst",
+    protectDefault: { start: "06:00", end: "09:00" },
+    boostedEffects: [EffectType.MOMENTUM, EffectType.CLARITY],
+  },
+  deadlineDriven: {
+    label: "마감 추진형",
+    description: "마감이 있어야 속도가 나요. 마감이 가까운 일부터 보여 주고, 오후에 집중 구간을 잡아요.",
+    greetingHint: "마감이 가까운 일부터 끝내요",
+    todoOrder: "dueFirst",
+    protectDefault: { start: "14:00", end: "17:00" },
+    boostedEffects: [EffectType.FOCUS, EffectType.DISCIPLINE],
+  },
+  lowEnergy: {
+    label: "회복 우선형",
+    description: "에너지를 아껴 써야 해요. 작은 일부터 보여 주고, 보호 시간은 짧게 잡아요.",
+    greetingHint: "오늘은 작은 한 걸음이면 충분해요",
+    todoOrder: "smallFirst",
+    protectDefault: { start: "10:00", end: "11:00" },
+    boostedEffects: [EffectType.RELIEF, EffectType.ENERGY],
+  },
+};
+
+export type UserTypeQuestion = {
+  question: string;
+  options: Array<{ label: string; type: UserType }>;
+};
+
+/** 온보딩 설문. 고른 답의 유형을 세서 가장 많은 유형을 준다 */
+export const USER_TYPE_QUESTIONS: UserTypeQuestion[] = [
+  {
+    question: "집중이 가장 잘 되는 때는?",
+    options: [
+      { label: "아침 일찍", type: "morningStarter" },
+      { label: "마감이 다가올 때", type: "deadlineDriven" },
+      { label: "그날 컨디션에 따라 달라요", type: "lowEnergy" },
+      { label: "딱히 없어요", type: "neutral" },
+    ],
+  },
+  {
+    question: "할 일이 밀렸을 때 나는?",
+    options: [
+      { label: "다음 날 아침에 몰아서 해요", type: "morningStarter" },
+      { label: "급한 것부터 처리해요", type: "deadlineDriven" },
+      { label: "작은 것부터 하나씩 해요", type: "lowEnergy" },
+      { label: "적어 둔 순서대로 해요", type: "neutral" },
+    ],
+  },
+  {
+    question: "요즘 에너지는?",
+    options: [
+      { label: "아침에 가장 좋아요", type: "morningStarter" },
+      { label: "압박이 있으면 올라가요", type: "deadlineDriven" },
+      { label: "쉽게 지쳐요", type: "lowEnergy" },
+      { label: "보통이에요", type: "neutral" },
+    ],
+  },
+];
+
+/** 설문 답(질문마다 고른 유형) → 유형. 동점이면 먼저 답한 쪽 */
+export const pickUserType = (answers: UserType[]): UserType => {
+  const counts = new Map<UserType, number>();
+  for (const type of answers) counts.set(type, (counts.get(type) ?? 0) + 1);
+  let best: UserType = "neutral";
+  let bestCount = 0;
+  for (const type of answers) {
+    const count = counts.get(type) ?? 0;
+    if (count > bestCount) {
+      best = type;
+      bestCount = count;
+    }
+  }
+  return best;
+};
+
+/** 남은 투두 정렬. 같은 순위면 원래(생성) 순서 */
+export const orderPendingTodos = (
+  order: TodoOrder,
+  todos: TodoItem[],
+  getDueMillis: (todo: TodoItem) => number | null
+): TodoItem[] => {
+  const rank = (todo: TodoItem): number => {
+    switch (order) {
+      case "goalFirst":
+        return todo.goalTrackId ? 0 : 1;
+      case "dueFirst":
+        return getDueMillis(todo) ?? Number.MAX_SAFE_INTEGER;
+      case "smallFirst":
+        return todo.text.trim().length;
+      case "created":
+      default:
+        return 0;
+    }
+  };
+  return todos
+    .map((todo, index) => ({ todo, index, rank: rank(todo) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map((item) => item.todo);
+};
+
+/** 고른 효과에 유형 가중치를 적용한다 (챙기는 효과는 강도 +1, 최대 3) */
+export const weightEffects = (userType: UserType, effects: Effect[]): Effect[] => {
+  const boosted = USER_TYPE_PROFILES[userType].boostedEffects;
+  return effects.map((effect) =>
+    boosted.includes(effect.type)
+      ? { ...effect, intensity: Math.min(3, effect.intensity + 1) as Effect["intensity"] }
+      : effect
+  );
+};
@@ -1,4 +1,8 @@
-import type { WeeklyReviewRhythm } from "@/types/goalTrackWeeklyReview";
+import type {
+  GoalTrackWeeklyReview,
+  WeeklyReviewRhythm,
+  WeeklyStatus,
+} from "@/types/goalTrackWeeklyReview";
 
 export type CoachInput = {
   rhythm: WeeklyReviewRhythm;
@@ -18,6 +22,87 @@ const RHYTHM_LABELS: Record<WeeklyReviewRhythm, string> = {
 export const buildReviewId = (goalTrackId: string, weekStartKey: string) =>
   `${goalTrackId}_${weekStartKey}`;
 
+/** 이번 주 상태 라벨 */
+export const WEEKLY_STATUS_LABELS: Record<WeeklyStatus, string> = {
+  STEADY: "유지됨",
+  SPORADIC: "들쭉날쭉",
+  STOPPED: "멈춤",
+};
+
+/** 기존 rhythm → status 매핑 */
+export function rhythmToStatus(
+  r?: "steady" | "sporadic" | "stopped"
+): WeeklyStatus {
+  if (r === "steady") return "STEADY";
+  if (r === "sporadic") return "SPORADIC";
+  if (r === "stopped") return "STOPPED";
+  return "STEADY";
+}
+
+/** review에서 nextWeekRuleText 또는 nextWeekOneChange 추출 */
+export function getNextWeekRuleText(review: GoalTrackWeeklyReview | null): string {
+  if (!review) return "";
+  return (
+    review.nextWeekRuleText?.trim() ||
+    review.nextWeekOneChange?.trim() ||
+    ""
+  );
+}
+
+/** review에서 nextWeekRules 추출 (하위호환) */
+export function getNextWeekRules(
+  review: GoalTrackWeeklyReview | null
+): Array<{ text: string; weekdays?: number[] }> {
+  if (!review) return [];
+  if (review.nextWeekRules && review.nextWeekRules.length > 0) {
+    return review.nextWeekRules
+      .filter((r) => r.text?.trim())
+      .map((r) => {
+        const raw = r as { text: string; weekdays?: number[]; weekday?: number };
+        const weekdays = Array.isArray(raw.weekdays)
+          ? raw.weekdays.filter((d) => d >= 0 && d <= 6)
+          : typeof raw.weekday === "number" &&
+              raw.weekday >= 0 &&
+              raw.weekday <= 6
+            ? [raw.weekday]
+            : undefined;
+        return {
+          text: raw.text.trim(),
+          weekdays: weekdays && weekdays.length > 0 ? weekdays : undefined,
+        };
+      });
+  }
+  const legacy = getNextWeekRuleText(review);
+  if (!legacy) return [];
+  return [
+    {
+      text: legacy,
+      weekdays: review.plannedWeekdays?.filter((d) => d >= 0 && d <= 6),
+    },
+  ];
+}
+
+/** review에서 status 추출 (기존 rhythm 매핑) */
+export function getReviewStatus(review: GoalTrackWeeklyReview | null): WeeklyStatus {
+  if (!review) return "STEADY";
+  if (review.status) return review.status;
+  return rhythmToStatus(review.rhythm);
+}
+
+/** 평가 요일 알림 기본 시각 (사용자 시간대) */
+export const DEFAULT_WEEKLY_REVIEW_REMINDER_TIME = "20:00";
+
+/** 평가 알림 클릭 시 열 주소 (설계 탭의 그 목표 카드) */
+export const buildWeeklyReviewDeepLink = (goalTrackId: string): string =>
+  `/?tab=design&review=${encodeURIComponent(goalTrackId)}`;
+
+/** 주소의 검색 문자열에서 평가 링크의 goalTrackId 읽기. 평가 링크가 아니면 null */
+export const parseWeeklyReviewDeepLink = (search: string): string | null => {
+  const params = new URLSearchParams(search);
+  if (params.get("tab") !== "design") return null;
+  return params.get("review") || null;
+};
+
 /** 룰 기반 코치 응답 (팩트→관찰→제안 1개 + 질문 1개. 위로/도덕판단 금지) */
 export function generateCoachResponse(input: CoachInput): {
   coachSummary: string;
@@ -0,0 +1,62 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { getLocationRoutines, isInsidePlace } from "@/domain/routinePlace";
+import { readCurrentPosition } from "@/lib/geolocation";
+import type { RoutineItem } from "@/types/settings";
+
+/** 앱이 열려 있는 동안 위치를 다시 보는 간격 */
+const RECHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+type NearbyState = { key: string; routineIds: string[] };
+
+/**
+ * 지금 장소 반경 안에 있는 위치 트리거 루틴 id.
+ * 앱을 열 때·다시 볼 때(visibilitychange)와 열려 있는 동안 주기적으로 확인한다.
+ * 위치 권한을 아직 안 받았으면 확인하지 않는다.
+ */
+export function useNearbyRoutines(routines: RoutineItem[]): string[] {
+  const locationRoutines = useMemo(() => getLocationRoutines(routines), [routines]);
+  const placesKey = useMemo(
+    () =>
+      JSON.stringify(
+        locationRoutines.map((routine) => [
+          routine.id,
+          routine.place.lat,
+          routine.place.lng,
+          routine.place.radiusMeters,
+        ])
+      ),
+    [locationRoutines]
+  );
+  const [nearby, setNearby] = useState<NearbyState | null>(null);
+
+  useEffect(() => {
+    const places = JSON.parse(placesKey) as Array<[string, number, number, number]>;
+    if (places.length === 0) return;
+    let cancelled = false;
+    const check = async () => {
+      if (document.visibilityState !== "visible") return;
+      const position = await readCurrentPosition();
+      if (cancelled || !position) return;
+      setNearby({
+        key: placesKey,
+        routineIds: places
+          .filter(([, lat, lng, radiusMeters]) =>
+            isInsidePlace({ label: "", lat, lng, radiusMeters }, position)
+          )
+          .map(([id]) => id),
+      });
+    };
+    void check();
+    document.addEventListener("visibilitychange", check);
+    const interval = window.setInterval(check, RECHECK_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("visibilitychange", check);
+      window.clearInterval(interval);
+    };
+  }, [placesKey]);
+
+  return nearby?.key === placesKey ? nearby.routineIds : [];
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import type { Firestore } from "firebase/firestore";
+import { subscribeDayLogPendingWrite } from "@/lib/repositories/dayLogs";
+import { subscribePendingTodoWrites } from "@/lib/repositories/todos";
+
+export type SyncStatus = {
+  online: boolean;
+  /** 서버에 아직 안 올라간 오늘 투두 쓰기 수 */
+  pendingTodoWrites: number;
+  /** 오늘 기록(did/learned) 수정이 아직 안 올라갔는지 */
+  dayLogPending: boolean;
+};
+
+const subscribeOnline = (onChange: () => void) => {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+};
+
+/** 브라우저 연결 상태 (서버 렌더링에서는 온라인으로 본다) */
+export function useOnline() {
+  return useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+    () => true
+  );
+}
+
+type PendingState = { key: string; todos: number; dayLog: boolean };
+
+/** 오늘 투두·기록의 서버 미반영 쓰기를 구독한다 (오프라인 배지용) */
+export function useSyncStatus(
+  db: Firestore | null,
+  userId: string | null,
+  dateKey: string
+): SyncStatus {
+  const online = useOnline();
+  const key = db && userId ? `${userId}/${dateKey}` : null;
+  const [pending, setPending] = useState<PendingState | null>(null);
+
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    const unsubscribeTodos = subscribePendingTodoWrites(db, userId, dateKey, (todos) =>
+      setPending((prev) => ({
+        key,
+        todos,
+        dayLog: prev?.key === key ? prev.dayLog : false,
+      }))
+    );
+    const unsubscribeDayLog = subscribeDayLogPendingWrite(db, userId, dateKey, (dayLog) =>
+      setPending((prev) => ({
+        key,
+        todos: prev?.key === key ? prev.todos : 0,
+        dayLog,
+      }))
+    );
+    return () => {
+      unsubscribeTodos();
+      unsubscribeDayLog();
+    };
+  }, [db, userId, dateKey, key]);
+
+  const current = key && pending?.key === key ? pending : null;
+  return {
+    online,
+    pendingTodoWrites: current?.todos ?? 0,
+    dayLogPending: current?.dayLog ?? false,
+  };
+}
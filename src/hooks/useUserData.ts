@@ -0,0 +1,336 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Firestore } from "firebase/firestore";
+import type { CalendarEvent } from "@/types/calendarEvent";
+import type { DayLog } from "@/types/dayLog";
+import type { DesignPlan } from "@/types/designPlan";
+import type { EffectLog } from "@/types/effect";
+import type { YearGoal } from "@/types/goal";
+import type { GoalTrack } from "@/types/goalTrack";
+import type { GoalTrackEvent } from "@/types/goalTrackEvent";
+import type { GoalTrackWeeklyReview } from "@/types/goalTrackWeeklyReview";
+import type { ProtectBypass } from "@/types/protectSession";
+import type { RecordItem } from "@/types/record";
+import type { RoutineRun } from "@/types/routineRun";
+import type { TodoRecurrence } from "@/types/recurrence";
+import type { TodoItem } from "@/types/todo";
+import { subscribeCalendarEvents } from "@/lib/repositories/calendarEvents";
+import { subscribeDayLog } from "@/lib/repositories/dayLogs";
+import { subscribeDesignPlans } from "@/lib/repositories/designPlans";
+import { subscribeEffectLogs } from "@/lib/repositories/effectLogs";
+import {
+  subscribeGoalTrackEventsInRange,
+  subscribeRecentGoalTrackEvents,
+} from "@/lib/repositories/goalTrackEvents";
+import { subscribeGoalTracks } from "@/lib/repositories/goalTracks";
+import { subscribeProtectBypasses } from "@/lib/repositories/protectSessions";
+import { subscribeMonthRecords } from "@/lib/repositories/records";
+import { subscribeRecurrences } from "@/lib/repositories/recurrences";
+import { subscribeRoutineRuns } from "@/lib/repositories/routineRuns";
+import { fetchGoalTrackTodosInRange, subscribeTodos } from "@/lib/repositories/todos";
+import {
+  subscribeGoalTrackReviews,
+  subscribeGoalTrackReviewsInRange,
+  subscribeWeeklyReviews,
+} from "@/lib/repositories/weeklyReviews";
+import { subscribeYearGoals } from "@/lib/repositories/yearGoals";
+
+/*
+ * 리포지토리 구독을 React 상태로 옮기는 훅 모음.
+ * 값은 구독 key(사용자 + 조건)에 묶여 있어서, key가 바뀌면 새 스냅샷이 오기 전까지 빈 값이 보인다.
+ * db/userId가 없으면 (로그인 전) 구독하지 않는다.
+ */
+
+type Keyed<T> = { key: string; value: T };
+
+const EMPTY: never[] = [];
+const EMPTY_BY_DATE: Record<string, TodoItem[]> = {};
+
+function useKeyedState<T>(key: string | null, initialValue: T) {
+  const [state, setState] = useState<Keyed<T> | null>(null);
+  const loaded = key !== null && state?.key === key;
+  const value = loaded && state ? state.value : initialValue;
+  return [value, setState, loaded] as const;
+}
+
+const subscriptionKey = (
+  db: Firestore | null,
+  userId: string | null,
+  ...parts: string[]
+): string | null => (db && userId ? [userId, ...parts].join("/") : null);
+
+export function useTodos(db: Firestore | null, userId: string | null, dateKey: string) {
+  const key = subscriptionKey(db, userId, "todos", dateKey);
+  const [todos, setTodos] = useKeyedState<TodoItem[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeTodos(db, userId, dateKey, (value) => setTodos({ key, value }));
+  }, [db, userId, dateKey, key, setTodos]);
+  return todos;
+}
+
+/** 여러 날짜의 투두를 dateKey별로 구독 */
+export function useTodosByDateKey(
+  db: Firestore | null,
+  userId: string | null,
+  dateKeys: string[]
+) {
+  const joinedKeys = dateKeys.join(",");
+  const key = subscriptionKey(db, userId, "todosByDate", joinedKeys);
+  const [todosByDateKey, setTodosByDateKey] = useKeyedState(key, EMPTY_BY_DATE);
+  useEffect(() => {
+    if (!db || !userId || !key || !joinedKeys) return;
+    const unsubs = joinedKeys.split(",").map((dateKey) =>
+      subscribeTodos(db, userId, dateKey, (todos) =>
+        setTodosByDateKey((prev) => ({
+          key,
+          value: { ...(prev?.key === key ? prev.value : {}), [dateKey]: todos },
+        }))
+      )
+    );
+    return () => unsubs.forEach((unsubscribe) => unsubscribe());
+  }, [db, userId, joinedKeys, key, setTodosByDateKey]);
+  return todosByDateKey;
+}
+
+/** 하루 기록. 문서가 없으면 null */
+export function useDayLog(db: Firestore | null, userId: string | null, dateKey: string | null) {
+  const key = dateKey ? subscriptionKey(db, userId, "days", dateKey) : null;
+  const [log, setLog] = useKeyedState<DayLog | null>(key, null);
+  useEffect(() => {
+    if (!db || !userId || !dateKey || !key) return;
+    return subscribeDayLog(db, userId, dateKey, (value) => setLog({ key, value }));
+  }, [db, userId, dateKey, key, setLog]);
+  return log;
+}
+
+export function useDesignPlans(db: Firestore | null, userId: string | null) {
+  const key = subscriptionKey(db, userId, "designPlans");
+  const [plans, setPlans] = useKeyedState<DesignPlan[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeDesignPlans(db, userId, (value) => setPlans({ key, value }));
+  }, [db, userId, key, setPlans]);
+  return plans;
+}
+
+export function useYearGoals(db: Firestore | null, userId: string | null) {
+  const key = subscriptionKey(db, userId, "yearGoals");
+  const [goals, setGoals] = useKeyedState<YearGoal[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeYearGoals(db, userId, (value) => setGoals({ key, value }));
+  }, [db, userId, key, setGoals]);
+  return goals;
+}
+
+/** [목표 목록, 첫 스냅샷을 받았는지]. 빈 목록과 아직 안 읽은 상태를 구분할 때 쓴다 */
+export function useGoalTracks(db: Firestore | null, userId: string | null) {
+  const key = subscriptionKey(db, userId, "goalTracks");
+  const [tracks, setTracks, loaded] = useKeyedState<GoalTrack[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeGoalTracks(db, userId, (value) => setTracks({ key, value }));
+  }, [db, userId, key, setTracks]);
+  return [tracks, loaded] as const;
+}
+
+export function useRecentGoalTrackEvents(db: Firestore | null, userId: string | null) {
+  const key = subscriptionKey(db, userId, "goalTrackEvents");
+  const [events, setEvents] = useKeyedState<GoalTrackEvent[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeRecentGoalTrackEvents(db, userId, (value) => setEvents({ key, value }));
+  }, [db, userId, key, setEvents]);
+  return events;
+}
+
+export function useWeeklyReviews(
+  db: Firestore | null,
+  userId: string | null,
+  weekStartKeys: string[]
+) {
+  const joinedKeys = weekStartKeys.join(",");
+  const key = subscriptionKey(db, userId, "weeklyReviews", joinedKeys);
+  const [reviews, setReviews] = useKeyedState<GoalTrackWeeklyReview[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key || !joinedKeys) return;
+    return subscribeWeeklyReviews(db, userId, joinedKeys.split(","), (value) =>
+      setReviews({ key, value })
+    );
+  }, [db, userId, joinedKeys, key, setReviews]);
+  return reviews;
+}
+
+/**
+ * 목표 트랙 하나의 fromKey~toKey 연결 투두 (dateKey별). goalTrackId가 null이면 읽지 않는다.
+ * 구독하지 않고 기간이 바뀔 때 한 번 읽는다. 인덱스가 없거나 오프라인이면 빈 값.
+ */
+export function useGoalTrackTodosInRange(
+  db: Firestore | null,
+  userId: string | null,
+  goalTrackId: string | null,
+  fromKey: string,
+  toKey: string
+) {
+  const key = goalTrackId
+    ? subscriptionKey(db, userId, "goalTrackTodos", goalTrackId, fromKey, toKey)
+    : null;
+  const [todosByDateKey, setTodosByDateKey, loaded] = useKeyedState(key, EMPTY_BY_DATE);
+  useEffect(() => {
+    if (!db || !userId || !goalTrackId || !key) return;
+    let cancelled = false;
+    void fetchGoalTrackTodosInRange(db, userId, goalTrackId, fromKey, toKey)
+      .then((value) => {
+        if (!cancelled) setTodosByDateKey({ key, value });
+      })
+      .catch(() => {
+        if (!cancelled) setTodosByDateKey({ key, value: {} });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [db, userId, goalTrackId, fromKey, toKey, key, setTodosByDateKey]);
+  return [todosByDateKey, loaded] as const;
+}
+
+/** 목표 트랙 하나의 모든 회고. goalTrackId가 null이면 읽지 않는다 */
+export function useGoalTrackReviews(
+  db: Firestore | null,
+  userId: string | null,
+  goalTrackId: string | null
+) {
+  const key = goalTrackId ? subscriptionKey(db, userId, "goalTrackReviews", goalTrackId) : null;
+  const [reviews, setReviews, loaded] = useKeyedState<GoalTrackWeeklyReview[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !goalTrackId || !key) return;
+    return subscribeGoalTrackReviews(db, userId, goalTrackId, (value) =>
+      setReviews({ key, value })
+    );
+  }, [db, userId, goalTrackId, key, setReviews]);
+  return [reviews, loaded] as const;
+}
+
+/**
+ * 목표 트랙 하나의 기간 데이터 (추이 화면용): 실행 기록, 회고, 연결 투두.
+ * goalTrackId가 null이면 읽지 않는다. 투두는 구독하지 않고 기간이 바뀔 때 한 번 읽는다.
+ */
+export function useGoalTrackRangeData(
+  db: Firestore | null,
+  userId: string | null,
+  goalTrackId: string | null,
+  fromKey: string,
+  toKey: string
+) {
+  const key = goalTrackId
+    ? subscriptionKey(db, userId, "goalTrackRange", goalTrackId, fromKey, toKey)
+    : null;
+  const [events, setEvents, eventsLoaded] = useKeyedState<GoalTrackEvent[]>(key, EMPTY);
+  const [reviews, setReviews, reviewsLoaded] = useKeyedState<GoalTrackWeeklyReview[]>(key, EMPTY);
+  const [todosByDateKey, todosLoaded] = useGoalTrackTodosInRange(
+    db,
+    userId,
+    goalTrackId,
+    fromKey,
+    toKey
+  );
+  useEffect(() => {
+    if (!db || !userId || !goalTrackId || !key) return;
+    const unsubscribeEvents = subscribeGoalTrackEventsInRange(
+      db,
+      userId,
+      goalTrackId,
+      fromKey,
+      toKey,
+      (value) => setEvents({ key, value })
+    );
+    const unsubscribeReviews = subscribeGoalTrackReviewsInRange(
+      db,
+      userId,
+      goalTrackId,
+      fromKey,
+      toKey,
+      (value) => setReviews({ key, value })
+    );
+    return () => {
+      unsubscribeEvents();
+      unsubscribeReviews();
+    };
+  }, [db, userId, goalTrackId, fromKey, toKey, key, setEvents, setReviews]);
+  return {
+    events,
+    reviews,
+    todosByDateKey,
+    loaded: eventsLoaded && reviewsLoaded && todosLoaded,
+  };
+}
+
+export function useRecurrences(db: Firestore | null, userId: string | null, todayKey: string) {
+  const key = subscriptionKey(db, userId, "recurrences", todayKey);
+  const [recurrences, setRecurrences] = useKeyedState<TodoRecurrence[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeRecurrences(db, userId, todayKey, (value) =>
+      setRecurrences({ key, value })
+    );
+  }, [db, userId, todayKey, key, setRecurrences]);
+  return recurrences;
+}
+
+/** monthKey(YYYY-MM) 달의 기록 */
+export function useMonthRecords(db: Firestore | null, userId: string | null, monthKey: string) {
+  const key = subscriptionKey(db, userId, "records", monthKey);
+  const [records, setRecords] = useKeyedState<RecordItem[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    const [year, month] = monthKey.split("-").map(Number);
+    return subscribeMonthRecords(db, userId, new Date(year, month - 1, 1), (value) =>
+      setRecords({ key, value })
+    );
+  }, [db, userId, monthKey, key, setRecords]);
+  return records;
+}
+
+export function useCalendarEvents(db: Firestore | null, userId: string | null) {
+  const key = subscriptionKey(db, userId, "events");
+  const [events, setEvents] = useKeyedState<CalendarEvent[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeCalendarEvents(db, userId, (value) => setEvents({ key, value }));
+  }, [db, userId, key, setEvents]);
+  return events;
+}
+
+/** 그날 방해 앱 타이머 기록 (보호 시간 요약용) */
+export function useProtectBypasses(db: Firestore | null, userId: string | null, dateKey: string) {
+  const key = subscriptionKey(db, userId, "protectBypasses", dateKey);
+  const [bypasses, setBypasses] = useKeyedState<ProtectBypass[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeProtectBypasses(db, userId, dateKey, (value) => setBypasses({ key, value }));
+  }, [db, userId, dateKey, key, setBypasses]);
+  return bypasses;
+}
+
+/** fromDateKey 이후 루틴 실행 기록 (모든 루틴, 날짜순) */
+export function useRoutineRuns(db: Firestore | null, userId: string | null, fromDateKey: string) {
+  const key = subscriptionKey(db, userId, "routineRuns", fromDateKey);
+  const [runs, setRuns] = useKeyedState<RoutineRun[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeRoutineRuns(db, userId, fromDateKey, (value) => setRuns({ key, value }));
+  }, [db, userId, fromDateKey, key, setRuns]);
+  return runs;
+}
+
+/** fromDateKey 이후 효과 기록 (날짜순) */
+export function useEffectLogs(db: Firestore | null, userId: string | null, fromDateKey: string) {
+  const key = subscriptionKey(db, userId, "effectLogs", fromDateKey);
+  const [logs, setLogs] = useKeyedState<EffectLog[]>(key, EMPTY);
+  useEffect(() => {
+    if (!db || !userId || !key) return;
+    return subscribeEffectLogs(db, userId, fromDateKey, (value) => setLogs({ key, value }));
+  }, [db, userId, fromDateKey, key, setLogs]);
+  return logs;
+}
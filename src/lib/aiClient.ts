@@ -0,0 +1,53 @@
+import { auth } from "@/lib/firebase";
+import type { AiRouteError, AiRouteResponse } from "@/types/aiApi";
+
+/**
+ * 로그인 사용자의 ID 토큰을 붙여 /api/ai/* 호출.
+ * 네트워크 오류도 { result: null, error } 로 돌려주므로 호출부는 throw를 신경 쓰지 않아도 된다.
+ */
+export async function postAiRoute<T>(
+  path: string,
+  body: unknown
+): Promise<AiRouteResponse<T>> {
+  const user = auth?.currentUser;
+  if (!user) {
+    return { result: null, error: { reason: "UNAUTHORIZED", message: "로그인이 필요해요." } };
+  }
+  try {
+    const token = await user.getIdToken();
+    const response = await fetch(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+    const data = (await response.json().catch(() => null)) as AiRouteResponse<T> | null;
+    if (!response.ok) {
+      return {
+        result: null,
+        error: data?.error ?? { reason: "HTTP_ERROR", message: `HTTP ${response.status}` },
+      };
+    }
+    return { result: data?.result ?? null, error: data?.error };
+  } catch (error) {
+    return { result: null, error: { reason: "NETWORK_ERROR", message: String(error) } };
+  }
+}
+
+/** 인증·한도 실패는 사용자에게 보여줄 문장, 그 외는 null (각 화면의 기본 안내 사용) */
+export const getAiLimitMessage = (error?: AiRouteError): string | null => {
+  if (!error) return null;
+  if (error.reason === "UNAUTHORIZED") {
+    return error.message ?? "로그인이 필요해요.";
+  }
+  if (error.reason === "QUOTA_EXCEEDED" || error.reason === "TOO_MANY_REQUESTS") {
+    const wait =
+      error.retryAfterSec && error.reason === "TOO_MANY_REQUESTS"
+        ? ` (${error.retryAfterSec}초 후)`
+        : "";
+    return `${error.message ?? "AI 사용 한도를 넘었어요."}${wait}`;
+  }
+  return null;
+};
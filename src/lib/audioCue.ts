@@ -0,0 +1,55 @@
+/** 루틴 실행 화면의 소리 신호. next=다음 할 일, timeUp=목표 시간 끝, done=루틴 끝 */
+export type AudioCue = "next" | "timeUp" | "done";
+
+/** 신호별 음 높이(Hz). 차례로 짧게 울린다 */
+const CUE_TONES: Record<AudioCue, number[]> = {
+  next: [660],
+  timeUp: [880, 880],
+  done: [523, 659, 784],
+};
+
+const TONE_SECONDS = 0.15;
+const TONE_GAP_SECONDS = 0.05;
+
+let audioContext: AudioContext | null = null;
+
+const getAudioContext = (): AudioContext | null => {
+  if (typeof window === "undefined") return null;
+  if (audioContext) return audioContext;
+  const AudioContextClass =
+    window.AudioContext ??
+    (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return null;
+  try {
+    audioContext = new AudioContextClass();
+  } catch {
+    return null;
+  }
+  return audioContext;
+};
+
+/** 짧은 신호음 + 진동. 브라우저가 막으면 조용히 넘어간다 */
+export const playAudioCue = (cue: AudioCue) => {
+  const context = getAudioContext();
+  if (context) {
+    try {
+      if (context.state === "suspended") void context.resume();
+      CUE_TONES[cue].forEach((frequency, index) => {
+        const startAt = context.currentTime + index * (TONE_SECONDS + TONE_GAP_SECONDS);
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.frequency.value = frequency;
+        gain.gain.setValueAtTime(0.2, startAt);
+        gain.gain.exponentialRampToValueAtTime(0.001, startAt + TONE_SECONDS);
+        oscillator.connect(gain).connect(context.destination);
+        oscillator.start(startAt);
+        oscillator.stop(startAt + TONE_SECONDS);
+      });
+    } catch {
+      // ignore audio failures (e.g., autoplay blocked)
+    }
+  }
+  if (typeof navigator !== "undefined" && typeof navigator.vibrate === "function") {
+    navigator.vibrate(cue === "done" ? [120, 60, 120] : 120);
+  }
+};
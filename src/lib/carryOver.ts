@@ -0,0 +1,152 @@
+import {
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  Timestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, WriteBatch } from "firebase/firestore";
+import { decideCarryOver, shiftDueAt, type CarryOverMode } from "@/domain/carryOver";
+import { getTodoDueJobRefs } from "@/lib/repositories/notificationJobs";
+import { todoDocRef, todosCollectionRef } from "@/lib/repositories/todos";
+
+/** 이월된 투두. 마감이 있으면 옮긴 날 기준으로 다시 맞춘 마감 (알림을 다시 예약할 때 쓴다) */
+export type CarriedTodo = { todoId: string; dueAt: Date | null };
+
+/** Firestore batch는 500개까지라 나눠서 커밋한다 (functions/index.js CARRY_OVER_BATCH_LIMIT과 같은 값) */
+const BATCH_LIMIT = 450;
+
+type BatchWrite = (batch: WriteBatch) => void;
+
+/** 투두별 쓰기 묶음을 BATCH_LIMIT 단위로 차례로 커밋한다. 한 투두의 쓰기는 같은 batch에 넣는다 */
+const commitWriteGroups = async (db: Firestore, groups: BatchWrite[][]) => {
+  let batch = writeBatch(db);
+  let size = 0;
+  for (const group of groups) {
+    if (size > 0 && size + group.length > BATCH_LIMIT) {
+      await batch.commit();
+      batch = writeBatch(db);
+      size = 0;
+    }
+    for (const write of group) write(batch);
+    size += group.length;
+  }
+  if (size > 0) await batch.commit();
+};
+
+/** 마감을 옮긴 날로 밀고, 전날에 미뤄 둔 알림은 지운다 */
+const shiftDueFields = (
+  data: DocumentData,
+  fromDateKey: string,
+  toDateKey: string,
+  timeZone: string
+): { dueAt: Date | null; dueSnoozedUntil: null } => ({
+  dueAt:
+    data.dueAt instanceof Timestamp
+      ? shiftDueAt(data.dueAt.toDate(), fromDateKey, toDateKey, timeZone)
+      : null,
+  dueSnoozedUntil: null,
+});
+
+/**
+ * fromDateKey의 미완료 투두를 toDateKey로 이월.
+ * 같은 todoId로 옮기므로 클라이언트와 Cloud Function이 동시에 돌아도 한 번만 생긴다.
+ * 전날 날짜로 잡힌 마감 알림 예약은 지운다. 새 예약은 돌려준 마감으로 호출한 쪽이 만든다.
+ * (functions/index.js carryOverTodos와 같은 규칙)
+ */
+export async function carryOverPendingTodos(
+  db: Firestore,
+  userId: string,
+  fromDateKey: string,
+  toDateKey: string,
+  options: { mode: CarryOverMode; maxHops: number; timeZone: string }
+): Promise<CarriedTodo[]> {
+  if (options.mode === "off" || fromDateKey >= toDateKey) return [];
+  const fromRef = todosCollectionRef(db, userId, fromDateKey);
+  const snapshot = await getDocs(query(fromRef, where("done", "==", false)));
+  if (snapshot.empty) return [];
+  const dueJobRefs = await getTodoDueJobRefs(db, userId, fromDateKey);
+  const carried: CarriedTodo[] = [];
+  const groups: BatchWrite[][] = [];
+  for (const todoDoc of snapshot.docs) {
+    const data = todoDoc.data();
+    const decision = decideCarryOver(
+      {
+        done: Boolean(data.done),
+        recurrenceId: typeof data.recurrenceId === "string" ? data.recurrenceId : null,
+        carryOverCount:
+          typeof data.carryOverCount === "number" ? data.carryOverCount : 0,
+        carryOverStale: Boolean(data.carryOverStale),
+        carriedToDateKey:
+          typeof data.carriedToDateKey === "string" ? data.carriedToDateKey : null,
+      },
+      options.maxHops
+    );
+    if (decision === "skip") continue;
+    if (decision === "stale") {
+      groups.push([(batch) => batch.update(todoDoc.ref, { carryOverStale: true })]);
+      continue;
+    }
+    const writes: BatchWrite[] = [];
+    const targetRef = todoDocRef(db, userId, toDateKey, todoDoc.id);
+    const existing = await getDoc(targetRef);
+    if (!existing.exists()) {
+      const due = shiftDueFields(data, fromDateKey, toDateKey, options.timeZone);
+      writes.push((batch) =>
+        batch.set(targetRef, {
+          ...data,
+          ...due,
+          carriedFromDateKey: fromDateKey,
+          carryOverCount: (typeof data.carryOverCount === "number" ? data.carryOverCount : 0) + 1,
+          carriedAt: serverTimestamp(),
+        })
+      );
+      carried.push({ todoId: todoDoc.id, dueAt: due.dueAt });
+    }
+    if (options.mode === "move") {
+      writes.push((batch) => batch.delete(todoDoc.ref));
+    } else {
+      writes.push((batch) => batch.update(todoDoc.ref, { carriedToDateKey: toDateKey }));
+    }
+    for (const jobRef of dueJobRefs.get(todoDoc.id) ?? []) {
+      writes.push((batch) => batch.delete(jobRef));
+    }
+    groups.push(writes);
+  }
+  await commitWriteGroups(db, groups);
+  return carried;
+}
+
+/** 결정 대기(stale) 투두를 오늘로 다시 가져온다. 이월 횟수는 초기화. 다시 맞춘 마감을 돌려준다 */
+export async function restoreStaleTodo(
+  db: Firestore,
+  userId: string,
+  fromDateKey: string,
+  toDateKey: string,
+  todoId: string,
+  timeZone: string
+): Promise<CarriedTodo | null> {
+  const sourceRef = todoDocRef(db, userId, fromDateKey, todoId);
+  const snapshot = await getDoc(sourceRef);
+  if (!snapshot.exists()) return null;
+  const data = snapshot.data();
+  const due = shiftDueFields(data, fromDateKey, toDateKey, timeZone);
+  const dueJobRefs = await getTodoDueJobRefs(db, userId, fromDateKey);
+  const batch = writeBatch(db);
+  batch.set(todoDocRef(db, userId, toDateKey, todoId), {
+    ...data,
+    ...due,
+    carriedFromDateKey: fromDateKey,
+    carryOverCount: 0,
+    carryOverStale: false,
+    carriedAt: serverTimestamp(),
+  });
+  batch.delete(sourceRef);
+  for (const jobRef of dueJobRefs.get(todoId) ?? []) {
+    batch.delete(jobRef);
+  }
+  await batch.commit();
+  return { todoId, dueAt: due.dueAt };
+}
@@ -0,0 +1,264 @@
+import {
+  collectionGroup,
+  doc,
+  documentId,
+  endAt,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  startAt,
+  Timestamp,
+  writeBatch,
+} from "firebase/firestore";
+import type {
+  CollectionReference,
+  DocumentData,
+  DocumentReference,
+  Firestore,
+  QueryDocumentSnapshot,
+} from "firebase/firestore";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  createIdRemapper,
+  remapArchive,
+} from "@/domain/dataArchive";
+import type {
+  ArchivedCollectionName,
+  ArchivedDay,
+  ArchivedDoc,
+  DataArchive,
+} from "@/types/dataArchive";
+import { calendarEventsCollectionRef } from "@/lib/repositories/calendarEvents";
+import { daysCollectionRef, dayDocRef } from "@/lib/repositories/dayLogs";
+import { designPlansCollectionRef } from "@/lib/repositories/designPlans";
+import { goalTrackEventsCollectionRef } from "@/lib/repositories/goalTrackEvents";
+import { goalTracksCollectionRef } from "@/lib/repositories/goalTracks";
+import { recordsCollectionRef } from "@/lib/repositories/records";
+import { routineRunsCollectionRef } from "@/lib/repositories/routineRuns";
+import { effectLogsCollectionRef } from "@/lib/repositories/effectLogs";
+import {
+  protectBypassesCollectionRef,
+  protectSessionsCollectionRef,
+} from "@/lib/repositories/protectSessions";
+import { recurrencesCollectionRef } from "@/lib/repositories/recurrences";
+import { settingsDocRef } from "@/lib/repositories/settings";
+import {
+  normalizeMissedReasonType,
+  todoDocRef,
+  todoInterventionsCollectionRef,
+} from "@/lib/repositories/todos";
+import { weeklyReviewsCollectionRef } from "@/lib/repositories/weeklyReviews";
+import { yearGoalsCollectionRef } from "@/lib/repositories/yearGoals";
+
+/** Firestore 값 → JSON (Timestamp는 { __timestamp: ISO }) */
+const encodeValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return { __timestamp: value.toDate().toISOString() };
+  if (value instanceof Date) return { __timestamp: value.toISOString() };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [
+        key,
+        encodeValue(item),
+      ])
+    );
+  }
+  return value;
+};
+
+/** encodeValue의 반대 */
+const decodeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    if (typeof record.__timestamp === "string") {
+      return Timestamp.fromDate(new Date(record.__timestamp));
+    }
+    return Object.fromEntries(
+      Object.entries(record).map(([key, item]) => [key, decodeValue(item)])
+    );
+  }
+  return value;
+};
+
+const encodeData = (data: DocumentData) => encodeValue(data) as Record<string, unknown>;
+const decodeData = (data: Record<string, unknown>) => decodeValue(data) as DocumentData;
+
+const toArchivedDoc = (snapshot: QueryDocumentSnapshot): ArchivedDoc => ({
+  id: snapshot.id,
+  data: encodeData(snapshot.data()),
+});
+
+const readCollection = async (ref: CollectionReference) =>
+  (await getDocs(ref)).docs.map(toArchivedDoc);
+
+/**
+ * 이 사용자의 하위 컬렉션을 컬렉션 그룹으로 읽는다.
+ * days/{dateKey} 문서 없이 투두만 있는 날도 있어서 days 목록만으로는 다 찾을 수 없다.
+ * 문서 경로(users/{uid}/...) 범위로 잘라서 본인 것만 읽는다.
+ */
+const readUserCollectionGroup = async (db: Firestore, userId: string, name: string) => {
+  const userPath = `users/${userId}`;
+  const snapshot = await getDocs(
+    query(
+      collectionGroup(db, name),
+      orderBy(documentId()),
+      startAt(userPath),
+      endAt(`${userPath}\uf8ff`)
+    )
+  );
+  // 경로: users/{uid}/days/{dateKey}/{name}/{id}
+  return snapshot.docs.map((item) => ({
+    dateKey: item.ref.parent.parent?.id ?? "",
+    doc: toArchivedDoc(item),
+  }));
+};
+
+/** users/{uid} 전체를 내보내기 파일 형태로 읽는다 */
+export async function exportUserData(db: Firestore, userId: string): Promise<DataArchive> {
+  const [settingsSnap, daysSnap, todos, interventions] = await Promise.all([
+    getDoc(settingsDocRef(db, userId)),
+    getDocs(daysCollectionRef(db, userId)),
+    readUserCollectionGroup(db, userId, "todos"),
+    readUserCollectionGroup(db, userId, "todoInterventions"),
+  ]);
+  const daysByKey = new Map<string, ArchivedDay>();
+  const dayFor = (dateKey: string) => {
+    const existing = daysByKey.get(dateKey);
+    if (existing) return existing;
+    const day: ArchivedDay = { dateKey, log: null, todos: [], todoInterventions: [] };
+    daysByKey.set(dateKey, day);
+    return day;
+  };
+  for (const dayDoc of daysSnap.docs) dayFor(dayDoc.id).log = encodeData(dayDoc.data());
+  for (const item of todos) dayFor(item.dateKey).todos.push(item.doc);
+  for (const item of interventions) dayFor(item.dateKey).todoInterventions.push(item.doc);
+
+  const [
+    designPlans,
+    yearGoals,
+    goalTracks,
+    goalTrackEvents,
+    goalTrackWeeklyReviews,
+    recurrences,
+    records,
+    events,
+    routineRuns,
+    effectLogs,
+    protectSessions,
+    protectBypasses,
+  ] = await Promise.all([
+    readCollection(designPlansCollectionRef(db, userId)),
+    readCollection(yearGoalsCollectionRef(db, userId)),
+    readCollection(goalTracksCollectionRef(db, userId)),
+    readCollection(goalTrackEventsCollectionRef(db, userId)),
+    readCollection(weeklyReviewsCollectionRef(db, userId)),
+    readCollection(recurrencesCollectionRef(db, userId)),
+    readCollection(recordsCollectionRef(db, userId)),
+    readCollection(calendarEventsCollectionRef(db, userId)),
+    readCollection(routineRunsCollectionRef(db, userId)),
+    readCollection(effectLogsCollectionRef(db, userId)),
+    readCollection(protectSessionsCollectionRef(db, userId)),
+    readCollection(protectBypassesCollectionRef(db, userId)),
+  ]);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sourceUserId: userId,
+    settings: settingsSnap.exists() ? encodeData(settingsSnap.data()) : null,
+    days: Array.from(daysByKey.values()).sort((a, b) => a.dateKey.localeCompare(b.dateKey)),
+    designPlans,
+    yearGoals,
+    goalTracks,
+    goalTrackEvents,
+    goalTrackWeeklyReviews,
+    recurrences,
+    records,
+    events,
+    routineRuns,
+    effectLogs,
+    protectSessions,
+    protectBypasses,
+  };
+}
+
+const BATCH_LIMIT = 450;
+
+type CollectionRefFactory = (db: Firestore, userId: string) => CollectionReference;
+
+const LIST_COLLECTIONS: Array<[ArchivedCollectionName, CollectionRefFactory]> = [
+  ["designPlans", designPlansCollectionRef],
+  ["yearGoals", yearGoalsCollectionRef],
+  ["goalTracks", goalTracksCollectionRef],
+  ["goalTrackEvents", goalTrackEventsCollectionRef],
+  ["goalTrackWeeklyReviews", weeklyReviewsCollectionRef],
+  ["recurrences", recurrencesCollectionRef],
+  ["records", recordsCollectionRef],
+  ["events", calendarEventsCollectionRef],
+  ["routineRuns", routineRunsCollectionRef],
+  ["effectLogs", effectLogsCollectionRef],
+  ["protectSessions", protectSessionsCollectionRef],
+  ["protectBypasses", protectBypassesCollectionRef],
+];
+
+/**
+ * 내보내기 파일을 이 계정으로 복원. 다른 계정의 파일이면 id를 결정적으로 바꿔서 쓰므로
+ * 같은 파일을 두 번 가져와도 중복이 생기지 않는다 (이미 있는 개입 기록은 다시 쓰지 않는다).
+ * 쓴 문서 수를 돌려준다.
+ */
+export async function importUserData(
+  db: Firestore,
+  userId: string,
+  source: DataArchive
+): Promise<number> {
+  const archive = remapArchive(source, createIdRemapper(source.sourceUserId, userId));
+  // 개입 기록은 규칙상 추가만 된다. 이미 있는 문서(두 번째 가져오기, 같은 계정 복원)는 건너뛴다
+  const existingInterventions = new Set(
+    (await readUserCollectionGroup(db, userId, "todoInterventions")).map(
+      (item) => `${item.dateKey}/${item.doc.id}`
+    )
+  );
+  const writes: Array<[DocumentReference, DocumentData]> = [];
+  for (const day of archive.days) {
+    if (day.log) writes.push([dayDocRef(db, userId, day.dateKey), decodeData(day.log)]);
+    for (const todo of day.todos) {
+      const data = decodeData(todo.data);
+      // 예전 이유 값(FORGOT 등)은 규칙에 맞게 현재 값으로 바꿔서 쓴다
+      if ("missedReasonType" in data) {
+        data.missedReasonType = normalizeMissedReasonType(data.missedReasonType);
+      }
+      writes.push([todoDocRef(db, userId, day.dateKey, todo.id), data]);
+    }
+    for (const item of day.todoInterventions) {
+      if (existingInterventions.has(`${day.dateKey}/${item.id}`)) continue;
+      writes.push([
+        doc(todoInterventionsCollectionRef(db, userId, day.dateKey), item.id),
+        decodeData(item.data),
+      ]);
+    }
+  }
+  for (const [name, collectionRef] of LIST_COLLECTIONS) {
+    for (const item of archive[name] ?? []) {
+      writes.push([doc(collectionRef(db, userId), item.id), decodeData(item.data)]);
+    }
+  }
+
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    for (const [ref, data] of writes.slice(i, i + BATCH_LIMIT)) batch.set(ref, data);
+    await batch.commit();
+  }
+  if (archive.settings) {
+    // 예약 알림은 옮기지 않으니, 이 계정에서 다시 맞추도록 표시를 뺀다
+    const settings = decodeData(archive.settings);
+    delete settings.notificationJobsSignature;
+    const batch = writeBatch(db);
+    batch.set(settingsDocRef(db, userId), settings, { merge: true });
+    await batch.commit();
+  }
+  return writes.length + (archive.settings ? 1 : 0);
+}
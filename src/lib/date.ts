@@ -1,17 +1,12 @@
+import { addDaysToDateKey, getDayKeyAt, getTodayKey } from "@/lib/dateKey";
+
 const pad = (value: number) => String(value).padStart(2, "0");
 
-export const getLocalDateKey = (date: Date = new Date()) => {
-  const year = date.getFullYear();
-  const month = pad(date.getMonth() + 1);
-  const day = pad(date.getDate());
-  return `${year}-${month}-${day}`;
-};
+/** 사용자 시간대·하루 시작(settings.timeZone, dayStartsAt) 기준 dateKey. 인자가 없으면 오늘 */
+export const getLocalDateKey = (date?: Date) => (date ? getDayKeyAt(date) : getTodayKey());
 
-export const getYesterdayKey = (date: Date = new Date()) => {
-  const copy = new Date(date);
-  copy.setDate(copy.getDate() - 1);
-  return getLocalDateKey(copy);
-};
+export const getYesterdayKey = (date?: Date) =>
+  addDaysToDateKey(date ? getLocalDateKey(date) : getTodayKey(), -1);
 
 export const parseTimeToMinutes = (value?: string | null) => {
   if (!value) return null;
@@ -36,8 +31,8 @@ export const getMonthStartKey = (date: Date = new Date()) => {
 };
 
 export const getMonthEndKey = (date: Date = new Date()) => {
-  const copy = new Date(date.getFullYear(), date.getMonth() + 1, 0);
-  return getLocalDateKey(copy);
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  return `${getMonthKey(date)}-${pad(lastDay)}`;
 };
 
 export const getCalendarMatrix = (date: Date = new Date()) => {
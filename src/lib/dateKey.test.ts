@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDaysToDateKey,
+  getNextRecurrenceFireAt,
+  getWeekStartKeyFromDateKey,
+  parseDayStartMinutes,
+  resolveTimeZone,
+  toDateKey,
+  toDayKey,
+  toTimeHHMM,
+  zonedTimeToDate,
+} from "@/lib/dateKey";
+
+describe("toDateKey", () => {
+  it("시간대 기준 날짜를 쓴다", () => {
+    const instant = new Date("2025-03-01T16:30:00Z");
+    expect(toDateKey(instant, "Asia/Seoul")).toBe("2025-03-02");
+    expect(toDateKey(instant, "America/New_York")).toBe("2025-03-01");
+  });
+
+  it("잘못된 시간대는 기본 시간대(Asia/Seoul)로 본다", () => {
+    expect(resolveTimeZone("Not/AZone")).toBe("Asia/Seoul");
+    expect(toDateKey(new Date("2025-03-01T16:30:00Z"), "Not/AZone")).toBe("2025-03-02");
+  });
+});
+
+describe("toDayKey", () => {
+  it("하루 시작 전 시각은 전날로 본다", () => {
+    // 서울 01:30
+    const lateNight = new Date("2025-03-01T16:30:00Z");
+    expect(toDayKey(lateNight, "Asia/Seoul", "00:00")).toBe("2025-03-02");
+    expect(toDayKey(lateNight, "Asia/Seoul", "04:00")).toBe("2025-03-01");
+  });
+
+  it("하루 시작은 정오 전까지만 받는다", () => {
+    expect(parseDayStartMinutes("04:30")).toBe(270);
+    expect(parseDayStartMinutes("13:00")).toBe(0);
+    expect(parseDayStartMinutes("4:30")).toBe(0);
+  });
+});
+
+describe("addDaysToDateKey", () => {
+  it("달·해를 넘긴다", () => {
+    expect(addDaysToDateKey("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addDaysToDateKey("2024-12-31", 1)).toBe("2025-01-01");
+    expect(addDaysToDateKey("2025-03-01", -1)).toBe("2025-02-28");
+  });
+
+  it("주 시작은 월요일", () => {
+    expect(getWeekStartKeyFromDateKey("2025-03-05")).toBe("2025-03-03");
+    expect(getWeekStartKeyFromDateKey("2025-03-09")).toBe("2025-03-03");
+    expect(getWeekStartKeyFromDateKey("2025-03-03")).toBe("2025-03-03");
+  });
+});
+
+describe("zonedTimeToDate", () => {
+  it("시간대의 벽시계 시각 → 실제 시각", () => {
+    expect(zonedTimeToDate("2025-03-02", "09:00", "Asia/Seoul").toISOString()).toBe(
+      "2025-03-02T00:00:00.000Z"
+    );
+  });
+
+  it("서머타임 전후로 오프셋이 바뀐다", () => {
+    expect(zonedTimeToDate("2025-03-08", "09:00", "America/New_York").toISOString()).toBe(
+      "2025-03-08T14:00:00.000Z"
+    );
+    expect(zonedTimeToDate("2025-03-10", "09:00", "America/New_York").toISOString()).toBe(
+      "2025-03-10T13:00:00.000Z"
+    );
+  });
+
+  it("toDateKey·toTimeHHMM과 되돌아온다", () => {
+    const date = zonedTimeToDate("2025-11-02", "23:45", "Europe/Berlin");
+    expect(toDateKey(date, "Europe/Berlin")).toBe("2025-11-02");
+    expect(toTimeHHMM(date, "Europe/Berlin")).toBe("23:45");
+  });
+});
+
+describe("getNextRecurrenceFireAt", () => {
+  it("오늘 시각이 지났으면 다음 날", () => {
+    const after = new Date("2025-03-02T01:00:00Z"); // 서울 10:00
+    expect(
+      getNextRecurrenceFireAt({ time: "09:00", timeZone: "Asia/Seoul" }, after)?.toISOString()
+    ).toBe("2025-03-03T00:00:00.000Z");
+  });
+
+  it("요일이 있으면 그 요일만", () => {
+    const after = new Date("2025-03-02T01:00:00Z"); // 2025-03-02 일요일
+    expect(
+      getNextRecurrenceFireAt(
+        { time: "09:00", timeZone: "Asia/Seoul", weekdays: [3] },
+        after
+      )?.toISOString()
+    ).toBe("2025-03-05T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  addDaysToDateKey,
+  DEFAULT_DAY_STARTS_AT,
+  DEFAULT_TIME_ZONE,
+  getDeviceTimeZone,
+  getNextRecurrenceFireAt,
+  getWeekdayFromDateKey,
+  getWeekStartKeyFromDateKey,
+  getZonedParts,
+  isValidTimeZone,
+  parseDayStartMinutes,
+  resolveTimeZone,
+  toDateKey,
+  toDayKey,
+  toTimeHHMM,
+  zonedTimeToDate,
+} from "../../functions/dateKey";
+
+/*
+ * 앱 전체가 쓰는 "사용자 시간대" 기준 날짜.
+ * 계산 규칙은 Cloud Functions와 같은 functions/dateKey.js를 그대로 쓴다.
+ * 설정을 읽기 전에는 기기 시간대, 읽은 뒤에는 settings.timeZone 기준이다.
+ * "오늘"은 settings.dayStartsAt(기본 00:00)에 바뀐다. 새벽 1시 완료도 그 전날로 남는다.
+ */
+
+export {
+  addDaysToDateKey,
+  DEFAULT_DAY_STARTS_AT,
+  DEFAULT_TIME_ZONE,
+  getDeviceTimeZone,
+  getNextRecurrenceFireAt,
+  getWeekdayFromDateKey,
+  getWeekStartKeyFromDateKey,
+  getZonedParts,
+  isValidTimeZone,
+  parseDayStartMinutes,
+  resolveTimeZone,
+  toDateKey,
+  toDayKey,
+  toTimeHHMM,
+  zonedTimeToDate,
+};
+
+let activeTimeZone = getDeviceTimeZone();
+let activeDayStartsAt = DEFAULT_DAY_STARTS_AT;
+/**
+ * 시간대를 서쪽으로 옮기거나 하루 시작을 늦추면 오늘이 어제로 돌아갈 수 있다.
+ * 그동안은 이 날짜를 오늘로 본다.
+ */
+let todayKeyFloor = "";
+
+export const getActiveTimeZone = () => activeTimeZone;
+
+export const getActiveDayStartsAt = () => activeDayStartsAt;
+
+/** 잘못된 값이면 00:00 */
+export const normalizeDayStartsAt = (value: unknown): string => {
+  const minutes = parseDayStartMinutes(value);
+  return `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+};
+
+/** 바꾸기 전의 오늘 dateKey를 하한으로 남긴다 (저장된 dateKey는 다시 계산하지 않는다) */
+const changeDayClock = (timeZone: string, dayStartsAt: string) => {
+  if (timeZone === activeTimeZone && dayStartsAt === activeDayStartsAt) return;
+  const previousToday = getTodayKey();
+  activeTimeZone = timeZone;
+  activeDayStartsAt = dayStartsAt;
+  if (toDayKey(new Date(), timeZone, dayStartsAt) < previousToday) {
+    todayKeyFloor = previousToday;
+  }
+};
+
+/** 사용자 시간대 변경 */
+export const setActiveTimeZone = (timeZone: string | null | undefined) =>
+  changeDayClock(resolveTimeZone(timeZone ?? getDeviceTimeZone()), activeDayStartsAt);
+
+/** 하루 시작 시각 변경 ("HH:MM", 정오 전까지) */
+export const setActiveDayStartsAt = (dayStartsAt: string | null | undefined) =>
+  changeDayClock(activeTimeZone, normalizeDayStartsAt(dayStartsAt));
+
+/** 사용자 시간대·하루 시작 기준 오늘 dateKey */
+export const getTodayKey = (now: Date = new Date()): string => {
+  const key = toDayKey(now, activeTimeZone, activeDayStartsAt);
+  return key < todayKeyFloor ? todayKeyFloor : key;
+};
+
+/** 어떤 시각이 속한 "하루"의 dateKey (하루 시작 반영, 하한 없음) */
+export const getDayKeyAt = (date: Date): string =>
+  toDayKey(date, activeTimeZone, activeDayStartsAt);
+
+/** 사용자 시간대의 달력 날짜 (하루 시작과 무관). 보호 시간처럼 실제 시각을 따를 때 쓴다 */
+export const getCalendarDateKey = (now: Date = new Date()): string =>
+  toDateKey(now, activeTimeZone);
+
+/** 사용자 시간대 기준 자정부터 지난 분 */
+export const getMinutesOfDay = (now: Date = new Date()): number => {
+  const { hour, minute } = getZonedParts(now, activeTimeZone);
+  return hour * 60 + minute;
+};
+
+/** 고를 수 있는 시간대 목록. 지원하지 않는 런타임이면 기본 목록 */
+export const listTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] };
+  try {
+    const zones = intl.supportedValuesOf?.("timeZone");
+    if (zones && zones.length > 0) return zones;
+  } catch {
+    // fall through
+  }
+  return [
+    "Asia/Seoul",
+    "Asia/Tokyo",
+    "Asia/Shanghai",
+    "Asia/Singapore",
+    "Europe/London",
+    "Europe/Paris",
+    "America/New_York",
+    "America/Chicago",
+    "America/Los_Angeles",
+    "Australia/Sydney",
+    "UTC",
+  ];
+};
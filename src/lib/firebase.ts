@@ -1,6 +1,12 @@
-import { initializeApp, getApps, getApp } from "firebase/app";
+import { initializeApp, getApps, getApp, type FirebaseApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import {
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+  type Firestore,
+} from "firebase/firestore";
 
 export const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -24,4 +30,22 @@ const app =
 
 export const firebaseApp = app;
 export const auth = app ? getAuth(app) : null;
-export const db = app ? getFirestore(app) : null;
+/**
+ * 브라우저에서는 IndexedDB 캐시를 켜서 오프라인에서도 읽고 쓴다 (쓰기는 연결되면 전송).
+ * 여러 탭이 같은 캐시를 나눠 쓰도록 multi-tab 매니저 사용.
+ * 이미 초기화된 경우(HMR 등)나 서버에서는 기본 인스턴스를 쓴다.
+ */
+const createFirestore = (firebaseApp: FirebaseApp): Firestore => {
+  if (typeof window === "undefined") return getFirestore(firebaseApp);
+  try {
+    return initializeFirestore(firebaseApp, {
+      localCache: persistentLocalCache({
+        tabManager: persistentMultipleTabManager(),
+      }),
+    });
+  } catch {
+    return getFirestore(firebaseApp);
+  }
+};
+
+export const db = app ? createFirestore(app) : null;
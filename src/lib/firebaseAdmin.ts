@@ -0,0 +1,22 @@
+import "server-only";
+import { cert, getApp, getApps, initializeApp, type App } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+/**
+ * 서버 라우트 전용 Admin SDK.
+ * FIREBASE_SERVICE_ACCOUNT_KEY(서비스 계정 JSON)가 있으면 그걸 쓰고,
+ * 없으면 기본 자격 증명(GOOGLE_APPLICATION_CREDENTIALS 등)으로 초기화한다.
+ */
+const getAdminApp = (): App => {
+  if (getApps().length) return getApp();
+  const serviceAccountKey = process.env.FIREBASE_SERVICE_ACCOUNT_KEY;
+  const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  if (serviceAccountKey) {
+    return initializeApp({ credential: cert(JSON.parse(serviceAccountKey)), projectId });
+  }
+  return initializeApp({ projectId });
+};
+
+export const getAdminAuth = () => getAuth(getAdminApp());
+export const getAdminDb = () => getFirestore(getAdminApp());
@@ -0,0 +1,48 @@
+import type { GeoPoint } from "@/domain/routinePlace";
+
+const POSITION_TIMEOUT_MS = 10000;
+/** 이 정도 지난 위치는 다시 묻지 않고 쓴다 */
+const POSITION_MAX_AGE_MS = 2 * 60 * 1000;
+
+const getPosition = (): Promise<GeoPoint | null> =>
+  new Promise((resolve) => {
+    if (typeof navigator === "undefined" || !navigator.geolocation) {
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) =>
+        resolve({
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy: position.coords.accuracy ?? 0,
+        }),
+      () => resolve(null),
+      { enableHighAccuracy: false, timeout: POSITION_TIMEOUT_MS, maximumAge: POSITION_MAX_AGE_MS }
+    );
+  });
+
+/** 위치 권한이 이미 허용됐는지. 권한 API가 없으면 모른다(false) */
+const isGeolocationGranted = async (): Promise<boolean> => {
+  if (typeof navigator === "undefined" || !navigator.permissions) return false;
+  try {
+    const status = await navigator.permissions.query({ name: "geolocation" });
+    return status.state === "granted";
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 앱을 열 때 쓰는 현재 위치. 권한을 이미 받은 경우에만 읽는다
+ * (열 때마다 권한 창을 띄우지 않게).
+ */
+export async function readCurrentPosition(): Promise<GeoPoint | null> {
+  if (!(await isGeolocationGranted())) return null;
+  return getPosition();
+}
+
+/** 사용자가 눌러서 묻는 현재 위치. 필요하면 권한 창이 뜬다 */
+export function requestCurrentPosition(): Promise<GeoPoint | null> {
+  return getPosition();
+}
@@ -1,5 +1,6 @@
 import { getMessaging, getToken, onMessage, type MessagePayload } from "firebase/messaging";
 import { firebaseApp, firebaseConfig } from "@/lib/firebase";
+import { SERVICE_WORKER_URL } from "@/lib/serviceWorker";
 
 const vapidKey = process.env.NEXT_PUBLIC_FIREBASE_VAPID_KEY ?? "";
 
@@ -14,9 +15,7 @@ export const registerMessaging = async () => {
   if (typeof window === "undefined") return null;
   if (!("serviceWorker" in navigator)) return null;
 
-  const registration = await navigator.serviceWorker.register(
-    "/firebase-messaging-sw.js"
-  );
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
   const readyRegistration = await navigator.serviceWorker.ready;
   readyRegistration.active?.postMessage({
     type: "FIREBASE_CONFIG",
@@ -0,0 +1,63 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import type { CalendarEvent } from "@/types/calendarEvent";
+import { createConverter } from "./converter";
+
+export const calendarEventsCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "events");
+
+export const fromCalendarEventData = (id: string, data: DocumentData): CalendarEvent => ({
+  id,
+  title: typeof data.title === "string" ? data.title : "",
+  dateKey: typeof data.dateKey === "string" ? data.dateKey : "",
+  time: typeof data.time === "string" ? data.time : "",
+  createdAt: data.createdAt,
+});
+
+export const calendarEventConverter = createConverter(fromCalendarEventData);
+
+/** 일정 구독 (날짜·시간 순) */
+export function subscribeCalendarEvents(
+  db: Firestore,
+  userId: string,
+  onChange: (events: CalendarEvent[]) => void
+): Unsubscribe {
+  const eventsQuery = query(
+    calendarEventsCollectionRef(db, userId).withConverter(calendarEventConverter),
+    orderBy("dateKey", "asc"),
+    orderBy("time", "asc")
+  );
+  return onSnapshot(eventsQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+export async function addCalendarEvent(
+  db: Firestore,
+  userId: string,
+  event: Pick<CalendarEvent, "title" | "dateKey" | "time">
+): Promise<void> {
+  await addDoc(calendarEventsCollectionRef(db, userId), {
+    title: event.title.trim(),
+    dateKey: event.dateKey,
+    time: event.time,
+    createdAt: serverTimestamp(),
+  });
+}
+
+export async function deleteCalendarEvent(
+  db: Firestore,
+  userId: string,
+  eventId: string
+): Promise<void> {
+  await deleteDoc(doc(calendarEventsCollectionRef(db, userId), eventId));
+}
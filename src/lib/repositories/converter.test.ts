@@ -0,0 +1,68 @@
+import { Timestamp, type QueryDocumentSnapshot } from "firebase/firestore";
+import { describe, expect, it } from "vitest";
+import {
+  asNullableString,
+  asString,
+  createConverter,
+  toDate,
+  toIsoString,
+  toNullableDate,
+} from "./converter";
+
+/** 메모리 데이터 → 스냅샷 (컨버터가 쓰는 id·data만) */
+const snapshotOf = (id: string, data: Record<string, unknown>) =>
+  ({ id, data: () => data }) as unknown as QueryDocumentSnapshot;
+
+type Item = { id: string; title: string; count: number };
+
+const converter = createConverter<Item>((id, data) => ({
+  id,
+  title: typeof data.title === "string" ? data.title : "",
+  count: typeof data.count === "number" ? data.count : 0,
+}));
+
+describe("createConverter", () => {
+  it("쓸 때는 id를 빼고, 읽을 때는 문서 id를 붙인다", () => {
+    const item: Item = { id: "a1", title: "단어", count: 3 };
+    const stored = converter.toFirestore(item);
+    expect(stored).toEqual({ title: "단어", count: 3 });
+    expect(converter.fromFirestore(snapshotOf("a1", stored))).toEqual(item);
+  });
+
+  it("없는 필드는 fromData의 기본값", () => {
+    expect(converter.fromFirestore(snapshotOf("a2", {}))).toEqual({
+      id: "a2",
+      title: "",
+      count: 0,
+    });
+  });
+});
+
+describe("날짜·문자열 변환", () => {
+  const date = new Date("2025-03-01T00:00:00.000Z");
+
+  it("Timestamp와 Date를 Date로", () => {
+    expect(toDate(Timestamp.fromDate(date))).toEqual(date);
+    expect(toDate(date)).toBe(date);
+    expect(toNullableDate(null)).toBeNull();
+    expect(toNullableDate(undefined)).toBeNull();
+    expect(toNullableDate(Timestamp.fromDate(date))).toEqual(date);
+  });
+
+  it("serverTimestamp가 아직 없으면 지금", () => {
+    const before = Date.now();
+    expect(toDate(undefined).getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it("ISO 문자열은 예전 문자열 값도 그대로", () => {
+    expect(toIsoString(Timestamp.fromDate(date))).toBe("2025-03-01T00:00:00.000Z");
+    expect(toIsoString("2024-01-01T00:00:00.000Z")).toBe("2024-01-01T00:00:00.000Z");
+    expect(toIsoString(42)).toBe("");
+  });
+
+  it("문자열이 아니면 기본값", () => {
+    expect(asString(1, "없음")).toBe("없음");
+    expect(asNullableString(undefined)).toBeNull();
+    expect(asNullableString("x")).toBe("x");
+  });
+});
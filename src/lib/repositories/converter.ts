@@ -0,0 +1,53 @@
+import type {
+  DocumentData,
+  FirestoreDataConverter,
+  PartialWithFieldValue,
+  QueryDocumentSnapshot,
+  SnapshotOptions,
+} from "firebase/firestore";
+
+/**
+ * 문서 id + 원본 데이터 → 앱 모델.
+ * Firestore 없이 순수 함수로 돌기 때문에 메모리 데이터로도 그대로 검증할 수 있다.
+ */
+export type FromFirestoreData<T> = (id: string, data: DocumentData) => T;
+
+/** fromData로 읽고, 쓸 때는 id만 빼고 그대로 저장하는 컨버터 */
+export const createConverter = <T extends { id: string }>(
+  fromData: FromFirestoreData<T>
+): FirestoreDataConverter<T> => ({
+  toFirestore: (value: PartialWithFieldValue<T>) => {
+    const data: DocumentData = { ...value };
+    delete data.id;
+    return data;
+  },
+  fromFirestore: (snapshot: QueryDocumentSnapshot, options?: SnapshotOptions) =>
+    fromData(snapshot.id, snapshot.data(options)),
+});
+
+/** Timestamp | Date → Date. 아직 serverTimestamp가 채워지지 않았으면 지금 */
+export const toDate = (value: unknown): Date => {
+  const timestamp = value as { toDate?: () => Date } | null;
+  if (timestamp && typeof timestamp.toDate === "function") return timestamp.toDate();
+  return value instanceof Date ? value : new Date();
+};
+
+/** Timestamp | Date → Date. 값이 없으면 null */
+export const toNullableDate = (value: unknown): Date | null =>
+  value == null ? null : toDate(value);
+
+/** Timestamp | string → ISO 문자열. 없으면 "" */
+export const toIsoString = (value: unknown): string => {
+  if (typeof value === "string") return value;
+  const timestamp = value as { toDate?: () => Date } | null;
+  if (timestamp && typeof timestamp.toDate === "function") {
+    return timestamp.toDate().toISOString();
+  }
+  return "";
+};
+
+export const asString = (value: unknown, fallback = ""): string =>
+  typeof value === "string" ? value : fallback;
+
+export const asNullableString = (value: unknown): string | null =>
+  typeof value === "string" ? value : null;
@@ -0,0 +1,74 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import type { DayLog } from "@/types/dayLog";
+
+export const daysCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "days");
+
+export const dayDocRef = (db: Firestore, userId: string, dateKey: string) =>
+  doc(db, "users", userId, "days", dateKey);
+
+export const fromDayLogData = (data: DocumentData): DayLog => ({
+  did: typeof data.did === "string" ? data.did : "",
+  learned: typeof data.learned === "string" ? data.learned : "",
+  reviewedAt: data.reviewedAt ?? null,
+});
+
+/** 하루 기록 구독. 문서가 없으면 null */
+export function subscribeDayLog(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  onChange: (log: DayLog | null) => void
+): Unsubscribe {
+  return onSnapshot(dayDocRef(db, userId, dateKey), (snapshot) => {
+    onChange(snapshot.exists() ? fromDayLogData(snapshot.data()) : null);
+  });
+}
+
+/** 하루 기록에 서버 미반영 쓰기가 있는지 */
+export function subscribeDayLogPendingWrite(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  onChange: (pending: boolean) => void
+): Unsubscribe {
+  return onSnapshot(
+    dayDocRef(db, userId, dateKey),
+    { includeMetadataChanges: true },
+    (snapshot) => onChange(snapshot.metadata.hasPendingWrites)
+  );
+}
+
+export async function saveDayLog(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  log: Pick<DayLog, "did" | "learned">
+): Promise<void> {
+  await setDoc(
+    dayDocRef(db, userId, dateKey),
+    {
+      did: log.did,
+      learned: log.learned,
+      date: dateKey,
+      updatedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
+
+export async function markDayLogReviewed(
+  db: Firestore,
+  userId: string,
+  dateKey: string
+): Promise<void> {
+  await updateDoc(dayDocRef(db, userId, dateKey), { reviewedAt: serverTimestamp() });
+}
@@ -0,0 +1,61 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import type { DesignPlan } from "@/types/designPlan";
+import { createConverter, toIsoString } from "./converter";
+
+export const designPlansCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "designPlans");
+
+export const designPlanDocRef = (db: Firestore, userId: string, designPlanId: string) =>
+  doc(db, "users", userId, "designPlans", designPlanId);
+
+export const fromDesignPlanData = (id: string, data: DocumentData): DesignPlan => ({
+  id,
+  title: typeof data.title === "string" ? data.title : "",
+  createdAt: toIsoString(data.createdAt),
+});
+
+export const designPlanConverter = createConverter(fromDesignPlanData);
+
+export function subscribeDesignPlans(
+  db: Firestore,
+  userId: string,
+  onChange: (plans: DesignPlan[]) => void
+): Unsubscribe {
+  const plansQuery = query(
+    designPlansCollectionRef(db, userId).withConverter(designPlanConverter),
+    orderBy("createdAt", "asc")
+  );
+  return onSnapshot(plansQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+export async function addDesignPlan(
+  db: Firestore,
+  userId: string,
+  title: string
+): Promise<void> {
+  await addDoc(designPlansCollectionRef(db, userId), {
+    title: title.trim(),
+    createdAt: serverTimestamp(),
+  });
+}
+
+export async function renameDesignPlan(
+  db: Firestore,
+  userId: string,
+  designPlanId: string,
+  title: string
+): Promise<void> {
+  await updateDoc(designPlanDocRef(db, userId, designPlanId), { title: title.trim() });
+}
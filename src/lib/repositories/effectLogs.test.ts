@@ -0,0 +1,37 @@
+import { Timestamp } from "firebase/firestore";
+import { describe, expect, it } from "vitest";
+import { EffectType } from "@/types/effect";
+import { fromEffectLogData } from "./effectLogs";
+
+describe("fromEffectLogData", () => {
+  it("빈 문서는 기본값", () => {
+    expect(fromEffectLogData("2025-03-01_t1", {})).toEqual({
+      id: "2025-03-01_t1",
+      todoId: "",
+      todoText: "",
+      dateKey: "",
+      goalTrackId: null,
+      effects: [],
+      createdAt: null,
+    });
+  });
+
+  it("모르는 효과·강도는 버리고 Timestamp는 Date로", () => {
+    const createdAt = new Date("2025-03-01T09:00:00.000Z");
+    const log = fromEffectLogData("2025-03-01_t1", {
+      todoId: "t1",
+      todoText: "단어",
+      dateKey: "2025-03-01",
+      goalTrackId: "g1",
+      effects: [
+        { type: EffectType.FOCUS, intensity: 3 },
+        { type: "sleepy", intensity: 1 },
+        { type: EffectType.ENERGY, intensity: 0 },
+      ],
+      createdAt: Timestamp.fromDate(createdAt),
+    });
+    expect(log.effects).toEqual([{ type: EffectType.FOCUS, intensity: 3 }]);
+    expect(log.createdAt).toEqual(createdAt);
+    expect(log.goalTrackId).toBe("g1");
+  });
+});
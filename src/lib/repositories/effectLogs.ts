@@ -0,0 +1,134 @@
+import {
+  collection,
+  collectionGroup,
+  deleteDoc,
+  doc,
+  documentId,
+  endAt,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  startAt,
+  Timestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import { buildEffectLogId, normalizeEffects } from "@/domain/effectStats";
+import type { EffectLog, EffectLogInput } from "@/types/effect";
+import { createConverter, toNullableDate } from "./converter";
+
+export const effectLogsCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "effectLogs");
+
+export const fromEffectLogData = (id: string, data: DocumentData): EffectLog => ({
+  id,
+  todoId: typeof data.todoId === "string" ? data.todoId : "",
+  todoText: typeof data.todoText === "string" ? data.todoText : "",
+  dateKey: typeof data.dateKey === "string" ? data.dateKey : "",
+  goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : null,
+  effects: normalizeEffects(data.effects),
+  createdAt: toNullableDate(data.createdAt),
+});
+
+export const effectLogConverter = createConverter(fromEffectLogData);
+
+/** fromDateKey 이후 효과 기록 구독 (날짜순) */
+export function subscribeEffectLogs(
+  db: Firestore,
+  userId: string,
+  fromDateKey: string,
+  onChange: (logs: EffectLog[]) => void
+): Unsubscribe {
+  const logsQuery = query(
+    effectLogsCollectionRef(db, userId).withConverter(effectLogConverter),
+    where("dateKey", ">=", fromDateKey)
+  );
+  return onSnapshot(logsQuery, (snapshot) => {
+    onChange(
+      snapshot.docs
+        .map((item) => item.data())
+        .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+    );
+  });
+}
+
+/** 투두 완료 때 고른 효과 저장. 같은 날 같은 투두는 덮어쓴다 */
+export async function saveEffectLog(
+  db: Firestore,
+  userId: string,
+  log: EffectLogInput
+): Promise<void> {
+  await setDoc(doc(effectLogsCollectionRef(db, userId), buildEffectLogId(log.dateKey, log.todoId)), {
+    todoId: log.todoId,
+    todoText: log.todoText,
+    dateKey: log.dateKey,
+    goalTrackId: log.goalTrackId,
+    effects: log.effects,
+    createdAt: serverTimestamp(),
+  });
+}
+
+/** 투두 완료 취소 → 그날 효과 기록 삭제 */
+export async function removeEffectLog(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  todoId: string
+): Promise<void> {
+  await deleteDoc(doc(effectLogsCollectionRef(db, userId), buildEffectLogId(dateKey, todoId)));
+}
+
+const BACKFILL_BATCH_LIMIT = 450;
+
+/**
+ * effectLogs가 생기기 전에 완료한 투두의 effects를 effectLogs로 옮긴다 (설정에 표시하고 한 번만 돌린다).
+ * 투두는 문서 경로(users/{uid}/days/…)로 자르는 컬렉션 그룹 쿼리로 읽고, 이미 있는 기록은 건드리지 않는다.
+ * 옮긴 기록 수를 돌려준다.
+ */
+export async function backfillEffectLogs(db: Firestore, userId: string): Promise<number> {
+  const daysPath = `users/${userId}/days`;
+  const [todosSnap, logsSnap] = await Promise.all([
+    getDocs(
+      query(
+        collectionGroup(db, "todos"),
+        orderBy(documentId()),
+        startAt(`${daysPath}/`),
+        endAt(`${daysPath}/\uf8ff`)
+      )
+    ),
+    getDocs(effectLogsCollectionRef(db, userId)),
+  ]);
+  const existingIds = new Set(logsSnap.docs.map((item) => item.id));
+  const writes = todosSnap.docs.flatMap((item) => {
+    const data = item.data();
+    const dateKey = item.ref.parent.parent?.id ?? "";
+    const effects = normalizeEffects(data.effects);
+    const id = buildEffectLogId(dateKey, item.id);
+    if (!data.done || effects.length === 0 || !dateKey || existingIds.has(id)) return [];
+    return [
+      {
+        id,
+        data: {
+          todoId: item.id,
+          todoText: typeof data.text === "string" ? data.text : "",
+          dateKey,
+          goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : null,
+          effects,
+          createdAt: data.completedAt instanceof Timestamp ? data.completedAt : serverTimestamp(),
+        },
+      },
+    ];
+  });
+  for (let i = 0; i < writes.length; i += BACKFILL_BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    for (const write of writes.slice(i, i + BACKFILL_BATCH_LIMIT)) {
+      batch.set(doc(effectLogsCollectionRef(db, userId), write.id), write.data);
+    }
+    await batch.commit();
+  }
+  return writes.length;
+}
@@ -0,0 +1,141 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import { buildEventId } from "@/domain/execution";
+import type { GoalTrackEvent } from "@/types/goalTrackEvent";
+import { createConverter, toDate } from "./converter";
+
+const BATCH_LIMIT = 450;
+/** 화면에서 구독하는 최근 실행 기록 수 */
+const RECENT_EVENTS_LIMIT = 150;
+
+export const goalTrackEventsCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "goalTrackEvents");
+
+export const fromGoalTrackEventData = (id: string, data: DocumentData): GoalTrackEvent => ({
+  id,
+  goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : "",
+  todoId: typeof data.todoId === "string" ? data.todoId : "",
+  todoText: typeof data.todoText === "string" ? data.todoText : "",
+  dateKey: typeof data.dateKey === "string" ? data.dateKey : "",
+  createdAt: toDate(data.createdAt),
+});
+
+export const goalTrackEventConverter = createConverter(fromGoalTrackEventData);
+
+/** 최근 실행 기록 구독 (최신순) */
+export function subscribeRecentGoalTrackEvents(
+  db: Firestore,
+  userId: string,
+  onChange: (events: GoalTrackEvent[]) => void
+): Unsubscribe {
+  const eventsQuery = query(
+    goalTrackEventsCollectionRef(db, userId).withConverter(goalTrackEventConverter),
+    orderBy("createdAt", "desc"),
+    limit(RECENT_EVENTS_LIMIT)
+  );
+  return onSnapshot(eventsQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+/** 목표 트랙 하나의 fromKey~toKey 실행 기록 구독 (날짜순). 최근 기록 수 제한 없이 기간으로 자른다 */
+export function subscribeGoalTrackEventsInRange(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  fromKey: string,
+  toKey: string,
+  onChange: (events: GoalTrackEvent[]) => void
+): Unsubscribe {
+  const eventsQuery = query(
+    goalTrackEventsCollectionRef(db, userId).withConverter(goalTrackEventConverter),
+    where("goalTrackId", "==", goalTrackId),
+    where("dateKey", ">=", fromKey),
+    where("dateKey", "<=", toKey),
+    orderBy("dateKey", "asc")
+  );
+  return onSnapshot(eventsQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+/** 투두 완료 → 실행 1회 기록. 같은 날 같은 투두는 한 문서 (buildEventId) */
+export async function recordGoalTrackEvent(
+  db: Firestore,
+  userId: string,
+  event: { goalTrackId: string; todoId: string; todoText: string; dateKey: string }
+): Promise<void> {
+  const eventId = buildEventId(event.goalTrackId, event.todoId, event.dateKey);
+  await setDoc(doc(goalTrackEventsCollectionRef(db, userId), eventId), {
+    goalTrackId: event.goalTrackId,
+    todoId: event.todoId,
+    todoText: event.todoText,
+    dateKey: event.dateKey,
+    createdAt: serverTimestamp(),
+  });
+}
+
+/** 투두 완료 취소 → 그날 실행 기록 삭제 */
+export async function removeGoalTrackEvent(
+  db: Firestore,
+  userId: string,
+  event: { goalTrackId: string; todoId: string; dateKey: string }
+): Promise<void> {
+  const eventId = buildEventId(event.goalTrackId, event.todoId, event.dateKey);
+  await deleteDoc(doc(goalTrackEventsCollectionRef(db, userId), eventId));
+}
+
+/** goalTrackId에 해당하는 모든 goalTrackEvents 삭제 (batch 500 고려) */
+export async function deleteGoalTrackEventsByGoalTrackId(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string
+): Promise<void> {
+  const eventsRef = goalTrackEventsCollectionRef(db, userId);
+  const q = query(eventsRef, where("goalTrackId", "==", goalTrackId));
+  for (;;) {
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) break;
+    const batch = writeBatch(db);
+    const docsToDelete = snapshot.docs.slice(0, BATCH_LIMIT);
+    for (const d of docsToDelete) {
+      batch.delete(d.ref);
+    }
+    await batch.commit();
+    if (snapshot.docs.length <= BATCH_LIMIT) break;
+  }
+}
+
+/** todoId에 해당하는 모든 goalTrackEvents 삭제 */
+export async function deleteGoalTrackEventsByTodoId(
+  db: Firestore,
+  userId: string,
+  todoId: string
+): Promise<void> {
+  const eventsRef = goalTrackEventsCollectionRef(db, userId);
+  const q = query(eventsRef, where("todoId", "==", todoId));
+  for (;;) {
+    const snapshot = await getDocs(q);
+    if (snapshot.empty) break;
+    const batch = writeBatch(db);
+    const docsToDelete = snapshot.docs.slice(0, BATCH_LIMIT);
+    for (const d of docsToDelete) {
+      batch.delete(d.ref);
+    }
+    await batch.commit();
+    if (snapshot.docs.length <= BATCH_LIMIT) break;
+  }
+}
@@ -0,0 +1,35 @@
+import { Timestamp } from "firebase/firestore";
+import { describe, expect, it } from "vitest";
+import { fromGoalTrackData } from "./goalTracks";
+
+describe("fromGoalTrackData", () => {
+  it("빈 문서는 기본값 (평가 요일 토요일, 지표 없음)", () => {
+    const track = fromGoalTrackData("g1", {});
+    expect(track).toEqual({
+      id: "g1",
+      designPlanId: "",
+      title: "",
+      reviewWeekday: 6,
+      createdAt: "",
+    });
+    expect(track).not.toHaveProperty("metric");
+  });
+
+  it("틀린 요일·지표는 버리고 지표 값은 정리한다", () => {
+    expect(fromGoalTrackData("g1", { reviewWeekday: 7 }).reviewWeekday).toBe(6);
+    expect(fromGoalTrackData("g1", { metric: { label: " " } })).not.toHaveProperty("metric");
+    expect(
+      fromGoalTrackData("g1", {
+        metric: { label: " 점수 ", unit: "점", direction: "down", targetValue: "900", deadline: "12/31" },
+      }).metric
+    ).toEqual({ label: "점수", unit: "점", direction: "increase", targetValue: null, deadline: null });
+  });
+
+  it("createdAt은 Timestamp도 예전 문자열도 ISO로", () => {
+    const date = new Date("2025-03-01T00:00:00.000Z");
+    expect(fromGoalTrackData("g1", { createdAt: Timestamp.fromDate(date) }).createdAt).toBe(
+      date.toISOString()
+    );
+    expect(fromGoalTrackData("g1", { createdAt: "2024-01-01" }).createdAt).toBe("2024-01-01");
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  updateDoc,
+  writeBatch,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import { normalizeGoalMetric } from "@/domain/goalMetric";
+import type { GoalMetric } from "@/types/goalMetric";
+import type { GoalTrack } from "@/types/goalTrack";
+import { createConverter, toIsoString } from "./converter";
+
+/** 평가 요일 기본값 (토) */
+const DEFAULT_REVIEW_WEEKDAY = 6;
+
+export const goalTracksCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "goalTracks");
+
+export const goalTrackDocRef = (db: Firestore, userId: string, goalTrackId: string) =>
+  doc(db, "users", userId, "goalTracks", goalTrackId);
+
+export const fromGoalTrackData = (id: string, data: DocumentData): GoalTrack => {
+  const rw = data.reviewWeekday;
+  const metric = normalizeGoalMetric(data.metric);
+  return {
+    id,
+    designPlanId: typeof data.designPlanId === "string" ? data.designPlanId : "",
+    title: typeof data.title === "string" ? data.title : "",
+    reviewWeekday:
+      typeof rw === "number" && rw >= 0 && rw <= 6 ? rw : DEFAULT_REVIEW_WEEKDAY,
+    ...(metric ? { metric } : {}),
+    createdAt: toIsoString(data.createdAt),
+  };
+};
+
+export const goalTrackConverter = createConverter(fromGoalTrackData);
+
+export function subscribeGoalTracks(
+  db: Firestore,
+  userId: string,
+  onChange: (tracks: GoalTrack[]) => void
+): Unsubscribe {
+  const tracksQuery = query(
+    goalTracksCollectionRef(db, userId).withConverter(goalTrackConverter),
+    orderBy("createdAt", "asc")
+  );
+  return onSnapshot(tracksQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+export async function addGoalTrack(
+  db: Firestore,
+  userId: string,
+  designPlanId: string,
+  title: string
+): Promise<void> {
+  await addDoc(goalTracksCollectionRef(db, userId), {
+    designPlanId,
+    title: title.trim(),
+    reviewWeekday: DEFAULT_REVIEW_WEEKDAY,
+    createdAt: serverTimestamp(),
+  });
+}
+
+export async function renameGoalTrack(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  title: string
+): Promise<void> {
+  await updateDoc(goalTrackDocRef(db, userId, goalTrackId), { title: title.trim() });
+}
+
+/** 여러 목표의 평가 요일을 한 번에 변경 */
+export async function updateGoalTracksReviewWeekday(
+  db: Firestore,
+  userId: string,
+  goalTrackIds: string[],
+  reviewWeekday: number
+): Promise<void> {
+  const batch = writeBatch(db);
+  for (const id of goalTrackIds) {
+    batch.update(goalTrackDocRef(db, userId, id), { reviewWeekday });
+  }
+  await batch.commit();
+}
+
+/** 결과 지표 정의 저장. null이면 지운다 */
+export async function updateGoalTrackMetric(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  metric: GoalMetric | null
+): Promise<void> {
+  await updateDoc(goalTrackDocRef(db, userId, goalTrackId), { metric });
+}
+
+export async function deleteGoalTrack(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string
+): Promise<void> {
+  await deleteDoc(goalTrackDocRef(db, userId, goalTrackId));
+}
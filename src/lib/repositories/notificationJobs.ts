@@ -0,0 +1,90 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import type { DocumentReference, Firestore } from "firebase/firestore";
+import { buildNotificationJobId } from "@/domain/notificationJob";
+import type { NotificationJobInput, NotificationJobType } from "@/types/notificationJob";
+
+/** 전역 컬렉션 (스케줄러가 사용자 구분 없이 fireAt으로 읽는다) */
+export const notificationJobsCollectionRef = (db: Firestore) => collection(db, "notificationJobs");
+
+export const notificationJobDocRef = (
+  db: Firestore,
+  userId: string,
+  type: NotificationJobType,
+  dedupeKey: string
+) => doc(notificationJobsCollectionRef(db), buildNotificationJobId(userId, type, dedupeKey));
+
+const toJobData = (job: NotificationJobInput) => ({ ...job, updatedAt: serverTimestamp() });
+
+/** 예약 추가·덮어쓰기 (같은 dedupeKey면 같은 문서) */
+export async function upsertNotificationJobs(
+  db: Firestore,
+  jobs: NotificationJobInput[]
+): Promise<void> {
+  if (jobs.length === 0) return;
+  const batch = writeBatch(db);
+  for (const job of jobs) {
+    batch.set(notificationJobDocRef(db, job.userId, job.type, job.dedupeKey), toJobData(job));
+  }
+  await batch.commit();
+}
+
+/** types에 속한 이 사용자의 예약을 jobs로 통째로 바꾼다 (없어진 예약은 지운다) */
+export async function replaceNotificationJobs(
+  db: Firestore,
+  userId: string,
+  types: NotificationJobType[],
+  jobs: NotificationJobInput[]
+): Promise<void> {
+  const snapshot = await getDocs(
+    query(
+      notificationJobsCollectionRef(db),
+      where("userId", "==", userId),
+      where("type", "in", types)
+    )
+  );
+  const nextIds = new Set(
+    jobs.map((job) => buildNotificationJobId(job.userId, job.type, job.dedupeKey))
+  );
+  const batch = writeBatch(db);
+  for (const item of snapshot.docs) {
+    if (!nextIds.has(item.id)) batch.delete(item.ref);
+  }
+  for (const job of jobs) {
+    batch.set(notificationJobDocRef(db, job.userId, job.type, job.dedupeKey), toJobData(job));
+  }
+  await batch.commit();
+}
+
+/**
+ * 그 날짜 투두들의 마감 예약(todoDue) 문서. todoId별로 묶는다.
+ * 없는 문서는 규칙상 지울 수 없어서 id를 만들지 않고 조회한다.
+ */
+export async function getTodoDueJobRefs(
+  db: Firestore,
+  userId: string,
+  dateKey: string
+): Promise<Map<string, DocumentReference[]>> {
+  const snapshot = await getDocs(
+    query(
+      notificationJobsCollectionRef(db),
+      where("userId", "==", userId),
+      where("type", "==", "todoDue"),
+      where("payload.data.dateKey", "==", dateKey)
+    )
+  );
+  const refsByTodoId = new Map<string, DocumentReference[]>();
+  for (const item of snapshot.docs) {
+    const todoId = item.data().payload?.data?.todoId;
+    if (typeof todoId !== "string") continue;
+    refsByTodoId.set(todoId, [...(refsByTodoId.get(todoId) ?? []), item.ref]);
+  }
+  return refsByTodoId;
+}
@@ -0,0 +1,41 @@
+import { Timestamp } from "firebase/firestore";
+import { describe, expect, it } from "vitest";
+import { fromProtectBypassData } from "./protectSessions";
+
+describe("fromProtectBypassData", () => {
+  it("보호 시간 밖 기록은 sessionId가 null, 아직 안 끝났으면 endedAt null", () => {
+    const startedAt = new Date("2025-03-01T11:00:00.000Z");
+    const bypass = fromProtectBypassData("b1", {
+      sessionId: null,
+      dateKey: "2025-03-01",
+      appId: "yt",
+      appLabel: "YouTube",
+      minutes: 10,
+      startedAt: Timestamp.fromDate(startedAt),
+      endsAt: Timestamp.fromDate(new Date(startedAt.getTime() + 10 * 60000)),
+    });
+    expect(bypass.sessionId).toBeNull();
+    expect(bypass.startedAt).toEqual(startedAt);
+    expect(bypass.endedAt).toBeNull();
+    expect(bypass.protectStartsAt).toBeNull();
+    expect(bypass.overran).toBe(false);
+    expect(bypass.overrunMinutes).toBeNull();
+  });
+
+  it("틀린 값은 기본값", () => {
+    const bypass = fromProtectBypassData("b1", {
+      sessionId: 3,
+      minutes: "10",
+      overran: "yes",
+      overrunMinutes: "5",
+    });
+    expect(bypass).toMatchObject({
+      sessionId: null,
+      dateKey: "",
+      appId: "",
+      minutes: 0,
+      overran: false,
+      overrunMinutes: null,
+    });
+  });
+});
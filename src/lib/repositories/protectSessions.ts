@@ -0,0 +1,122 @@
+import {
+  collection,
+  doc,
+  increment,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import type { ProtectBypass, ProtectBypassInput, ProtectSessionInput } from "@/types/protectSession";
+import { buildProtectSessionId } from "@/domain/protect";
+import { createConverter, toDate, toNullableDate } from "./converter";
+
+export const protectSessionsCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "protectSessions");
+
+export const protectSessionDocRef = (db: Firestore, userId: string, sessionId: string) =>
+  doc(protectSessionsCollectionRef(db, userId), sessionId);
+
+export const protectBypassesCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "protectBypasses");
+
+export const protectBypassDocRef = (db: Firestore, userId: string, bypassId: string) =>
+  doc(protectBypassesCollectionRef(db, userId), bypassId);
+
+/** 새 타이머 기록 id (쓰기 전에 만들어 두고 초과·종료 기록에 바로 쓴다) */
+export const createProtectBypassId = (db: Firestore, userId: string): string =>
+  doc(protectBypassesCollectionRef(db, userId)).id;
+
+export const fromProtectBypassData = (id: string, data: DocumentData): ProtectBypass => ({
+  id,
+  sessionId: typeof data.sessionId === "string" ? data.sessionId : null,
+  dateKey: typeof data.dateKey === "string" ? data.dateKey : "",
+  appId: typeof data.appId === "string" ? data.appId : "",
+  appLabel: typeof data.appLabel === "string" ? data.appLabel : "",
+  minutes: typeof data.minutes === "number" ? data.minutes : 0,
+  startedAt: toDate(data.startedAt),
+  endsAt: toDate(data.endsAt),
+  endedAt: toNullableDate(data.endedAt),
+  protectStartsAt: toNullableDate(data.protectStartsAt),
+  protectEndsAt: toNullableDate(data.protectEndsAt),
+  overran: data.overran === true,
+  overrunMinutes: typeof data.overrunMinutes === "number" ? data.overrunMinutes : null,
+});
+
+export const protectBypassConverter = createConverter(fromProtectBypassData);
+
+/** 그날 시작한 방해 앱 타이머 기록 구독 */
+export function subscribeProtectBypasses(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  onChange: (bypasses: ProtectBypass[]) => void
+): Unsubscribe {
+  const bypassesQuery = query(
+    protectBypassesCollectionRef(db, userId).withConverter(protectBypassConverter),
+    where("dateKey", "==", dateKey)
+  );
+  return onSnapshot(bypassesQuery, (snapshot) => {
+    onChange(
+      snapshot.docs
+        .map((item) => item.data())
+        .sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime())
+    );
+  });
+}
+
+/**
+ * 타이머 시작을 bypassId 문서로 기록한다 (createProtectBypassId).
+ * 보호 시간 안이면 그 구간의 세션 문서도 만든다 (있으면 횟수만 올린다).
+ */
+export async function startProtectBypass(
+  db: Firestore,
+  userId: string,
+  bypassId: string,
+  session: ProtectSessionInput | null,
+  bypass: ProtectBypassInput
+): Promise<void> {
+  const bypassRef = protectBypassDocRef(db, userId, bypassId);
+  const batch = writeBatch(db);
+  if (session) {
+    batch.set(
+      protectSessionDocRef(db, userId, buildProtectSessionId(session.dateKey, session.windowId)),
+      { ...session, bypassCount: increment(1), updatedAt: serverTimestamp() },
+      { merge: true }
+    );
+  }
+  batch.set(bypassRef, {
+    ...bypass,
+    endedAt: null,
+    overran: false,
+    overrunMinutes: null,
+    createdAt: serverTimestamp(),
+  });
+  await batch.commit();
+}
+
+/** 타이머가 보호 시간 안에 끝났다 */
+export async function markProtectBypassOverrun(
+  db: Firestore,
+  userId: string,
+  bypassId: string
+): Promise<void> {
+  await updateDoc(protectBypassDocRef(db, userId, bypassId), { overran: true });
+}
+
+/** "돌아가기"를 누른 시각과 보호 시간 안에서 초과로 쓴 분 */
+export async function endProtectBypass(
+  db: Firestore,
+  userId: string,
+  bypassId: string,
+  endedAt: Date,
+  overrunMinutes: number | null
+): Promise<void> {
+  await updateDoc(protectBypassDocRef(db, userId, bypassId), {
+    endedAt,
+    overrunMinutes,
+  });
+}
@@ -0,0 +1,22 @@
+import { doc, serverTimestamp, setDoc } from "firebase/firestore";
+import type { Firestore } from "firebase/firestore";
+
+/** 문서 id = FCM 토큰 */
+export const pushTokenDocRef = (db: Firestore, userId: string, token: string) =>
+  doc(db, "users", userId, "pushTokens", token);
+
+export async function savePushToken(
+  db: Firestore,
+  userId: string,
+  token: string
+): Promise<void> {
+  await setDoc(
+    pushTokenDocRef(db, userId, token),
+    {
+      token,
+      platform: "web",
+      createdAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+}
@@ -0,0 +1,58 @@
+import {
+  addDoc,
+  collection,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  where,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import type { RecordItem } from "@/types/record";
+import { createConverter, toDate } from "./converter";
+
+export const recordsCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "records");
+
+export const fromRecordData = (id: string, data: DocumentData): RecordItem => ({
+  id,
+  content: typeof data.content === "string" ? data.content : "",
+  goalId: typeof data.goalId === "string" ? data.goalId : undefined,
+  goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : undefined,
+  createdAt: toDate(data.createdAt),
+});
+
+export const recordConverter = createConverter(fromRecordData);
+
+/** month가 속한 달의 기록 구독 (최신순) */
+export function subscribeMonthRecords(
+  db: Firestore,
+  userId: string,
+  month: Date,
+  onChange: (records: RecordItem[]) => void
+): Unsubscribe {
+  const monthStart = new Date(month.getFullYear(), month.getMonth(), 1);
+  const monthEnd = new Date(month.getFullYear(), month.getMonth() + 1, 1);
+  const recordsQuery = query(
+    recordsCollectionRef(db, userId).withConverter(recordConverter),
+    where("createdAt", ">=", monthStart),
+    where("createdAt", "<", monthEnd),
+    orderBy("createdAt", "desc")
+  );
+  return onSnapshot(recordsQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+export async function addRecord(
+  db: Firestore,
+  userId: string,
+  content: string,
+  goalTrackId: string | null
+): Promise<void> {
+  await addDoc(recordsCollectionRef(db, userId), {
+    content,
+    goalTrackId,
+    createdAt: serverTimestamp(),
+  });
+}
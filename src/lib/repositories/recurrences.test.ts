@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { fromRecurrenceData } from "./recurrences";
+
+describe("fromRecurrenceData", () => {
+  it("규칙이나 문구가 없으면 null", () => {
+    expect(fromRecurrenceData("r1", { text: "운동" }, "2025-03-01")).toBeNull();
+    expect(fromRecurrenceData("r1", { rule: { kind: "daily" }, text: "  " }, "2025-03-01"))
+      .toBeNull();
+  });
+
+  it("예전 문서: 시작일이 없으면 기본 시작일, 건너뛴 날짜는 문자열만", () => {
+    expect(
+      fromRecurrenceData(
+        "r1",
+        { text: " 운동 ", rule: { kind: "daily" }, skippedDateKeys: ["2025-03-02", 5] },
+        "2025-03-01"
+      )
+    ).toEqual({
+      id: "r1",
+      text: "운동",
+      goalTrackId: null,
+      rule: { kind: "daily" },
+      startDateKey: "2025-03-01",
+      endDateKey: null,
+      skippedDateKeys: ["2025-03-02"],
+      createdAt: "",
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  addDoc,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  onSnapshot,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import type { RecurrenceRule, TodoRecurrence } from "@/types/recurrence";
+import { addDaysToDateKey } from "@/domain/date";
+import {
+  buildRecurringTodoId,
+  isRecurrenceDueOn,
+  normalizeRecurrenceRule,
+} from "@/domain/recurrence";
+import { toIsoString } from "./converter";
+import { hasDuplicateTodo, todoDocRef } from "./todos";
+
+export const recurrencesCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "recurrences");
+
+const recurrenceDocRef = (db: Firestore, userId: string, recurrenceId: string) =>
+  doc(db, "users", userId, "recurrences", recurrenceId);
+
+/** 규칙이 깨졌거나 text가 비면 null (목록에서 제외) */
+export const fromRecurrenceData = (
+  id: string,
+  data: DocumentData,
+  fallbackStartDateKey: string
+): TodoRecurrence | null => {
+  const rule = normalizeRecurrenceRule(data.rule);
+  if (!rule || typeof data.text !== "string" || !data.text.trim()) return null;
+  return {
+    id,
+    text: data.text.trim(),
+    goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : null,
+    rule,
+    startDateKey:
+      typeof data.startDateKey === "string" ? data.startDateKey : fallbackStartDateKey,
+    endDateKey: typeof data.endDateKey === "string" ? data.endDateKey : null,
+    skippedDateKeys: Array.isArray(data.skippedDateKeys)
+      ? (data.skippedDateKeys as unknown[]).filter(
+          (k): k is string => typeof k === "string"
+        )
+      : [],
+    createdAt: toIsoString(data.createdAt),
+  };
+};
+
+export function subscribeRecurrences(
+  db: Firestore,
+  userId: string,
+  todayKey: string,
+  onChange: (recurrences: TodoRecurrence[]) => void
+): Unsubscribe {
+  return onSnapshot(recurrencesCollectionRef(db, userId), (snapshot) => {
+    onChange(
+      snapshot.docs
+        .map((item) => fromRecurrenceData(item.id, item.data(), todayKey))
+        .filter((item): item is TodoRecurrence => item !== null)
+    );
+  });
+}
+
+/** 반복 규칙 생성 후 id 반환 */
+export async function createRecurrence(
+  db: Firestore,
+  userId: string,
+  input: {
+    text: string;
+    goalTrackId: string | null;
+    rule: RecurrenceRule;
+    startDateKey: string;
+  }
+): Promise<string> {
+  const ref = await addDoc(recurrencesCollectionRef(db, userId), {
+    text: input.text.trim(),
+    goalTrackId: input.goalTrackId,
+    rule: input.rule,
+    startDateKey: input.startDateKey,
+    endDateKey: null,
+    skippedDateKeys: [],
+    createdAt: serverTimestamp(),
+    updatedAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+/**
+ * dateKey에 해당하는 반복 투두를 days/{dateKey}/todos에 생성.
+ * 문서 id가 결정적이라 여러 번 호출해도 한 번만 생긴다.
+ * 같은 text + goalTrackId 투두가 이미 있으면 건너뛴다.
+ */
+export async function materializeRecurringTodos(
+  db: Firestore,
+  userId: string,
+  recurrences: TodoRecurrence[],
+  dateKey: string
+): Promise<number> {
+  let created = 0;
+  for (const recurrence of recurrences) {
+    if (!isRecurrenceDueOn(recurrence, dateKey)) continue;
+    const todoRef = todoDocRef(
+      db,
+      userId,
+      dateKey,
+      buildRecurringTodoId(recurrence.id, dateKey)
+    );
+    const existing = await getDoc(todoRef);
+    if (existing.exists()) continue;
+    const isDuplicate = await hasDuplicateTodo(
+      db,
+      userId,
+      dateKey,
+      recurrence.text,
+      recurrence.goalTrackId
+    );
+    if (isDuplicate) continue;
+    await setDoc(todoRef, {
+      text: recurrence.text,
+      done: false,
+      effects: [],
+      completedAt: null,
+      dueAt: null,
+      goalTrackId: recurrence.goalTrackId,
+      recurrenceId: recurrence.id,
+      createdAt: serverTimestamp(),
+    });
+    created++;
+  }
+  return created;
+}
+
+/** "이번만 삭제": 투두를 지우고 다시 생성되지 않도록 날짜를 건너뛴다 */
+export async function skipRecurringTodo(
+  db: Firestore,
+  userId: string,
+  recurrenceId: string,
+  dateKey: string
+): Promise<void> {
+  await updateDoc(recurrenceDocRef(db, userId, recurrenceId), {
+    skippedDateKeys: arrayUnion(dateKey),
+    updatedAt: serverTimestamp(),
+  });
+  await deleteDoc(
+    todoDocRef(db, userId, dateKey, buildRecurringTodoId(recurrenceId, dateKey))
+  );
+}
+
+/** "이후 모두 수정": 규칙을 고치고 fromDateKey의 미완료 투두도 맞춘다 */
+export async function updateRecurrenceFromDate(
+  db: Firestore,
+  userId: string,
+  recurrence: TodoRecurrence,
+  fromDateKey: string,
+  patch: { text: string; goalTrackId: string | null }
+): Promise<void> {
+  const text = patch.text.trim();
+  if (!text) return;
+  await updateDoc(recurrenceDocRef(db, userId, recurrence.id), {
+    text,
+    goalTrackId: patch.goalTrackId,
+    updatedAt: serverTimestamp(),
+  });
+  const todoRef = todoDocRef(
+    db,
+    userId,
+    fromDateKey,
+    buildRecurringTodoId(recurrence.id, fromDateKey)
+  );
+  const snapshot = await getDoc(todoRef);
+  if (snapshot.exists() && !snapshot.data().done) {
+    await updateDoc(todoRef, { text, goalTrackId: patch.goalTrackId });
+  }
+}
+
+/** "이후 모두 삭제": fromDateKey 전날에 규칙을 끝내고 그날 미완료 투두를 지운다 */
+export async function endRecurrenceFromDate(
+  db: Firestore,
+  userId: string,
+  recurrenceId: string,
+  fromDateKey: string
+): Promise<void> {
+  await updateDoc(recurrenceDocRef(db, userId, recurrenceId), {
+    endDateKey: addDaysToDateKey(fromDateKey, -1),
+    updatedAt: serverTimestamp(),
+  });
+  const todoRef = todoDocRef(
+    db,
+    userId,
+    fromDateKey,
+    buildRecurringTodoId(recurrenceId, fromDateKey)
+  );
+  const snapshot = await getDoc(todoRef);
+  if (snapshot.exists() && !snapshot.data().done) {
+    await deleteDoc(todoRef);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { fromRoutineRunData } from "./routineRuns";
+
+describe("fromRoutineRunData", () => {
+  it("빈 문서는 기본값", () => {
+    expect(fromRoutineRunData("rt1_2025-03-01", {})).toEqual({
+      id: "rt1_2025-03-01",
+      routineId: "",
+      dateKey: "",
+      startedAt: null,
+      completedAt: null,
+      completed: false,
+      tasks: [],
+    });
+  });
+
+  it("taskId 없는 할 일은 버리고 나머지 필드는 기본값", () => {
+    const run = fromRoutineRunData("rt1_2025-03-01", {
+      completed: "true",
+      tasks: [{ taskId: "a", completed: true, durationSeconds: 90 }, { title: "id 없음" }, null],
+    });
+    expect(run.completed).toBe(false);
+    expect(run.tasks).toEqual([
+      {
+        taskId: "a",
+        title: "",
+        completed: true,
+        skipped: false,
+        completedAt: null,
+        durationSeconds: 90,
+        targetSeconds: null,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import { buildRoutineRunId } from "@/domain/routineRun";
+import type { RoutineRun, RoutineRunInput, RoutineRunTask } from "@/types/routineRun";
+import { createConverter, toNullableDate } from "./converter";
+
+const BATCH_LIMIT = 450;
+
+export const routineRunsCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "routineRuns");
+
+export const routineRunDocRef = (db: Firestore, userId: string, runId: string) =>
+  doc(routineRunsCollectionRef(db, userId), runId);
+
+const fromRunTaskData = (value: unknown): RoutineRunTask | null => {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  if (typeof data.taskId !== "string") return null;
+  return {
+    taskId: data.taskId,
+    title: typeof data.title === "string" ? data.title : "",
+    completed: data.completed === true,
+    skipped: data.skipped === true,
+    completedAt: toNullableDate(data.completedAt),
+    durationSeconds: typeof data.durationSeconds === "number" ? data.durationSeconds : null,
+    targetSeconds: typeof data.targetSeconds === "number" ? data.targetSeconds : null,
+  };
+};
+
+export const fromRoutineRunData = (id: string, data: DocumentData): RoutineRun => ({
+  id,
+  routineId: typeof data.routineId === "string" ? data.routineId : "",
+  dateKey: typeof data.dateKey === "string" ? data.dateKey : "",
+  startedAt: toNullableDate(data.startedAt),
+  completedAt: toNullableDate(data.completedAt),
+  completed: data.completed === true,
+  tasks: Array.isArray(data.tasks)
+    ? data.tasks
+        .map(fromRunTaskData)
+        .filter((task): task is RoutineRunTask => Boolean(task))
+    : [],
+});
+
+export const routineRunConverter = createConverter(fromRoutineRunData);
+
+/** fromDateKey 이후 모든 루틴의 실행 기록 구독 (날짜순) */
+export function subscribeRoutineRuns(
+  db: Firestore,
+  userId: string,
+  fromDateKey: string,
+  onChange: (runs: RoutineRun[]) => void
+): Unsubscribe {
+  const runsQuery = query(
+    routineRunsCollectionRef(db, userId).withConverter(routineRunConverter),
+    where("dateKey", ">=", fromDateKey)
+  );
+  return onSnapshot(runsQuery, (snapshot) => {
+    onChange(
+      snapshot.docs
+        .map((item) => item.data())
+        .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+    );
+  });
+}
+
+/** 그날 실행 기록 저장 (할 일 체크·완료마다 통째로 덮어쓴다) */
+export async function saveRoutineRun(
+  db: Firestore,
+  userId: string,
+  run: RoutineRunInput
+): Promise<void> {
+  await setDoc(routineRunDocRef(db, userId, buildRoutineRunId(run.routineId, run.dateKey)), {
+    routineId: run.routineId,
+    dateKey: run.dateKey,
+    startedAt: run.startedAt,
+    completedAt: run.completedAt,
+    completed: run.completed,
+    tasks: run.tasks,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+/**
+ * 예전 completionHistory(루틴 id → 완료한 dateKey)를 실행 기록으로 옮긴다.
+ * 이미 있는 기록은 완료 표시만 더하고 나머지는 그대로 둔다.
+ */
+export async function importLegacyRoutineHistory(
+  db: Firestore,
+  userId: string,
+  history: Record<string, string[]>
+): Promise<void> {
+  const entries = Object.entries(history).flatMap(([routineId, dateKeys]) =>
+    dateKeys.map((dateKey) => ({ routineId, dateKey }))
+  );
+  for (let i = 0; i < entries.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    for (const entry of entries.slice(i, i + BATCH_LIMIT)) {
+      batch.set(
+        routineRunDocRef(db, userId, buildRoutineRunId(entry.routineId, entry.dateKey)),
+        { ...entry, completed: true, updatedAt: serverTimestamp() },
+        { merge: true }
+      );
+    }
+    await batch.commit();
+  }
+}
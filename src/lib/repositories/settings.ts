@@ -0,0 +1,57 @@
+import { doc, onSnapshot, runTransaction, setDoc } from "firebase/firestore";
+import type { Firestore, PartialWithFieldValue, Unsubscribe } from "firebase/firestore";
+import { mergeRoutines, type RoutineMergeResult } from "@/domain/routineMerge";
+import type { RoutineItem, StoredSettings, WakeRoutineBase } from "@/types/settings";
+
+export const settingsDocRef = (db: Firestore, userId: string) =>
+  doc(db, "users", userId, "settings", "main");
+
+/** 설정 문서 구독. 문서가 없으면 null (정규화·기본값은 화면에서) */
+export function subscribeSettings(
+  db: Firestore,
+  userId: string,
+  onChange: (settings: StoredSettings | null) => void
+): Unsubscribe {
+  return onSnapshot(settingsDocRef(db, userId), (snapshot) => {
+    onChange(snapshot.exists() ? (snapshot.data() as StoredSettings) : null);
+  });
+}
+
+/** 설정 일부만 병합 저장 */
+export async function saveSettings(
+  db: Firestore,
+  userId: string,
+  patch: PartialWithFieldValue<StoredSettings>
+): Promise<void> {
+  await setDoc(settingsDocRef(db, userId), patch, { merge: true });
+}
+
+/**
+ * 기상 루틴 저장 (트랜잭션, 온라인 전용).
+ * 서버 revision이 base와 같으면 그대로 쓰고, 그사이 다른 기기가 썼으면 3-way 병합해서 쓴다.
+ */
+export async function saveWakeRoutineMerged(
+  db: Firestore,
+  userId: string,
+  base: WakeRoutineBase,
+  routines: RoutineItem[],
+  parseRoutines: (raw: unknown) => RoutineItem[]
+): Promise<RoutineMergeResult> {
+  const ref = settingsDocRef(db, userId);
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const data = (snapshot.exists() ? snapshot.data() : {}) as StoredSettings;
+    const remoteRevision =
+      typeof data.wakeRoutineRevision === "number" ? data.wakeRoutineRevision : 0;
+    const result =
+      remoteRevision === base.revision
+        ? { routines, conflicted: false }
+        : mergeRoutines(base.routines, routines, parseRoutines(data.wakeRoutine));
+    transaction.set(
+      ref,
+      { wakeRoutine: { routines: result.routines }, wakeRoutineRevision: remoteRevision + 1 },
+      { merge: true }
+    );
+    return result;
+  });
+}
@@ -0,0 +1,35 @@
+import { updateDoc } from "firebase/firestore";
+import type { Firestore } from "firebase/firestore";
+import { buildTodoDueJobs, buildTodoSnoozeJob } from "@/domain/notificationJob";
+import { upsertNotificationJobs } from "./notificationJobs";
+import { todoDocRef } from "./todos";
+
+/** 마감이 있는 투두의 "N분 전"·"지남" 알림 예약 (notificationJobs, type=todoDue) */
+export async function scheduleTodoDueReminders(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  todoId: string,
+  dueAt: Date,
+  leadMinutes: number
+): Promise<void> {
+  await upsertNotificationJobs(db, buildTodoDueJobs(userId, dateKey, todoId, dueAt, leadMinutes));
+}
+
+/**
+ * 투두 알림 미루기. 투두에 dueSnoozedUntil을 남기면 그 전의 예약 알림은 스케줄러가 건너뛰고,
+ * 미룬 시각에 한 번 더 알린다. 미룬 시각을 돌려준다.
+ */
+export async function snoozeTodoReminder(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  todoId: string,
+  dueAt: Date,
+  minutes: number
+): Promise<Date> {
+  const job = buildTodoSnoozeJob(userId, dateKey, todoId, dueAt, minutes);
+  await updateDoc(todoDocRef(db, userId, dateKey, todoId), { dueSnoozedUntil: job.fireAt });
+  await upsertNotificationJobs(db, [job]);
+  return job.fireAt;
+}
@@ -0,0 +1,63 @@
+import type { QueryDocumentSnapshot } from "firebase/firestore";
+import { describe, expect, it } from "vitest";
+import { MissedReasonType } from "@/types/missed-reason";
+import { EffectType } from "@/types/effect";
+import { fromTodoData, normalizeMissedReasonType, todoConverter } from "./todos";
+
+describe("fromTodoData", () => {
+  it("빈 문서는 기본값", () => {
+    expect(fromTodoData("t1", {})).toMatchObject({
+      id: "t1",
+      text: "",
+      done: false,
+      effects: [],
+      dueSnoozedUntil: null,
+      missedReasonType: null,
+      goalId: null,
+      goalTrackId: null,
+      recurrenceId: null,
+      carriedFromDateKey: null,
+      carryOverCount: 0,
+      carryOverStale: false,
+    });
+  });
+
+  it("타입이 틀린 값은 버린다", () => {
+    const todo = fromTodoData("t1", {
+      text: 3,
+      effects: "focus",
+      goalTrackId: 7,
+      carryOverCount: "2",
+      missedReasonType: "UNKNOWN",
+    });
+    expect(todo.text).toBe("");
+    expect(todo.effects).toEqual([]);
+    expect(todo.goalTrackId).toBeNull();
+    expect(todo.carryOverCount).toBe(0);
+    expect(todo.missedReasonType).toBeNull();
+  });
+
+  it("예전 이유 값은 현재 값으로", () => {
+    expect(normalizeMissedReasonType("FORGOT")).toBe(MissedReasonType.COMPLETED_BUT_NOT_CHECKED);
+    expect(normalizeMissedReasonType("TIME_MISMATCH")).toBe(MissedReasonType.NOT_ENOUGH_TIME);
+    expect(normalizeMissedReasonType("JUST_SKIP")).toBe(MissedReasonType.WANT_TO_REST);
+    expect(fromTodoData("t1", { missedReasonType: "FORGOT" }).missedReasonType).toBe(
+      MissedReasonType.COMPLETED_BUT_NOT_CHECKED
+    );
+  });
+
+  it("컨버터로 쓰고 읽으면 그대로", () => {
+    const todo = fromTodoData("t1", {
+      text: "단어 외우기",
+      done: true,
+      effects: [{ type: EffectType.FOCUS, intensity: 2 }],
+      goalTrackId: "g1",
+      carriedFromDateKey: "2025-02-28",
+      carryOverCount: 1,
+    });
+    const stored = todoConverter.toFirestore(todo);
+    expect(stored).not.toHaveProperty("id");
+    const snapshot = { id: "t1", data: () => stored } as unknown as QueryDocumentSnapshot;
+    expect(todoConverter.fromFirestore(snapshot)).toEqual(todo);
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  addDoc,
+  collection,
+  collectionGroup,
+  deleteDoc,
+  doc,
+  documentId,
+  endAt,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  startAt,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe, UpdateData } from "firebase/firestore";
+import { MissedReasonType } from "@/types/missed-reason";
+import type { TodoInput, TodoItem } from "@/types/todo";
+import { createConverter } from "./converter";
+
+export const todosCollectionRef = (db: Firestore, userId: string, dateKey: string) =>
+  collection(db, "users", userId, "days", dateKey, "todos");
+
+export const todoInterventionsCollectionRef = (
+  db: Firestore,
+  userId: string,
+  dateKey: string
+) => collection(db, "users", userId, "days", dateKey, "todoInterventions");
+
+export const todoDocRef = (db: Firestore, userId: string, dateKey: string, todoId: string) =>
+  doc(db, "users", userId, "days", dateKey, "todos", todoId);
+
+/** 예전에 저장된 이유 값도 현재 enum으로 */
+export const normalizeMissedReasonType = (value: unknown): MissedReasonType | null => {
+  if (value === "FORGOT") return MissedReasonType.COMPLETED_BUT_NOT_CHECKED;
+  if (value === "TIME_MISMATCH") return MissedReasonType.NOT_ENOUGH_TIME;
+  if (value === "JUST_SKIP") return MissedReasonType.WANT_TO_REST;
+  return Object.values(MissedReasonType).includes(value as MissedReasonType)
+    ? (value as MissedReasonType)
+    : null;
+};
+
+export const fromTodoData = (id: string, data: DocumentData): TodoItem => ({
+  id,
+  text: typeof data.text === "string" ? data.text : "",
+  done: Boolean(data.done),
+  effects: Array.isArray(data.effects) ? data.effects : [],
+  createdAt: data.createdAt,
+  completedAt: data.completedAt,
+  dueAt: data.dueAt,
+  dueSnoozedUntil: data.dueSnoozedUntil ?? null,
+  missedReasonType: normalizeMissedReasonType(data.missedReasonType),
+  goalId: typeof data.goalId === "string" ? data.goalId : null,
+  goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : null,
+  recurrenceId: typeof data.recurrenceId === "string" ? data.recurrenceId : null,
+  carriedFromDateKey:
+    typeof data.carriedFromDateKey === "string" ? data.carriedFromDateKey : null,
+  carryOverCount: typeof data.carryOverCount === "number" ? data.carryOverCount : 0,
+  carryOverStale: Boolean(data.carryOverStale),
+});
+
+export const todoConverter = createConverter(fromTodoData);
+
+/** 날짜별 투두 구독 (생성 순) */
+export function subscribeTodos(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  onChange: (todos: TodoItem[]) => void
+): Unsubscribe {
+  const todosQuery = query(
+    todosCollectionRef(db, userId, dateKey).withConverter(todoConverter),
+    orderBy("createdAt", "asc")
+  );
+  return onSnapshot(todosQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+/**
+ * 목표 트랙에 연결된 fromKey~toKey 투두를 dateKey별로 한 번 읽는다.
+ * 문서 경로(users/{uid}/days/{dateKey}/…)로 기간을 자르는 컬렉션 그룹 쿼리라
+ * 날마다 구독하지 않고 긴 기간(예: 52주)을 읽을 수 있다.
+ */
+export async function fetchGoalTrackTodosInRange(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  fromKey: string,
+  toKey: string
+): Promise<Record<string, TodoItem[]>> {
+  const daysPath = `users/${userId}/days`;
+  const snapshot = await getDocs(
+    query(
+      collectionGroup(db, "todos").withConverter(todoConverter),
+      where("goalTrackId", "==", goalTrackId),
+      orderBy(documentId()),
+      startAt(`${daysPath}/${fromKey}`),
+      endAt(`${daysPath}/${toKey}\uf8ff`)
+    )
+  );
+  const byDateKey: Record<string, TodoItem[]> = {};
+  for (const item of snapshot.docs) {
+    const dateKey = item.ref.parent.parent?.id ?? "";
+    byDateKey[dateKey] = [...(byDateKey[dateKey] ?? []), item.data()];
+  }
+  return byDateKey;
+}
+
+/** 아직 서버에 반영되지 않은 투두 쓰기 수 (오프라인 토글 등). 삭제 대기는 문서가 없어 1로 센다 */
+export function subscribePendingTodoWrites(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  onChange: (pendingCount: number) => void
+): Unsubscribe {
+  return onSnapshot(
+    todosCollectionRef(db, userId, dateKey),
+    { includeMetadataChanges: true },
+    (snapshot) => {
+      const pendingDocs = snapshot.docs.filter((item) => item.metadata.hasPendingWrites).length;
+      onChange(pendingDocs > 0 ? pendingDocs : snapshot.metadata.hasPendingWrites ? 1 : 0);
+    }
+  );
+}
+
+/** 새 투두 추가. 만든 문서 id 반환 */
+export async function addTodo(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  input: TodoInput
+): Promise<string> {
+  const ref = await addDoc(todosCollectionRef(db, userId, dateKey), {
+    text: input.text.trim(),
+    done: false,
+    effects: [],
+    completedAt: null,
+    dueAt: input.dueAt ?? null,
+    goalTrackId: input.goalTrackId ?? null,
+    createdAt: serverTimestamp(),
+  });
+  return ref.id;
+}
+
+export async function updateTodo(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  todoId: string,
+  patch: UpdateData<DocumentData>
+): Promise<void> {
+  await updateDoc(todoDocRef(db, userId, dateKey, todoId), patch);
+}
+
+export async function deleteTodo(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  todoId: string
+): Promise<void> {
+  await deleteDoc(todoDocRef(db, userId, dateKey, todoId));
+}
+
+/** 해당 날짜에 같은 text 투두가 있는지 (goalTrack 무관) */
+export async function hasTodoWithText(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  text: string
+): Promise<boolean> {
+  const snapshot = await getDocs(
+    query(todosCollectionRef(db, userId, dateKey), where("text", "==", text.trim()), limit(1))
+  );
+  return !snapshot.empty;
+}
+
+/** 해당 날짜에 같은 text + goalTrackId 투두가 이미 있는지 */
+export async function hasDuplicateTodo(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  text: string,
+  goalTrackId: string | null
+): Promise<boolean> {
+  const normalizedText = text.trim();
+  const snapshot = await getDocs(
+    query(
+      todosCollectionRef(db, userId, dateKey),
+      where("goalTrackId", "==", goalTrackId),
+      limit(50)
+    )
+  );
+  return snapshot.docs.some(
+    (d) => (d.data().text as string)?.trim() === normalizedText
+  );
+}
+
+export type TodoInterventionKind = "REASON_SELECTED" | "COMPLETED_CONFIRMED";
+
+/** days/{dateKey}/todoInterventions 에 개입 기록 추가 (추가 전용 로그) */
+export async function logTodoIntervention(
+  db: Firestore,
+  userId: string,
+  dateKey: string,
+  entry: {
+    todoId: string;
+    todoText: string;
+    reasonType: MissedReasonType;
+    kind: TodoInterventionKind;
+  }
+): Promise<void> {
+  await addDoc(todoInterventionsCollectionRef(db, userId, dateKey), {
+    ...entry,
+    createdAt: serverTimestamp(),
+  });
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { MissedReasonType } from "@/types/missed-reason";
+import { fromWeeklyReviewData } from "./weeklyReviews";
+
+describe("fromWeeklyReviewData", () => {
+  it("예전 rhythm만 있으면 status로 옮긴다", () => {
+    expect(fromWeeklyReviewData("r1", { rhythm: "sporadic" }).status).toBe("SPORADIC");
+    expect(fromWeeklyReviewData("r1", { rhythm: "stopped" }).status).toBe("STOPPED");
+    expect(fromWeeklyReviewData("r1", {}).status).toBe("STEADY");
+    expect(fromWeeklyReviewData("r1", { rhythm: "stopped", status: "STEADY" }).status).toBe(
+      "STEADY"
+    );
+  });
+
+  it("예전 nextWeekOneChange는 규칙 문구로 읽는다", () => {
+    expect(
+      fromWeeklyReviewData("r1", { nextWeekOneChange: "아침에 먼저" }).nextWeekRuleText
+    ).toBe("아침에 먼저");
+  });
+
+  it("규칙: 단일 weekday는 weekdays로, 빈 문구와 틀린 요일은 버린다", () => {
+    const review = fromWeeklyReviewData("r1", {
+      nextWeekRules: [
+        { text: " 단어 ", weekday: 1 },
+        { text: "듣기", weekdays: [2, 9, 4] },
+        { text: "  " },
+        { text: "쉬기", weekdays: [] },
+      ],
+      plannedWeekdays: [1, "2", 7, 3],
+    });
+    expect(review.nextWeekRules).toEqual([
+      { text: "단어", weekdays: [1] },
+      { text: "듣기", weekdays: [2, 4] },
+      { text: "쉬기", weekdays: undefined },
+    ]);
+    expect(review.plannedWeekdays).toEqual([1, 3]);
+  });
+
+  it("모르는 값은 비운다", () => {
+    const review = fromWeeklyReviewData("r1", {
+      blockReason: "LAZY",
+      outcomeMode: "guess",
+      sense: "better",
+      metricValue: "10",
+    });
+    expect(review.blockReason).toBeNull();
+    expect(review.outcomeMode).toBeUndefined();
+    expect(review.sense).toBeUndefined();
+    expect(review.metricValue).toBeUndefined();
+    expect(
+      fromWeeklyReviewData("r1", { blockReason: MissedReasonType.HARD_TO_START }).blockReason
+    ).toBe(MissedReasonType.HARD_TO_START);
+  });
+});
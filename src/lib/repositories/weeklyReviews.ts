@@ -0,0 +1,226 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe, UpdateData } from "firebase/firestore";
+import { buildReviewId } from "@/domain/weeklyReview";
+import type { GoalTrackWeeklyReview } from "@/types/goalTrackWeeklyReview";
+import { MissedReasonType } from "@/types/missed-reason";
+import { createConverter, toDate } from "./converter";
+
+const optionalString = (value: unknown): string | undefined =>
+  typeof value === "string" ? value : undefined;
+
+const isWeekday = (value: unknown): value is number =>
+  typeof value === "number" && value >= 0 && value <= 6;
+
+export const weeklyReviewsCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "goalTrackWeeklyReviews");
+
+/** 문서 id = goalTrackId_weekStartKey (buildReviewId) */
+export const weeklyReviewDocRef = (
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  weekStartKey: string
+) => doc(weeklyReviewsCollectionRef(db, userId), buildReviewId(goalTrackId, weekStartKey));
+
+/** 예전 필드(rhythm, nextWeekOneChange, weekday 단일값)도 현재 형태로 맞춘다 */
+export const fromWeeklyReviewData = (
+  id: string,
+  data: DocumentData
+): GoalTrackWeeklyReview => {
+  const rhythm =
+    data.rhythm === "steady" || data.rhythm === "sporadic" || data.rhythm === "stopped"
+      ? data.rhythm
+      : "steady";
+  const status =
+    data.status === "STEADY" || data.status === "SPORADIC" || data.status === "STOPPED"
+      ? data.status
+      : rhythm === "steady"
+        ? "STEADY"
+        : rhythm === "sporadic"
+          ? "SPORADIC"
+          : "STOPPED";
+  const nextWeekRuleText =
+    typeof data.nextWeekRuleText === "string"
+      ? data.nextWeekRuleText
+      : typeof data.nextWeekOneChange === "string"
+        ? data.nextWeekOneChange
+        : "";
+  const plannedWeekdays = Array.isArray(data.plannedWeekdays)
+    ? (data.plannedWeekdays as unknown[]).filter(isWeekday)
+    : undefined;
+  const nextWeekRules = Array.isArray(data.nextWeekRules)
+    ? (
+        data.nextWeekRules as Array<{
+          text?: string;
+          weekday?: number;
+          weekdays?: number[];
+        }>
+      )
+        .filter((r) => r && typeof r.text === "string" && r.text.trim())
+        .map((r) => {
+          const weekdays = Array.isArray(r.weekdays)
+            ? r.weekdays.filter(isWeekday)
+            : isWeekday(r.weekday)
+              ? [r.weekday]
+              : undefined;
+          return {
+            text: (r.text ?? "").trim(),
+            weekdays: weekdays && weekdays.length > 0 ? weekdays : undefined,
+          };
+        })
+    : undefined;
+  const blockReason =
+    typeof data.blockReason === "string" &&
+    Object.values(MissedReasonType).includes(data.blockReason as MissedReasonType)
+      ? (data.blockReason as MissedReasonType)
+      : undefined;
+  return {
+    id,
+    goalTrackId: typeof data.goalTrackId === "string" ? data.goalTrackId : "",
+    weekStartKey: typeof data.weekStartKey === "string" ? data.weekStartKey : "",
+    rhythm,
+    status,
+    wobbleMoment: optionalString(data.wobbleMoment),
+    blockReason: blockReason ?? null,
+    blockNote: optionalString(data.blockNote),
+    nextWeekOneChange: optionalString(data.nextWeekOneChange),
+    nextWeekRuleText: nextWeekRuleText || undefined,
+    nextWeekKeepOne: optionalString(data.nextWeekKeepOne),
+    plannedWeekdays,
+    nextWeekRules,
+    outcomeMode:
+      data.outcomeMode === "metric" ||
+      data.outcomeMode === "sense" ||
+      data.outcomeMode === "skip"
+        ? data.outcomeMode
+        : undefined,
+    metricLabel: optionalString(data.metricLabel),
+    metricValue: typeof data.metricValue === "number" ? data.metricValue : undefined,
+    metricUnit: optionalString(data.metricUnit),
+    sense:
+      data.sense === "closer" || data.sense === "same" || data.sense === "farther"
+        ? data.sense
+        : undefined,
+    outcomeNote: optionalString(data.outcomeNote),
+    aiRefinedRuleText: optionalString(data.aiRefinedRuleText),
+    aiRefineRationale: optionalString(data.aiRefineRationale),
+    coachFact: optionalString(data.coachFact),
+    coachPattern: optionalString(data.coachPattern),
+    coachAction: optionalString(data.coachAction),
+    coachSummary: optionalString(data.coachSummary),
+    coachQuestion: optionalString(data.coachQuestion),
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+};
+
+export const weeklyReviewConverter = createConverter(fromWeeklyReviewData);
+
+/** 주어진 주(weekStartKey 목록, 최대 30개)의 회고 구독 */
+export function subscribeWeeklyReviews(
+  db: Firestore,
+  userId: string,
+  weekStartKeys: string[],
+  onChange: (reviews: GoalTrackWeeklyReview[]) => void
+): Unsubscribe {
+  const reviewsQuery = query(
+    weeklyReviewsCollectionRef(db, userId).withConverter(weeklyReviewConverter),
+    where("weekStartKey", "in", weekStartKeys)
+  );
+  return onSnapshot(reviewsQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+/** 목표 트랙 하나의 모든 회고 구독 (지표 시계열·체감 요약용) */
+export function subscribeGoalTrackReviews(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  onChange: (reviews: GoalTrackWeeklyReview[]) => void
+): Unsubscribe {
+  const reviewsQuery = query(
+    weeklyReviewsCollectionRef(db, userId).withConverter(weeklyReviewConverter),
+    where("goalTrackId", "==", goalTrackId)
+  );
+  return onSnapshot(reviewsQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+/** 목표 트랙 하나의 fromWeekKey~toWeekKey 회고 구독 (30주를 넘는 기간용) */
+export function subscribeGoalTrackReviewsInRange(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  fromWeekKey: string,
+  toWeekKey: string,
+  onChange: (reviews: GoalTrackWeeklyReview[]) => void
+): Unsubscribe {
+  const reviewsQuery = query(
+    weeklyReviewsCollectionRef(db, userId).withConverter(weeklyReviewConverter),
+    where("goalTrackId", "==", goalTrackId),
+    where("weekStartKey", ">=", fromWeekKey),
+    where("weekStartKey", "<=", toWeekKey)
+  );
+  return onSnapshot(reviewsQuery, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+/** 저장된 회고 원본 데이터 (병합 저장용). 없으면 null */
+export async function fetchWeeklyReviewData(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  weekStartKey: string
+): Promise<DocumentData | null> {
+  const snapshot = await getDoc(weeklyReviewDocRef(db, userId, goalTrackId, weekStartKey));
+  return snapshot.exists() ? snapshot.data() : null;
+}
+
+/** 회고 병합 저장. 새 문서면 createdAt도 채운다 */
+export async function saveWeeklyReview(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  weekStartKey: string,
+  fields: DocumentData,
+  isNew: boolean
+): Promise<void> {
+  await setDoc(
+    weeklyReviewDocRef(db, userId, goalTrackId, weekStartKey),
+    {
+      ...fields,
+      goalTrackId,
+      weekStartKey,
+      updatedAt: serverTimestamp(),
+      ...(isNew ? { createdAt: serverTimestamp() } : {}),
+    },
+    { merge: true }
+  );
+}
+
+/** 이미 있는 회고의 일부 필드만 수정 */
+export async function updateWeeklyReview(
+  db: Firestore,
+  userId: string,
+  goalTrackId: string,
+  weekStartKey: string,
+  patch: UpdateData<DocumentData>
+): Promise<void> {
+  await updateDoc(weeklyReviewDocRef(db, userId, goalTrackId, weekStartKey), {
+    ...patch,
+    updatedAt: serverTimestamp(),
+  });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { fromYearGoalData } from "./yearGoals";
+
+describe("fromYearGoalData", () => {
+  it("예전 문서: designPlanId가 없으면 문서 id", () => {
+    const goal = fromYearGoalData("p1", { yearGoal: "토익 900" });
+    expect(goal.designPlanId).toBe("p1");
+    expect(goal.currentPosition).toEqual({
+      currentStatus: "",
+      dailyAvailableTime: "",
+      weakestArea: "",
+      note: "",
+    });
+    expect(goal.weeklyActionPlan).toBeUndefined();
+    expect(goal.weeklyActionPlanHistory).toEqual([]);
+    expect(goal.progress).toBe(0);
+    expect(goal.deadlineDate).toBeUndefined();
+  });
+
+  it("주간 계획: 문구 없는 투두와 형식이 틀린 계획은 버린다", () => {
+    const goal = fromYearGoalData("p1", {
+      weeklyActionPlan: {
+        weekKey: "2025-03-03",
+        todos: [{ text: "단어" }, { text: 3 }, null],
+      },
+    });
+    expect(goal.weeklyActionPlan).toEqual({
+      weekKey: "2025-03-03",
+      rationale: "",
+      todos: [{ text: "단어" }],
+      achievedRate: undefined,
+    });
+    expect(fromYearGoalData("p1", { weeklyActionPlan: { todos: [] } }).weeklyActionPlan)
+      .toBeUndefined();
+  });
+
+  it("지난 계획은 weekKey 맵에서 최근 주부터", () => {
+    const goal = fromYearGoalData("p1", {
+      weeklyActionPlanHistory: {
+        "2025-02-17": { weekKey: "2025-02-17", todos: [], achievedRate: 40 },
+        "2025-02-24": { weekKey: "2025-02-24", todos: [], achievedRate: 75 },
+        broken: { todos: [] },
+      },
+    });
+    expect(goal.weeklyActionPlanHistory?.map((plan) => [plan.weekKey, plan.achievedRate])).toEqual([
+      ["2025-02-24", 75],
+      ["2025-02-17", 40],
+    ]);
+  });
+});
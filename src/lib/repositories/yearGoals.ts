@@ -0,0 +1,172 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+} from "firebase/firestore";
+import type { DocumentData, Firestore, Unsubscribe } from "firebase/firestore";
+import type { WeeklyActionPlan, YearGoal } from "@/types/goal";
+import { createConverter, toDate } from "./converter";
+import { goalTrackEventsCollectionRef } from "./goalTrackEvents";
+
+/** Firestore `in` 조건 최대 개수 */
+const IN_QUERY_LIMIT = 30;
+
+export type YearGoalDraft = Pick<
+  YearGoal,
+  "yearGoal" | "deadlineDate" | "currentPosition" | "threeMonthGoal" | "weeklyState"
+>;
+
+export const yearGoalsCollectionRef = (db: Firestore, userId: string) =>
+  collection(db, "users", userId, "yearGoals");
+
+/** 문서 id = designPlanId */
+export const yearGoalDocRef = (db: Firestore, userId: string, designPlanId: string) =>
+  doc(db, "users", userId, "yearGoals", designPlanId);
+
+const parseWeeklyActionPlan = (value: unknown): WeeklyActionPlan | undefined => {
+  const plan = value as WeeklyActionPlan | undefined;
+  return plan && typeof plan.weekKey === "string" && Array.isArray(plan.todos)
+    ? {
+        weekKey: plan.weekKey,
+        rationale: typeof plan.rationale === "string" ? plan.rationale : "",
+        todos: plan.todos.filter((t) => typeof t?.text === "string"),
+        achievedRate: typeof plan.achievedRate === "number" ? plan.achievedRate : undefined,
+      }
+    : undefined;
+};
+
+export const fromYearGoalData = (id: string, data: DocumentData): YearGoal => {
+  const position = (data.currentPosition ?? {}) as Partial<YearGoal["currentPosition"]>;
+  // 지난 계획은 weekKey로 묶어 저장한다 (weeklyActionPlanHistory.{weekKey})
+  const history =
+    data.weeklyActionPlanHistory && typeof data.weeklyActionPlanHistory === "object"
+      ? Object.values(data.weeklyActionPlanHistory as Record<string, unknown>)
+          .map(parseWeeklyActionPlan)
+          .filter((plan): plan is WeeklyActionPlan => plan !== undefined)
+          .sort((a, b) => b.weekKey.localeCompare(a.weekKey))
+      : [];
+  return {
+    id,
+    designPlanId: typeof data.designPlanId === "string" ? data.designPlanId : id,
+    yearGoal: typeof data.yearGoal === "string" ? data.yearGoal : "",
+    deadlineDate:
+      typeof data.deadlineDate === "string" && data.deadlineDate
+        ? data.deadlineDate
+        : undefined,
+    currentPosition: {
+      currentStatus:
+        typeof position.currentStatus === "string" ? position.currentStatus : "",
+      dailyAvailableTime:
+        typeof position.dailyAvailableTime === "string" ? position.dailyAvailableTime : "",
+      weakestArea: typeof position.weakestArea === "string" ? position.weakestArea : "",
+      note: typeof position.note === "string" ? position.note : "",
+    },
+    threeMonthGoal: typeof data.threeMonthGoal === "string" ? data.threeMonthGoal : "",
+    weeklyState: typeof data.weeklyState === "string" ? data.weeklyState : "",
+    weeklyActionPlan: parseWeeklyActionPlan(data.weeklyActionPlan),
+    weeklyActionPlanHistory: history,
+    progress: typeof data.progress === "number" ? data.progress : 0,
+    startDateKey: typeof data.startDateKey === "string" ? data.startDateKey : undefined,
+    createdAt: toDate(data.createdAt),
+  };
+};
+
+export const yearGoalConverter = createConverter(fromYearGoalData);
+
+export function subscribeYearGoals(
+  db: Firestore,
+  userId: string,
+  onChange: (goals: YearGoal[]) => void
+): Unsubscribe {
+  const goalsRef = yearGoalsCollectionRef(db, userId).withConverter(yearGoalConverter);
+  return onSnapshot(goalsRef, (snapshot) => {
+    onChange(snapshot.docs.map((item) => item.data()));
+  });
+}
+
+/** 설계에 연결된 1년 목표 저장 (문서 id = designPlanId) */
+export async function saveYearGoal(
+  db: Firestore,
+  userId: string,
+  designPlanId: string,
+  draft: YearGoalDraft,
+  options: { isNew: boolean; startDateKey: string }
+): Promise<void> {
+  const ref = yearGoalDocRef(db, userId, designPlanId);
+  await setDoc(
+    ref,
+    {
+      designPlanId,
+      yearGoal: draft.yearGoal.trim(),
+      deadlineDate: draft.deadlineDate || null,
+      currentPosition: {
+        currentStatus: draft.currentPosition.currentStatus.trim(),
+        dailyAvailableTime: draft.currentPosition.dailyAvailableTime.trim(),
+        weakestArea: draft.currentPosition.weakestArea.trim(),
+        note: draft.currentPosition.note.trim(),
+      },
+      threeMonthGoal: draft.threeMonthGoal.trim(),
+      weeklyState: draft.weeklyState?.trim() ?? "",
+      updatedAt: serverTimestamp(),
+      ...(options.isNew
+        ? { progress: 0, startDateKey: options.startDateKey, createdAt: serverTimestamp() }
+        : {}),
+    },
+    { merge: true }
+  );
+}
+
+/** 계산된 진행률만 갱신 */
+export async function updateYearGoalProgress(
+  db: Firestore,
+  userId: string,
+  designPlanId: string,
+  progress: number
+): Promise<void> {
+  const ref = yearGoalDocRef(db, userId, designPlanId);
+  await setDoc(ref, { progress }, { merge: true });
+}
+
+/**
+ * goalTrackIds의 fromKey~toKey 실행 dateKey 조회 (최근 150개 구독 범위를 넘는 과거 포함).
+ * 목표 기간 밖의 기록은 읽지 않는다.
+ */
+export async function fetchExecutedDateKeys(
+  db: Firestore,
+  userId: string,
+  goalTrackIds: string[],
+  fromKey: string,
+  toKey: string
+): Promise<string[]> {
+  if (fromKey > toKey) return [];
+  const eventsRef = goalTrackEventsCollectionRef(db, userId);
+  const chunks: string[][] = [];
+  for (let i = 0; i < goalTrackIds.length; i += IN_QUERY_LIMIT) {
+    chunks.push(goalTrackIds.slice(i, i + IN_QUERY_LIMIT));
+  }
+  const snapshots = await Promise.all(
+    chunks.map((chunk) =>
+      getDocs(
+        query(
+          eventsRef,
+          where("goalTrackId", "in", chunk),
+          where("dateKey", ">=", fromKey),
+          where("dateKey", "<=", toKey)
+        )
+      )
+    )
+  );
+  const keys = new Set<string>();
+  for (const snapshot of snapshots) {
+    snapshot.docs.forEach((d) => {
+      const dateKey = d.data().dateKey;
+      if (typeof dateKey === "string" && dateKey) keys.add(dateKey);
+    });
+  }
+  return Array.from(keys).sort();
+}
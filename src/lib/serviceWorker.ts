@@ -0,0 +1,14 @@
+/** 푸시와 앱 셸 캐시를 같은 워커가 맡는다 (한 scope에 워커는 하나뿐) */
+export const SERVICE_WORKER_URL = "/firebase-messaging-sw.js";
+
+/** 앱 셸 캐시용 서비스 워커 등록. 개발 모드에서는 캐시가 HMR을 가려서 등록하지 않는다 */
+export const registerAppShellWorker = async () => {
+  if (typeof window === "undefined") return null;
+  if (!("serviceWorker" in navigator)) return null;
+  if (process.env.NODE_ENV !== "production") return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,92 @@
+import type { Firestore } from "firebase/firestore";
+import type { RoutineMergeResult } from "@/domain/routineMerge";
+import { saveWakeRoutineMerged } from "@/lib/repositories/settings";
+import type { RoutineItem, WakeRoutineBase } from "@/types/settings";
+
+/*
+ * 기상 루틴 동기화.
+ * wakeRoutine은 배열 하나라서 오프라인 쓰기를 Firestore 큐에 그냥 맡기면
+ * 다른 기기의 수정을 통째로 덮어쓴다. 그래서 오프라인 편집은 localStorage에 모아 두고,
+ * 연결되면 트랜잭션으로 서버 값과 병합해서 쓴다.
+ */
+
+const QUEUE_STORAGE_KEY = "to-day-pending-wake-routine";
+
+export type QueuedWakeRoutine = {
+  userId: string;
+  /** 첫 오프라인 편집 때의 기준점. 이후 편집이 쌓여도 유지한다 */
+  base: WakeRoutineBase;
+  routines: RoutineItem[];
+};
+
+export const readQueuedWakeRoutine = (userId: string): QueuedWakeRoutine | null => {
+  try {
+    const raw = localStorage.getItem(QUEUE_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as QueuedWakeRoutine;
+    return parsed.userId === userId ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeQueuedWakeRoutine = (entry: QueuedWakeRoutine) => {
+  try {
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(entry));
+  } catch {
+    // ignore storage failures
+  }
+};
+
+const clearQueuedWakeRoutine = () => {
+  try {
+    localStorage.removeItem(QUEUE_STORAGE_KEY);
+  } catch {
+    // ignore storage failures
+  }
+};
+
+export type WakeRoutineSyncResult =
+  | ({ status: "saved" } & RoutineMergeResult)
+  | { status: "queued" };
+
+/**
+ * 루틴 저장. 오프라인이거나 트랜잭션이 실패하면 큐에 넣고 "queued"를 돌려준다.
+ * base는 큐가 비어 있을 때만 쓰인다 (큐가 있으면 큐의 기준점 유지).
+ */
+export async function syncWakeRoutine(
+  db: Firestore,
+  userId: string,
+  base: WakeRoutineBase,
+  routines: RoutineItem[],
+  parseRoutines: (raw: unknown) => RoutineItem[]
+): Promise<WakeRoutineSyncResult> {
+  const entry: QueuedWakeRoutine = {
+    userId,
+    base: readQueuedWakeRoutine(userId)?.base ?? base,
+    routines,
+  };
+  if (typeof navigator !== "undefined" && !navigator.onLine) {
+    writeQueuedWakeRoutine(entry);
+    return { status: "queued" };
+  }
+  try {
+    const result = await saveWakeRoutineMerged(db, userId, entry.base, routines, parseRoutines);
+    clearQueuedWakeRoutine();
+    return { status: "saved", ...result };
+  } catch {
+    writeQueuedWakeRoutine(entry);
+    return { status: "queued" };
+  }
+}
+
+/** 큐에 남은 오프라인 편집을 올린다. 큐가 비어 있으면 null */
+export async function flushQueuedWakeRoutine(
+  db: Firestore,
+  userId: string,
+  parseRoutines: (raw: unknown) => RoutineItem[]
+): Promise<WakeRoutineSyncResult | null> {
+  const queued = readQueuedWakeRoutine(userId);
+  if (!queued) return null;
+  return syncWakeRoutine(db, userId, queued.base, queued.routines, parseRoutines);
+}
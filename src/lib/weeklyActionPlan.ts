@@ -0,0 +1,121 @@
+import { getDoc, getDocs, query, serverTimestamp, setDoc, where } from "firebase/firestore";
+import type { Firestore } from "firebase/firestore";
+import type { WeeklyActionPlan } from "@/types/goal";
+import { addDaysToDateKey } from "@/domain/date";
+import { addTodo, hasDuplicateTodo, todosCollectionRef } from "@/lib/repositories/todos";
+import { fromYearGoalData, yearGoalDocRef } from "@/lib/repositories/yearGoals";
+
+type WeeklyActionPlanTodo = WeeklyActionPlan["todos"][number];
+
+/** 월요일 weekKey + 요일(0=일 … 6=토) → dateKey */
+export const getPlanDateKey = (weekKey: string, weekday: number): string =>
+  addDaysToDateKey(weekKey, (weekday + 6) % 7);
+
+const getTodoWeekdays = (todo: WeeklyActionPlanTodo): number[] =>
+  todo.weekdays ?? (typeof todo.weekday === "number" ? [todo.weekday] : []);
+
+const serializePlanTodos = (todos: WeeklyActionPlanTodo[]) =>
+  todos.map((todo) => ({
+    text: todo.text.trim(),
+    weekdays: getTodoWeekdays(todo),
+    goalTrackId: todo.goalTrackId ?? null,
+  }));
+
+/**
+ * 주간 실행 계획을 yearGoal에 저장하고, 요일별 days/{dateKey}/todos에 투두로 넣는다.
+ * fromDateKey 이전 날짜는 건너뛰고, 같은 text + goalTrackId가 있으면 추가하지 않는다.
+ * 다른 주의 계획을 덮어쓸 때는 그 계획의 achievedRate를 계산해 weeklyActionPlanHistory에 남긴다.
+ */
+export async function commitWeeklyActionPlan(
+  db: Firestore,
+  userId: string,
+  designPlanId: string,
+  plan: { weekKey: string; rationale: string; weeklyState: string; todos: WeeklyActionPlanTodo[] },
+  fromDateKey: string
+): Promise<number> {
+  let created = 0;
+  for (const todo of plan.todos) {
+    const text = todo.text.trim();
+    if (!text) continue;
+    const goalTrackId = todo.goalTrackId || null;
+    for (const weekday of getTodoWeekdays(todo)) {
+      const dateKey = getPlanDateKey(plan.weekKey, weekday);
+      if (dateKey < fromDateKey) continue;
+      if (await hasDuplicateTodo(db, userId, dateKey, text, goalTrackId)) continue;
+      await addTodo(db, userId, dateKey, { text, goalTrackId });
+      created++;
+    }
+  }
+  const goalRef = yearGoalDocRef(db, userId, designPlanId);
+  const goalSnap = await getDoc(goalRef);
+  const outgoing = goalSnap.exists()
+    ? fromYearGoalData(goalSnap.id, goalSnap.data()).weeklyActionPlan
+    : undefined;
+  const archived =
+    outgoing && outgoing.weekKey !== plan.weekKey
+      ? {
+          weekKey: outgoing.weekKey,
+          rationale: outgoing.rationale,
+          todos: serializePlanTodos(outgoing.todos),
+          achievedRate:
+            outgoing.achievedRate ??
+            (await calcWeeklyActionPlanAchievedRate(db, userId, outgoing)),
+        }
+      : null;
+  await setDoc(
+    goalRef,
+    {
+      weeklyState: plan.weeklyState.trim(),
+      weeklyActionPlan: {
+        weekKey: plan.weekKey,
+        rationale: plan.rationale,
+        todos: serializePlanTodos(plan.todos),
+        achievedRate: null,
+      },
+      ...(archived ? { weeklyActionPlanHistory: { [archived.weekKey]: archived } } : {}),
+      updatedAt: serverTimestamp(),
+    },
+    { merge: true }
+  );
+  return created;
+}
+
+/** 계획된 (투두 × 요일) 중 그날 완료된 비율 (0~100) */
+export async function calcWeeklyActionPlanAchievedRate(
+  db: Firestore,
+  userId: string,
+  plan: WeeklyActionPlan
+): Promise<number> {
+  let planned = 0;
+  let done = 0;
+  for (const todo of plan.todos) {
+    const text = todo.text.trim();
+    for (const weekday of getTodoWeekdays(todo)) {
+      planned++;
+      const dateKey = getPlanDateKey(plan.weekKey, weekday);
+      const todosRef = todosCollectionRef(db, userId, dateKey);
+      const snapshot = await getDocs(
+        query(todosRef, where("goalTrackId", "==", todo.goalTrackId ?? null))
+      );
+      const matched = snapshot.docs.some(
+        (d) => (d.data().text as string)?.trim() === text && Boolean(d.data().done)
+      );
+      if (matched) done++;
+    }
+  }
+  return planned > 0 ? Math.round((done / planned) * 100) : 0;
+}
+
+/** 주가 끝난 계획의 achievedRate 저장 */
+export async function saveWeeklyActionPlanAchievedRate(
+  db: Firestore,
+  userId: string,
+  designPlanId: string,
+  achievedRate: number
+): Promise<void> {
+  await setDoc(
+    yearGoalDocRef(db, userId, designPlanId),
+    { weeklyActionPlan: { achievedRate } },
+    { merge: true }
+  );
+}
@@ -1,5 +1,9 @@
-import { Effect } from "@/types/effect";
+import { groupEffectsByDate } from "@/domain/effectStats";
+import { weightEffects } from "@/domain/userType";
+import type { Effect, EffectLog } from "@/types/effect";
+import type { UserType } from "@/types/settings";
 
+/** 날짜별 효과. effectLogs 구독에서 만들기 때문에 새로고침·다른 날에도 남는다 */
 export interface EffectState {
   byDate: Record<string, Effect[]>;
 }
@@ -8,38 +12,14 @@ export const initialEffectState: EffectState = {
   byDate: {},
 };
 
-export type EffectAction =
-  | {
-      type: "ADD_EFFECTS";
-      payload: {
-        date: string;
-        effects: Effect[];
-      };
-    };
-
-export function effectReducer(
-  state: EffectState,
-  action: EffectAction
-): EffectState {
-  switch (action.type) {
-    case "ADD_EFFECTS": {
-      const { date, effects } = action.payload;
-      return {
-        ...state,
-        byDate: {
-          ...state.byDate,
-          [date]: [...(state.byDate[date] || []), ...effects],
-        },
-      };
-    }
-    default:
-      return state;
-  }
+export function effectStateFromLogs(logs: EffectLog[]): EffectState {
+  return logs.length === 0 ? initialEffectState : { byDate: groupEffectsByDate(logs) };
 }
 
-export function applyEffectByUserType<T extends Effect[]>(
-  _userType: string,
-  effects: T
-): T {
-  return effects;
+/**
+ * 보여 주거나 모아 볼 때 사용자 유형의 효과 가중치를 적용한다.
+ * 저장은 고른 강도 그대로 하므로 유형을 바꾸면 예전 기록도 새 유형 기준으로 다시 보인다.
+ */
+export function applyEffectByUserType(userType: UserType, logs: EffectLog[]): EffectLog[] {
+  return logs.map((log) => ({ ...log, effects: weightEffects(userType, log.effects) }));
 }
@@ -0,0 +1,35 @@
+/** AI 라우트 실패 이유 (src/ai/llm 에서 생성, 클라이언트에서 분기) */
+export type AiErrorReason =
+  | "INVALID_INPUT"
+  | "UNAUTHORIZED"
+  | "QUOTA_EXCEEDED"
+  | "TOO_MANY_REQUESTS"
+  | "NOT_CONFIGURED"
+  | "TIMEOUT"
+  | "RATE_LIMITED"
+  | "HTTP_ERROR"
+  | "NETWORK_ERROR"
+  | "EMPTY_RESPONSE"
+  | "INVALID_JSON"
+  | "SCHEMA_MISMATCH";
+
+export type AiRouteError = {
+  reason: AiErrorReason;
+  message?: string;
+  /** 429일 때 다시 시도 가능한 시점까지 남은 초 */
+  retryAfterSec?: number;
+};
+
+/** /api/ai/* 응답 본문. 실패 시 result는 null */
+export type AiRouteResponse<T> = {
+  result: T | null;
+  error?: AiRouteError;
+};
+
+/** 사용자별 하루 사용량 (users/{uid}/aiUsage/{dateKey}) */
+export type AiUsage = {
+  dateKey: string;
+  total: number;
+  /** 라우트 이름 → 호출 수 */
+  routes: Record<string, number>;
+};
@@ -0,0 +1,8 @@
+/** users/{uid}/events/{eventId} 캘린더 일정 */
+export type CalendarEvent = {
+  id: string;
+  title: string;
+  dateKey: string;
+  time: string;
+  createdAt?: unknown;
+};
@@ -0,0 +1,48 @@
+/** 내보내기 파일의 문서 하나. data는 JSON으로 바꾼 값 (Timestamp → { __timestamp: ISO }) */
+export type ArchivedDoc = {
+  id: string;
+  data: Record<string, unknown>;
+};
+
+/** days/{dateKey} 문서와 하위 컬렉션. 기록 문서 없이 투두만 있는 날도 있다 */
+export type ArchivedDay = {
+  dateKey: string;
+  log: Record<string, unknown> | null;
+  todos: ArchivedDoc[];
+  todoInterventions: ArchivedDoc[];
+};
+
+/**
+ * users/{uid} 전체 내보내기 (버전 있는 JSON).
+ * pushTokens(기기별)와 aiUsage(서버 기록)는 옮기지 않는다.
+ */
+export type DataArchive = {
+  format: "to-day-export";
+  version: 1;
+  exportedAt: string;
+  sourceUserId: string;
+  settings: Record<string, unknown> | null;
+  days: ArchivedDay[];
+  designPlans: ArchivedDoc[];
+  yearGoals: ArchivedDoc[];
+  goalTracks: ArchivedDoc[];
+  goalTrackEvents: ArchivedDoc[];
+  goalTrackWeeklyReviews: ArchivedDoc[];
+  recurrences: ArchivedDoc[];
+  records: ArchivedDoc[];
+  events: ArchivedDoc[];
+  /** 루틴 실행 기록. 이 항목이 생기기 전에 내보낸 파일에는 없다 */
+  routineRuns?: ArchivedDoc[];
+  /** 투두 완료 효과 기록. 이 항목이 생기기 전에 내보낸 파일에는 없다 */
+  effectLogs?: ArchivedDoc[];
+  /** 보호 시간 구간 기록. 이 항목이 생기기 전에 내보낸 파일에는 없다 */
+  protectSessions?: ArchivedDoc[];
+  /** 방해 앱 타이머 기록. 이 항목이 생기기 전에 내보낸 파일에는 없다 */
+  protectBypasses?: ArchivedDoc[];
+};
+
+/** 목록형 컬렉션 이름 (settings, days 제외) */
+export type ArchivedCollectionName = Exclude<
+  keyof DataArchive,
+  "format" | "version" | "exportedAt" | "sourceUserId" | "settings" | "days"
+>;
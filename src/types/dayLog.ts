@@ -0,0 +1,6 @@
+/** users/{uid}/days/{dateKey} 하루 기록 */
+export type DayLog = {
+  did: string;
+  learned: string;
+  reviewedAt?: unknown | null;
+};
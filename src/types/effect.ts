@@ -13,3 +13,46 @@ export interface Effect {
   type: EffectType;
   intensity: 1 | 2 | 3;
 }
+
+/**
+ * 투두를 완료하며 고른 효과 한 건. users/{uid}/effectLogs/{dateKey}_{todoId}
+ * 투두 문서의 effects와 같은 값을, 기간으로 모아 보기 쉽게 따로 남긴다.
+ */
+export type EffectLog = {
+  id: string;
+  todoId: string;
+  todoText: string;
+  dateKey: string;
+  goalTrackId: string | null;
+  effects: Effect[];
+  createdAt: Date | null;
+};
+
+export type EffectLogInput = Omit<EffectLog, "id" | "createdAt">;
+
+/** 효과 집계 단위 */
+export type EffectPeriod = "week" | "month";
+
+/** 효과 종류별 합계. share는 강도 합 기준 비율(%) */
+export type EffectTypeTotal = {
+  type: EffectType;
+  count: number;
+  intensitySum: number;
+  share: number;
+};
+
+/** 기간 하나(주: 월요일 dateKey, 달: YYYY-MM)의 효과 종류별 강도 합 */
+export type EffectTrendBucket = {
+  periodKey: string;
+  totals: Record<EffectType, number>;
+};
+
+/** 목표 트랙·키워드 하나에서 나온 효과 */
+export type EffectSourceSummary = {
+  key: string;
+  label: string;
+  /** 효과를 남긴 완료 수 */
+  count: number;
+  /** 강도 합 내림차순 */
+  totals: EffectTypeTotal[];
+};
@@ -1,5 +1,29 @@
+export type GoalCoachMode = "SPECIFY" | "REALITY_CHECK" | "BREAK_DOWN";
+
+export type GoalCoachResult = {
+  questions: string[];
+  suggestion: string;
+};
+
+/** 주간 실행 계획 (weekKey = 월요일 dateKey) */
+export type WeeklyActionPlan = {
+  weekKey: string;
+  rationale: string;
+  todos: Array<{
+    text: string;
+    /** 0=일 … 6=토 (Date.getDay()) */
+    weekdays?: number[];
+    weekday?: number | null;
+    goalTrackId?: string;
+  }>;
+  /** 0~100. 주가 끝난 뒤 완료 투두로 계산 */
+  achievedRate?: number;
+};
+
+/** users/{uid}/yearGoals/{designPlanId} — 설계(DesignPlan) 하나당 하나 */
 export type YearGoal = {
   id: string;
+  designPlanId: string;
   yearGoal: string;
   deadlineDate?: string;
   currentPosition: {
@@ -10,17 +34,12 @@ export type YearGoal = {
   };
   threeMonthGoal: string;
   weeklyState?: string;
-  weeklyActionPlan?: {
-    weekKey: string;
-    rationale: string;
-    todos: Array<{
-      text: string;
-      weekdays?: number[];
-      weekday?: number | null;
-    }>;
-    achievedRate?: number;
-  };
+  weeklyActionPlan?: WeeklyActionPlan;
+  /** 새 계획으로 바뀐 지난 계획들 (achievedRate를 계산해 남긴다). 최근 주가 먼저 */
+  weeklyActionPlanHistory?: WeeklyActionPlan[];
+  /** 0~100. 연결된 GoalTrack 실행 이벤트로 계산 (domain/goalProgress) */
   progress: number;
+  /** 진행률 계산 시작일 (없으면 createdAt 날짜) */
+  startDateKey?: string;
   createdAt: Date;
 };
-
@@ -0,0 +1,45 @@
+import type { OutcomeSense } from "@/types/goalTrackWeeklyReview";
+
+/** 지표가 좋아지는 방향 (늘어야 좋은지, 줄어야 좋은지) */
+export type GoalMetricDirection = "increase" | "decrease";
+
+/** 목표 트랙의 결과 지표 정의. 주간 회고의 metricValue를 이 기준으로 읽는다 */
+export type GoalMetric = {
+  label: string;
+  unit: string;
+  direction: GoalMetricDirection;
+  /** 목표 값. 없으면 목표선 없이 추세만 */
+  targetValue: number | null;
+  /** 목표 기한 dateKey. 없으면 추세 연장 없음 */
+  deadline: string | null;
+};
+
+/** 회고 한 주의 지표 값 */
+export type GoalMetricPoint = {
+  weekStartKey: string;
+  value: number;
+};
+
+/** 최근 값들의 직선 추세를 기한까지 연장한 결과 */
+export type GoalMetricProjection = {
+  /** 주당 변화량 */
+  slopePerWeek: number;
+  /** 기한 주의 예상 값 */
+  projectedValue: number;
+  /** 오늘부터 기한까지 남은 주 (0 이상) */
+  weeksLeft: number;
+  /** 목표를 기한 안에 넘는지. 목표 값이 없으면 null */
+  onTrack: boolean | null;
+  /** 목표까지 남은 주마다 필요한 변화량. 목표 값이 없거나 기한이 지났으면 null */
+  requiredPerWeek: number | null;
+};
+
+/** 숫자 없이 체감만 남기는 트랙의 체감 요약 */
+export type GoalSenseSummary = {
+  counts: Record<OutcomeSense, number>;
+  total: number;
+  /** 최근 체감 (오래된 순) */
+  recent: Array<{ weekStartKey: string; sense: OutcomeSense }>;
+  /** 가장 최근부터 같은 체감이 이어진 주 수 */
+  streak: { sense: OutcomeSense; weeks: number } | null;
+};
@@ -1,3 +1,5 @@
+import type { GoalMetric } from "@/types/goalMetric";
+
 /** 0=일, 1=월, 2=화, 3=수, 4=목, 5=금, 6=토 (Date.getDay()와 동일) */
 export type GoalTrack = {
   id: string;
@@ -5,5 +7,7 @@ export type GoalTrack = {
   title: string;
   /** 평가 요일. 기본 6(토). undefined면 6으로 처리 */
   reviewWeekday?: number;
+  /** 결과 지표 정의. 없으면 회고의 지표 값만 따로 남는다 */
+  metric?: GoalMetric;
   createdAt: string;
 };
@@ -0,0 +1,31 @@
+import type { OutcomeSense, WeeklyStatus } from "@/types/goalTrackWeeklyReview";
+
+/** 추이 기간 (주) */
+export type GoalTrendRange = 4 | 12 | 52;
+
+/** 목표 트랙 추이의 한 주 (월요일 weekStartKey 기준) */
+export type GoalTrendWeek = {
+  weekStartKey: string;
+  /** 실행한 날 수 (0~7) */
+  executedDays: number;
+  /** 실행 기록 수 */
+  eventCount: number;
+  /** 연결 투두 완료 / 전체 */
+  todoDone: number;
+  todoTotal: number;
+  /** 0~100. 연결 투두가 없으면 null */
+  completionRate: number | null;
+  /** 그 주 회고의 상태. 회고가 없으면 null */
+  status: WeeklyStatus | null;
+  /** 회고 결과 스냅샷 (metric 모드) */
+  metricValue: number | null;
+  /** 회고 결과 스냅샷 (sense 모드) */
+  sense: OutcomeSense | null;
+};
+
+export type GoalTrend = {
+  weeks: GoalTrendWeek[];
+  /** 가장 최근 metric 라벨·단위 (차트 범례용) */
+  metricLabel: string;
+  metricUnit: string;
+};
@@ -0,0 +1,45 @@
+/** 예약 알림 종류. 스케줄러(functions/index.js)가 종류별로 보내기 전 확인을 한다 */
+export const NOTIFICATION_JOB_TYPES = [
+  "wake",
+  "protectStart",
+  "protectEnd",
+  "weeklyReview",
+  "todoDue",
+] as const;
+export type NotificationJobType = (typeof NOTIFICATION_JOB_TYPES)[number];
+
+/** 반복 예약. weekdays는 0=일 … 6=토, 비어 있으면 매일 */
+export type NotificationRecurrence = {
+  time: string;
+  timeZone: string;
+  weekdays: number[];
+};
+
+/** 푸시 내용. data 값은 FCM 제약 때문에 모두 문자열 */
+export type NotificationPayload = {
+  title: string;
+  body: string;
+  /** 알림을 눌렀을 때 열 앱 주소 */
+  link: string | null;
+  data: Record<string, string>;
+};
+
+/**
+ * notificationJobs/{userId}_{type}_{dedupeKey}
+ * 같은 dedupeKey로 다시 예약하면 덮어쓴다. 한 번짜리는 보낸 뒤 지우고,
+ * 반복 예약은 fireAt을 다음 시각으로 옮긴다.
+ */
+export type NotificationJob = {
+  id: string;
+  userId: string;
+  type: NotificationJobType;
+  fireAt: Date;
+  payload: NotificationPayload;
+  dedupeKey: string;
+  recurrence: NotificationRecurrence | null;
+};
+
+export type NotificationJobInput = Omit<NotificationJob, "id">;
+
+/** users/{uid}/notificationLogs/{id} (서버만 쓴다) */
+export type NotificationDeliveryStatus = "sent" | "skipped" | "noTokens" | "failed";
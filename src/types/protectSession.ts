@@ -0,0 +1,56 @@
+/** users/{uid}/protectSessions/{dateKey}_{windowId}: 하루의 보호 시간 한 구간 */
+export type ProtectSession = {
+  id: string;
+  dateKey: string;
+  windowId: string;
+  /** HH:MM (사용자 시간대) */
+  start: string;
+  end: string;
+  startsAt: Date;
+  endsAt: Date;
+  /** 이 구간에 시작한 방해 앱 타이머 수 */
+  bypassCount: number;
+};
+
+export type ProtectSessionInput = Omit<ProtectSession, "id" | "bypassCount">;
+
+/**
+ * users/{uid}/protectBypasses/{id}: 방해 앱 타이머를 한 번 시작한 기록.
+ * 보호 시간 밖에서 시작했으면 sessionId와 보호 구간이 null
+ */
+export type ProtectBypass = {
+  id: string;
+  sessionId: string | null;
+  dateKey: string;
+  appId: string;
+  appLabel: string;
+  /** 정한 타이머 분 */
+  minutes: number;
+  startedAt: Date;
+  /** 타이머가 끝나는 시각 (startedAt + minutes) */
+  endsAt: Date;
+  /** "돌아가기"를 누른 시각. 아직 안 눌렀으면 null */
+  endedAt: Date | null;
+  protectStartsAt: Date | null;
+  protectEndsAt: Date | null;
+  /** 타이머가 보호 시간 안에 끝났다 (그 뒤로 돌아오기까지는 초과 사용) */
+  overran: boolean;
+  /** 타이머가 끝나고 돌아오기까지 보호 시간 안에서 더 쓴 분. 돌아왔을 때 기록 */
+  overrunMinutes: number | null;
+};
+
+export type ProtectBypassInput = Omit<
+  ProtectBypass,
+  "id" | "endedAt" | "overran" | "overrunMinutes"
+>;
+
+/** 하루 보호 시간 중 앱별 사용 요약 */
+export type ProtectAppSummary = {
+  appId: string;
+  appLabel: string;
+  bypassCount: number;
+  /** 보호 시간 안에서 쓴 분 */
+  minutes: number;
+  overrunCount: number;
+  overrunMinutes: number;
+};
@@ -0,0 +1,26 @@
+/** 반복 규칙. weekdays는 0=일 … 6=토 (Date.getDay()와 동일) */
+export type RecurrenceRule =
+  | { kind: "daily" }
+  | { kind: "weekdays"; weekdays: number[] }
+  | { kind: "interval"; everyDays: number }
+  | { kind: "monthly"; dayOfMonth: number };
+
+export type RecurrenceKind = RecurrenceRule["kind"];
+
+/** users/{uid}/recurrences/{id} */
+export type TodoRecurrence = {
+  id: string;
+  text: string;
+  goalTrackId: string | null;
+  rule: RecurrenceRule;
+  /** 반복 시작일 (interval 계산 기준) */
+  startDateKey: string;
+  /** 이 날짜까지만 생성. null이면 무기한 */
+  endDateKey: string | null;
+  /** "이번만 삭제"로 건너뛴 날짜 */
+  skippedDateKeys: string[];
+  createdAt: string;
+};
+
+/** 반복 투두 편집 범위: 이번만 / 이후 모두 */
+export type RecurrenceEditScope = "this" | "future";
@@ -0,0 +1,39 @@
+import type { GoalTrackWeeklyReview, WeeklyStatus } from "@/types/goalTrackWeeklyReview";
+
+/** 다음 주 실행 규칙 하나 (weekdays: 0=일 … 6=토) */
+export type ReviewRule = { text: string; weekdays?: number[] };
+
+/**
+ * 규칙이 다음 주에 지켜졌는지.
+ * followed: 계획한 만큼 완료 / partial: 일부만 완료 / notDone: 투두는 있었지만 완료 없음
+ * notScheduled: 투두로 옮기지 않음 / inProgress: 그 주가 아직 안 끝남
+ */
+export type RuleFollowStatus = "followed" | "partial" | "notDone" | "notScheduled" | "inProgress";
+
+export type ReviewRuleCheck = ReviewRule & {
+  status: RuleFollowStatus;
+  /** 다음 주에 같은 문구로 만든 연결 투두 수 / 그중 완료 수 */
+  todoCount: number;
+  doneCount: number;
+};
+
+/** 이전 평가 대비 규칙 변화 (문구 기준) */
+export type ReviewRuleDiff = {
+  added: ReviewRule[];
+  removed: ReviewRule[];
+  /** 문구는 같고 요일만 바뀐 규칙 */
+  rescheduled: Array<{ text: string; fromWeekdays: number[]; toWeekdays: number[] }>;
+  kept: ReviewRule[];
+};
+
+export type ReviewHistoryEntry = {
+  review: GoalTrackWeeklyReview;
+  status: WeeklyStatus;
+  /** 규칙을 실행할 주 (평가한 주의 다음 주 월요일) */
+  followWeekStartKey: string;
+  rules: ReviewRuleCheck[];
+  /** 바로 이전 평가와 비교. 첫 평가면 null */
+  diff: ReviewRuleDiff | null;
+  /** 비교한 이전 평가의 주 */
+  previousWeekStartKey: string | null;
+};
@@ -0,0 +1,73 @@
+/** 루틴 실행 한 번 안의 할 일 하나 */
+export type RoutineRunTask = {
+  taskId: string;
+  /** 실행할 때의 제목 (나중에 이름을 바꾸거나 지워도 기록은 남는다) */
+  title: string;
+  completed: boolean;
+  /** 건너뛰기로 넘긴 할 일 (completed는 false) */
+  skipped: boolean;
+  /** 끝내거나 건너뛴 시각 */
+  completedAt: Date | null;
+  /** 이 할 일에 실제로 쓴 초 (일시정지한 시간 제외) */
+  durationSeconds: number | null;
+  /** 실행할 때의 목표 초. 없으면 null */
+  targetSeconds: number | null;
+};
+
+/** 실행 화면에서 할 일 하나를 끝내는 방법 */
+export type RoutineTaskOutcome = "done" | "skipped";
+
+/**
+ * users/{uid}/routineRuns/{routineId}_{dateKey}: 루틴을 그날 실행한 기록.
+ * 예전 settings의 completionHistory에서 옮긴 기록은 시각과 할 일이 비어 있다
+ */
+export type RoutineRun = {
+  id: string;
+  routineId: string;
+  dateKey: string;
+  startedAt: Date | null;
+  /** 마지막 할 일까지 끝낸 시각 */
+  completedAt: Date | null;
+  /** 모든 할 일을 끝내거나 건너뛰었고, 하나 이상은 끝냈다 */
+  completed: boolean;
+  tasks: RoutineRunTask[];
+};
+
+export type RoutineRunInput = Omit<RoutineRun, "id">;
+
+/** 실행 기록에서 계산한 루틴 통계 */
+export type RoutineStats = {
+  streak: number;
+  /** 이번 달 1일부터 오늘까지 완료한 날의 비율 (0~100) */
+  monthlySuccessRate: number;
+  lastCompletedDate: string;
+};
+
+/** 히트맵 한 칸. done=완료, partial=시작만 함, none=안 함, future=아직 안 온 날 */
+export type RoutineHeatmapLevel = "done" | "partial" | "none" | "future";
+
+export type RoutineHeatmapCell = {
+  dateKey: string;
+  level: RoutineHeatmapLevel;
+};
+
+/** 할 일별 건너뛴 비율 (그 할 일이 있던 실행 기준) */
+export type RoutineTaskSkipRate = {
+  taskId: string;
+  title: string;
+  runs: number;
+  skipped: number;
+  /** 0~100 */
+  skipRate: number;
+  /** 끝낸 실행의 평균 걸린 초. 기록이 없으면 null */
+  averageSeconds: number | null;
+  /** 지금 루틴의 목표 초 */
+  targetSeconds: number | null;
+};
+
+/** 실행 한 번의 실제 시간과 계획 시간 */
+export type RoutineRunDuration = {
+  actualSeconds: number;
+  /** 목표가 있는 할 일의 목표 합. 목표가 하나도 없으면 null */
+  plannedSeconds: number | null;
+};
@@ -0,0 +1,121 @@
+import type { CarryOverMode } from "@/domain/carryOver";
+
+/** 사용자 유형. 유형별 차이는 domain/userType의 USER_TYPE_PROFILES */
+export const USER_TYPES = ["neutral", "morningStarter", "deadlineDriven", "lowEnergy"] as const;
+export type UserType = (typeof USER_TYPES)[number];
+
+export type DistractionApp = {
+  id: string;
+  label: string;
+  minutes: number;
+};
+
+/** 보호 시간 구간. end가 start보다 이르거나 같으면 자정을 넘겨 다음 날 end에 끝난다 */
+export type ProtectWindow = {
+  id: string;
+  label: string;
+  /** 0=일 … 6=토. 비어 있으면 매일 */
+  weekdays: number[];
+  start: string;
+  end: string;
+  /** 이 구간에 타이머로 여는 방해 앱 */
+  distractionApps: DistractionApp[];
+};
+
+export type RoutineType = "morning" | "night" | "custom";
+export type RoutineTriggerType = "alarm" | "manual" | "location";
+
+export type RoutineTask = {
+  id: string;
+  title: string;
+  /** 목표 시간(초). 있으면 실행 화면에서 카운트다운하고, 끝나면 다음 할 일로 넘어간다 */
+  targetSeconds?: number;
+};
+
+/** 위치 트리거 장소. 반경 안에서 앱을 열면 그 루틴을 홈에 띄운다 */
+export type RoutinePlace = {
+  label: string;
+  lat: number;
+  lng: number;
+  radiusMeters: number;
+};
+
+/** 루틴 정의. 실행·완료 기록과 통계는 users/{uid}/routineRuns (types/routineRun) */
+export type RoutineItem = {
+  id: string;
+  title: string;
+  type: RoutineType;
+  triggerType?: RoutineTriggerType;
+  tasks: RoutineTask[];
+  /** triggerType이 location일 때의 장소 */
+  place?: RoutinePlace;
+  /** 장소에 도착했는데 그날 아직 안 했으면 알림 */
+  arrivalReminder?: boolean;
+};
+
+export type RoutineCollection = {
+  routines: RoutineItem[];
+};
+
+export type WakeAlarm = {
+  id: string;
+  time: string;
+  enabled: boolean;
+};
+
+/** users/{uid}/settings/main */
+export type Settings = {
+  userType: UserType;
+  /** 유형 설문을 끝냈는지 (건너뛰어도 true). 없으면 홈에 설문을 띄운다 */
+  userTypeAnswered?: boolean;
+  /** 예전 투두의 effects를 effectLogs로 옮겼는지 (한 번만) */
+  effectLogsBackfilled?: boolean;
+  wakeTime: string;
+  wakeEnabled?: boolean;
+  wakeConsent?: boolean;
+  wakeTimes?: WakeAlarm[];
+  protectEnabled: boolean;
+  /** 예전 단일 보호 시간. protectWindows가 없을 때만 쓴다 */
+  protectStart: string;
+  protectEnd: string;
+  /** @deprecated 예전 단일 구간의 앱 목록. 새 구간을 만들 때 기본 목록으로 쓴다 */
+  distractionApps?: DistractionApp[];
+  /** 요일별 보호 시간 구간. 없으면 protectStart~protectEnd 매일 한 구간(예전 형식) */
+  protectWindows?: ProtectWindow[];
+  wakeRoutine?: RoutineCollection | RoutineItem[];
+  carryOverMode?: CarryOverMode;
+  carryOverMaxHops?: number;
+  /** IANA 시간대 (예: Asia/Seoul). dateKey·주·기상 알림이 모두 이 기준. 없으면 기기 시간대 */
+  timeZone?: string;
+  /** 투두 마감 푸시 알림 (기본 켜짐) */
+  dueRemindersEnabled?: boolean;
+  /** 마감 몇 분 전에 알릴지 */
+  dueReminderLeadMinutes?: number;
+  /** 목표별 평가 요일 푸시 알림 (기본 켜짐) */
+  weeklyReviewReminderEnabled?: boolean;
+  /** 평가 요일 알림 시각 (HH:MM) */
+  weeklyReviewReminderTime?: string;
+  /** 하루가 시작되는 시각 (HH:MM, 정오 전). 이 시각 전의 완료·기록은 전날 dateKey로 남는다 */
+  dayStartsAt?: string;
+};
+
+/** 저장된 settings/main 문서. 예전 형식(wakeTimes 문자열 배열 등)이 섞여 있을 수 있다 */
+export type StoredSettings = Omit<Partial<Settings>, "wakeTimes"> & {
+  wakeTimes?: Array<string | Partial<WakeAlarm>>;
+  wakeConsentAt?: unknown;
+  /** wakeRoutine을 쓸 때마다 1씩 올라간다. 다른 기기와의 충돌 감지용 */
+  wakeRoutineRevision?: number;
+  /** 시간대를 바꾸기 전 값과 바꾼 시각. 이미 저장된 dateKey는 다시 계산하지 않는다 */
+  previousTimeZone?: string;
+  timeZoneChangedAt?: unknown;
+  /** 마지막으로 맞춘 기상·보호 시간·평가 요일 알림 예약 (notificationJobs). 바뀌었을 때만 다시 쓴다 */
+  notificationJobsSignature?: string;
+  /** 서버 이월(Cloud Functions)이 마지막으로 처리한 사용자 시간대 기준 날짜 */
+  lastCarryOverDateKey?: string;
+};
+
+/** 기상 루틴 편집의 기준점 (편집을 시작할 때 본 서버 값) */
+export type WakeRoutineBase = {
+  revision: number;
+  routines: RoutineItem[];
+};
@@ -0,0 +1,33 @@
+import type { Effect } from "@/types/effect";
+import type { MissedReasonType } from "@/types/missed-reason";
+
+/** users/{uid}/days/{dateKey}/todos/{todoId} */
+export type TodoItem = {
+  id: string;
+  text: string;
+  done: boolean;
+  effects?: Effect[];
+  createdAt?: unknown;
+  completedAt?: unknown;
+  dueAt?: unknown;
+  /** 마감 알림을 이 시각까지 미뤘다 (Timestamp) */
+  dueSnoozedUntil?: unknown;
+  missedReasonType?: MissedReasonType | null;
+  goalId?: string | null;
+  goalTrackId?: string | null;
+  /** 반복 규칙에서 생성된 투두면 users/{uid}/recurrences/{id} */
+  recurrenceId?: string | null;
+  /** 이월로 넘어온 투두의 원래 날짜 */
+  carriedFromDateKey?: string | null;
+  /** 지금까지 이월된 횟수 */
+  carryOverCount?: number;
+  /** 최대 이월 횟수를 넘겨 결정을 기다리는 투두 */
+  carryOverStale?: boolean;
+};
+
+/** 새 투두 입력값 (createdAt 등은 저장할 때 채움) */
+export type TodoInput = {
+  text: string;
+  goalTrackId?: string | null;
+  dueAt?: Date | null;
+};
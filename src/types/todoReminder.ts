@@ -0,0 +1,10 @@
+/** before=마감 N분 전, overdue=마감 지남, snooze=미룬 시각 */
+export type TodoReminderKind = "before" | "overdue" | "snooze";
+
+/** 알림 클릭으로 열린 투두 링크 (/?tab=todos&date=...&todo=...) */
+export type TodoDeepLink = {
+  dateKey: string;
+  todoId: string;
+  /** 알림의 "미루기" 버튼으로 열렸으면 미룰 분 */
+  snoozeMinutes: number | null;
+};
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+/** firestore.rules 검사. Firestore 에뮬레이터 안에서 돈다 (npm run test:rules) */
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL("./src", import.meta.url)) },
+  },
+  test: {
+    environment: "node",
+    include: ["firestore.rules.test.ts"],
+    testTimeout: 20000,
+    hookTimeout: 20000,
+  },
+});